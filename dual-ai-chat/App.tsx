@@ -1,13 +1,19 @@
 
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { ChatMessage, MessageSender, MessagePurpose, DiscussionMode, ApiChannelOverride } from './types';
+import { ChatMessage, MessageSender, MessagePurpose, DiscussionMode, ApiChannelOverride, DiscussionParticipant, MessageAgentInfo, ModeratorSettings, ChatMessageAlternate, DiscussionBudget, FinalAnswerFormatSettings, ChatMessageExtras, DiscussionRouteChoice } from './types';
 import ChatInput from './components/ChatInput';
+import DiscussionControlBar from './components/DiscussionControlBar';
+import InterruptedRunBanner from './components/InterruptedRunBanner';
+import ChannelQueueBanner from './components/ChannelQueueBanner';
 import MessageBubble from './components/MessageBubble';
+import ToolCallEntry from './components/ToolCallEntry';
 import Notepad from './components/Notepad';
 import SettingsModal from './components/SettingsModal';
 import SessionManager from './components/SessionManager';
+import SessionReplay from './components/SessionReplay';
 import RoleManager from './components/RoleManager';
+import ProtocolManager from './components/ProtocolManager';
 import {
   MODELS,
   DEFAULT_COGNITO_MODEL_API_NAME,
@@ -32,6 +38,17 @@ import {
   DEFAULT_OPENAI_COGNITO_MODEL_ID,
   DEFAULT_OPENAI_MUSE_MODEL_ID,
   STREAM_MODE_STORAGE_KEY,
+  DISCUSSION_PARTICIPANTS_STORAGE_KEY,
+  MODERATOR_SETTINGS_STORAGE_KEY,
+  DEFAULT_MODERATOR_SETTINGS,
+  DISCUSSION_BUDGET_STORAGE_KEY,
+  DEFAULT_DISCUSSION_BUDGET,
+  FINAL_ANSWER_FORMAT_STORAGE_KEY,
+  ADAPTIVE_ROUTING_STORAGE_KEY,
+  AGENT_TOOLS_ENABLED_STORAGE_KEY,
+  DEFAULT_FINAL_ANSWER_FORMAT,
+  DISCUSSION_PROTOCOL_ID_STORAGE_KEY,
+  DEFAULT_DISCUSSION_PROTOCOL_ID,
 } from './constants';
 import { BotMessageSquare, AlertTriangle, RefreshCcw as RefreshCwIcon, Settings2, Brain, Sparkles, History, Users, FileText } from 'lucide-react';
 import { Button } from './components/ui/button';
@@ -40,12 +57,20 @@ import { cn } from './lib/utils';
 
 import { useChatLogic } from './hooks/useChatLogic';
 import { useNotepadLogic } from './hooks/useNotepadLogic';
+import { loadNotepadHistory, saveNotepadHistory } from './hooks/useNotepadHistory';
+import { getMessagesUpToBranchPoint, getNotepadHistoryAtBranchPoint, getNotepadVersionsBefore } from './utils/sessionBranching';
 import { useAppUI } from './hooks/useAppUI';
 import { useChatSessions } from './hooks/useChatSessions';
 import { useCustomRoles } from './hooks/useCustomRoles';
+import { useDiscussionProtocols } from './hooks/useDiscussionProtocols';
 import { useApiChannels } from './hooks/useApiChannels';
+import { useModelCatalog } from './hooks/useModelCatalog';
 import { migrateFromLegacyConfig } from './utils/channelMigration';
-import { generateUniqueId, getWelcomeMessageText } from './utils/appUtils';
+import { resolveStructuredOutputSpec } from './utils/structuredAnswer';
+import { AgentToolContext } from './services/agentTools';
+import { generateUniqueId, getWelcomeMessageText, groupMessagesForDisplay, messageImageToFile } from './utils/appUtils';
+import { resolveParticipants, DEFAULT_DISCUSSION_PARTICIPANTS, COGNITO_PARTICIPANT_ID, MUSE_PARTICIPANT_ID } from './utils/participants';
+import { resolveModerator } from './utils/moderator';
 
 const DEFAULT_CHAT_PANEL_PERCENT = 60; 
 const FONT_SIZE_STORAGE_KEY = 'dualAiChatFontSizeScale';
@@ -104,6 +129,13 @@ const App: React.FC = () => {
     const storedStream = localStorage.getItem(STREAM_MODE_STORAGE_KEY);
     return storedStream ? storedStream === 'true' : false;
   });
+  const [adaptiveRouting, setAdaptiveRouting] = useState<boolean>(() => {
+    const storedRouting = localStorage.getItem(ADAPTIVE_ROUTING_STORAGE_KEY);
+    return storedRouting ? storedRouting === 'true' : false;
+  });
+  const [toolsEnabled, setToolsEnabled] = useState<boolean>(() => {
+    return localStorage.getItem(AGENT_TOOLS_ENABLED_STORAGE_KEY) === 'true';
+  });
   
   const panelsContainerRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
@@ -111,9 +143,53 @@ const App: React.FC = () => {
 
   // 新功能状态
   const [isSessionManagerOpen, setIsSessionManagerOpen] = useState<boolean>(false);
+  const [replaySessionId, setReplaySessionId] = useState<string | null>(null);
   const [isRoleManagerOpen, setIsRoleManagerOpen] = useState<boolean>(false);
-  const [currentCognitoRoleName, setCurrentCognitoRoleName] = useState<string>('cognito');
-  const [currentMuseRoleName, setCurrentMuseRoleName] = useState<string>('muse');
+  const [isProtocolManagerOpen, setIsProtocolManagerOpen] = useState<boolean>(false);
+  const [discussionProtocolId, setDiscussionProtocolId] = useState<string>(() => {
+    return localStorage.getItem(DISCUSSION_PROTOCOL_ID_STORAGE_KEY) || DEFAULT_DISCUSSION_PROTOCOL_ID;
+  });
+  const [participants, setParticipants] = useState<DiscussionParticipant[]>(() => {
+    try {
+      const stored = localStorage.getItem(DISCUSSION_PARTICIPANTS_STORAGE_KEY);
+      if (stored) {
+        const parsed: DiscussionParticipant[] = JSON.parse(stored);
+        if (Array.isArray(parsed) && parsed.length >= 2) return parsed;
+      }
+    } catch (error) {
+      console.error('加载讨论参与者失败:', error);
+    }
+    return DEFAULT_DISCUSSION_PARTICIPANTS;
+  });
+  const [moderatorSettings, setModeratorSettings] = useState<ModeratorSettings>(() => {
+    try {
+      const stored = localStorage.getItem(MODERATOR_SETTINGS_STORAGE_KEY);
+      if (stored) return { ...DEFAULT_MODERATOR_SETTINGS, ...JSON.parse(stored) };
+    } catch (error) {
+      console.error('加载主持人设置失败:', error);
+    }
+    return DEFAULT_MODERATOR_SETTINGS;
+  });
+  const [discussionBudget, setDiscussionBudget] = useState<DiscussionBudget>(() => {
+    try {
+      const stored = localStorage.getItem(DISCUSSION_BUDGET_STORAGE_KEY);
+      if (stored) return { ...DEFAULT_DISCUSSION_BUDGET, ...JSON.parse(stored) };
+    } catch (error) {
+      console.error('加载讨论预算失败:', error);
+    }
+    return DEFAULT_DISCUSSION_BUDGET;
+  });
+  const [finalAnswerFormat, setFinalAnswerFormat] = useState<FinalAnswerFormatSettings>(() => {
+    try {
+      const stored = localStorage.getItem(FINAL_ANSWER_FORMAT_STORAGE_KEY);
+      if (stored) return { ...DEFAULT_FINAL_ANSWER_FORMAT, ...JSON.parse(stored) };
+    } catch (error) {
+      console.error('加载最终答案格式失败:', error);
+    }
+    return DEFAULT_FINAL_ANSWER_FORMAT;
+  });
+  const currentCognitoRoleName = participants.find(p => p.id === COGNITO_PARTICIPANT_ID)?.roleName || 'cognito';
+  const currentMuseRoleName = participants.find(p => p.id === MUSE_PARTICIPANT_ID)?.roleName || 'muse';
   const [isMobile, setIsMobile] = useState<boolean>(false);
 
 
@@ -139,10 +215,15 @@ const App: React.FC = () => {
     sessions,
     currentSessionId,
     createNewSession,
+    createBranchSession,
     updateCurrentSession,
     switchToSession,
     deleteSession,
     renameSession,
+    updateSessionParticipants,
+    updateSessionProtocol,
+    updateSessionBudget,
+    updateSessionChannel,
     getSessionChannel,
     exportSessions,
     importSessions,
@@ -159,8 +240,20 @@ const App: React.FC = () => {
     duplicateRole,
   } = useCustomRoles();
 
+  // 讨论协议管理hooks
+  const {
+    allProtocols,
+    createProtocol,
+    updateProtocol,
+    deleteProtocol,
+    duplicateProtocol,
+    getProtocolById,
+  } = useDiscussionProtocols();
+  const currentProtocol = getProtocolById(discussionProtocolId);
+
   // API渠道管理hooks
   useApiChannels(); // 仅初始化钩子，确保数据迁移等副作用生效
+  const { findDiscoveredModel } = useModelCatalog();
   const [migrationCompleted, setMigrationCompleted] = useState<boolean>(() => {
     return localStorage.getItem('apiChannelMigrationCompleted') === 'true';
   });
@@ -190,23 +283,36 @@ const App: React.FC = () => {
   const {
     notepadContent,
     lastNotepadUpdateBy,
-    processNotepadUpdateFromAI,
+    applyNotepadUpdateFromAI,
     clearNotepadContent,
     setNotepadContentManual,
+    resetNotepadContent,
     undoNotepad,
     redoNotepad,
     canUndo,
     canRedo,
   } = useNotepadLogic(INITIAL_NOTEPAD_CONTENT, currentSessionId || undefined);
 
+  // 编辑用户消息重新生成时，旧的最终答案保留为新最终答案的历史版本
+  const pendingFinalAlternatesRef = useRef<ChatMessageAlternate[] | null>(null);
+  const [pendingEditRun, setPendingEditRun] = useState<{ text: string; image?: ChatMessage['image']; routeChoice?: DiscussionRouteChoice } | null>(null);
+
   const addMessage = useCallback((
     text: string,
     sender: MessageSender,
     purpose: MessagePurpose,
     durationMs?: number,
-    image?: ChatMessage['image']
+    image?: ChatMessage['image'],
+    agent?: MessageAgentInfo,
+    parallelGroupId?: string,
+    extras?: ChatMessageExtras
   ): string => {
     const messageId = generateUniqueId();
+    let alternates: ChatMessageAlternate[] | undefined;
+    if (purpose === MessagePurpose.FinalResponse && pendingFinalAlternatesRef.current) {
+      alternates = pendingFinalAlternatesRef.current;
+      pendingFinalAlternatesRef.current = null;
+    }
     setMessages(prev => [...prev, {
       id: messageId,
       text,
@@ -215,9 +321,21 @@ const App: React.FC = () => {
       timestamp: new Date(),
       durationMs,
       image,
+      agent,
+      parallelGroupId,
+      alternates,
+      ...extras,
     }]);
     return messageId;
   }, []);
+
+  // 更新已有消息（流式输出时逐步写入内容）
+  const updateMessage = useCallback((messageId: string, newText: string, isStreaming?: boolean, durationMs?: number, extras?: ChatMessageExtras) => {
+    setMessages(prev => prev.map(msg => msg.id === messageId
+      ? { ...msg, text: newText, isStreaming, ...(durationMs !== undefined ? { durationMs } : {}), ...extras }
+      : msg
+    ));
+  }, []);
   
   // Determine actual model details based on active API configuration
   const actualCognitoModelDetails: AiModel = useMemo(() => {
@@ -247,6 +365,35 @@ const App: React.FC = () => {
   }, [useOpenAiApiConfig, openAiMuseModelId, selectedMuseModelApiName]);
 
 
+  const messageDisplayGroups = useMemo(() => groupMessagesForDisplay(messages), [messages]);
+
+  // 解析讨论参与者（角色、提示词、模型、渠道）
+  const resolvedParticipants = useMemo(() => resolveParticipants(participants, {
+    getRoleByName,
+    cognitoSystemPrompt,
+    museSystemPrompt,
+    cognitoModelDetails: actualCognitoModelDetails,
+    museModelDetails: actualMuseModelDetails,
+    findDiscoveredModel,
+  }), [participants, getRoleByName, cognitoSystemPrompt, museSystemPrompt, actualCognitoModelDetails, actualMuseModelDetails, findDiscoveredModel]);
+
+  const resolvedModerator = useMemo(
+    () => resolveModerator(moderatorSettings, getRoleByName, resolvedParticipants[0]?.modelDetails || actualCognitoModelDetails, findDiscoveredModel),
+    [moderatorSettings, getRoleByName, resolvedParticipants, actualCognitoModelDetails, findDiscoveredModel]
+  );
+
+  // 最终答案的 JSON Schema：自定义 Schema 无效时回退为 Markdown，并在设置中提示错误
+  const structuredOutput = useMemo(() => resolveStructuredOutputSpec(finalAnswerFormat), [finalAnswerFormat]);
+
+  const replaySession = useMemo(() => sessions.find(s => s.id === replaySessionId) || null, [sessions, replaySessionId]);
+  const replayNotepadHistory = useMemo(() => loadNotepadHistory(replaySessionId || undefined), [replaySessionId]);
+
+  // 工具读取的应用数据：历史会话与当前会话的记事本历史
+  const toolContext: AgentToolContext = useMemo(() => ({
+    getSessions: () => sessions,
+    getNotepadHistory: () => loadNotepadHistory(currentSessionId || undefined),
+  }), [sessions, currentSessionId]);
+
   // 提供给useChatLogic的消息获取函数
   const getAllMessages = useCallback(() => {
     // 🔍 DEBUG: 监控getAllMessages调用
@@ -280,6 +427,13 @@ const App: React.FC = () => {
     return undefined;
   }, [currentSessionId, getSessionChannel]);
 
+  // 会话级备用渠道保存在会话的渠道覆盖设置中
+  const handleSessionFallbackChannelsChange = useCallback((fallbackChannelIds: string[] | undefined) => {
+    if (!currentSessionId) return;
+    const { channelId, channelOverride } = getSessionChannel(currentSessionId);
+    updateSessionChannel(currentSessionId, channelId, { ...channelOverride, fallbackChannelIds });
+  }, [currentSessionId, getSessionChannel, updateSessionChannel]);
+
   const {
     isLoading,
     failedStepInfo,
@@ -290,12 +444,27 @@ const App: React.FC = () => {
     currentDiscussionTurn,
     isInternalDiscussionActive,
     lastCompletedTurnCount, // Added
+    currentPhase,
+    isPaused,
+    pauseDiscussion,
+    resumeDiscussion,
+    addSteeringNote,
+    skipNextSpeaker,
+    forceFinalAnswer,
+    discussionUsage,
+    extensionOffer,
+    respondToExtensionOffer,
+    interruptedRun,
+    resumeInterruptedRun,
+    dismissInterruptedRun,
   } = useChatLogic({
     addMessage,
-    processNotepadUpdateFromAI,
+    updateMessage,
+    applyNotepadUpdateFromAI,
     setGlobalApiKeyStatus: setApiKeyStatus,
-    cognitoModelDetails: actualCognitoModelDetails,
-    museModelDetails: actualMuseModelDetails,
+    participants: resolvedParticipants,
+    moderator: resolvedModerator,
+    protocol: currentProtocol,
     // Gemini Custom Config
     useCustomApiConfig,
     customApiKey,
@@ -309,9 +478,13 @@ const App: React.FC = () => {
     // Shared Settings
     discussionMode,
     manualFixedTurns,
+    budget: discussionBudget,
+    structuredAnswer: structuredOutput.spec,
+    adaptiveRouting,
+    toolsEnabled,
+    toolContext,
     isThinkingBudgetActive,
-    cognitoSystemPrompt,
-    museSystemPrompt,
+    streamMode,
     notepadContent,
     startProcessingTimer,
     stopProcessingTimer,
@@ -321,6 +494,7 @@ const App: React.FC = () => {
     getAllMessages,
     getCurrentSessionChannelId,
     getCurrentSessionChannelOverride,
+    currentSessionId,
   });
 
   // Save Gemini custom config
@@ -349,6 +523,62 @@ const App: React.FC = () => {
     localStorage.setItem('dualAiChatStreamMode', streamMode.toString());
   }, [streamMode]);
 
+  useEffect(() => {
+    localStorage.setItem(ADAPTIVE_ROUTING_STORAGE_KEY, adaptiveRouting.toString());
+  }, [adaptiveRouting]);
+
+  useEffect(() => {
+    localStorage.setItem(AGENT_TOOLS_ENABLED_STORAGE_KEY, toolsEnabled.toString());
+  }, [toolsEnabled]);
+
+  // 保存讨论参与者（全局默认 + 当前会话）
+  useEffect(() => {
+    try {
+      localStorage.setItem(DISCUSSION_PARTICIPANTS_STORAGE_KEY, JSON.stringify(participants));
+    } catch (error) {
+      console.error('保存讨论参与者失败:', error);
+    }
+    if (currentSessionId) {
+      updateSessionParticipants(currentSessionId, participants);
+    }
+  }, [participants, currentSessionId, updateSessionParticipants]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(MODERATOR_SETTINGS_STORAGE_KEY, JSON.stringify(moderatorSettings));
+    } catch (error) {
+      console.error('保存主持人设置失败:', error);
+    }
+  }, [moderatorSettings]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(FINAL_ANSWER_FORMAT_STORAGE_KEY, JSON.stringify(finalAnswerFormat));
+    } catch (error) {
+      console.error('保存最终答案格式失败:', error);
+    }
+  }, [finalAnswerFormat]);
+
+  // 保存讨论协议选择（全局默认 + 当前会话）
+  useEffect(() => {
+    localStorage.setItem(DISCUSSION_PROTOCOL_ID_STORAGE_KEY, discussionProtocolId);
+    if (currentSessionId) {
+      updateSessionProtocol(currentSessionId, discussionProtocolId);
+    }
+  }, [discussionProtocolId, currentSessionId, updateSessionProtocol]);
+
+  // 保存讨论预算（全局默认 + 当前会话）
+  useEffect(() => {
+    try {
+      localStorage.setItem(DISCUSSION_BUDGET_STORAGE_KEY, JSON.stringify(discussionBudget));
+    } catch (error) {
+      console.error('保存讨论预算失败:', error);
+    }
+    if (currentSessionId) {
+      updateSessionBudget(currentSessionId, discussionBudget);
+    }
+  }, [discussionBudget, currentSessionId, updateSessionBudget]);
+
   const initializeChat = useCallback(() => {
     setMessages([]);
     clearNotepadContent();
@@ -497,6 +727,19 @@ const App: React.FC = () => {
     initializeChat(); 
   }, [isLoading, stopChatLogicGeneration, initializeChat]);
 
+  const renderMessageBubble = (msg: ChatMessage) => msg.purpose === MessagePurpose.ToolCall ? (
+    <ToolCallEntry key={msg.id} message={msg} />
+  ) : (
+    <MessageBubble
+      key={msg.id}
+      message={msg}
+      failedStepPayloadForThisMessage={failedStepInfo && msg.id === failedStepInfo.originalSystemErrorMsgId ? failedStepInfo : null}
+      onManualRetry={retryFailedStep}
+      onBranchFromMessage={isLoading ? undefined : handleBranchFromMessage}
+      onEditUserMessage={isLoading ? undefined : handleEditUserMessage}
+    />
+  );
+
   const handleStopGeneratingAppLevel = useCallback(() => {
     stopChatLogicGeneration();
   }, [stopChatLogicGeneration]);
@@ -597,13 +840,13 @@ const App: React.FC = () => {
 
   // 会话管理函数
   const handleCreateSession = useCallback((title?: string, channelId?: string, channelOverride?: ApiChannelOverride) => {
-    createNewSession(title, channelId, channelOverride);
+    createNewSession(title, channelId, channelOverride, participants, discussionProtocolId);
     setMessages([]);
     clearNotepadContent();
     setIsNotepadFullscreen(false);
     setIsAutoScrollEnabled(true);
     initializeChat();
-  }, [createNewSession, clearNotepadContent, setIsNotepadFullscreen, initializeChat]);
+  }, [createNewSession, participants, discussionProtocolId, clearNotepadContent, setIsNotepadFullscreen, initializeChat]);
 
 
   const handleSwitchSession = useCallback((sessionId: string) => {
@@ -611,6 +854,15 @@ const App: React.FC = () => {
     if (session) {
       switchToSession(sessionId);
       setMessages(session.messages);
+      if (session.participants && session.participants.length > 0) {
+        setParticipants(session.participants);
+      }
+      if (session.protocolId) {
+        setDiscussionProtocolId(session.protocolId);
+      }
+      if (session.budget) {
+        setDiscussionBudget(session.budget);
+      }
       // 设置记事本内容为会话保存的内容
       setNotepadContentManual(session.notepadContent, null);
       setIsNotepadFullscreen(false);
@@ -618,6 +870,28 @@ const App: React.FC = () => {
     }
   }, [sessions, switchToSession, setNotepadContentManual]);
 
+  // 从指定消息派生分支会话：复制此前的消息与当时的记事本状态
+  const handleBranchFromMessage = useCallback((messageId: string) => {
+    if (!currentSessionId) return;
+    const branchMessages = getMessagesUpToBranchPoint(messages, messageId);
+    if (!branchMessages) return;
+
+    const branchHistory = getNotepadHistoryAtBranchPoint(loadNotepadHistory(currentSessionId), messages, messageId);
+    const isLastMessage = branchMessages.length === messages.length;
+    const branchNotepadContent = isLastMessage
+      ? notepadContent
+      : branchHistory.versions[branchHistory.versions.length - 1]?.content ?? INITIAL_NOTEPAD_CONTENT;
+
+    const branchSessionId = createBranchSession(currentSessionId, messageId, branchMessages, branchNotepadContent);
+    if (!branchSessionId) return;
+
+    saveNotepadHistory(branchHistory, branchSessionId);
+    setMessages(branchMessages);
+    resetNotepadContent(branchNotepadContent);
+    setIsNotepadFullscreen(false);
+    setIsAutoScrollEnabled(true);
+  }, [currentSessionId, messages, notepadContent, createBranchSession, resetNotepadContent, setIsNotepadFullscreen]);
+
   const handleDeleteSession = useCallback((sessionId: string) => {
     deleteSession(sessionId);
     if (currentSessionId === sessionId) {
@@ -629,14 +903,14 @@ const App: React.FC = () => {
 
   // 角色管理函数
   const handleSelectRole = useCallback((roleName: string, type: 'cognito' | 'muse') => {
+    const participantId = type === 'cognito' ? COGNITO_PARTICIPANT_ID : MUSE_PARTICIPANT_ID;
+    setParticipants(prev => prev.map(p => (p.id === participantId ? { ...p, roleName } : p)));
     if (type === 'cognito') {
-      setCurrentCognitoRoleName(roleName);
       const role = getRoleByName(roleName);
       if (role) {
         setCognitoSystemPrompt(role.systemPrompt);
       }
     } else {
-      setCurrentMuseRoleName(roleName);
       const role = getRoleByName(roleName);
       if (role) {
         setMuseSystemPrompt(role.systemPrompt);
@@ -645,24 +919,87 @@ const App: React.FC = () => {
   }, [getRoleByName]);
 
   // 包装startChatProcessing以确保总是有会话
-  const startChatProcessing = useCallback(async (userInput: string, imageFile?: File | null) => {
+  const startChatProcessing = useCallback(async (userInput: string, imageFile?: File | null, routeChoice?: DiscussionRouteChoice) => {
     // 如果没有当前会话，自动创建一个新会话
-    if (!currentSessionId) {
+    let sessionId = currentSessionId;
+    if (!sessionId) {
       // 创建新会话时使用更简洁的标题
       const now = new Date();
       const timeStr = now.toLocaleTimeString('zh-CN', {
         hour: '2-digit',
         minute: '2-digit'
       });
-      const newSessionId = createNewSession(`新会话 ${timeStr}`);
+      sessionId = createNewSession(`新会话 ${timeStr}`, undefined, undefined, participants, discussionProtocolId);
       
       // 不清空当前的messages和notepad，让用户的聊天内容自动保存到新会话中
-      console.log('自动创建新会话:', newSessionId);
+      console.log('自动创建新会话:', sessionId);
     }
     
-    // 调用原始的startChatProcessing函数
-    return originalStartChatProcessing(userInput, imageFile);
-  }, [currentSessionId, createNewSession, originalStartChatProcessing]);
+    // 调用原始的startChatProcessing函数；传入会话ID，使讨论开始时写入的检查点归属于新会话
+    return originalStartChatProcessing(userInput, imageFile, routeChoice, sessionId);
+  }, [currentSessionId, createNewSession, participants, discussionProtocolId, originalStartChatProcessing]);
+
+  // 编辑之前的用户消息：截断其后的内容，恢复当时的记事本，随后以新内容重新讨论
+  const handleEditUserMessage = useCallback((messageId: string, newText: string) => {
+    if (isLoading) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+    const original = messages[index];
+
+    const laterMessages = messages.slice(index + 1);
+    // 只取本轮（下一条用户消息之前）的最终答案
+    const nextInputIndex = laterMessages.findIndex(m => m.purpose === MessagePurpose.UserInput);
+    const turnMessages = nextInputIndex === -1 ? laterMessages : laterMessages.slice(0, nextInputIndex);
+    const previousFinal = turnMessages.find(m => m.purpose === MessagePurpose.FinalResponse);
+    pendingFinalAlternatesRef.current = previousFinal
+      ? [
+          ...(previousFinal.alternates || []),
+          { text: previousFinal.text, userInput: original.text, timestamp: previousFinal.timestamp, durationMs: previousFinal.durationMs, structuredAnswer: previousFinal.structuredAnswer }
+        ]
+      : null;
+
+    const versionsBefore = getNotepadVersionsBefore(loadNotepadHistory(currentSessionId || undefined), original.timestamp);
+    const restoredNotepadContent = versionsBefore[versionsBefore.length - 1]?.content ?? INITIAL_NOTEPAD_CONTENT;
+
+    setMessages(messages.slice(0, index));
+    if (restoredNotepadContent !== notepadContent) {
+      setNotepadContentManual(restoredNotepadContent, null);
+    }
+    setIsAutoScrollEnabled(true);
+    // 等待消息截断与记事本恢复生效后再启动，避免讨论读取到旧的历史
+    setPendingEditRun({ text: newText, image: original.image, routeChoice: original.routeChoice });
+  }, [isLoading, messages, currentSessionId, notepadContent, setNotepadContentManual]);
+
+  useEffect(() => {
+    if (!pendingEditRun) return;
+    setPendingEditRun(null);
+
+    const rerun = async () => {
+      let imageFile: File | null = null;
+      if (pendingEditRun.image) {
+        imageFile = await messageImageToFile(pendingEditRun.image);
+        if (!imageFile) {
+          addMessage("原消息中的图片已失效，本次仅重新发送文字。", MessageSender.System, MessagePurpose.SystemNotification);
+        }
+      }
+      await startChatProcessing(pendingEditRun.text, imageFile, pendingEditRun.routeChoice);
+      // 本次未生成最终答案（失败或被停止）时不再保留待附加的历史答案
+      pendingFinalAlternatesRef.current = null;
+    };
+    rerun();
+  }, [pendingEditRun, startChatProcessing, addMessage]);
+
+  // 页面重载后恢复未完成讨论所在的会话（需先于保存会话状态执行，避免欢迎消息覆盖会话内容）
+  const interruptedSessionRestoredRef = useRef(false);
+  useEffect(() => {
+    if (interruptedSessionRestoredRef.current || !interruptedRun?.sessionId || sessions.length === 0) return;
+    interruptedSessionRestoredRef.current = true;
+    if (sessions.some(s => s.id === interruptedRun.sessionId)) {
+      handleSwitchSession(interruptedRun.sessionId);
+    } else {
+      dismissInterruptedRun();
+    }
+  }, [interruptedRun, sessions, handleSwitchSession, dismissInterruptedRun]);
 
   // 保存会话状态
   useEffect(() => {
@@ -812,15 +1149,37 @@ const App: React.FC = () => {
                 onScroll={handleChatScroll}
                 style={{ WebkitOverflowScrolling: 'touch' }}
               >
-                {messages.map((msg) => (
-                  <MessageBubble
-                    key={msg.id}
-                    message={msg}
-                    failedStepPayloadForThisMessage={failedStepInfo && msg.id === failedStepInfo.originalSystemErrorMsgId ? failedStepInfo : null}
-                    onManualRetry={retryFailedStep} 
-                  />
-                ))}
+                {messageDisplayGroups.map((group) => group.isParallel ? (
+                  <div key={group.key} className="rounded-lg border border-dashed border-gray-300 p-2">
+                    <div className="text-xs text-muted-foreground mb-2">并行作答 · {group.messages.length} 位参与者</div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 [&>div>div]:max-w-full">
+                      {group.messages.map(renderMessageBubble)}
+                    </div>
+                  </div>
+                ) : renderMessageBubble(group.messages[0]))}
               </div>
+              {!isLoading && interruptedRun && interruptedRun.sessionId === currentSessionId && (
+                <InterruptedRunBanner
+                  run={interruptedRun}
+                  onResume={() => resumeInterruptedRun('continue')}
+                  onFinalize={() => resumeInterruptedRun('finalize')}
+                  onDismiss={dismissInterruptedRun}
+                />
+              )}
+              <ChannelQueueBanner />
+              {isLoading && (
+                <DiscussionControlBar
+                  isPaused={isPaused}
+                  onPause={pauseDiscussion}
+                  onResume={resumeDiscussion}
+                  onSkipNextSpeaker={skipNextSpeaker}
+                  onForceFinalAnswer={forceFinalAnswer}
+                  onAddSteeringNote={addSteeringNote}
+                  usage={discussionUsage}
+                  extensionOffer={extensionOffer}
+                  onRespondToExtension={respondToExtensionOffer}
+                />
+              )}
               <ChatInput
                 onSendMessage={startChatProcessing} 
                 isLoading={isLoading}
@@ -832,8 +1191,8 @@ const App: React.FC = () => {
                   isInternalDiscussionActive ? (
                     <>
                       <span>
-                        AI 内部讨论: 第 {currentDiscussionTurn + 1} 轮
-                        {discussionMode === DiscussionMode.FixedTurns && ` / ${manualFixedTurns} 轮`}
+                        AI 内部讨论{currentPhase && ` · ${currentPhase.name} (${currentPhase.index + 1}/${currentPhase.total})`}: 第 {currentDiscussionTurn + 1} 轮
+                        {currentPhase?.turnLimit !== undefined && ` / ${currentPhase.turnLimit} 轮`}
                       </span>
                       {currentTotalProcessingTimeMs > 0 && (
                         <>
@@ -916,6 +1275,15 @@ const App: React.FC = () => {
           discussionMode={discussionMode}
           onDiscussionModeChange={(mode) => setDiscussionMode(mode)}
           manualFixedTurns={manualFixedTurns}
+          discussionBudget={discussionBudget}
+          onDiscussionBudgetChange={setDiscussionBudget}
+          finalAnswerFormat={finalAnswerFormat}
+          finalAnswerFormatError={structuredOutput.error}
+          onFinalAnswerFormatChange={setFinalAnswerFormat}
+          adaptiveRouting={adaptiveRouting}
+          onAdaptiveRoutingChange={setAdaptiveRouting}
+          toolsEnabled={toolsEnabled}
+          onToolsEnabledChange={setToolsEnabled}
           onManualFixedTurnsChange={(e) => {
             let value = parseInt(e.target.value, 10);
             if (isNaN(value)) value = DEFAULT_MANUAL_FIXED_TURNS;
@@ -923,6 +1291,20 @@ const App: React.FC = () => {
             setManualFixedTurns(value);
           }}
           minManualFixedTurns={MIN_MANUAL_FIXED_TURNS}
+          protocols={allProtocols}
+          currentProtocolId={currentProtocol.id}
+          onProtocolChange={setDiscussionProtocolId}
+          onOpenProtocolManager={() => {
+            closeSettingsModal();
+            setIsProtocolManagerOpen(true);
+          }}
+          participants={participants}
+          roles={allRoles}
+          onParticipantsChange={setParticipants}
+          sessionFallbackChannelIds={getCurrentSessionChannelOverride()?.fallbackChannelIds}
+          onSessionFallbackChannelIdsChange={currentSessionId ? handleSessionFallbackChannelsChange : undefined}
+          moderatorSettings={moderatorSettings}
+          onModeratorSettingsChange={setModeratorSettings}
           isThinkingBudgetActive={isThinkingBudgetActive}
           onThinkingBudgetToggle={() => setIsThinkingBudgetActive(prev => !prev)}
           supportsThinkingConfig={Boolean(actualCognitoModelDetails.supportsThinkingConfig || actualMuseModelDetails.supportsThinkingConfig)}
@@ -973,9 +1355,22 @@ const App: React.FC = () => {
           onExportSessions={exportSessions}
           onImportSessions={importSessions}
           onSearchSessions={searchSessions}
+          onReplaySession={(sessionId) => {
+            setReplaySessionId(sessionId);
+            setIsSessionManagerOpen(false);
+          }}
           onClose={() => setIsSessionManagerOpen(false)}
         />
       )}
+
+      {/* 会话回放 */}
+      {replaySession && (
+        <SessionReplay
+          session={replaySession}
+          notepadHistory={replayNotepadHistory}
+          onClose={() => setReplaySessionId(null)}
+        />
+      )}
       
       {/* 角色管理器 */}
       {isRoleManagerOpen && (
@@ -991,6 +1386,20 @@ const App: React.FC = () => {
           onClose={() => setIsRoleManagerOpen(false)}
         />
       )}
+
+      {/* 讨论协议管理器 */}
+      {isProtocolManagerOpen && (
+        <ProtocolManager
+          protocols={allProtocols}
+          currentProtocolId={currentProtocol.id}
+          onCreateProtocol={createProtocol}
+          onUpdateProtocol={updateProtocol}
+          onDeleteProtocol={deleteProtocol}
+          onDuplicateProtocol={duplicateProtocol}
+          onSelectProtocol={setDiscussionProtocolId}
+          onClose={() => setIsProtocolManagerOpen(false)}
+        />
+      )}
     </div>
   );
 };
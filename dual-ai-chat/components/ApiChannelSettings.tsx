@@ -3,7 +3,11 @@ import {
   ApiChannel, 
   ApiChannelProvider,
   ApiChannelTestResult,
-  ApiChannelValidationError 
+  ApiChannelRequestLimits,
+  ApiChannelValidationError,
+  ApiKeyPoolEntry,
+  ApiKeySelectionStrategy,
+  NotepadEditProtocol
 } from '../types';
 import { 
   DEFAULT_CHANNEL_TIMEOUT,
@@ -13,6 +17,11 @@ import {
 } from '../constants';
 import { useApiChannels } from '../hooks/useApiChannels';
 import { ApiChannelService } from '../services/apiChannelService';
+import { generateUniqueId } from '../utils/appUtils';
+import ApiKeyPoolStatus, { KEY_SELECTION_STRATEGY_LABELS } from './ApiKeyPoolStatus';
+import ChannelHealthPanel from './ChannelHealthPanel';
+import { useChannelHealth } from '../hooks/useChannelHealth';
+import { getChannelHealth } from '../services/channelHealthService';
 import {
   Plus,
   Edit2,
@@ -27,6 +36,7 @@ import {
   XCircle,
   Settings,
   Database,
+  Bot,
   Clock,
   Loader2
 } from 'lucide-react';
@@ -48,8 +58,60 @@ interface ChannelFormData {
   defaultModel: string;
   timeout: number;
   description: string;
+  notepadProtocol: NotepadEditProtocol;
+  extraApiKeys: string; // 每行一个密钥，可用“密钥 | 权重”指定权重
+  apiKeyWeight: number;
+  keySelectionStrategy: ApiKeySelectionStrategy;
+  // 请求限制，留空表示不限制
+  maxConcurrent: string;
+  requestsPerMinute: string;
+  tokensPerMinute: string;
 }
 
+const PROVIDER_LABELS: Record<ApiChannelProvider, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 兼容',
+  anthropic: 'Anthropic Claude',
+};
+
+const REQUEST_LIMIT_FIELDS: { field: 'maxConcurrent' | 'requestsPerMinute' | 'tokensPerMinute'; label: string }[] = [
+  { field: 'maxConcurrent', label: '最大并发' },
+  { field: 'requestsPerMinute', label: '每分钟请求数' },
+  { field: 'tokensPerMinute', label: '每分钟 token 数' },
+];
+
+const parseLimit = (value: string): number | undefined => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const describeRequestLimits = (limits?: ApiChannelRequestLimits): string => {
+  const parts = REQUEST_LIMIT_FIELDS
+    .filter(({ field }) => limits?.[field])
+    .map(({ field, label }) => `${label} ${limits![field]}`);
+  return parts.length > 0 ? parts.join('，') : '不限制';
+};
+
+const formatExtraApiKeys = (entries: ApiKeyPoolEntry[] = []): string =>
+  entries.map(entry => (entry.weight === 1 ? entry.key : `${entry.key} | ${entry.weight}`)).join('\n');
+
+// 解析额外密钥文本；已有密钥沿用原标识，以保留使用统计
+const parseExtraApiKeys = (text: string, existing: ApiKeyPoolEntry[] = []): ApiKeyPoolEntry[] => {
+  const entries: ApiKeyPoolEntry[] = [];
+  for (const line of text.split('\n')) {
+    const [keyPart, weightPart] = line.split('|');
+    const key = keyPart.trim();
+    if (!key || entries.some(entry => entry.key === key)) continue;
+    const weight = weightPart !== undefined ? parseFloat(weightPart) : 1;
+    entries.push({
+      id: existing.find(entry => entry.key === key)?.id || generateUniqueId(),
+      key,
+      weight: Number.isFinite(weight) && weight >= 0 ? weight : 1,
+    });
+  }
+  return entries;
+};
+
 const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
   const {
     channels,
@@ -70,6 +132,7 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
   const [isEditing, setIsEditing] = useState<boolean>(false);
   const [showApiKeys, setShowApiKeys] = useState<Set<string>>(new Set());
   const [testResults, setTestResults] = useState<Map<string, ApiChannelTestResult>>(new Map());
+  const channelHealth = useChannelHealth();
   const [testingChannelId, setTestingChannelId] = useState<string | null>(null);
 
   // 表单状态
@@ -80,7 +143,14 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
     baseUrl: '',
     defaultModel: '',
     timeout: DEFAULT_CHANNEL_TIMEOUT,
-    description: ''
+    description: '',
+    notepadProtocol: 'auto',
+    extraApiKeys: '',
+    apiKeyWeight: 1,
+    keySelectionStrategy: 'round-robin',
+    maxConcurrent: '',
+    requestsPerMinute: '',
+    tokensPerMinute: ''
   });
   const [formErrors, setFormErrors] = useState<ApiChannelValidationError[]>([]);
 
@@ -93,7 +163,14 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
       baseUrl: '',
       defaultModel: '',
       timeout: DEFAULT_CHANNEL_TIMEOUT,
-      description: ''
+      description: '',
+      notepadProtocol: 'auto',
+      extraApiKeys: '',
+      apiKeyWeight: 1,
+      keySelectionStrategy: 'round-robin',
+      maxConcurrent: '',
+      requestsPerMinute: '',
+      tokensPerMinute: ''
     });
     setFormErrors([]);
     setIsEditing(false);
@@ -115,7 +192,14 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
       baseUrl: channel.baseUrl || '',
       defaultModel: channel.defaultModel,
       timeout: channel.timeout,
-      description: channel.metadata?.description || ''
+      description: channel.metadata?.description || '',
+      notepadProtocol: channel.metadata?.notepadProtocol || 'auto',
+      extraApiKeys: formatExtraApiKeys(channel.extraApiKeys),
+      apiKeyWeight: channel.apiKeyWeight ?? 1,
+      keySelectionStrategy: channel.keySelectionStrategy || 'round-robin',
+      maxConcurrent: channel.requestLimits?.maxConcurrent?.toString() || '',
+      requestsPerMinute: channel.requestLimits?.requestsPerMinute?.toString() || '',
+      tokensPerMinute: channel.requestLimits?.tokensPerMinute?.toString() || ''
     });
     setSelectedChannelId(channel.id);
     setIsEditing(true);
@@ -136,7 +220,9 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
       const provider = value as ApiChannelProvider;
       const template = provider === 'gemini'
         ? DEFAULT_CHANNEL_TEMPLATES.GEMINI
-        : DEFAULT_CHANNEL_TEMPLATES.OPENAI_LOCALHOST;
+        : provider === 'anthropic'
+          ? DEFAULT_CHANNEL_TEMPLATES.ANTHROPIC
+          : DEFAULT_CHANNEL_TEMPLATES.OPENAI_LOCALHOST;
   
       setFormData(prev => ({
         ...prev,
@@ -154,6 +240,14 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
   // 提交表单
   const handleSubmitForm = useCallback(async () => {
     try {
+      const editingChannel = isEditing ? channels.find(c => c.id === selectedChannelId) : undefined;
+      const extraApiKeys = parseExtraApiKeys(formData.extraApiKeys, editingChannel?.extraApiKeys)
+        .filter(entry => entry.key !== formData.apiKey.trim());
+      const requestLimits: ApiChannelRequestLimits = {
+        maxConcurrent: parseLimit(formData.maxConcurrent),
+        requestsPerMinute: parseLimit(formData.requestsPerMinute),
+        tokensPerMinute: parseLimit(formData.tokensPerMinute)
+      };
       const channelData = {
         name: formData.name.trim(),
         provider: formData.provider,
@@ -161,9 +255,16 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
         baseUrl: formData.provider === 'openai' ? formData.baseUrl.trim() : (formData.baseUrl.trim() || undefined),
         defaultModel: formData.defaultModel.trim(),
         timeout: formData.timeout,
+        extraApiKeys: extraApiKeys.length > 0 ? extraApiKeys : undefined,
+        apiKeyWeight: formData.apiKeyWeight,
+        keySelectionStrategy: formData.keySelectionStrategy,
+        requestLimits: Object.values(requestLimits).some(Boolean) ? requestLimits : undefined,
         metadata: {
+          // 保留表单未涉及的自定义字段（如 nativeTools、structuredOutput）
+          ...editingChannel?.metadata,
           version: '1.0.0',
-          description: formData.description.trim() || undefined
+          description: formData.description.trim() || undefined,
+          notepadProtocol: formData.notepadProtocol
         }
       };
 
@@ -179,7 +280,7 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
         setFormErrors([{ field: 'name', message: error.message }]);
       }
     }
-  }, [formData, isEditing, selectedChannelId, createChannel, updateChannel, handleCloseForm]);
+  }, [formData, isEditing, selectedChannelId, channels, createChannel, updateChannel, handleCloseForm]);
 
   // 删除渠道
   const handleDeleteChannel = useCallback(async (channelId: string) => {
@@ -282,6 +383,8 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
         return <Database size={16} className="text-blue-600" />;
       case 'gemini':
         return <Settings size={16} className="text-green-600" />;
+      case 'anthropic':
+        return <Bot size={16} className="text-orange-600" />;
       default:
         return <Settings size={16} className="text-gray-600" />;
     }
@@ -402,7 +505,7 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
                       <div>
                         <span className="text-muted-foreground">提供商:</span>
                         <span className="ml-2 font-medium">
-                          {channel.provider === 'openai' ? 'OpenAI 兼容' : 'Google Gemini'}
+                          {PROVIDER_LABELS[channel.provider]}
                         </span>
                       </div>
                       <div>
@@ -442,6 +545,10 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
                         <span className="text-muted-foreground">超时:</span>
                         <span className="ml-2">{channel.timeout / 1000}秒</span>
                       </div>
+                      <div className="md:col-span-2">
+                        <span className="text-muted-foreground">请求限制:</span>
+                        <span className="ml-2">{describeRequestLimits(channel.requestLimits)}</span>
+                      </div>
                     </div>
 
                     {/* 连接测试结果 */}
@@ -464,6 +571,9 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
                         )}
                       </div>
                     )}
+
+                    <ApiKeyPoolStatus channel={channel} formatKey={(apiKey) => formatApiKey(apiKey, channel.id)} />
+                    <ChannelHealthPanel channelId={channel.id} health={getChannelHealth(channelHealth, channel.id)} />
                   </div>
 
                   {/* 操作按钮 */}
@@ -589,8 +699,9 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
                     避免点击后无显示的情况（被遮挡在遮罩之下）
                   */}
                   <SelectContent className="z-[1205] pointer-events-auto">
-                    <SelectItem value="gemini">Google Gemini</SelectItem>
-                    <SelectItem value="openai">OpenAI 兼容</SelectItem>
+                    <SelectItem value="gemini">{PROVIDER_LABELS.gemini}</SelectItem>
+                    <SelectItem value="openai">{PROVIDER_LABELS.openai}</SelectItem>
+                    <SelectItem value="anthropic">{PROVIDER_LABELS.anthropic}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -613,16 +724,59 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
                 )}
               </div>
 
-              {/* Base URL (仅 OpenAI 兼容) */}
-              {formData.provider === 'openai' && (
+              {/* 密钥池 */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  额外 API Key (可选)
+                </label>
+                <Textarea
+                  value={formData.extraApiKeys}
+                  onChange={(e) => handleFormChange('extraApiKeys', e.target.value)}
+                  placeholder={'每行一个密钥，可写成“密钥 | 权重”'}
+                  rows={3}
+                  className="font-mono text-xs"
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-2">
+                  <Select
+                    value={formData.keySelectionStrategy}
+                    onValueChange={(value) => handleFormChange('keySelectionStrategy', value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[1205] pointer-events-auto">
+                      {(Object.keys(KEY_SELECTION_STRATEGY_LABELS) as ApiKeySelectionStrategy[]).map(strategy => (
+                        <SelectItem key={strategy} value={strategy}>{KEY_SELECTION_STRATEGY_LABELS[strategy]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {formData.keySelectionStrategy === 'weighted' && (
+                    <Input
+                      type="number"
+                      value={formData.apiKeyWeight}
+                      onChange={(e) => handleFormChange('apiKeyWeight', Math.max(0, parseFloat(e.target.value) || 0))}
+                      min={0}
+                      step={0.5}
+                      aria-label="主 API Key 权重"
+                      title="主 API Key 的权重"
+                    />
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  与上面的 API Key 组成密钥池，每次请求自动选择一个密钥；返回 401/403 或 429 的密钥会暂停使用一段时间。
+                </p>
+              </div>
+
+              {/* Base URL (OpenAI 兼容必填；Anthropic 可选，用于代理地址) */}
+              {formData.provider !== 'gemini' && (
                 <div>
                   <label className="text-sm font-medium mb-2 block">
-                    Base URL *
+                    Base URL {formData.provider === 'openai' ? '*' : '(可选)'}
                   </label>
                   <Input
                     value={formData.baseUrl}
                     onChange={(e) => handleFormChange('baseUrl', e.target.value)}
-                    placeholder="http://localhost:11434/v1"
+                    placeholder={formData.provider === 'openai' ? 'http://localhost:11434/v1' : DEFAULT_CHANNEL_TEMPLATES.ANTHROPIC.baseUrl}
                   />
                   {formErrors.find(e => e.field === 'baseUrl') && (
                     <p className="text-red-600 text-sm mt-1">
@@ -640,7 +794,7 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
                 <Input
                   value={formData.defaultModel}
                   onChange={(e) => handleFormChange('defaultModel', e.target.value)}
-                  placeholder="例如: gemini-2.5-pro 或 llama3"
+                  placeholder="例如: gemini-2.5-pro、claude-sonnet-4-5 或 llama3"
                 />
                 {formErrors.find(e => e.field === 'defaultModel') && (
                   <p className="text-red-600 text-sm mt-1">
@@ -671,6 +825,52 @@ const ApiChannelSettings: React.FC<ApiChannelSettingsProps> = () => {
                 )}
               </div>
 
+              {/* 请求限制 */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  请求限制 (可选)
+                </label>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {REQUEST_LIMIT_FIELDS.map(({ field, label }) => (
+                    <Input
+                      key={field}
+                      type="number"
+                      value={formData[field]}
+                      onChange={(e) => handleFormChange(field, e.target.value)}
+                      placeholder={label}
+                      aria-label={label}
+                      min={1}
+                    />
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  留空表示不限制。超出限制的请求会排队等待，而不是直接发送后被服务商以 429 拒绝；token 数按字符数估算。
+                </p>
+              </div>
+
+              {/* 记事本编辑方式 */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  记事本编辑方式
+                </label>
+                <Select
+                  value={formData.notepadProtocol}
+                  onValueChange={(value) => handleFormChange('notepadProtocol', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[1205] pointer-events-auto">
+                    <SelectItem value="auto">自动</SelectItem>
+                    <SelectItem value="function">函数调用</SelectItem>
+                    <SelectItem value="tags">标签 (&lt;np-*&gt;)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  函数调用以经过校验的 JSON 参数提交记事本修改，需要模型支持函数调用，且发言不使用流式输出；开启流式输出时仍使用标签。自动模式使用标签。
+                </p>
+              </div>
+
               {/* 描述 */}
               <div>
                 <label className="text-sm font-medium mb-2 block">
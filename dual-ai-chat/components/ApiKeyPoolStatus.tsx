@@ -0,0 +1,70 @@
+import React from 'react';
+import { ApiChannel, ApiKeySelectionStrategy } from '../types';
+import { useApiKeyStats } from '../hooks/useApiKeyStats';
+import { getApiKeyStats, getChannelApiKeys, isApiKeyBenched, resetApiKeyCooldown } from '../services/apiKeyPoolService';
+import { KeyRound } from 'lucide-react';
+
+interface ApiKeyPoolStatusProps {
+  channel: ApiChannel;
+  formatKey: (apiKey: string) => string;
+}
+
+export const KEY_SELECTION_STRATEGY_LABELS: Record<ApiKeySelectionStrategy, string> = {
+  'round-robin': '轮询',
+  'least-rate-limited': '优先最久未限流',
+  'weighted': '按权重',
+};
+
+/**
+ * 渠道密钥池中各密钥的使用次数与冷却状态
+ */
+const ApiKeyPoolStatus: React.FC<ApiKeyPoolStatusProps> = ({ channel, formatKey }) => {
+  const allStats = useApiKeyStats();
+  const keys = getChannelApiKeys(channel);
+  if (keys.length === 0) return null;
+  const strategy = channel.keySelectionStrategy || 'round-robin';
+
+  return (
+    <div className="mt-3 space-y-1 text-xs">
+      <div className="flex items-center gap-1 text-muted-foreground">
+        <KeyRound size={12} />
+        密钥池: {keys.length} 个密钥{keys.length > 1 && `，${KEY_SELECTION_STRATEGY_LABELS[strategy]}`}
+      </div>
+      {keys.map((entry, index) => {
+        const stats = getApiKeyStats(allStats, channel.id, entry.id);
+        const benched = isApiKeyBenched(stats);
+        return (
+          <div key={entry.id} className="flex items-center gap-2 pl-4">
+            <span className="text-muted-foreground w-5">#{index + 1}</span>
+            <span className="font-mono truncate max-w-[10rem]">{formatKey(entry.key)}</span>
+            {strategy === 'weighted' && <span className="text-muted-foreground">权重 {entry.weight}</span>}
+            <span className="text-muted-foreground">
+              请求 {stats.requests} · 失败 {stats.failures} · 限流 {stats.rateLimitedCount}
+            </span>
+            {benched ? (
+              <>
+                <span
+                  className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800"
+                  title={stats.lastError}
+                >
+                  {stats.benchReason === 'auth' ? '密钥无效' : '被限流'}，冷却至 {new Date(stats.benchedUntil!).toLocaleTimeString()}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => resetApiKeyCooldown(channel.id, entry.id)}
+                  className="text-primary hover:underline"
+                >
+                  恢复
+                </button>
+              </>
+            ) : (
+              <span className="px-1.5 py-0.5 rounded bg-green-100 text-green-800">可用</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ApiKeyPoolStatus;
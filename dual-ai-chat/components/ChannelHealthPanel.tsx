@@ -0,0 +1,100 @@
+import React from 'react';
+import { ChannelHealthState } from '../types';
+import { ChannelHealthSummary, clearChannelHealth, resetChannelCircuit, summarizeChannelHealth } from '../services/channelHealthService';
+import LatencySparkline from './LatencySparkline';
+import { Activity } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+interface ChannelHealthPanelProps {
+  channelId: string;
+  health: ChannelHealthState;
+}
+
+interface ChannelHealthBadgeProps {
+  health: ChannelHealthState;
+}
+
+const formatLatency = (ms?: number) => {
+  if (ms === undefined) return '-';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+const formatSuccessRate = (summary: ChannelHealthSummary) =>
+  summary.successRate === null ? '-' : `${Math.round(summary.successRate * 100)}%`;
+
+// 熔断为红色，成功率低于 90% 为黄色，其余为绿色；无记录时为灰色
+const getHealthColor = (summary: ChannelHealthSummary) => {
+  if (summary.circuitOpen) return 'bg-red-500';
+  if (summary.successRate === null) return 'bg-gray-300';
+  return summary.successRate < 0.9 ? 'bg-amber-500' : 'bg-green-500';
+};
+
+/**
+ * 渠道选择器中的简要健康状态
+ */
+export const ChannelHealthBadge: React.FC<ChannelHealthBadgeProps> = ({ health }) => {
+  const summary = summarizeChannelHealth(health);
+  const title = summary.circuitOpen
+    ? `已熔断，${new Date(summary.circuitOpenUntil!).toLocaleTimeString()} 后恢复`
+    : `成功率 ${formatSuccessRate(summary)} · p50 ${formatLatency(summary.p50LatencyMs)}（最近 ${summary.total} 次请求）`;
+  return (
+    <span className="flex items-center gap-1.5 shrink-0 text-xs text-muted-foreground" title={title}>
+      <LatencySparkline records={health.records.slice(-20)} width={40} height={14} />
+      <span className={cn('w-2 h-2 rounded-full', getHealthColor(summary))} />
+      {summary.circuitOpen ? '熔断' : formatSuccessRate(summary)}
+    </span>
+  );
+};
+
+/**
+ * 渠道最近请求的健康面板：成功率、延迟分位数、首字耗时、最近错误与熔断状态
+ */
+const ChannelHealthPanel: React.FC<ChannelHealthPanelProps> = ({ channelId, health }) => {
+  const summary = summarizeChannelHealth(health);
+  if (summary.total === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-1 text-xs">
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Activity size={12} />
+        <span>最近 {summary.total} 次请求</span>
+        <span className={cn('w-2 h-2 rounded-full', getHealthColor(summary))} />
+        <LatencySparkline records={health.records} />
+        <button
+          type="button"
+          onClick={() => clearChannelHealth(channelId)}
+          className="text-primary hover:underline"
+        >
+          清空记录
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 pl-4">
+        <span>成功率 {formatSuccessRate(summary)}</span>
+        <span>p50 {formatLatency(summary.p50LatencyMs)}</span>
+        <span>p95 {formatLatency(summary.p95LatencyMs)}</span>
+        <span>首字 {formatLatency(summary.p50FirstTokenMs)}</span>
+      </div>
+      {summary.circuitOpen && (
+        <div className="flex items-center gap-2 pl-4">
+          <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-800">
+            连续失败 {summary.consecutiveFailures} 次，已熔断至 {new Date(summary.circuitOpenUntil!).toLocaleTimeString()}，路由将跳过该渠道
+          </span>
+          <button
+            type="button"
+            onClick={() => resetChannelCircuit(channelId)}
+            className="text-primary hover:underline"
+          >
+            恢复
+          </button>
+        </div>
+      )}
+      {summary.lastError && (
+        <div className="pl-4 text-muted-foreground truncate" title={summary.lastError.message}>
+          最近错误（{new Date(summary.lastError.at).toLocaleString()}）: {summary.lastError.message}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChannelHealthPanel;
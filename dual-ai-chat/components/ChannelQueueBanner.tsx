@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+import { useChannelQueue } from '../hooks/useChannelQueue';
+import { ChannelQueueBlockReason } from '../services/channelRequestScheduler';
+
+const BLOCK_REASON_LABELS: Record<ChannelQueueBlockReason, string> = {
+  concurrency: '已达并发上限',
+  requests: '已达每分钟请求上限',
+  tokens: '已达每分钟 token 上限',
+};
+
+/**
+ * 请求因渠道限制排队时显示等待状态
+ */
+const ChannelQueueBanner: React.FC = () => {
+  const queues = useChannelQueue().filter(queue => queue.waiting > 0);
+  const [now, setNow] = useState(Date.now());
+
+  // 受速率限制时每秒刷新剩余等待时间
+  const hasCountdown = queues.some(queue => queue.resumeAt);
+  useEffect(() => {
+    if (!hasCountdown) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasCountdown]);
+
+  if (queues.length === 0) return null;
+
+  return (
+    <div className="px-3 py-2 border-t bg-amber-50/70 space-y-0.5" role="status">
+      {queues.map(queue => (
+        <div key={queue.channelId} className="flex items-center text-xs text-amber-800">
+          <Hourglass size={14} className="mr-1.5 shrink-0" />
+          渠道「{queue.channelName}」{queue.blockedBy ? BLOCK_REASON_LABELS[queue.blockedBy] : ''}，{queue.waiting} 个请求排队中
+          {queue.resumeAt && `，约 ${Math.max(1, Math.ceil((queue.resumeAt - now) / 1000))} 秒后继续`}
+          （进行中 {queue.active} 个）
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ChannelQueueBanner;
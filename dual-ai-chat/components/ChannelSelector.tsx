@@ -1,8 +1,12 @@
 import React, { useMemo } from 'react';
 import { ApiChannel } from '../types';
 import { useApiChannels } from '../hooks/useApiChannels';
+import { useChannelHealth } from '../hooks/useChannelHealth';
+import { getChannelHealth, summarizeChannelHealth } from '../services/channelHealthService';
+import { ChannelHealthBadge } from './ChannelHealthPanel';
+import LatencySparkline from './LatencySparkline';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
-import { Database, Settings, Star, AlertCircle } from 'lucide-react';
+import { Bot, Database, Settings, Star, AlertCircle } from 'lucide-react';
 import { cn } from '../lib/utils';
 
 interface ChannelSelectorProps {
@@ -13,6 +17,7 @@ interface ChannelSelectorProps {
   placeholder?: string;
   disabled?: boolean;
   className?: string;
+  contentClassName?: string; // 下拉层样式（在弹窗内使用时需提升层级）
 }
 
 const ChannelSelector: React.FC<ChannelSelectorProps> = ({
@@ -22,9 +27,11 @@ const ChannelSelector: React.FC<ChannelSelectorProps> = ({
   size = 'md',
   placeholder = '选择 API 渠道',
   disabled = false,
-  className
+  className,
+  contentClassName
 }) => {
   const { channels, defaultChannelId, getDefaultChannel } = useApiChannels();
+  const channelHealth = useChannelHealth();
 
   // 计算当前选中的渠道
   const selectedChannel = useMemo(() => {
@@ -34,6 +41,13 @@ const ChannelSelector: React.FC<ChannelSelectorProps> = ({
     return null;
   }, [currentChannelId, channels]);
 
+  // 选中渠道的健康状况，显示在下拉层底部
+  const selectedHealth = useMemo(() => {
+    if (!selectedChannel) return null;
+    const state = getChannelHealth(channelHealth, selectedChannel.id);
+    return { state, summary: summarizeChannelHealth(state) };
+  }, [selectedChannel, channelHealth]);
+
   // 计算默认渠道
   const defaultChannel = useMemo(() => {
     return getDefaultChannel();
@@ -46,6 +60,8 @@ const ChannelSelector: React.FC<ChannelSelectorProps> = ({
         return <Database size={14} className="text-blue-600" />;
       case 'gemini':
         return <Settings size={14} className="text-green-600" />;
+      case 'anthropic':
+        return <Bot size={14} className="text-orange-600" />;
       default:
         return <Settings size={14} className="text-gray-600" />;
     }
@@ -164,7 +180,7 @@ const ChannelSelector: React.FC<ChannelSelectorProps> = ({
         </SelectValue>
       </SelectTrigger>
       
-      <SelectContent>
+      <SelectContent className={contentClassName}>
         {channelOptions.map((option) => (
           <SelectItem 
             key={option.value} 
@@ -177,6 +193,7 @@ const ChannelSelector: React.FC<ChannelSelectorProps> = ({
               {option.isDefault && (
                 <Star size={12} className="text-yellow-500 flex-shrink-0" />
               )}
+              <ChannelHealthBadge health={getChannelHealth(channelHealth, option.channel.id)} />
             </div>
           </SelectItem>
         ))}
@@ -188,6 +205,17 @@ const ChannelSelector: React.FC<ChannelSelectorProps> = ({
               <div className="space-y-1">
                 <div>模型: {selectedChannel.defaultModel}</div>
                 <div>超时: {selectedChannel.timeout / 1000}秒</div>
+                {selectedHealth && selectedHealth.summary.total > 0 && (
+                  <div className="flex items-center gap-2">
+                    <span>
+                      {selectedHealth.summary.circuitOpen ? '已熔断 · ' : ''}
+                      成功率 {Math.round((selectedHealth.summary.successRate ?? 0) * 100)}%
+                      {selectedHealth.summary.p50LatencyMs !== undefined && ` · p50 ${selectedHealth.summary.p50LatencyMs}ms`}
+                      {selectedHealth.summary.p95LatencyMs !== undefined && ` · p95 ${selectedHealth.summary.p95LatencyMs}ms`}
+                    </span>
+                    <LatencySparkline records={selectedHealth.state.records} width={80} height={16} />
+                  </div>
+                )}
                 {selectedChannel.metadata?.description && (
                   <div className="truncate" title={selectedChannel.metadata.description}>
                     {selectedChannel.metadata.description}
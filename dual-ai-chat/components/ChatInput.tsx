@@ -3,10 +3,13 @@ import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { Send, Paperclip, XCircle, StopCircle } from 'lucide-react';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { cn } from '../lib/utils';
+import { DiscussionRouteChoice } from '../types';
+import { DISCUSSION_ROUTE_LABELS } from '../constants';
 
 interface ChatInputProps {
-  onSendMessage: (message: string, imageFile?: File | null) => void;
+  onSendMessage: (message: string, imageFile?: File | null, routeChoice?: DiscussionRouteChoice) => void;
   isLoading: boolean;
   isApiKeyMissing: boolean;
   onStopGenerating: () => void; // New prop
@@ -14,11 +17,20 @@ interface ChatInputProps {
 
 const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
 
+const ROUTE_CHOICE_OPTIONS: { value: DiscussionRouteChoice; label: string }[] = [
+  { value: 'auto', label: '自动' },
+  { value: 'quick', label: DISCUSSION_ROUTE_LABELS.quick },
+  { value: 'debate', label: DISCUSSION_ROUTE_LABELS.debate },
+  { value: 'panel', label: DISCUSSION_ROUTE_LABELS.panel },
+];
+
 const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading, isApiKeyMissing, onStopGenerating }) => {
   const [inputValue, setInputValue] = useState('');
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  // 仅对下一条消息生效，发送后恢复为自动
+  const [routeChoice, setRouteChoice] = useState<DiscussionRouteChoice>('auto');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -52,8 +64,9 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading, isApiKe
 
   const triggerSendMessage = () => {
     if ((inputValue.trim() || selectedImage) && !isLoading && !isApiKeyMissing) {
-      onSendMessage(inputValue.trim(), selectedImage);
+      onSendMessage(inputValue.trim(), selectedImage, routeChoice);
       setInputValue('');
+      setRouteChoice('auto');
       removeImage();
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
@@ -177,6 +190,16 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading, isApiKe
           className="hidden"
           aria-label="选择图片文件"
         />
+        <Select value={routeChoice} onValueChange={(value) => setRouteChoice(value as DiscussionRouteChoice)} disabled={isDisabledInput}>
+          <SelectTrigger className="h-[48px] w-[104px] shrink-0 text-xs" aria-label="本条消息的讨论方式" title="本条消息的讨论方式">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ROUTE_CHOICE_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         <Button
           type="button"
           variant="outline"
@@ -0,0 +1,73 @@
+import React from 'react';
+import { DiscussionBudget } from '../types';
+import { Gauge } from 'lucide-react';
+import { Input } from './ui/input';
+
+interface DiscussionBudgetSettingsProps {
+  budget: DiscussionBudget;
+  onBudgetChange: (budget: DiscussionBudget) => void;
+  isLoading: boolean;
+}
+
+// 输入框为空或 0 表示不限制
+const parseLimit = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const DiscussionBudgetSettings: React.FC<DiscussionBudgetSettingsProps> = ({ budget, onBudgetChange, isLoading }) => {
+  const updateBudget = (updates: Partial<DiscussionBudget>) => {
+    onBudgetChange({ ...budget, ...updates });
+  };
+
+  const fields: { id: string; label: string; unit: string; value?: number; step: string; onChange: (value: string) => void }[] = [
+    { id: 'budgetMaxTokens', label: '最大 tokens', unit: 'tokens', value: budget.maxTotalTokens, step: '1000', onChange: v => updateBudget({ maxTotalTokens: parseLimit(v) }) },
+    { id: 'budgetMaxDuration', label: '最长时间', unit: '秒', value: budget.maxDurationSeconds, step: '10', onChange: v => updateBudget({ maxDurationSeconds: parseLimit(v) }) },
+    { id: 'budgetMaxCost', label: '最高费用', unit: '美元', value: budget.maxCostUsd, step: '0.01', onChange: v => updateBudget({ maxCostUsd: parseLimit(v) }) },
+  ];
+
+  return (
+    <div className="bg-muted/30 p-3 rounded-md space-y-2">
+      <div className="flex items-center text-sm font-medium">
+        <Gauge size={18} className="mr-2 text-primary" />
+        讨论预算 <span className="ml-2 text-xs font-normal text-muted-foreground">（本会话，留空表示不限制）</span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {fields.map(field => (
+          <div key={field.id} className="space-y-1">
+            <label htmlFor={field.id} className="text-xs text-muted-foreground">{field.label} ({field.unit})</label>
+            <Input
+              id={field.id}
+              type="number"
+              min={0}
+              step={field.step}
+              value={field.value ?? ''}
+              onChange={(e) => field.onChange(e.target.value)}
+              placeholder="不限制"
+              disabled={isLoading}
+              className="h-8 text-xs"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center space-x-2">
+        <label htmlFor="budgetCostPerMillion" className="text-xs text-muted-foreground">估算单价 (美元/百万 tokens):</label>
+        <Input
+          id="budgetCostPerMillion"
+          type="number"
+          min={0}
+          step="0.1"
+          value={budget.costPerMillionTokensUsd}
+          onChange={(e) => updateBudget({ costPerMillionTokensUsd: Math.max(0, parseFloat(e.target.value) || 0) })}
+          disabled={isLoading}
+          className="h-8 w-24 text-xs"
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        tokens 按文本长度估算。预计下一步将超出任一上限时，讨论会提前结束，直接进入最终答案。
+      </p>
+    </div>
+  );
+};
+
+export default DiscussionBudgetSettings;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Pause, Play, SkipForward, FastForward, Send, Repeat } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { DiscussionUsage, formatDiscussionUsage } from '../utils/discussionBudget';
+import { DiscussionExtensionOffer } from '../services/discussionEngine';
+import { formatPercent } from '../utils/convergence';
+
+interface DiscussionControlBarProps {
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onSkipNextSpeaker: () => void;
+  onForceFinalAnswer: () => void;
+  onAddSteeringNote: (note: string) => void;
+  usage?: DiscussionUsage | null;
+  extensionOffer?: DiscussionExtensionOffer | null;
+  onRespondToExtension?: (accepted: boolean) => void;
+}
+
+/**
+ * 讨论进行中的控制栏：暂停/继续、插入引导、跳过下一位发言者、立即给出最终答案
+ */
+const DiscussionControlBar: React.FC<DiscussionControlBarProps> = ({
+  isPaused,
+  onPause,
+  onResume,
+  onSkipNextSpeaker,
+  onForceFinalAnswer,
+  onAddSteeringNote,
+  usage,
+  extensionOffer,
+  onRespondToExtension
+}) => {
+  const [steeringNote, setSteeringNote] = useState('');
+
+  const handleSubmitNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!steeringNote.trim()) return;
+    onAddSteeringNote(steeringNote);
+    setSteeringNote('');
+  };
+
+  return (
+    <div className="px-3 py-2 border-t bg-amber-50/60 space-y-2">
+      {extensionOffer && onRespondToExtension && (
+        <div className="flex flex-wrap items-center gap-2 p-2 rounded-md border border-amber-300 bg-amber-100/70">
+          <Repeat size={14} className="text-amber-700" />
+          <span className="text-xs text-amber-900 mr-auto">
+            「{extensionOffer.phaseName}」已达到固定轮数，但分歧度仍为 {formatPercent(extensionOffer.disagreement)}。
+            {Math.round(extensionOffer.timeoutMs / 1000)} 秒内未选择将结束本阶段。
+          </span>
+          <Button size="sm" className="h-7 text-xs" onClick={() => onRespondToExtension(true)}>
+            追加 {extensionOffer.extraTurns} 轮
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onRespondToExtension(false)}>
+            结束本阶段
+          </Button>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={isPaused ? onResume : onPause}
+          title={isPaused ? '继续讨论' : '在当前发言结束后暂停'}
+        >
+          {isPaused ? <Play size={14} className="mr-1" /> : <Pause size={14} className="mr-1" />}
+          {isPaused ? '继续' : '暂停'}
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onSkipNextSpeaker} title="跳过下一位发言者">
+          <SkipForward size={14} className="mr-1" />
+          跳过下一位
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onForceFinalAnswer} title="结束讨论，立即生成最终答案">
+          <FastForward size={14} className="mr-1" />
+          立即给出最终答案
+        </Button>
+        {isPaused && <span className="text-xs text-amber-700">已暂停（当前发言结束后生效）</span>}
+        {usage && (
+          <span className="ml-auto text-xs text-muted-foreground" title="按文本长度估算的用量">
+            已用: {formatDiscussionUsage(usage)}
+          </span>
+        )}
+      </div>
+      <form onSubmit={handleSubmitNote} className="flex items-center gap-2">
+        <Input
+          value={steeringNote}
+          onChange={(e) => setSteeringNote(e.target.value)}
+          placeholder="插入引导，例如：重点关注成本，忽略界面"
+          className="h-8 text-xs flex-1"
+          aria-label="讨论引导"
+        />
+        <Button type="submit" size="sm" className="h-8 text-xs" disabled={!steeringNote.trim()} title="下一位发言者将收到此引导">
+          <Send size={14} className="mr-1" />
+          发送引导
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default DiscussionControlBar;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { useApiChannels } from '../hooks/useApiChannels';
+import { ArrowUp, ArrowDown, X } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { cn } from '../lib/utils';
+
+interface FallbackChannelsEditorProps {
+  channelIds?: string[];
+  onChange: (channelIds: string[] | undefined) => void;
+  excludeChannelId?: string; // 主渠道不能再作为备用渠道
+  disabled?: boolean;
+  contentClassName?: string; // 下拉层样式（在弹窗内使用时需提升层级）
+  label?: string;
+}
+
+/**
+ * 备用渠道链：主渠道超时或出现网络/服务端错误时按顺序切换
+ */
+const FallbackChannelsEditor: React.FC<FallbackChannelsEditorProps> = ({
+  channelIds = [],
+  onChange,
+  excludeChannelId,
+  disabled = false,
+  contentClassName,
+  label = '备用渠道'
+}) => {
+  const { channels } = useApiChannels();
+
+  const update = (ids: string[]) => onChange(ids.length > 0 ? ids : undefined);
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= channelIds.length) return;
+    const updated = [...channelIds];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    update(updated);
+  };
+
+  const availableChannels = channels.filter(c =>
+    c.enabled !== false && c.id !== excludeChannelId && !channelIds.includes(c.id)
+  );
+
+  return (
+    <div className="space-y-1">
+      {channelIds.map((channelId, index) => {
+        const channel = channels.find(c => c.id === channelId);
+        const isUnavailable = !channel || channel.enabled === false;
+        return (
+          <div key={channelId} className="flex items-center gap-1 text-xs">
+            <span className="text-muted-foreground w-5 text-right">{index + 1}.</span>
+            <span className={cn('flex-1 truncate', isUnavailable && 'text-muted-foreground line-through')} title={isUnavailable ? '渠道已删除或已禁用，将被跳过' : undefined}>
+              {channel ? `${channel.name} (${channel.provider})` : '已删除的渠道'}
+            </span>
+            <button type="button" onClick={() => move(index, -1)} disabled={disabled || index === 0} className="p-1 rounded hover:bg-muted disabled:opacity-40" title="上移">
+              <ArrowUp size={12} />
+            </button>
+            <button type="button" onClick={() => move(index, 1)} disabled={disabled || index === channelIds.length - 1} className="p-1 rounded hover:bg-muted disabled:opacity-40" title="下移">
+              <ArrowDown size={12} />
+            </button>
+            <button type="button" onClick={() => update(channelIds.filter(id => id !== channelId))} disabled={disabled} className="p-1 rounded text-red-600 hover:bg-muted disabled:opacity-40" title="移除">
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+      <Select
+        value=""
+        onValueChange={(channelId) => update([...channelIds, channelId])}
+        disabled={disabled || availableChannels.length === 0}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue placeholder={availableChannels.length === 0 ? `${label}：没有可添加的渠道` : `添加${label}...`} />
+        </SelectTrigger>
+        <SelectContent className={contentClassName}>
+          {availableChannels.map(channel => (
+            <SelectItem key={channel.id} value={channel.id}>{channel.name} ({channel.provider})</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default FallbackChannelsEditor;
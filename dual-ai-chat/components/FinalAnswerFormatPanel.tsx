@@ -0,0 +1,98 @@
+import React from 'react';
+import { FinalAnswerFormatMode, FinalAnswerFormatSettings } from '../types';
+import { Braces } from 'lucide-react';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { STRUCTURED_ANSWER_TEMPLATES } from '../constants';
+
+interface FinalAnswerFormatPanelProps {
+  format: FinalAnswerFormatSettings;
+  error?: string; // 自定义 Schema 无效时的错误信息
+  onFormatChange: (format: FinalAnswerFormatSettings) => void;
+  isLoading: boolean;
+}
+
+const FORMAT_MODE_OPTIONS: { value: FinalAnswerFormatMode; label: string }[] = [
+  { value: 'markdown', label: 'Markdown（默认）' },
+  { value: 'template', label: '结构化模板' },
+  { value: 'custom-schema', label: '自定义 JSON Schema' },
+];
+
+const CUSTOM_SCHEMA_PLACEHOLDER = `{
+  "title": "我的格式",
+  "type": "object",
+  "properties": {
+    "answer": { "type": "string" }
+  },
+  "required": ["answer"]
+}`;
+
+const FinalAnswerFormatPanel: React.FC<FinalAnswerFormatPanelProps> = ({ format, error, onFormatChange, isLoading }) => {
+  const updateFormat = (updates: Partial<FinalAnswerFormatSettings>) => {
+    onFormatChange({ ...format, ...updates });
+  };
+
+  const selectedTemplate = STRUCTURED_ANSWER_TEMPLATES.find(t => t.id === format.templateId);
+
+  return (
+    <div className="bg-muted/30 p-3 rounded-md space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center text-sm font-medium">
+          <Braces size={18} className="mr-2 text-primary" />
+          最终答案格式
+        </div>
+        <Select
+          value={format.mode}
+          onValueChange={(mode) => updateFormat({ mode: mode as FinalAnswerFormatMode })}
+          disabled={isLoading}
+        >
+          <SelectTrigger className="h-8 w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[1000]">
+            {FORMAT_MODE_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {format.mode === 'template' && (
+        <div className="space-y-1">
+          <Select
+            value={format.templateId}
+            onValueChange={(templateId) => updateFormat({ templateId })}
+            disabled={isLoading}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="选择模板" />
+            </SelectTrigger>
+            <SelectContent className="z-[1000]">
+              {STRUCTURED_ANSWER_TEMPLATES.map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedTemplate && <p className="text-xs text-muted-foreground">{selectedTemplate.description}</p>}
+        </div>
+      )}
+      {format.mode === 'custom-schema' && (
+        <Textarea
+          value={format.customSchema}
+          onChange={(e) => updateFormat({ customSchema: e.target.value })}
+          placeholder={CUSTOM_SCHEMA_PLACEHOLDER}
+          className="min-h-[140px] font-mono text-xs"
+          disabled={isLoading}
+          aria-label="自定义 JSON Schema"
+        />
+      )}
+      {error && format.mode !== 'markdown' && (
+        <p className="text-xs text-destructive">{error}，本次将按 Markdown 输出。</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        结构化格式下，最终答案以 JSON 输出并按 Schema 校验；渠道支持时使用服务商的 JSON 输出模式，否则通过提示词约束。校验失败会自动请求一次修复。
+      </p>
+    </div>
+  );
+};
+
+export default FinalAnswerFormatPanel;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { History, Play, FastForward, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { InterruptedDiscussionRun, describeInterruptedRun } from '../utils/discussionCheckpoint';
+
+interface InterruptedRunBannerProps {
+  run: InterruptedDiscussionRun;
+  onResume: () => void;
+  onFinalize: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * 页面重载后提示上次未完成的讨论：继续、直接生成最终答案或忽略
+ */
+const InterruptedRunBanner: React.FC<InterruptedRunBannerProps> = ({ run, onResume, onFinalize, onDismiss }) => {
+  const savedAt = new Date(run.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="px-3 py-2 border-t bg-sky-50/70 flex flex-wrap items-center gap-2">
+      <span className="flex items-center text-xs text-sky-800 mr-auto">
+        <History size={14} className="mr-1.5" />
+        {run.failedStep ? '上次讨论在步骤失败后中断' : '上次讨论未完成'}（{describeInterruptedRun(run)}，{savedAt}）
+      </span>
+      <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onResume} title={run.failedStep ? '重试失败的步骤并继续讨论' : '从中断的步骤继续讨论'}>
+        <Play size={14} className="mr-1" />
+        继续讨论
+      </Button>
+      <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onFinalize} title="基于已有的讨论直接生成最终答案">
+        <FastForward size={14} className="mr-1" />
+        直接生成最终答案
+      </Button>
+      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onDismiss} title="忽略" aria-label="忽略未完成的讨论">
+        <X size={14} />
+      </Button>
+    </div>
+  );
+};
+
+export default InterruptedRunBanner;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { ChannelRequestRecord } from '../types';
+
+interface LatencySparklineProps {
+  records: ChannelRequestRecord[];
+  width?: number;
+  height?: number;
+}
+
+/**
+ * 最近请求的延迟走势：折线为成功请求的耗时，红点标出失败的请求
+ */
+const LatencySparkline: React.FC<LatencySparklineProps> = ({ records, width = 120, height = 24 }) => {
+  if (records.length < 2) return null;
+
+  const maxLatency = Math.max(...records.map(record => record.latencyMs), 1);
+  const step = width / (records.length - 1);
+  const points = records.map((record, index) => ({
+    index,
+    x: index * step,
+    y: height - 2 - (record.latencyMs / maxLatency) * (height - 4),
+    record,
+  }));
+  const line = points
+    .filter(point => point.record.success)
+    .map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className="shrink-0" aria-label="最近请求延迟">
+      <polyline points={line} fill="none" stroke="currentColor" strokeWidth={1.25} className="text-primary" />
+      {points.filter(point => !point.record.success).map(point => (
+        <circle key={point.index} cx={point.x} cy={height - 3} r={1.75} className="fill-red-500">
+          <title>{point.record.error || '请求失败'}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default LatencySparkline;
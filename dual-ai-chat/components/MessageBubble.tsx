@@ -1,16 +1,26 @@
 import React, { useState } from 'react';
-import { ChatMessage, MessageSender, MessagePurpose, FailedStepPayload } from '../types';
-import { Lightbulb, MessageSquareText, UserCircle, Zap, AlertTriangle, Copy, Check, RefreshCw } from 'lucide-react';
+import { ChatMessage, MessageSender, MessagePurpose, FailedStepPayload, MessageAgentInfo } from '../types';
+import { Lightbulb, MessageSquareText, UserCircle, Zap, AlertTriangle, Copy, Check, RefreshCw, Gavel, GitBranch, Pencil, ChevronLeft, ChevronRight } from 'lucide-react';
 import { marked } from 'marked';
 import DOMPurify from 'dompurify';
+import StructuredAnswerBlock from './StructuredAnswerBlock';
+import { formatRouteDecision } from '../utils/discussionRouting';
 
 interface SenderIconProps {
   sender: MessageSender;
   purpose: MessagePurpose;
   messageText: string;
+  agent?: MessageAgentInfo;
 }
 
-const SenderIcon: React.FC<SenderIconProps> = ({ sender, purpose, messageText }) => {
+const isAiSender = (sender: MessageSender): boolean =>
+  sender === MessageSender.Cognito || sender === MessageSender.Muse || sender === MessageSender.Agent;
+
+// 将 #RRGGBB 颜色转为带透明度的颜色，用于参与者气泡背景
+const withAlpha = (color: string, alphaHex: string): string =>
+  /^#[0-9a-fA-F]{6}$/.test(color) ? `${color}${alphaHex}` : color;
+
+const SenderIcon: React.FC<SenderIconProps> = ({ sender, purpose, messageText, agent }) => {
   const iconClass = "w-5 h-5 mr-2 flex-shrink-0";
   switch (sender) {
     case MessageSender.User:
@@ -19,6 +29,10 @@ const SenderIcon: React.FC<SenderIconProps> = ({ sender, purpose, messageText })
       return <Lightbulb className={`${iconClass} text-green-500`} />;
     case MessageSender.Muse:
       return <Zap className={`${iconClass} text-purple-500`} />;
+    case MessageSender.Agent:
+      return <span className="w-5 h-5 mr-2 flex-shrink-0 flex items-center justify-center text-base" aria-hidden="true">{agent?.icon || '🤖'}</span>;
+    case MessageSender.Moderator:
+      return <Gavel className={`${iconClass} text-amber-600`} />;
     case MessageSender.System:
       if (
         purpose === MessagePurpose.SystemNotification &&
@@ -40,6 +54,7 @@ const getSenderNameStyle = (sender: MessageSender): string => {
     case MessageSender.Cognito: return "text-green-600";
     case MessageSender.Muse: return "text-purple-600";
     case MessageSender.System: return "text-gray-600";
+    case MessageSender.Moderator: return "text-amber-700";
     default: return "text-gray-700";
   }
 }
@@ -66,19 +81,29 @@ const getBubbleStyle = (sender: MessageSender, purpose: MessagePurpose, messageT
       return baseStyle + "bg-green-50 border-green-300 text-green-800 mr-auto rounded-br-none";
     case MessageSender.Muse:
       return baseStyle + "bg-purple-50 border-purple-300 text-purple-800 mr-auto rounded-br-none";
+    case MessageSender.Agent:
+      return baseStyle + "bg-white border-gray-300 text-gray-800 mr-auto rounded-br-none";
+    case MessageSender.Moderator:
+      return baseStyle + "bg-amber-50 border-amber-300 border-dashed text-amber-900 mx-auto";
     default:
       return baseStyle + "bg-white border-gray-300 text-gray-700 mr-auto";
   }
 };
 
-const getPurposePrefix = (purpose: MessagePurpose): string => {
+const getPurposePrefix = (purpose: MessagePurpose, agent?: MessageAgentInfo): string => {
   switch (purpose) {
+    case MessagePurpose.AgentDiscussion:
+      return agent?.addressee ? `致 ${agent.addressee}的消息: ` : `讨论发言: `;
     case MessagePurpose.CognitoToMuse:
       return `致 ${MessageSender.Muse}的消息: `;
     case MessagePurpose.MuseToCognito:
       return `致 ${MessageSender.Cognito}的消息: `;
     case MessagePurpose.FinalResponse:
       return `最终答案: `;
+    case MessagePurpose.ModeratorVerdict:
+      return `主持人评估: `;
+    case MessagePurpose.UserSteering:
+      return `讨论引导: `;
     default:
       return "";
   }
@@ -88,23 +113,40 @@ interface MessageBubbleProps {
   message: ChatMessage;
   onManualRetry?: (payload: FailedStepPayload) => void;
   failedStepPayloadForThisMessage?: FailedStepPayload | null;
+  onBranchFromMessage?: (messageId: string) => void;
+  onEditUserMessage?: (messageId: string, newText: string) => void;
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onManualRetry, failedStepPayloadForThisMessage }) => {
-  const { text: messageText, sender, purpose, timestamp, durationMs, image, id: messageId } = message;
-  const formattedTime = new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onManualRetry, failedStepPayloadForThisMessage, onBranchFromMessage, onEditUserMessage }) => {
+  const { text: currentText, sender, purpose, timestamp: currentTimestamp, durationMs: currentDurationMs, image, id: messageId, agent, isStreaming, alternates = [], structuredAnswer, route, channel } = message;
   const [isCopied, setIsCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(currentText);
+  // 历史答案分页：最后一页为当前答案
+  const [alternateIndex, setAlternateIndex] = useState(alternates.length);
 
-  const isDiscussionStep = purpose === MessagePurpose.CognitoToMuse || purpose === MessagePurpose.MuseToCognito;
+  const viewedAlternate = alternateIndex < alternates.length ? alternates[alternateIndex] : null;
+  const messageText = viewedAlternate ? viewedAlternate.text : currentText;
+  const timestamp = viewedAlternate ? viewedAlternate.timestamp : currentTimestamp;
+  const durationMs = viewedAlternate ? viewedAlternate.durationMs : currentDurationMs;
+  const displayedStructuredAnswer = viewedAlternate ? viewedAlternate.structuredAnswer : structuredAnswer;
+  const formattedTime = new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const isDiscussionStep = purpose === MessagePurpose.CognitoToMuse || purpose === MessagePurpose.MuseToCognito || purpose === MessagePurpose.AgentDiscussion;
   const isFinalResponse = purpose === MessagePurpose.FinalResponse;
-  const showDuration = durationMs !== undefined && durationMs > 0 && (isDiscussionStep || isFinalResponse || sender === MessageSender.Cognito || sender === MessageSender.Muse);
+  const isModeratorVerdict = purpose === MessagePurpose.ModeratorVerdict;
+  const hasPurposePrefix = isDiscussionStep || isFinalResponse || isModeratorVerdict || purpose === MessagePurpose.UserSteering;
+  const showDuration = durationMs !== undefined && durationMs > 0 && (isDiscussionStep || isFinalResponse || isModeratorVerdict || isAiSender(sender));
+
+  const isPlaceholderAiMessage = isAiSender(sender) && messageText.startsWith("(AI") && messageText.endsWith(")");
 
-  const isPlaceholderAiMessage = (
-    sender === MessageSender.Cognito || sender === MessageSender.Muse
-  ) && messageText.startsWith("(AI") && messageText.endsWith(")");
+  // 额外参与者使用其角色颜色渲染气泡
+  const agentBubbleStyle: React.CSSProperties | undefined = sender === MessageSender.Agent && agent
+    ? { borderColor: agent.color, backgroundColor: withAlpha(agent.color, '14') }
+    : undefined;
 
   const shouldRenderMarkdown = 
-    (sender === MessageSender.User || sender === MessageSender.Cognito || sender === MessageSender.Muse) &&
+    (sender === MessageSender.User || isAiSender(sender) || isModeratorVerdict) &&
     !isPlaceholderAiMessage &&
     purpose !== MessagePurpose.SystemNotification; 
 
@@ -120,7 +162,7 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onManualRetry, f
   }
 
   const handleCopy = async () => {
-    const prefix = getPurposePrefix(purpose);
+    const prefix = getPurposePrefix(purpose, agent);
     const textToCopy = prefix + messageText;
     try {
       await navigator.clipboard.writeText(textToCopy);
@@ -131,7 +173,22 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onManualRetry, f
     }
   };
 
-  const canCopy = (sender === MessageSender.User || sender === MessageSender.Cognito || sender === MessageSender.Muse) && purpose !== MessagePurpose.SystemNotification && messageText.length > 0;
+  const canCopy = (sender === MessageSender.User || isAiSender(sender) || isModeratorVerdict) && purpose !== MessagePurpose.SystemNotification && messageText.length > 0 && !isStreaming;
+  const canBranch = !!onBranchFromMessage && sender !== MessageSender.System && !isStreaming;
+  const canEdit = !!onEditUserMessage && sender === MessageSender.User && purpose === MessagePurpose.UserInput && !isEditing;
+
+  const handleStartEdit = () => {
+    setEditText(currentText);
+    setIsEditing(true);
+  };
+
+  const handleSubmitEdit = () => {
+    if (!editText.trim() || !onEditUserMessage) return;
+    setIsEditing(false);
+    onEditUserMessage(messageId, editText.trim());
+  };
+
+  const actionButtonColorClass = sender === MessageSender.User ? 'text-blue-200 hover:text-white' : 'text-gray-400 hover:text-sky-600';
   const bubbleTextColorClass = sender === MessageSender.User ? 'text-gray-100' : 'text-gray-800';
   const bubblePurposePrefixColorClass = sender === MessageSender.User ? 'text-gray-200' : 'text-gray-700';
   const bubbleTimestampColorClass = sender === MessageSender.User ? 'text-blue-200' : 'text-gray-500';
@@ -144,29 +201,91 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onManualRetry, f
 
   return (
     <div className={`flex ${sender === MessageSender.User ? 'justify-end' : 'justify-start'}`}>
-      <div className={`${getBubbleStyle(sender, purpose, messageText)}`}>
-        {canCopy && (
-          <button
-            onClick={handleCopy}
-            title={isCopied ? "已复制!" : "复制消息"}
-            aria-label={isCopied ? "已复制消息到剪贴板" : "复制消息内容"}
-            className={`absolute top-1.5 right-1.5 p-1 ${sender === MessageSender.User ? 'text-blue-200 hover:text-white' : 'text-gray-400 hover:text-sky-600'} transition-colors rounded-md focus:outline-none focus:ring-1 focus:ring-sky-500`}
-          >
-            {isCopied ? <Check size={16} className="text-green-500" /> : <Copy size={16} />}
-          </button>
+      <div className={`${getBubbleStyle(sender, purpose, messageText)}`} style={agentBubbleStyle}>
+        {(canCopy || canBranch || canEdit) && (
+          <div className="absolute top-1.5 right-1.5 flex items-center">
+            {canEdit && (
+              <button
+                onClick={handleStartEdit}
+                title="编辑并重新生成"
+                aria-label="编辑此消息并重新生成讨论"
+                className={`p-1 ${actionButtonColorClass} transition-colors rounded-md focus:outline-none focus:ring-1 focus:ring-sky-500`}
+              >
+                <Pencil size={16} />
+              </button>
+            )}
+            {canBranch && (
+              <button
+                onClick={() => onBranchFromMessage!(messageId)}
+                title="从此消息创建分支会话"
+                aria-label="从此消息创建分支会话"
+                className={`p-1 ${actionButtonColorClass} transition-colors rounded-md focus:outline-none focus:ring-1 focus:ring-sky-500`}
+              >
+                <GitBranch size={16} />
+              </button>
+            )}
+            {canCopy && (
+              <button
+                onClick={handleCopy}
+                title={isCopied ? "已复制!" : "复制消息"}
+                aria-label={isCopied ? "已复制消息到剪贴板" : "复制消息内容"}
+                className={`p-1 ${actionButtonColorClass} transition-colors rounded-md focus:outline-none focus:ring-1 focus:ring-sky-500`}
+              >
+                {isCopied ? <Check size={16} className="text-green-500" /> : <Copy size={16} />}
+              </button>
+            )}
+          </div>
         )}
         <div className="flex items-center mb-1">
-          <SenderIcon sender={sender} purpose={purpose} messageText={messageText} />
-          <span className={`font-semibold ${getSenderNameStyle(sender)}`}>{sender}</span>
+          <SenderIcon sender={sender} purpose={purpose} messageText={messageText} agent={agent} />
+          <span
+            className={`font-semibold ${getSenderNameStyle(sender)}`}
+            style={sender === MessageSender.Agent && agent ? { color: agent.color } : undefined}
+          >
+            {agent?.name || sender}
+          </span>
           {isDiscussionStep && <span className={`ml-2 text-xs ${sender === MessageSender.User ? 'text-blue-200' : 'text-gray-500'}`}>(内部讨论)</span>}
         </div>
         
-        {messageText && ( 
+        {isEditing ? (
+          <div className="space-y-2">
+            <textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSubmitEdit();
+                }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              className="w-full min-h-[80px] rounded-md border border-blue-300 bg-white px-2 py-1.5 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-sky-400"
+              aria-label="编辑消息"
+              autoFocus
+            />
+            <p className="text-xs text-blue-100">保存后将删除此消息之后的全部内容，恢复当时的记事本并重新讨论。</p>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-2.5 py-1 rounded-md text-xs bg-blue-500 hover:bg-blue-400 text-white transition-colors"
+              >
+                取消
+              </button>
+              <button
+                onClick={handleSubmitEdit}
+                disabled={!editText.trim()}
+                className="px-2.5 py-1 rounded-md text-xs bg-white text-blue-700 font-semibold hover:bg-blue-50 disabled:opacity-50 transition-colors"
+              >
+                保存并重新生成
+              </button>
+            </div>
+          </div>
+        ) : messageText && ( 
           shouldRenderMarkdown ? (
             <>
-              {(isDiscussionStep || isFinalResponse) && (
+              {hasPurposePrefix && (
                 <span className={`block font-medium ${bubblePurposePrefixColorClass} text-sm mb-0.5`}>
-                  {getPurposePrefix(purpose)}
+                  {getPurposePrefix(purpose, agent)}
                 </span>
               )}
               <div
@@ -177,7 +296,7 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onManualRetry, f
           ) : (
             <p className={`text-sm ${bubbleTextColorClass} whitespace-pre-wrap`}>
               {(isDiscussionStep || isFinalResponse) && ( 
-                <span className={`font-medium ${bubblePurposePrefixColorClass}`}>{getPurposePrefix(purpose)}</span>
+                <span className={`font-medium ${bubblePurposePrefixColorClass}`}>{getPurposePrefix(purpose, agent)}</span>
               )}
               {messageText}
             </p>
@@ -193,9 +312,48 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onManualRetry, f
             />
           </div>
         )}
+        {displayedStructuredAnswer && <StructuredAnswerBlock key={alternateIndex} answer={displayedStructuredAnswer} />}
+        {isFinalResponse && alternates.length > 0 && (
+          <div className="mt-2 flex items-center gap-1 text-xs text-gray-500">
+            <button
+              onClick={() => setAlternateIndex(i => Math.max(0, i - 1))}
+              disabled={alternateIndex === 0}
+              className="p-0.5 rounded hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent"
+              aria-label="上一个答案"
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <span>{alternateIndex + 1}/{alternates.length + 1}</span>
+            <button
+              onClick={() => setAlternateIndex(i => Math.min(alternates.length, i + 1))}
+              disabled={alternateIndex === alternates.length}
+              className="p-0.5 rounded hover:bg-gray-200 disabled:opacity-40 disabled:hover:bg-transparent"
+              aria-label="下一个答案"
+            >
+              <ChevronRight size={14} />
+            </button>
+            {viewedAlternate && (
+              <span className="ml-1 truncate italic" title={viewedAlternate.userInput}>
+                历史答案，针对问题: {viewedAlternate.userInput}
+              </span>
+            )}
+          </div>
+        )}
         <div className={`text-xs ${bubbleTimestampColorClass} mt-2 flex justify-between items-center`}>
-          <span>{formattedTime}</span>
-          {showDuration && (
+          <span>
+            {formattedTime}
+            {route && !viewedAlternate && <span className="ml-2" title="本次讨论的路由">· {formatRouteDecision(route)}</span>}
+            {channel && !viewedAlternate && (
+              <span className="ml-2" title={`渠道: ${channel.channelName}，模型: ${channel.model}`}>
+                · {channel.channelName}
+                {channel.failedChannelNames && ` (${channel.failedChannelNames.join('、')} 失败后切换)`}
+              </span>
+            )}
+          </span>
+          {isStreaming && (
+            <span className="italic animate-pulse">正在生成...</span>
+          )}
+          {showDuration && !isStreaming && (
             <span className="italic"> (耗时: {(durationMs / 1000).toFixed(2)}s)</span>
           )}
         </div>
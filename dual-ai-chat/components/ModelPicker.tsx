@@ -0,0 +1,94 @@
+import React, { useEffect, useId, useMemo } from 'react';
+import { useApiChannels } from '../hooks/useApiChannels';
+import { useModelCatalog } from '../hooks/useModelCatalog';
+import { canFetchChannelModels } from '../services/modelCatalogService';
+import { RefreshCw } from 'lucide-react';
+import { Input } from './ui/input';
+import { cn } from '../lib/utils';
+
+interface ModelPickerProps {
+  channelId?: string; // 为空时使用默认渠道的模型目录
+  value?: string;
+  onChange: (modelApiName: string | undefined) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  ariaLabel?: string;
+}
+
+/**
+ * 模型选择：从渠道的模型目录中选择，也可直接输入目录中没有的模型名
+ */
+const ModelPicker: React.FC<ModelPickerProps> = ({
+  channelId,
+  value,
+  onChange,
+  disabled = false,
+  placeholder = '模型',
+  ariaLabel = '模型',
+}) => {
+  const datalistId = useId();
+  const { channels, getDefaultChannel } = useApiChannels();
+  const { catalogs, fetchingChannelIds, refreshCatalog, isCatalogStale } = useModelCatalog();
+
+  const channel = useMemo(() => {
+    const selected = channelId ? channels.find(c => c.id === channelId && c.enabled !== false) : null;
+    return selected || getDefaultChannel();
+  }, [channelId, channels, getDefaultChannel]);
+
+  const catalog = channel ? catalogs[channel.id] : undefined;
+  const isFetching = !!channel && fetchingChannelIds.includes(channel.id);
+  const selectedModel = value ? catalog?.models.find(m => m.id === value) : undefined;
+
+  // 目录缺失或过期时自动获取
+  useEffect(() => {
+    if (channel && canFetchChannelModels(channel) && isCatalogStale(channel.id)) {
+      refreshCatalog(channel);
+    }
+  }, [channel, isCatalogStale, refreshCatalog]);
+
+  const capabilityText = selectedModel
+    ? [
+        selectedModel.supportsVision ? '视觉' : '无视觉',
+        selectedModel.supportsSystemInstruction ? '系统提示词' : '无系统提示词',
+        selectedModel.supportsThinking ? '思考' : null,
+        selectedModel.inputTokenLimit ? `上下文 ${Math.round(selectedModel.inputTokenLimit / 1000)}K` : null,
+      ].filter(Boolean).join(' · ')
+    : '';
+
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center gap-1">
+        <Input
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value.trim() || undefined)}
+          placeholder={`${placeholder} (${channel ? `默认: ${channel.defaultModel}` : '留空使用默认'})`}
+          className="h-8 text-xs flex-1"
+          list={datalistId}
+          disabled={disabled}
+          aria-label={ariaLabel}
+        />
+        <datalist id={datalistId}>
+          {catalog?.models.map(model => (
+            <option key={model.id} value={model.id}>{model.displayName}</option>
+          ))}
+        </datalist>
+        <button
+          type="button"
+          onClick={() => channel && refreshCatalog(channel)}
+          disabled={disabled || !channel || isFetching}
+          title={catalog ? `刷新模型列表（${new Date(catalog.fetchedAt).toLocaleString()} 获取，${catalog.models.length} 个模型）` : '获取模型列表'}
+          aria-label="刷新模型列表"
+          className="p-1.5 text-muted-foreground hover:text-primary rounded disabled:opacity-50"
+        >
+          <RefreshCw size={14} className={cn(isFetching && 'animate-spin')} />
+        </button>
+      </div>
+      {catalog?.error && !isFetching && (
+        <p className="text-xs text-destructive truncate" title={catalog.error}>模型列表获取失败: {catalog.error}</p>
+      )}
+      {capabilityText && <p className="text-xs text-muted-foreground">{capabilityText}</p>}
+    </div>
+  );
+};
+
+export default ModelPicker;
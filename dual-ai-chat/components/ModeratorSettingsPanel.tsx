@@ -0,0 +1,99 @@
+import React from 'react';
+import { CustomAIRole, ModeratorSettings } from '../types';
+import { Gavel } from 'lucide-react';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import ChannelSelector from './ChannelSelector';
+import ModelPicker from './ModelPicker';
+import FallbackChannelsEditor from './FallbackChannelsEditor';
+
+interface ModeratorSettingsPanelProps {
+  settings: ModeratorSettings;
+  roles: CustomAIRole[];
+  onSettingsChange: (settings: ModeratorSettings) => void;
+  isLoading: boolean;
+}
+
+// Radix Select 不允许空字符串作为选项值
+const DEFAULT_MODERATOR_ROLE_VALUE = '__default__';
+
+const ModeratorSettingsPanel: React.FC<ModeratorSettingsPanelProps> = ({
+  settings,
+  roles,
+  onSettingsChange,
+  isLoading
+}) => {
+  const updateSettings = (updates: Partial<ModeratorSettings>) => {
+    onSettingsChange({ ...settings, ...updates });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label htmlFor="moderatorToggleModal" className="flex items-center text-sm font-medium cursor-pointer">
+          <Gavel size={20} className="mr-2 text-primary" />
+          <span>启用主持人</span>
+        </label>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="moderatorToggleModal"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => updateSettings({ enabled })}
+            disabled={isLoading}
+            aria-label="切换主持人"
+          />
+          <span className="text-sm text-muted-foreground min-w-[3rem]">
+            {settings.enabled ? '开启' : '关闭'}
+          </span>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        主持人不参与发言。在“全员同意结束”的阶段（如AI驱动模式）中，主持人会在每轮结束后阅读讨论记录，决定继续还是结束，并为下一轮指明重点。
+      </p>
+      {settings.enabled && (
+        <div className="p-3 border rounded-md bg-muted/30 space-y-2">
+          <Select
+            value={settings.roleName || DEFAULT_MODERATOR_ROLE_VALUE}
+            onValueChange={(roleName) => updateSettings({ roleName: roleName === DEFAULT_MODERATOR_ROLE_VALUE ? undefined : roleName })}
+            disabled={isLoading}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="选择主持人角色" />
+            </SelectTrigger>
+            <SelectContent className="z-[1000]">
+              <SelectItem value={DEFAULT_MODERATOR_ROLE_VALUE}>⚖️ 内置主持人</SelectItem>
+              {roles.map(r => (
+                <SelectItem key={r.id} value={r.name}>{r.icon} {r.displayName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <ChannelSelector
+              currentChannelId={settings.channelId}
+              onChannelChange={(channelId) => updateSettings({ channelId: channelId || undefined })}
+              size="sm"
+              disabled={isLoading}
+              contentClassName="z-[1000]"
+            />
+            <ModelPicker
+              channelId={settings.channelId}
+              value={settings.modelApiName}
+              onChange={(modelApiName) => updateSettings({ modelApiName })}
+              disabled={isLoading}
+              ariaLabel="主持人专属模型"
+            />
+          </div>
+          <FallbackChannelsEditor
+            channelIds={settings.fallbackChannelIds}
+            onChange={(fallbackChannelIds) => updateSettings({ fallbackChannelIds })}
+            excludeChannelId={settings.channelId}
+            disabled={isLoading}
+            contentClassName="z-[1000]"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModeratorSettingsPanel;
@@ -46,6 +46,8 @@ const NotepadHistory: React.FC<NotepadHistoryProps> = ({
         return '🧠';
       case MessageSender.Muse:
         return '✨';
+      case MessageSender.Agent:
+        return '🤖';
       case MessageSender.System:
         return '⚙️';
       default:
@@ -0,0 +1,136 @@
+import React from 'react';
+import { CustomAIRole, DiscussionParticipant } from '../types';
+import { ArrowUp, ArrowDown, Plus, Trash2, Crown } from 'lucide-react';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import ChannelSelector from './ChannelSelector';
+import ModelPicker from './ModelPicker';
+import FallbackChannelsEditor from './FallbackChannelsEditor';
+import { COGNITO_PARTICIPANT_ID, MUSE_PARTICIPANT_ID } from '../utils/participants';
+import { generateUniqueId } from '../utils/appUtils';
+
+interface ParticipantSettingsProps {
+  participants: DiscussionParticipant[];
+  roles: CustomAIRole[];
+  onParticipantsChange: (participants: DiscussionParticipant[]) => void;
+  isLoading: boolean;
+}
+
+const MIN_PARTICIPANTS = 2;
+
+const isBuiltInParticipant = (participant: DiscussionParticipant) =>
+  participant.id === COGNITO_PARTICIPANT_ID || participant.id === MUSE_PARTICIPANT_ID;
+
+const ParticipantSettings: React.FC<ParticipantSettingsProps> = ({
+  participants,
+  roles,
+  onParticipantsChange,
+  isLoading
+}) => {
+  const updateParticipant = (participantId: string, updates: Partial<DiscussionParticipant>) => {
+    onParticipantsChange(participants.map(p => (p.id === participantId ? { ...p, ...updates } : p)));
+  };
+
+  const moveParticipant = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= participants.length) return;
+    const updated = [...participants];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onParticipantsChange(updated);
+  };
+
+  const removeParticipant = (participantId: string) => {
+    if (participants.length <= MIN_PARTICIPANTS) return;
+    onParticipantsChange(participants.filter(p => p.id !== participantId));
+  };
+
+  const addParticipant = () => {
+    const usedRoles = new Set(participants.map(p => p.roleName));
+    const role = roles.find(r => !usedRoles.has(r.name)) || roles[0];
+    if (!role) return;
+    onParticipantsChange([...participants, { id: generateUniqueId(), roleName: role.name }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        第一个参与者为主导者，负责开场和最终答案；其余参与者按顺序轮流发言。每个参与者可单独指定渠道和模型，模型列表从渠道获取；渠道超时或出错时按顺序切换到备用渠道（使用备用渠道的默认模型）。
+      </p>
+      {participants.map((participant, index) => {
+        const role = roles.find(r => r.name === participant.roleName);
+        return (
+          <div key={participant.id} className="p-3 border rounded-md bg-muted/30 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-lg" style={{ color: role?.color }}>{role?.icon || '🤖'}</span>
+              <Select
+                value={participant.roleName}
+                onValueChange={(roleName) => updateParticipant(participant.id, { roleName })}
+                disabled={isLoading}
+              >
+                <SelectTrigger className="h-8 text-xs flex-1">
+                  <SelectValue placeholder="选择角色" />
+                </SelectTrigger>
+                <SelectContent className="z-[1000]">
+                  {roles.map(r => (
+                    <SelectItem key={r.id} value={r.name}>{r.icon} {r.displayName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {index === 0 && (
+                <span className="flex items-center gap-1 px-2 py-1 text-xs bg-primary/10 text-primary rounded-full" title="主导者">
+                  <Crown size={12} />
+                  主导
+                </span>
+              )}
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveParticipant(index, -1)} disabled={isLoading || index === 0} title="上移">
+                <ArrowUp size={14} />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveParticipant(index, 1)} disabled={isLoading || index === participants.length - 1} title="下移">
+                <ArrowDown size={14} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                onClick={() => removeParticipant(participant.id)}
+                disabled={isLoading || isBuiltInParticipant(participant) || participants.length <= MIN_PARTICIPANTS}
+                title={isBuiltInParticipant(participant) ? '内置参与者不可移除' : '移除'}
+              >
+                <Trash2 size={14} />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <ChannelSelector
+                currentChannelId={participant.channelId}
+                onChannelChange={(channelId) => updateParticipant(participant.id, { channelId: channelId || undefined })}
+                size="sm"
+                disabled={isLoading}
+                contentClassName="z-[1000]"
+              />
+              <ModelPicker
+                channelId={participant.channelId}
+                value={participant.modelApiName}
+                onChange={(modelApiName) => updateParticipant(participant.id, { modelApiName })}
+                disabled={isLoading}
+                ariaLabel="参与者专属模型"
+              />
+            </div>
+            <FallbackChannelsEditor
+              channelIds={participant.fallbackChannelIds}
+              onChange={(fallbackChannelIds) => updateParticipant(participant.id, { fallbackChannelIds })}
+              excludeChannelId={participant.channelId}
+              disabled={isLoading}
+              contentClassName="z-[1000]"
+            />
+          </div>
+        );
+      })}
+      <Button variant="outline" size="sm" onClick={addParticipant} disabled={isLoading || roles.length === 0}>
+        <Plus size={14} className="mr-1" />
+        添加参与者
+      </Button>
+    </div>
+  );
+};
+
+export default ParticipantSettings;
@@ -0,0 +1,396 @@
+import React, { useState } from 'react';
+import { DiscussionPhase, DiscussionProtocol, ProtocolExitCondition } from '../types';
+import {
+  Workflow,
+  Plus,
+  Edit2,
+  Trash2,
+  Copy,
+  Save,
+  X,
+  ArrowUp,
+  ArrowDown
+} from 'lucide-react';
+import { DiscussionProtocolData } from '../hooks/useDiscussionProtocols';
+import { createEmptyDiscussionPhase, describeProtocolPhases, validateDiscussionProtocol } from '../utils/discussionProtocols';
+
+interface ProtocolManagerProps {
+  protocols: DiscussionProtocol[];
+  currentProtocolId: string;
+  onCreateProtocol: (protocolData: DiscussionProtocolData) => string;
+  onUpdateProtocol: (protocolId: string, updates: Partial<DiscussionProtocolData>) => void;
+  onDeleteProtocol: (protocolId: string) => void;
+  onDuplicateProtocol: (protocolId: string) => void;
+  onSelectProtocol: (protocolId: string) => void;
+  onClose: () => void;
+}
+
+const EXIT_CONDITION_OPTIONS: { value: ProtocolExitCondition; label: string }[] = [
+  { value: 'fixed-turns', label: '固定轮数' },
+  { value: 'consensus', label: '全员同意结束 (轮数为上限)' },
+  { value: 'discussion-mode', label: '跟随对话轮数模式' },
+];
+
+const emptyFormData = (): DiscussionProtocolData => ({
+  name: '',
+  description: '',
+  phases: [createEmptyDiscussionPhase()]
+});
+
+const ProtocolManager: React.FC<ProtocolManagerProps> = ({
+  protocols,
+  currentProtocolId,
+  onCreateProtocol,
+  onUpdateProtocol,
+  onDeleteProtocol,
+  onDuplicateProtocol,
+  onSelectProtocol,
+  onClose
+}) => {
+  const [editingProtocolId, setEditingProtocolId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [formData, setFormData] = useState<DiscussionProtocolData>(emptyFormData);
+
+  const handleStartCreate = () => {
+    setFormData(emptyFormData());
+    setIsCreating(true);
+    setEditingProtocolId(null);
+  };
+
+  const handleStartEdit = (protocol: DiscussionProtocol) => {
+    if (protocol.isBuiltIn) return;
+    setFormData({
+      name: protocol.name,
+      description: protocol.description,
+      phases: protocol.phases.map(phase => ({ ...phase, speakers: [...phase.speakers] }))
+    });
+    setEditingProtocolId(protocol.id);
+    setIsCreating(false);
+  };
+
+  const handleCancel = () => {
+    setIsCreating(false);
+    setEditingProtocolId(null);
+    setFormData(emptyFormData());
+  };
+
+  const handleSave = () => {
+    const cleaned: DiscussionProtocolData = {
+      ...formData,
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      phases: formData.phases.map(phase => ({
+        ...phase,
+        name: phase.name.trim(),
+        instruction: phase.instruction.trim(),
+        speakers: phase.speakers.map(s => s.trim()).filter(Boolean)
+      }))
+    };
+    const errors = validateDiscussionProtocol(cleaned);
+    if (errors.length > 0) {
+      alert(`协议配置有误:\n${errors.join('\n')}`);
+      return;
+    }
+
+    if (isCreating) {
+      const newId = onCreateProtocol(cleaned);
+      onSelectProtocol(newId);
+    } else if (editingProtocolId) {
+      onUpdateProtocol(editingProtocolId, cleaned);
+    }
+
+    handleCancel();
+  };
+
+  const updatePhase = (index: number, updates: Partial<DiscussionPhase>) => {
+    setFormData(prev => ({
+      ...prev,
+      phases: prev.phases.map((phase, i) => (i === index ? { ...phase, ...updates } : phase))
+    }));
+  };
+
+  const movePhase = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= formData.phases.length) return;
+    const phases = [...formData.phases];
+    [phases[index], phases[target]] = [phases[target], phases[index]];
+    setFormData({ ...formData, phases });
+  };
+
+  const removePhase = (index: number) => {
+    setFormData({ ...formData, phases: formData.phases.filter((_, i) => i !== index) });
+  };
+
+  const isEditing = isCreating || editingProtocolId !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] mx-4 flex flex-col">
+        {/* 头部 */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+            <Workflow className="mr-2" size={20} />
+            讨论协议管理
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* 左侧协议列表 */}
+          <div className="w-1/3 border-r border-gray-200 flex flex-col">
+            <div className="p-3 border-b border-gray-200">
+              <button
+                onClick={handleStartCreate}
+                className="w-full flex items-center justify-center px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+              >
+                <Plus size={16} className="mr-2" />
+                创建新协议
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {protocols.map((protocol) => (
+                <div
+                  key={protocol.id}
+                  className={`p-3 border-b border-gray-100 hover:bg-gray-50 transition-colors ${
+                    editingProtocolId === protocol.id ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-sm font-medium text-gray-900 truncate">
+                        {protocol.name}
+                      </h3>
+                      <p className="text-xs text-gray-500">
+                        {protocol.isBuiltIn ? '内置' : '自定义'} · {describeProtocolPhases(protocol)}
+                      </p>
+                    </div>
+                    {protocol.id === currentProtocolId && (
+                      <span className="px-2 py-1 text-xs bg-green-100 text-green-800 rounded">
+                        当前
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="mt-2 flex items-center space-x-2">
+                    <button
+                      onClick={() => onSelectProtocol(protocol.id)}
+                      className="px-2 py-1 text-xs bg-gray-100 hover:bg-green-100 text-gray-600 hover:text-green-700 rounded transition-colors"
+                    >
+                      使用此协议
+                    </button>
+                    <button
+                      onClick={() => onDuplicateProtocol(protocol.id)}
+                      className="text-gray-600 hover:text-gray-700"
+                      title="复制"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    {!protocol.isBuiltIn && (
+                      <>
+                        <button
+                          onClick={() => handleStartEdit(protocol)}
+                          className="text-blue-600 hover:text-blue-700"
+                          title="编辑"
+                        >
+                          <Edit2 size={14} />
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm('确定要删除这个协议吗？')) {
+                              onDeleteProtocol(protocol.id);
+                            }
+                          }}
+                          className="text-red-600 hover:text-red-700"
+                          title="删除"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* 右侧编辑表单 */}
+          <div className="flex-1 flex flex-col">
+            {isEditing ? (
+              <>
+                <div className="p-4 border-b border-gray-200">
+                  <h3 className="text-lg font-medium text-gray-900">
+                    {isCreating ? '创建新协议' : '编辑协议'}
+                  </h3>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        协议名称 *
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="例如: 专家评审"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        描述
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.description}
+                        onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="简要说明协议的讨论方式"
+                      />
+                    </div>
+                  </div>
+
+                  <p className="text-xs text-gray-500">
+                    发言者可填写 @lead (主导者)、@others (其余参与者)、@all (全部参与者)，或参与者ID/角色名，用逗号分隔并按顺序发言。
+                    未设置“生成最终答案”的阶段时，将由主导者在最后给出最终答案。
+                  </p>
+
+                  {formData.phases.map((phase, index) => (
+                    <div key={phase.id} className="p-3 border border-gray-200 rounded-md space-y-3 bg-gray-50">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-500 w-6">{index + 1}.</span>
+                        <input
+                          type="text"
+                          value={phase.name}
+                          onChange={(e) => updatePhase(index, { name: e.target.value })}
+                          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                          placeholder="阶段名称，例如: 批判"
+                        />
+                        <button onClick={() => movePhase(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-700 disabled:opacity-30" title="上移">
+                          <ArrowUp size={16} />
+                        </button>
+                        <button onClick={() => movePhase(index, 1)} disabled={index === formData.phases.length - 1} className="text-gray-500 hover:text-gray-700 disabled:opacity-30" title="下移">
+                          <ArrowDown size={16} />
+                        </button>
+                        <button onClick={() => removePhase(index)} disabled={formData.phases.length <= 1} className="text-red-600 hover:text-red-700 disabled:opacity-30" title="删除阶段">
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+
+                      <textarea
+                        value={phase.instruction}
+                        onChange={(e) => updatePhase(index, { instruction: e.target.value })}
+                        rows={2}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                        placeholder="本阶段对发言者的要求..."
+                      />
+
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">发言者</label>
+                          <input
+                            type="text"
+                            value={phase.speakers.join(', ')}
+                            onChange={(e) => updatePhase(index, { speakers: e.target.value.split(/[,，]/).map(s => s.trim()) })}
+                            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                            placeholder="@others, @lead"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">轮数</label>
+                          <input
+                            type="number"
+                            min={1}
+                            value={phase.turns}
+                            onChange={(e) => updatePhase(index, { turns: parseInt(e.target.value, 10) || 1 })}
+                            disabled={phase.producesFinalAnswer}
+                            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">结束条件</label>
+                          <select
+                            value={phase.exitCondition}
+                            onChange={(e) => updatePhase(index, { exitCondition: e.target.value as ProtocolExitCondition })}
+                            disabled={phase.producesFinalAnswer}
+                            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+                          >
+                            {EXIT_CONDITION_OPTIONS.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+
+                      <label className="flex items-center text-xs text-gray-600 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!phase.parallel && !phase.producesFinalAnswer}
+                          onChange={(e) => updatePhase(index, { parallel: e.target.checked || undefined })}
+                          disabled={phase.producesFinalAnswer}
+                          className="mr-2"
+                        />
+                        并行发言（每轮所有发言者同时独立作答，互相看不到本轮的回答）
+                      </label>
+
+                      <label className="flex items-center text-xs text-gray-600 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!phase.producesFinalAnswer}
+                          onChange={(e) => updatePhase(index, { producesFinalAnswer: e.target.checked || undefined })}
+                          className="mr-2"
+                        />
+                        生成最终答案（由首位发言者综合讨论并写入记事本，必须是最后一个阶段）
+                      </label>
+                    </div>
+                  ))}
+
+                  <button
+                    onClick={() => setFormData({ ...formData, phases: [...formData.phases, createEmptyDiscussionPhase()] })}
+                    className="flex items-center px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 transition-colors"
+                  >
+                    <Plus size={16} className="mr-2" />
+                    添加阶段
+                  </button>
+                </div>
+
+                <div className="p-4 border-t border-gray-200 flex justify-end space-x-3">
+                  <button
+                    onClick={handleCancel}
+                    className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                  >
+                    取消
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center"
+                  >
+                    <Save size={16} className="mr-2" />
+                    保存
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-gray-500">
+                <div className="text-center">
+                  <Workflow size={48} className="mx-auto mb-4 text-gray-300" />
+                  <p>选择一个自定义协议进行编辑</p>
+                  <p className="text-sm mt-2">或复制内置协议后再修改</p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProtocolManager;
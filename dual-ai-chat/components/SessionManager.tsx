@@ -14,9 +14,12 @@ import {
   CheckSquare,
   Square,
   FileText,
-  AlertCircle
+  AlertCircle,
+  GitBranch,
+  PlayCircle
 } from 'lucide-react';
 import ChannelSelector from './ChannelSelector';
+import { flattenSessionTree } from '../utils/sessionBranching';
 
 interface SessionManagerProps {
   sessions: ChatSession[];
@@ -29,6 +32,7 @@ interface SessionManagerProps {
   onExportSessions?: (sessionIds?: string[]) => { success: boolean; count?: number; error?: string };
   onImportSessions?: (file: File) => Promise<{ success: boolean; count?: number; error?: string }>;
   onSearchSessions?: (searchTerm: string) => ChatSession[];
+  onReplaySession?: (sessionId: string) => void;
   onClose: () => void;
 }
 
@@ -42,6 +46,7 @@ const SessionManager: React.FC<SessionManagerProps> = ({
   onExportSessions,
   onImportSessions,
   onSearchSessions,
+  onReplaySession,
   onClose
 }) => {
   const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
@@ -63,6 +68,16 @@ const SessionManager: React.FC<SessionManagerProps> = ({
     );
   }, [sessions, searchTerm, onSearchSessions]);
 
+  // 无搜索时按分支关系展示为树，搜索时展示平铺结果
+  const sessionRows = useMemo(() => {
+    if (searchTerm) {
+      return filteredSessions.map(session => ({ session, depth: 0 }));
+    }
+    return flattenSessionTree(filteredSessions);
+  }, [filteredSessions, searchTerm]);
+
+  const getSessionTitle = (sessionId: string) => sessions.find(s => s.id === sessionId)?.title;
+
   // 显示搜索结果中匹配的消息数量
   const getMatchingMessagesCount = (session: ChatSession): number => {
     if (!searchTerm) return 0;
@@ -320,14 +335,16 @@ const SessionManager: React.FC<SessionManagerProps> = ({
             </div>
           ) : (
             <div className="divide-y divide-gray-200">
-              {filteredSessions.map((session) => {
+              {sessionRows.map(({ session, depth }) => {
                 const matchingMessages = getMatchingMessagesCount(session);
+                const parentTitle = session.parentSessionId ? getSessionTitle(session.parentSessionId) : undefined;
                 return (
                   <div
                     key={session.id}
                     className={`p-4 hover:bg-gray-50 transition-colors ${
                       session.id === currentSessionId ? 'bg-blue-50 border-l-4 border-l-blue-500' : ''
                     }`}
+                    style={depth > 0 ? { paddingLeft: `${1 + depth * 1.5}rem` } : undefined}
                   >
                     <div className="flex items-center justify-between">
                       {isSelectionMode && (
@@ -387,13 +404,22 @@ const SessionManager: React.FC<SessionManagerProps> = ({
                           </div>
                         ) : (
                           <div>
-                            <h3 className="font-medium text-gray-900 mb-1">{session.title}</h3>
+                            <h3 className="font-medium text-gray-900 mb-1 flex items-center">
+                              {depth > 0 && <GitBranch size={14} className="mr-1.5 text-gray-400 flex-shrink-0" />}
+                              {session.title}
+                            </h3>
                             <div className="flex items-center text-sm text-gray-500 space-x-4">
                               <span className="flex items-center">
                                 <Clock size={14} className="mr-1" />
                                 {formatDate(session.updatedAt)}
                               </span>
                               <span>{session.messages.length} 条消息</span>
+                              {parentTitle && (searchTerm || depth === 0) && (
+                                <span className="flex items-center" title="分支来源">
+                                  <GitBranch size={14} className="mr-1" />
+                                  {parentTitle}
+                                </span>
+                              )}
                               {searchTerm && matchingMessages > 0 && (
                                 <span className="text-blue-600 font-medium">
                                   {matchingMessages} 条匹配消息
@@ -406,6 +432,18 @@ const SessionManager: React.FC<SessionManagerProps> = ({
                       
                       {!isSelectionMode && editingSessionId !== session.id && (
                         <div className="flex items-center space-x-2 ml-4">
+                          {onReplaySession && session.messages.length > 0 && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onReplaySession(session.id);
+                              }}
+                              className="text-gray-400 hover:text-green-600 transition-colors"
+                              title="回放"
+                            >
+                              <PlayCircle size={16} />
+                            </button>
+                          )}
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
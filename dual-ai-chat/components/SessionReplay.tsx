@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { ChatSession, MessagePurpose, NotepadHistoryState } from '../types';
+import { PlayCircle, Play, Pause, ChevronLeft, ChevronRight, SkipBack, SkipForward, FileDiff, X } from 'lucide-react';
+import { Slider } from './ui/slider';
+import MessageBubble from './MessageBubble';
+import ToolCallEntry from './ToolCallEntry';
+import { buildReplaySteps } from '../utils/sessionReplay';
+import { diffLines } from '../utils/textDiff';
+import { REPLAY_AUTOPLAY_INTERVAL_MS } from '../constants';
+
+interface SessionReplayProps {
+  session: ChatSession;
+  notepadHistory: NotepadHistoryState;
+  onClose: () => void;
+}
+
+/**
+ * 会话回放：逐条查看消息，记事本显示每一步当时的版本及相对上一步的差异
+ */
+const SessionReplay: React.FC<SessionReplayProps> = ({ session, notepadHistory, onClose }) => {
+  const steps = useMemo(() => buildReplaySteps(session.messages, notepadHistory), [session.messages, notepadHistory]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [showDiff, setShowDiff] = useState(true);
+  const currentMessageRef = useRef<HTMLDivElement>(null);
+
+  const lastIndex = steps.length - 1;
+  const step = steps[stepIndex];
+  const changeCount = useMemo(() => steps.filter(s => s.notepadChanged).length, [steps]);
+
+  const goTo = useCallback((index: number) => {
+    setStepIndex(Math.max(0, Math.min(lastIndex, index)));
+  }, [lastIndex]);
+
+  const goToNextChange = () => {
+    const next = steps.findIndex((s, index) => index > stepIndex && s.notepadChanged);
+    if (next !== -1) goTo(next);
+  };
+
+  // 自动播放：到最后一步时停止
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (stepIndex >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStepIndex(index => index + 1), REPLAY_AUTOPLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, stepIndex, lastIndex]);
+
+  useEffect(() => {
+    currentMessageRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [stepIndex]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // 时间轴滑块获得焦点时由滑块自身处理方向键
+      if ((event.target as HTMLElement | null)?.closest?.('[role="slider"]')) return;
+      if (event.key === 'ArrowLeft') goTo(stepIndex - 1);
+      else if (event.key === 'ArrowRight') goTo(stepIndex + 1);
+      else if (event.key === 'Escape') onClose();
+      else if (event.key === ' ') {
+        event.preventDefault();
+        setIsPlaying(playing => !playing);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goTo, stepIndex, onClose]);
+
+  const notepadLines = useMemo(() => {
+    if (!step?.notepadVersion) return null;
+    if (!showDiff || step.previousNotepadContent === null) {
+      return step.notepadVersion.content.split('\n').map(text => ({ type: 'same' as const, text }));
+    }
+    return diffLines(step.previousNotepadContent, step.notepadVersion.content);
+  }, [step, showDiff]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-6xl w-full h-[90vh] mx-4 flex flex-col">
+        {/* 头部 */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800 flex items-center min-w-0">
+            <PlayCircle className="mr-2 shrink-0" size={20} />
+            <span className="truncate">回放：{session.title}</span>
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors" aria-label="关闭回放">
+            <X size={24} />
+          </button>
+        </div>
+
+        {steps.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500">该会话没有可回放的消息</div>
+        ) : (
+          <>
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-2 min-h-0">
+              {/* 消息 */}
+              <div className="overflow-y-auto p-4 border-r border-gray-200 bg-gray-50">
+                {steps.slice(0, stepIndex + 1).map((s, index) => (
+                  <div
+                    key={s.message.id}
+                    ref={index === stepIndex ? currentMessageRef : undefined}
+                    className={index === stepIndex ? '' : 'opacity-60'}
+                  >
+                    {s.message.purpose === MessagePurpose.ToolCall
+                      ? <ToolCallEntry message={s.message} />
+                      : <MessageBubble message={s.message} />}
+                  </div>
+                ))}
+              </div>
+
+              {/* 记事本 */}
+              <div className="flex flex-col min-h-0">
+                <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-200 text-xs text-gray-600">
+                  {step.notepadVersion ? (
+                    <span className="truncate">
+                      记事本版本 {notepadHistory.versions.indexOf(step.notepadVersion) + 1}/{notepadHistory.versions.length}
+                      {' · '}{step.notepadVersion.author || '用户'}
+                      {step.notepadVersion.description ? ` · ${step.notepadVersion.description}` : ''}
+                    </span>
+                  ) : (
+                    <span>记事本</span>
+                  )}
+                  {step.notepadChanged && <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 shrink-0">本步已修改</span>}
+                  <button
+                    onClick={() => setShowDiff(show => !show)}
+                    className={`ml-auto flex items-center gap-1 px-2 py-1 rounded shrink-0 ${showDiff ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'}`}
+                    title="高亮相对上一步的修改"
+                  >
+                    <FileDiff size={14} />
+                    显示差异
+                  </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 font-mono text-xs leading-relaxed">
+                  {notepadLines ? (
+                    notepadLines.map((line, index) => (
+                      <div
+                        key={index}
+                        className={
+                          line.type === 'added' ? 'bg-green-100 text-green-900' :
+                          line.type === 'removed' ? 'bg-red-100 text-red-800 line-through' : 'text-gray-800'
+                        }
+                      >
+                        <span className="inline-block w-4 select-none text-gray-400">
+                          {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ''}
+                        </span>
+                        <span className="whitespace-pre-wrap break-words">{line.text || ' '}</span>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-gray-500 font-sans">这一步的记事本版本已不在历史记录中（只保留最近的版本）。</p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* 时间轴 */}
+            <div className="p-4 border-t border-gray-200 space-y-3">
+              <Slider
+                value={[stepIndex]}
+                min={0}
+                max={Math.max(lastIndex, 0)}
+                step={1}
+                onValueChange={([value]) => goTo(value)}
+                aria-label="回放进度"
+              />
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <button onClick={() => goTo(0)} disabled={stepIndex === 0} className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40" title="第一步">
+                  <SkipBack size={16} />
+                </button>
+                <button onClick={() => goTo(stepIndex - 1)} disabled={stepIndex === 0} className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40" title="上一步 (←)">
+                  <ChevronLeft size={16} />
+                </button>
+                <button
+                  onClick={() => setIsPlaying(playing => !playing)}
+                  disabled={stepIndex >= lastIndex && !isPlaying}
+                  className="p-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+                  title={isPlaying ? '暂停 (空格)' : '自动播放 (空格)'}
+                >
+                  {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <button onClick={() => goTo(stepIndex + 1)} disabled={stepIndex >= lastIndex} className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40" title="下一步 (→)">
+                  <ChevronRight size={16} />
+                </button>
+                <button onClick={() => goTo(lastIndex)} disabled={stepIndex >= lastIndex} className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40" title="最后一步">
+                  <SkipForward size={16} />
+                </button>
+                <span className="ml-2">第 {stepIndex + 1} / {steps.length} 步</span>
+                <span className="text-gray-400 truncate">
+                  {new Date(step.message.timestamp).toLocaleString()}
+                </span>
+                <button
+                  onClick={goToNextChange}
+                  disabled={!steps.some((s, index) => index > stepIndex && s.notepadChanged)}
+                  className="ml-auto px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40 shrink-0"
+                  title="跳到下一次修改记事本的步骤"
+                >
+                  下一处记事本修改（共 {changeCount} 处）
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionReplay;
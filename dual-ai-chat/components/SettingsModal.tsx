@@ -1,14 +1,21 @@
 import React, { useState } from 'react';
-import { DiscussionMode } from '../types';
-import { Bot, MessagesSquare, SlidersHorizontal, Info, RotateCcw, CaseSensitive, KeyRound, Globe, Settings, Database, Brain, Sparkles, Zap } from 'lucide-react';
+import { DiscussionMode, DiscussionParticipant, CustomAIRole, DiscussionProtocol, ModeratorSettings, DiscussionBudget, FinalAnswerFormatSettings } from '../types';
+import { Bot, MessagesSquare, SlidersHorizontal, Info, RotateCcw, CaseSensitive, KeyRound, Globe, Settings, Database, Brain, Sparkles, Zap, Workflow, Route, Wrench } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
 import { Switch } from './ui/switch';
 import { Slider } from './ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { cn } from '../lib/utils';
 import ApiChannelSettings from './ApiChannelSettings';
+import ParticipantSettings from './ParticipantSettings';
+import ModeratorSettingsPanel from './ModeratorSettingsPanel';
+import FallbackChannelsEditor from './FallbackChannelsEditor';
+import DiscussionBudgetSettings from './DiscussionBudgetSettings';
+import FinalAnswerFormatPanel from './FinalAnswerFormatPanel';
+import { describeProtocolPhases } from '../utils/discussionProtocols';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -18,6 +25,26 @@ interface SettingsModalProps {
   manualFixedTurns: number;
   onManualFixedTurnsChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   minManualFixedTurns: number;
+  discussionBudget: DiscussionBudget;
+  onDiscussionBudgetChange: (budget: DiscussionBudget) => void;
+  finalAnswerFormat: FinalAnswerFormatSettings;
+  finalAnswerFormatError?: string;
+  onFinalAnswerFormatChange: (format: FinalAnswerFormatSettings) => void;
+  adaptiveRouting: boolean;
+  onAdaptiveRoutingChange: (enabled: boolean) => void;
+  toolsEnabled: boolean;
+  onToolsEnabledChange: (enabled: boolean) => void;
+  protocols: DiscussionProtocol[];
+  currentProtocolId: string;
+  onProtocolChange: (protocolId: string) => void;
+  onOpenProtocolManager: () => void;
+  participants: DiscussionParticipant[];
+  roles: CustomAIRole[];
+  onParticipantsChange: (participants: DiscussionParticipant[]) => void;
+  sessionFallbackChannelIds?: string[];
+  onSessionFallbackChannelIdsChange?: (channelIds: string[] | undefined) => void; // 无当前会话时不提供
+  moderatorSettings: ModeratorSettings;
+  onModeratorSettingsChange: (settings: ModeratorSettings) => void;
   isThinkingBudgetActive: boolean;
   onThinkingBudgetToggle: () => void;
   supportsThinkingConfig: boolean; 
@@ -72,6 +99,26 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   manualFixedTurns,
   onManualFixedTurnsChange,
   minManualFixedTurns,
+  discussionBudget,
+  onDiscussionBudgetChange,
+  finalAnswerFormat,
+  finalAnswerFormatError,
+  onFinalAnswerFormatChange,
+  adaptiveRouting,
+  onAdaptiveRoutingChange,
+  toolsEnabled,
+  onToolsEnabledChange,
+  protocols,
+  currentProtocolId,
+  onProtocolChange,
+  onOpenProtocolManager,
+  participants,
+  roles,
+  onParticipantsChange,
+  sessionFallbackChannelIds,
+  onSessionFallbackChannelIdsChange,
+  moderatorSettings,
+  onModeratorSettingsChange,
   isThinkingBudgetActive,
   onThinkingBudgetToggle,
   supportsThinkingConfig,
@@ -116,6 +163,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     }
   };
   
+  const currentProtocol = protocols.find(p => p.id === currentProtocolId);
+
   const actualSupportsThinkingConfig = supportsThinkingConfig && !useOpenAiApiConfig;
   const handleThinkingBudgetToggle = () => {
     if (!isLoading && actualSupportsThinkingConfig) {
@@ -230,6 +279,37 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               <section aria-labelledby="discussion-settings-heading">
                 <h3 id="discussion-settings-heading" className="text-base sm:text-lg font-medium text-foreground mb-3 border-b pb-2">讨论设置</h3>
                 <div className="space-y-4">
+                  <div>
+                    <div className="flex items-center justify-between gap-2">
+                      <label className="flex items-center text-sm font-medium">
+                        <Workflow size={20} className="mr-2 text-primary" />
+                        <span>讨论协议</span>
+                      </label>
+                      <div className="flex items-center gap-2">
+                        <Select value={currentProtocolId} onValueChange={onProtocolChange} disabled={isLoading}>
+                          <SelectTrigger className="w-56 h-8 text-sm" aria-label="选择讨论协议">
+                            <SelectValue placeholder="选择讨论协议" />
+                          </SelectTrigger>
+                          <SelectContent className="z-[1000]">
+                            {protocols.map(protocol => (
+                              <SelectItem key={protocol.id} value={protocol.id}>
+                                {protocol.name}{protocol.isBuiltIn ? '' : ' (自定义)'}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="outline" size="sm" onClick={onOpenProtocolManager} disabled={isLoading}>
+                          管理
+                        </Button>
+                      </div>
+                    </div>
+                    {currentProtocol && (
+                      <p className="text-xs text-muted-foreground mt-2 pl-7">
+                        {currentProtocol.description && <>{currentProtocol.description}<br /></>}
+                        阶段: {describeProtocolPhases(currentProtocol)}
+                      </p>
+                    )}
+                  </div>
                   <div className="flex items-center justify-between">
                     <label htmlFor="discussionModeToggleModal" className="flex items-center text-sm font-medium cursor-pointer"
                       title={discussionMode === DiscussionMode.FixedTurns ? "切换到AI驱动轮次模式" : "切换到固定轮次模式"}>
@@ -267,9 +347,101 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                       </div>
                     </div>
                   )}
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <label htmlFor="adaptiveRoutingToggleModal" className="flex items-center text-sm font-medium cursor-pointer">
+                        <Route size={20} className="mr-2 text-primary" />
+                        <span>自动路由</span>
+                      </label>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="adaptiveRoutingToggleModal"
+                          checked={adaptiveRouting}
+                          onCheckedChange={onAdaptiveRoutingChange}
+                          disabled={isLoading}
+                          aria-label="切换自动路由"
+                        />
+                        <span className="text-sm text-muted-foreground min-w-[3rem]">
+                          {adaptiveRouting ? '开启' : '关闭'}
+                        </span>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      开启后按查询内容自动选择：简单问题由主导者直接回答，需要分析的问题进行双人辩论，要求多角度观点时全员讨论。关闭时始终全员讨论。也可以在输入框旁为单条消息指定。
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <label htmlFor="agentToolsToggleModal" className="flex items-center text-sm font-medium cursor-pointer">
+                        <Wrench size={20} className="mr-2 text-primary" />
+                        <span>工具调用</span>
+                      </label>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="agentToolsToggleModal"
+                          checked={toolsEnabled}
+                          onCheckedChange={onToolsEnabledChange}
+                          disabled={isLoading}
+                          aria-label="切换工具调用"
+                        />
+                        <span className="text-sm text-muted-foreground min-w-[3rem]">
+                          {toolsEnabled ? '开启' : '关闭'}
+                        </span>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      开启后发言者可以调用计算器、日期时间、历史会话搜索与记事本历史版本。渠道支持时使用原生函数调用，否则通过文本协议调用。开启时发言不使用流式输出。
+                    </p>
+                  </div>
+                  <DiscussionBudgetSettings
+                    budget={discussionBudget}
+                    onBudgetChange={onDiscussionBudgetChange}
+                    isLoading={isLoading}
+                  />
+                  <FinalAnswerFormatPanel
+                    format={finalAnswerFormat}
+                    error={finalAnswerFormatError}
+                    onFormatChange={onFinalAnswerFormatChange}
+                    isLoading={isLoading}
+                  />
                 </div>
               </section>
 
+              {/* Participants Section */}
+              <section aria-labelledby="participant-settings-heading">
+                <h3 id="participant-settings-heading" className="text-base sm:text-lg font-medium text-foreground mb-3 border-b pb-2">讨论参与者</h3>
+                <ParticipantSettings
+                  participants={participants}
+                  roles={roles}
+                  onParticipantsChange={onParticipantsChange}
+                  isLoading={isLoading}
+                />
+                {onSessionFallbackChannelIdsChange && (
+                  <div className="mt-3 space-y-1">
+                    <p className="text-sm font-medium">会话备用渠道</p>
+                    <p className="text-xs text-muted-foreground">当前会话所有参与者与主持人共用，排在各自的备用渠道之后。</p>
+                    <FallbackChannelsEditor
+                      channelIds={sessionFallbackChannelIds}
+                      onChange={onSessionFallbackChannelIdsChange}
+                      disabled={isLoading}
+                      contentClassName="z-[1000]"
+                      label="会话备用渠道"
+                    />
+                  </div>
+                )}
+              </section>
+
+              {/* Moderator Section */}
+              <section aria-labelledby="moderator-settings-heading">
+                <h3 id="moderator-settings-heading" className="text-base sm:text-lg font-medium text-foreground mb-3 border-b pb-2">主持人</h3>
+                <ModeratorSettingsPanel
+                  settings={moderatorSettings}
+                  roles={roles}
+                  onSettingsChange={onModeratorSettingsChange}
+                  isLoading={isLoading}
+                />
+              </section>
+
               {/* Model Performance Section */}
               <section aria-labelledby="performance-settings-heading">
                 <h3 id="performance-settings-heading" className="text-base sm:text-lg font-medium text-foreground mb-3 border-b pb-2">模型性能</h3>
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { StructuredAnswer } from '../types';
+import { Braces, Copy, Check, AlertTriangle } from 'lucide-react';
+
+interface StructuredAnswerBlockProps {
+  answer: StructuredAnswer;
+}
+
+/**
+ * 结构化最终答案：格式化的 JSON 与校验结果，可一键复制
+ */
+const StructuredAnswerBlock: React.FC<StructuredAnswerBlockProps> = ({ answer }) => {
+  const [isCopied, setIsCopied] = useState(false);
+  const formattedJson = answer.data !== undefined ? JSON.stringify(answer.data, null, 2) : answer.rawText;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formattedJson);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error('无法复制JSON: ', err);
+    }
+  };
+
+  return (
+    <div className="mt-2 rounded-md border border-gray-300 bg-gray-50 overflow-hidden">
+      <div className="flex items-center gap-2 px-2 py-1 border-b border-gray-200 bg-gray-100 text-xs text-gray-600">
+        <Braces size={14} />
+        <span className="font-medium truncate">{answer.schemaName}</span>
+        {answer.valid ? (
+          <span className="text-green-700">已通过校验</span>
+        ) : (
+          <span className="flex items-center text-red-600"><AlertTriangle size={12} className="mr-0.5" />未通过校验</span>
+        )}
+        {answer.nativeMode && <span className="text-gray-400">JSON 模式</span>}
+        <button
+          onClick={handleCopy}
+          title={isCopied ? "已复制!" : "复制 JSON"}
+          aria-label={isCopied ? "已复制 JSON 到剪贴板" : "复制 JSON"}
+          className="ml-auto p-0.5 text-gray-400 hover:text-sky-600 transition-colors rounded focus:outline-none focus:ring-1 focus:ring-sky-500"
+        >
+          {isCopied ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+        </button>
+      </div>
+      <pre className="max-h-80 overflow-auto p-2 text-xs leading-relaxed text-gray-800 whitespace-pre-wrap break-words">
+        {formattedJson}
+      </pre>
+      {!answer.valid && answer.errors && (
+        <ul className="px-3 pb-2 text-xs text-red-600 list-disc list-inside">
+          {answer.errors.slice(0, 5).map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default StructuredAnswerBlock;
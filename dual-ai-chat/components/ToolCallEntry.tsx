@@ -0,0 +1,43 @@
+import React from 'react';
+import { ChatMessage } from '../types';
+import { Wrench, AlertTriangle } from 'lucide-react';
+
+interface ToolCallEntryProps {
+  message: ChatMessage;
+}
+
+/**
+ * 对话记录中的工具调用：默认折叠，展开后显示调用参数与结果
+ */
+const ToolCallEntry: React.FC<ToolCallEntryProps> = ({ message }) => {
+  const { toolCall, agent, sender, timestamp } = message;
+  if (!toolCall) return null;
+  const speakerName = agent?.name || sender;
+
+  return (
+    <details className="mb-3 mr-auto max-w-xs sm:max-w-md lg:max-w-xl rounded-md border border-dashed border-gray-300 bg-gray-50 text-xs text-gray-700">
+      <summary className="flex items-center gap-1.5 px-2 py-1 cursor-pointer select-none">
+        <Wrench size={12} className="text-gray-500 shrink-0" />
+        <span className="truncate">
+          {speakerName} 调用了 <span className="font-mono font-medium">{toolCall.name}</span>
+        </span>
+        {toolCall.isError && <AlertTriangle size={12} className="text-red-500 shrink-0" aria-label="调用失败" />}
+        <span className="ml-auto text-gray-400 shrink-0">
+          {toolCall.mode === 'native' ? '原生调用' : '文本协议'} · {new Date(timestamp).toLocaleTimeString()}
+        </span>
+      </summary>
+      <div className="px-2 pb-2 space-y-1">
+        <div>
+          <div className="text-gray-500">参数</div>
+          <pre className="max-h-40 overflow-auto rounded bg-white p-1.5 whitespace-pre-wrap break-words">{JSON.stringify(toolCall.arguments, null, 2)}</pre>
+        </div>
+        <div>
+          <div className={toolCall.isError ? 'text-red-600' : 'text-gray-500'}>{toolCall.isError ? '错误' : '结果'}</div>
+          <pre className="max-h-60 overflow-auto rounded bg-white p-1.5 whitespace-pre-wrap break-words">{toolCall.result}</pre>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default ToolCallEntry;
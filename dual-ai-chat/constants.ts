@@ -1,3 +1,5 @@
+import { DiscussionBudget, DiscussionProtocol, DiscussionRoute, FinalAnswerFormatSettings, ModeratorSettings, StructuredAnswerTemplate } from './types';
+
 
 export const GEMINI_2_5_FLASH_MODEL_ID = 'gemini-2.5-flash';
 export const GEMINI_PRO_MODEL_ID = 'gemini-2.5-pro';
@@ -12,6 +14,7 @@ export interface AiModel {
   apiName: string;
   supportsThinkingConfig?: boolean;
   supportsSystemInstruction?: boolean;
+  supportsVision?: boolean; // 未知时视为支持
 }
 
 export const MODELS: AiModel[] = [
@@ -76,6 +79,173 @@ Before concluding the discussion, confirm that all facets of the user's request
 **Critically, regarding simple queries:** **If, and only if,** the user asks something **genuinely very simple and direct** (e.g., a very basic greeting like "hello", a simple question about AI identity like "who are you", or a trivial, straightforward factual query that clearly requires no deep discussion), and Cognito provides a concise and clearly complete answer that includes the \`${DISCUSSION_COMPLETE_TAG}\` tag, then you may respond with the \`${DISCUSSION_COMPLETE_TAG}\` tag. For all other cases, you **must** engage in your standard in-depth, critical discussion to ensure the user receives the most thorough and high-quality answer, **focusing your contributions on constructive, concrete improvements.**`;
 
 export const DEFAULT_MANUAL_FIXED_TURNS = 2;
+
+// 讨论协议中的发言者占位符
+export const PROTOCOL_SPEAKER_LEAD = '@lead';
+export const PROTOCOL_SPEAKER_OTHERS = '@others';
+export const PROTOCOL_SPEAKER_ALL = '@all';
+
+export const DEFAULT_DISCUSSION_PROTOCOL_ID = 'classic';
+
+// 内置讨论协议
+export const BUILT_IN_DISCUSSION_PROTOCOLS: DiscussionProtocol[] = [
+  {
+    id: DEFAULT_DISCUSSION_PROTOCOL_ID,
+    name: '经典辩论',
+    description: '主导者开场，其余参与者依次回应并与主导者来回讨论，最后由主导者给出最终答案。',
+    phases: [
+      {
+        id: 'opening',
+        name: '开场',
+        instruction: '请针对此查询提供您的初步想法或分析，以便其他参与者可以回应并与您开始讨论。',
+        speakers: [PROTOCOL_SPEAKER_LEAD],
+        turns: 1,
+        exitCondition: 'fixed-turns',
+      },
+      {
+        id: 'debate',
+        name: '讨论',
+        instruction: '回应前一位发言者，并兼顾其他参与者的观点，继续讨论。',
+        speakers: [PROTOCOL_SPEAKER_OTHERS, PROTOCOL_SPEAKER_LEAD],
+        turns: DEFAULT_MANUAL_FIXED_TURNS,
+        exitCondition: 'discussion-mode',
+      },
+      {
+        id: 'final',
+        name: '最终答案',
+        instruction: '',
+        speakers: [PROTOCOL_SPEAKER_LEAD],
+        turns: 1,
+        exitCondition: 'fixed-turns',
+        producesFinalAnswer: true,
+      },
+    ],
+    isBuiltIn: true,
+    createdAt: new Date(0),
+  },
+  {
+    id: 'brainstorm-critique-refine',
+    name: '头脑风暴 → 批判 → 完善 → 综合',
+    description: '所有参与者先各自提出想法，再相互批判，然后共同完善方案，最后由主导者综合。',
+    phases: [
+      {
+        id: 'brainstorm',
+        name: '头脑风暴',
+        instruction: '尽可能提出多样化、具体的想法或方案，不要急于评判，也不要重复他人已提出的内容。',
+        speakers: [PROTOCOL_SPEAKER_ALL],
+        turns: 1,
+        exitCondition: 'fixed-turns',
+      },
+      {
+        id: 'critique',
+        name: '批判',
+        instruction: '逐条审视目前提出的想法，指出其中的漏洞、风险和不足，并说明理由。',
+        speakers: [PROTOCOL_SPEAKER_OTHERS, PROTOCOL_SPEAKER_LEAD],
+        turns: 1,
+        exitCondition: 'fixed-turns',
+      },
+      {
+        id: 'refine',
+        name: '完善',
+        instruction: '针对批判意见改进方案，保留经得起质疑的部分，形成更完善的方案。',
+        speakers: [PROTOCOL_SPEAKER_ALL],
+        turns: 2,
+        exitCondition: 'consensus',
+      },
+      {
+        id: 'synthesize',
+        name: '综合',
+        instruction: '综合头脑风暴、批判与完善阶段的结论。',
+        speakers: [PROTOCOL_SPEAKER_LEAD],
+        turns: 1,
+        exitCondition: 'fixed-turns',
+        producesFinalAnswer: true,
+      },
+    ],
+    isBuiltIn: true,
+    createdAt: new Date(0),
+  },
+  {
+    id: 'parallel-drafts',
+    name: '独立草稿 → 交叉批评 → 综合',
+    description: '所有参与者同时独立作答，避免被首个观点锚定；随后同时批评彼此的草稿，最后由主导者综合。',
+    phases: [
+      {
+        id: 'drafts',
+        name: '独立草稿',
+        instruction: '独立、完整地回答用户的查询，给出你自己的方案和理由。',
+        speakers: [PROTOCOL_SPEAKER_ALL],
+        turns: 1,
+        exitCondition: 'fixed-turns',
+        parallel: true,
+      },
+      {
+        id: 'cross-critique',
+        name: '交叉批评',
+        instruction: '审视其他参与者的草稿，指出其中的错误、遗漏与可改进之处，并说明你会如何据此修正自己的方案。',
+        speakers: [PROTOCOL_SPEAKER_ALL],
+        turns: 1,
+        exitCondition: 'fixed-turns',
+        parallel: true,
+      },
+      {
+        id: 'synthesize',
+        name: '综合',
+        instruction: '综合各方草稿与交叉批评，保留经得起批评的内容，修正被指出的问题。',
+        speakers: [PROTOCOL_SPEAKER_LEAD],
+        turns: 1,
+        exitCondition: 'fixed-turns',
+        producesFinalAnswer: true,
+      },
+    ],
+    isBuiltIn: true,
+    createdAt: new Date(0),
+  },
+  {
+    id: 'round-table',
+    name: '圆桌讨论',
+    description: '所有参与者按顺序轮流发言，直到全员同意结束（最多 3 轮），再由主导者总结。',
+    phases: [
+      {
+        id: 'round-table',
+        name: '圆桌',
+        instruction: '发表您对问题的看法，并回应此前发言者的观点。',
+        speakers: [PROTOCOL_SPEAKER_ALL],
+        turns: 3,
+        exitCondition: 'consensus',
+      },
+      {
+        id: 'summary',
+        name: '总结',
+        instruction: '总结圆桌讨论的共识与分歧。',
+        speakers: [PROTOCOL_SPEAKER_LEAD],
+        turns: 1,
+        exitCondition: 'fixed-turns',
+        producesFinalAnswer: true,
+      },
+    ],
+    isBuiltIn: true,
+    createdAt: new Date(0),
+  },
+  {
+    id: 'quick-answer',
+    name: '快速回答',
+    description: '不进行讨论，由主导者直接给出最终答案。',
+    phases: [
+      {
+        id: 'answer',
+        name: '直接回答',
+        instruction: '直接回答用户的查询。',
+        speakers: [PROTOCOL_SPEAKER_LEAD],
+        turns: 1,
+        exitCondition: 'fixed-turns',
+        producesFinalAnswer: true,
+      },
+    ],
+    isBuiltIn: true,
+    createdAt: new Date(0),
+  },
+];
 export const MIN_MANUAL_FIXED_TURNS = 1;
 // export const MAX_MANUAL_FIXED_TURNS = 5; // Removed upper limit
 
@@ -143,6 +313,21 @@ Please review the changes.
 Make sure your tags are well-formed (e.g., correctly closed, attributes quoted).
 `;
 
+// 渠道支持函数调用时使用：记事本操作以函数参数提交，不再嵌入标签
+export const NOTEPAD_FUNCTION_INSTRUCTION_PROMPT_PART = `
+You also have access to a shared notepad.
+Current Notepad Content:
+---
+{notepadContent}
+---
+Instructions for Modifying the Notepad:
+1. To modify the notepad, call the notepad_* functions provided to you. Each call is one edit; you may call several in one response. Edits are applied in the order you call them.
+2. Your primary spoken response to the ongoing discussion should be your normal text reply. Always include a short spoken reply in addition to any function calls.
+3. If you do not want to change the notepad, do NOT call any notepad function.
+4. Do NOT write <np-*> tags in your reply; they are not needed when functions are available.
+5. Line numbers are 1-based. notepad_insert with line 0 inserts at the beginning.
+`;
+
 // Removed: NOTEPAD_MODIFY_TAG_START and NOTEPAD_MODIFY_TAG_END
 
 
@@ -150,8 +335,132 @@ export const AI_DRIVEN_DISCUSSION_INSTRUCTION_PROMPT_PART = `
 Instruction for ending discussion: If you believe the current topic has been sufficiently explored between you and your AI partner for Cognito to synthesize a final answer for the user, include the exact tag ${DISCUSSION_COMPLETE_TAG} at the very end of your current message (after any notepad modification tags). Do not use this tag if you wish to continue the discussion or require more input/response from your partner.
 `;
 
+export const DEFAULT_MODERATOR_SETTINGS: ModeratorSettings = { enabled: false };
+
+export const DEFAULT_DISCUSSION_BUDGET: DiscussionBudget = { costPerMillionTokensUsd: 3 };
+
+export const DEFAULT_MODERATOR_SYSTEM_PROMPT = `你是一场多AI讨论的主持人。你不参与讨论本身，只负责客观评估讨论进展：判断讨论是否已经充分、指出尚未解决的分歧，并为下一轮指明重点。你的判断应当严格、简洁，避免讨论过早结束或无休止地重复。`;
+
+// 主持人评估提示词：{userInput}、{discussionLog}、{phaseName}、{round}、{stopSignals} 为占位符
+export const MODERATOR_VERDICT_PROMPT = `用户的查询 (中文) 是: "{userInput}"
+当前处于「{phaseName}」阶段，刚刚完成第 {round} 轮讨论。本轮中建议结束讨论的发言者数量: {stopSignals}。
+
+讨论记录 (均为中文):
+{discussionLog}
+
+请评估讨论进展，并只输出一个 JSON 对象（不要输出其他任何内容），格式如下:
+{
+  "decision": "continue" 或 "stop",
+  "unresolvedPoints": ["尚未解决的分歧或问题", "..."],
+  "nextFocus": "下一轮讨论应聚焦的内容（decision 为 stop 时可为空字符串）",
+  "reason": "做出该判断的简要理由"
+}
+只有当讨论已经足够充分、可以综合出高质量的最终答案时，decision 才为 "stop"。`;
+
 export const MAX_AUTO_RETRIES = 2;
-export const RETRY_DELAY_BASE_MS = 1000;
+export const RETRY_DELAY_BASE_MS = 1000; // 自动重试的基础等待时间，每次重试翻倍
+export const MAX_RETRY_DELAY_MS = 30000; // 自动重试的最长等待；服务商要求更久的 Retry-After 时不再自动重试
+
+// 讨论收敛检测
+export const REPETITION_SIMILARITY_THRESHOLD = 0.55; // 新发言与此前某条发言的相似度超过此值视为重复
+export const MAX_REPETITIONS_BEFORE_EARLY_END = 2; // 提醒后仍连续重复的次数达到此值时提前结束当前阶段
+export const DISAGREEMENT_EXTENSION_THRESHOLD = 0.5; // 固定轮数用完时分歧度超过此值，询问是否追加讨论
+export const DISCUSSION_EXTENSION_TURNS = 2; // 每次追加的轮数
+export const MAX_DISCUSSION_EXTENSIONS = 2; // 每个阶段最多追加的次数
+export const EXTENSION_OFFER_TIMEOUT_MS = 30000; // 未回应追加询问时自动进入下一阶段
+export const REPETITION_NUDGE_PROMPT = `\n注意：最近的发言在重复之前已经提出的观点。请不要复述，提出新的论点、证据、反例或具体方案；如果确实没有新内容，请明确表示同意结束讨论。`;
+
+// 会话回放
+export const REPLAY_AUTOPLAY_INTERVAL_MS = 2500; // 自动播放时每一步停留的时间
+
+// 智能体工具
+export const MAX_TOOL_ROUNDS_PER_STEP = 3; // 单个发言步骤内最多的工具往返次数，用完后要求直接完成发言
+
+// 自适应路由
+export const DISCUSSION_ROUTE_LABELS: Record<DiscussionRoute, string> = {
+  quick: '快速回答',
+  debate: '双人辩论',
+  panel: '全员讨论',
+};
+export const QUICK_ROUTE_MAX_TOKENS = 30; // 不超过此长度且没有复杂度信号的查询直接由主导者回答
+export const DEBATE_ROUTE_MIN_TOKENS = 120; // 超过此长度的查询至少进行双人辩论
+
+// 结构化最终答案
+export const STRUCTURED_ANSWER_TEMPLATES: StructuredAnswerTemplate[] = [
+  {
+    id: 'summary-details-actions',
+    name: '摘要 + 详细说明 + 行动项',
+    description: '一段摘要、完整的详细说明，以及可执行的行动项列表',
+    schema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string', description: '两三句话概括最终结论' },
+        details: { type: 'string', description: '详细说明，可使用 Markdown' },
+        actionItems: {
+          type: 'array',
+          description: '可执行的后续行动',
+          items: {
+            type: 'object',
+            properties: {
+              task: { type: 'string', description: '具体要做的事' },
+              priority: { type: 'string', enum: ['高', '中', '低'] },
+            },
+            required: ['task', 'priority'],
+          },
+        },
+      },
+      required: ['summary', 'details', 'actionItems'],
+    },
+  },
+  {
+    id: 'options-recommendation',
+    name: '方案对比 + 推荐',
+    description: '列出候选方案的优缺点，并给出推荐及理由',
+    schema: {
+      type: 'object',
+      properties: {
+        options: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              pros: { type: 'array', items: { type: 'string' } },
+              cons: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['name', 'pros', 'cons'],
+          },
+        },
+        recommendation: { type: 'string', description: '推荐的方案名称' },
+        reasoning: { type: 'string', description: '推荐理由' },
+      },
+      required: ['options', 'recommendation', 'reasoning'],
+    },
+  },
+  {
+    id: 'key-points',
+    name: '要点列表 + 结论',
+    description: '标题、若干要点与一句话结论',
+    schema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        keyPoints: { type: 'array', minItems: 1, items: { type: 'string' } },
+        conclusion: { type: 'string' },
+      },
+      required: ['title', 'keyPoints', 'conclusion'],
+    },
+  },
+];
+
+export const DEFAULT_FINAL_ANSWER_FORMAT: FinalAnswerFormatSettings = {
+  mode: 'markdown',
+  templateId: STRUCTURED_ANSWER_TEMPLATES[0].id,
+  customSchema: '',
+};
+
+export const MAX_STRUCTURED_ANSWER_REPAIR_ROUNDS = 1; // 校验失败后自动请求修复的次数
 
 // Gemini Custom API Config
 export const CUSTOM_API_ENDPOINT_STORAGE_KEY = 'dualAiChatCustomApiEndpoint';
@@ -174,11 +483,41 @@ export const CHAT_SESSIONS_STORAGE_KEY = 'dualAiChatSessions';
 export const CURRENT_SESSION_ID_STORAGE_KEY = 'dualAiChatCurrentSessionId';
 export const CUSTOM_AI_ROLES_STORAGE_KEY = 'dualAiChatCustomRoles';
 export const STREAM_MODE_STORAGE_KEY = 'dualAiChatStreamMode';
+export const DISCUSSION_PARTICIPANTS_STORAGE_KEY = 'dualAiChatDiscussionParticipants';
+export const DISCUSSION_PROTOCOL_ID_STORAGE_KEY = 'dualAiChatDiscussionProtocolId';
+export const CUSTOM_DISCUSSION_PROTOCOLS_STORAGE_KEY = 'dualAiChatCustomDiscussionProtocols';
+export const MODERATOR_SETTINGS_STORAGE_KEY = 'dualAiChatModeratorSettings';
+// 进行中的讨论检查点（sessionStorage，仅在当前标签页内有效）
+export const DISCUSSION_CHECKPOINT_STORAGE_KEY = 'dualAiChatDiscussionCheckpoint';
+export const DISCUSSION_BUDGET_STORAGE_KEY = 'dualAiChatDiscussionBudget';
+export const FINAL_ANSWER_FORMAT_STORAGE_KEY = 'dualAiChatFinalAnswerFormat';
+export const ADAPTIVE_ROUTING_STORAGE_KEY = 'dualAiChatAdaptiveRouting';
+export const AGENT_TOOLS_ENABLED_STORAGE_KEY = 'dualAiChatAgentToolsEnabled';
 
 // API 渠道管理存储键
 export const API_CHANNELS_STORAGE_KEY = 'dualAiChatApiChannels';
 export const DEFAULT_CHANNEL_ID_STORAGE_KEY = 'dualAiChatDefaultChannelId';
 export const CHANNEL_DATA_VERSION_STORAGE_KEY = 'dualAiChatChannelDataVersion';
+export const MODEL_CATALOG_STORAGE_KEY = 'dualAiChatModelCatalog';
+export const API_KEY_STATS_STORAGE_KEY = 'dualAiChatApiKeyStats';
+export const CHANNEL_HEALTH_STORAGE_KEY = 'dualAiChatChannelHealth';
+
+// 渠道模型目录缓存有效期，过期后打开模型选择时自动重新获取
+export const MODEL_CATALOG_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// 密钥池：返回 401/403 或 429 的密钥暂停使用的时长
+export const API_KEY_AUTH_COOLDOWN_MS = 10 * 60 * 1000;
+export const API_KEY_RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+// 渠道健康监控：每个渠道保留的最近请求数；连续失败达到阈值后熔断，熔断期间路由跳过该渠道
+export const CHANNEL_HEALTH_HISTORY_SIZE = 50;
+export const CIRCUIT_BREAKER_FAILURE_THRESHOLD = 3;
+export const CIRCUIT_BREAKER_COOLDOWN_MS = 2 * 60 * 1000;
+
+// Anthropic Messages API
+export const ANTHROPIC_DEFAULT_BASE_URL = 'https://api.anthropic.com';
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+export const ANTHROPIC_MAX_OUTPUT_TOKENS = 8192; // Messages API 要求显式指定 max_tokens
 
 // API 渠道默认配置
 export const CHANNEL_DATA_VERSION = '1.0.0';
@@ -193,7 +532,11 @@ export enum ApiChannelErrorType {
   INVALID_KEY = 'INVALID_API_KEY',
   NETWORK_ERROR = 'NETWORK_ERROR',
   CHANNEL_NOT_FOUND = 'CHANNEL_NOT_FOUND',
-  VALIDATION_ERROR = 'VALIDATION_ERROR'
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  CANCELLED = 'REQUEST_CANCELLED',
+  RATE_LIMITED = 'RATE_LIMITED',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  SERVER_ERROR = 'SERVER_ERROR'
 }
 
 // 默认渠道配置模板
@@ -211,5 +554,12 @@ export const DEFAULT_CHANNEL_TEMPLATES = {
     baseUrl: 'http://localhost:11434/v1',
     defaultModel: 'llama3',
     timeout: DEFAULT_CHANNEL_TIMEOUT
+  },
+  ANTHROPIC: {
+    name: 'Anthropic Claude',
+    provider: 'anthropic' as const,
+    baseUrl: ANTHROPIC_DEFAULT_BASE_URL,
+    defaultModel: 'claude-sonnet-4-5',
+    timeout: 60000
   }
 };
@@ -15,6 +15,8 @@ import {
   DEFAULT_CHANNEL_TEMPLATES
 } from '../constants';
 import { generateUniqueId } from '../utils/appUtils';
+import { buildAnthropicHeaders, getAnthropicApiBaseUrl } from '../services/anthropicService';
+import { selectApiKey } from '../services/apiKeyPoolService';
 
 // 跨组件同步事件（同窗口内 localStorage 不会触发 storage 事件，需自定义事件通知）
 const CHANNELS_UPDATED_EVENT = 'api-channels-updated';
@@ -100,7 +102,7 @@ export const useApiChannels = () => {
       errors.push({ field: 'name', message: '渠道名称不能超过50个字符' });
     }
 
-    if (!channel.provider || !['openai', 'gemini'].includes(channel.provider)) {
+    if (!channel.provider || !['openai', 'gemini', 'anthropic'].includes(channel.provider)) {
       errors.push({ field: 'provider', message: '必须选择有效的提供商' });
     }
 
@@ -108,6 +110,11 @@ export const useApiChannels = () => {
       errors.push({ field: 'defaultModel', message: '必须指定默认模型' });
     }
 
+    const hasApiKey = [channel.apiKey, ...(channel.extraApiKeys || []).map(entry => entry.key)].some(key => key && key.trim().length > 0);
+    if (channel.provider === 'anthropic' && !hasApiKey) {
+      errors.push({ field: 'apiKey', message: 'Anthropic渠道必须提供API Key' });
+    }
+
     if (channel.provider === 'openai' && (!channel.baseUrl || channel.baseUrl.trim().length === 0)) {
       errors.push({ field: 'baseUrl', message: 'OpenAI兼容渠道必须提供Base URL' });
     }
@@ -268,13 +275,14 @@ export const useApiChannels = () => {
       const timeoutId = setTimeout(() => {
         abortController.abort();
       }, channel.timeout);
+      const apiKey = selectApiKey(channel)?.key || channel.apiKey;
 
       // 根据提供商类型进行不同的测试
       if (channel.provider === 'openai') {
         const response = await fetch(`${channel.baseUrl}/models`, {
           method: 'GET',
           headers: {
-            'Authorization': `Bearer ${channel.apiKey}`,
+            'Authorization': `Bearer ${apiKey}`,
             'Content-Type': 'application/json'
           },
           signal: abortController.signal
@@ -290,7 +298,7 @@ export const useApiChannels = () => {
         return { success: true, latency };
       } else if (channel.provider === 'gemini') {
         // 对于Gemini，我们使用一个简单的模型列表请求来测试连接
-        const testUrl = `${channel.baseUrl || 'https://generativelanguage.googleapis.com/v1beta'}/models?key=${channel.apiKey}`;
+        const testUrl = `${channel.baseUrl || 'https://generativelanguage.googleapis.com/v1beta'}/models?key=${apiKey}`;
         
         const response = await fetch(testUrl, {
           method: 'GET',
@@ -303,6 +311,21 @@ export const useApiChannels = () => {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
 
+        const latency = Date.now() - startTime;
+        return { success: true, latency };
+      } else if (channel.provider === 'anthropic') {
+        const response = await fetch(`${getAnthropicApiBaseUrl(channel.baseUrl)}/models`, {
+          method: 'GET',
+          headers: buildAnthropicHeaders(apiKey),
+          signal: abortController.signal
+        });
+
+        clearTimeout(timeoutId);
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
         const latency = Date.now() - startTime;
         return { success: true, latency };
       }
@@ -377,6 +400,7 @@ export const useApiChannels = () => {
       ...originalChannel,
       name: `${originalChannel.name} (副本)`,
       apiKey: '', // 出于安全考虑，不复制API密钥
+      extraApiKeys: undefined,
       metadata: {
         version: originalChannel.metadata?.version || CHANNEL_DATA_VERSION,
         description: `从"${originalChannel.name}"复制`,
@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import { ApiKeyUsageStats } from '../types';
+import { API_KEY_STATS_UPDATED_EVENT, loadApiKeyStats } from '../services/apiKeyPoolService';
+
+/**
+ * 密钥池的使用统计，请求结束时随服务层的记录自动刷新
+ */
+export const useApiKeyStats = (): Record<string, ApiKeyUsageStats> => {
+  const [stats, setStats] = useState<Record<string, ApiKeyUsageStats>>(loadApiKeyStats);
+
+  useEffect(() => {
+    const reload = () => setStats(loadApiKeyStats());
+    window.addEventListener(API_KEY_STATS_UPDATED_EVENT, reload);
+    return () => window.removeEventListener(API_KEY_STATS_UPDATED_EVENT, reload);
+  }, []);
+
+  return stats;
+};
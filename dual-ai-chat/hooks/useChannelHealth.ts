@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import { ChannelHealthState } from '../types';
+import { CHANNEL_HEALTH_UPDATED_EVENT, loadChannelHealth } from '../services/channelHealthService';
+
+/**
+ * 各渠道的请求历史与熔断状态，请求结束时随服务层的记录自动刷新
+ */
+export const useChannelHealth = (): Record<string, ChannelHealthState> => {
+  const [health, setHealth] = useState<Record<string, ChannelHealthState>>(loadChannelHealth);
+
+  useEffect(() => {
+    const reload = () => setHealth(loadChannelHealth());
+    window.addEventListener(CHANNEL_HEALTH_UPDATED_EVENT, reload);
+    return () => window.removeEventListener(CHANNEL_HEALTH_UPDATED_EVENT, reload);
+  }, []);
+
+  return health;
+};
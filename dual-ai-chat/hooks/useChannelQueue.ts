@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+import { ChannelQueueStatus, channelRequestScheduler } from '../services/channelRequestScheduler';
+
+/**
+ * 各渠道请求队列的实时状态（仅包含有进行中或排队请求的渠道）
+ */
+export const useChannelQueue = (): ChannelQueueStatus[] => {
+  const [status, setStatus] = useState<ChannelQueueStatus[]>(() => channelRequestScheduler.getStatus());
+
+  useEffect(() => {
+    return channelRequestScheduler.subscribe(() => setStatus(channelRequestScheduler.getStatus()));
+  }, []);
+
+  return status;
+};
@@ -1,31 +1,36 @@
 import { useState, useRef, useCallback } from 'react';
-import { ChatMessage, MessageSender, MessagePurpose, FailedStepPayload, DiscussionMode, ApiChannelOverride } from '../types';
-import { generateResponse as generateGeminiResponse } from '../services/geminiService';
-import { generateOpenAiResponse } from '../services/openaiService';
-import { ApiChannelService } from '../services/apiChannelService';
+import { ChatMessage, MessageSender, MessagePurpose, FailedStepPayload, DiscussionMode, ApiChannelOverride, MessageAgentInfo, DiscussionProtocol, DiscussionBudget, DiscussionRouteChoice, ChatMessageExtras, StructuredOutputSpec } from '../types';
 import { useApiChannels } from './useApiChannels';
+import { fileToBase64 } from '../utils/appUtils';
+import { ResolvedParticipant, buildAgentInfo } from '../utils/participants';
 import {
-  AiModel,
-  NOTEPAD_INSTRUCTION_PROMPT_PART,
-  DISCUSSION_COMPLETE_TAG,
-  AI_DRIVEN_DISCUSSION_INSTRUCTION_PROMPT_PART,
-  MAX_AUTO_RETRIES,
-  RETRY_DELAY_BASE_MS,
-  THINKING_BUDGET_CONFIG_HIGH_QUALITY,
-  THINKING_BUDGET_CONFIG_PRO_HIGH_QUALITY,
-  GEMINI_PRO_MODEL_ID,
-  GEMINI_2_5_PRO_PREVIEW_05_06_MODEL_ID
-} from '../constants';
-import { parseAIResponse, fileToBase64, ParsedAIResponse, formatNotepadContentForAI } from '../utils/appUtils';
+  DiscussionCheckpoint,
+  DiscussionEngine,
+  DiscussionEngineEvent,
+  DiscussionExtensionOffer,
+  DiscussionPhaseProgress,
+  DiscussionRunResult,
+  ImageApiPart,
+  runStateFromFailedStep
+} from '../services/discussionEngine';
+import { DiscussionUsage } from '../utils/discussionBudget';
+import { decideDiscussionRoute } from '../utils/discussionRouting';
+import { AgentToolContext, BUILTIN_AGENT_TOOLS } from '../services/agentTools';
+import { InterruptedDiscussionRun, clearInterruptedRun, loadInterruptedRun, saveInterruptedRun } from '../utils/discussionCheckpoint';
 
 interface UseChatLogicProps {
-  addMessage: (text: string, sender: MessageSender, purpose: MessagePurpose, durationMs?: number, image?: ChatMessage['image']) => string;
-  processNotepadUpdateFromAI: (parsedResponse: ParsedAIResponse, sender: MessageSender, addSystemMessage: UseChatLogicProps['addMessage']) => void;
+  addMessage: (text: string, sender: MessageSender, purpose: MessagePurpose, durationMs?: number, image?: ChatMessage['image'], agent?: MessageAgentInfo, parallelGroupId?: string, extras?: ChatMessageExtras) => string;
+  updateMessage: (messageId: string, newText: string, isStreaming?: boolean, durationMs?: number, extras?: ChatMessageExtras) => void;
+  applyNotepadUpdateFromAI: (newContent: string, sender: MessageSender) => void;
   setGlobalApiKeyStatus: (status: {isMissing?: boolean, isInvalid?: boolean, message?: string}) => void;
-  
-  cognitoModelDetails: AiModel;
-  museModelDetails: AiModel;
-  
+
+  // 讨论参与者：第一个为主导者（负责开场与最终答案），其余按顺序轮流发言
+  participants: ResolvedParticipant[];
+  // 主持人（可选）：在“全员同意结束”的阶段中每轮评估是否继续
+  moderator: ResolvedParticipant | null;
+  // 讨论协议：阶段、发言顺序、轮数与结束条件
+  protocol: DiscussionProtocol;
+
   // 保持向后兼容的配置 (用于fallback)
   useCustomApiConfig: boolean;
   customApiKey: string;
@@ -39,27 +44,37 @@ interface UseChatLogicProps {
   // Shared Settings
   discussionMode: DiscussionMode;
   manualFixedTurns: number;
+  budget: DiscussionBudget;
+  structuredAnswer: StructuredOutputSpec | null; // 最终答案的 JSON Schema（为空时输出 Markdown）
+  adaptiveRouting: boolean; // 未指定路由时按查询自动选择快速回答、双人辩论或全员讨论
+  toolsEnabled: boolean; // 允许发言者调用内置工具（计算器、日期时间、会话搜索、记事本历史）
+  toolContext: AgentToolContext;
   isThinkingBudgetActive: boolean;
-  cognitoSystemPrompt: string;
-  museSystemPrompt: string;
+  streamMode: boolean;
   notepadContent: string;
   startProcessingTimer: () => void;
   stopProcessingTimer: () => void;
   currentQueryStartTimeRef: React.MutableRefObject<number | null>;
   temperature: number;
-  
+
   // 新增：消息历史访问和渠道选择
   getAllMessages: () => ChatMessage[];
   getCurrentSessionChannelId?: () => string | undefined;
   getCurrentSessionChannelOverride?: () => ApiChannelOverride | undefined;
+  currentSessionId?: string | null; // 写入检查点，页面重载后据此恢复对应会话
 }
 
+/**
+ * 讨论引擎的 React 适配层：为每次讨论创建 DiscussionEngine，并把引擎事件映射为界面状态与消息。
+ */
 export const useChatLogic = ({
   addMessage,
-  processNotepadUpdateFromAI,
+  updateMessage,
+  applyNotepadUpdateFromAI,
   setGlobalApiKeyStatus,
-  cognitoModelDetails,
-  museModelDetails,
+  participants,
+  moderator,
+  protocol,
   // 保持向后兼容的配置
   useCustomApiConfig,
   customApiKey,
@@ -72,9 +87,13 @@ export const useChatLogic = ({
   // Shared
   discussionMode,
   manualFixedTurns,
+  budget,
+  structuredAnswer,
+  adaptiveRouting,
+  toolsEnabled,
+  toolContext,
   isThinkingBudgetActive,
-  cognitoSystemPrompt,
-  museSystemPrompt,
+  streamMode,
   notepadContent,
   startProcessingTimer,
   stopProcessingTimer,
@@ -84,683 +103,267 @@ export const useChatLogic = ({
   getAllMessages,
   getCurrentSessionChannelId,
   getCurrentSessionChannelOverride,
+  currentSessionId,
 }: UseChatLogicProps) => {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [discussionLog, setDiscussionLog] = useState<string[]>([]);
-  const [failedStepInfo, setFailedStepInfo] = useState<FailedStepPayload | null>(null);
+  // 页面重载前未完成的讨论（来自 sessionStorage），失败步骤直接恢复手动重试按钮
+  const [interruptedRun, setInterruptedRun] = useState<InterruptedDiscussionRun | null>(() => loadInterruptedRun());
+  const [failedStepInfo, setFailedStepInfo] = useState<FailedStepPayload | null>(() => interruptedRun?.failedStep ?? null);
   const cancelRequestRef = useRef<boolean>(false);
   const [currentDiscussionTurn, setCurrentDiscussionTurn] = useState<number>(0);
   const [isInternalDiscussionActive, setIsInternalDiscussionActive] = useState<boolean>(false);
   const [lastCompletedTurnCount, setLastCompletedTurnCount] = useState<number>(0);
-  
-  // 渠道路由辅助函数
-  const { channels, getChannelById, getDefaultChannel } = useApiChannels();
-
-  const getThinkingConfigForGeminiModel = useCallback((modelDetails: AiModel) : { thinkingBudget: number } | undefined => {
-    if (!useOpenAiApiConfig && modelDetails.supportsThinkingConfig && isThinkingBudgetActive) {
-      return (modelDetails.apiName === GEMINI_PRO_MODEL_ID || modelDetails.apiName === GEMINI_2_5_PRO_PREVIEW_05_06_MODEL_ID)
-        ? THINKING_BUDGET_CONFIG_PRO_HIGH_QUALITY.thinkingConfig
-        : THINKING_BUDGET_CONFIG_HIGH_QUALITY.thinkingConfig;
-    }
-    return undefined;
-  }, [useOpenAiApiConfig, isThinkingBudgetActive]);
-
-  const commonAIStepExecution = useCallback(async (
-    stepIdentifier: string,
-    prompt: string,
-    modelDetailsForStep: AiModel,
-    senderForStep: MessageSender,
-    purposeForStep: MessagePurpose,
-    imageApiPartForStep?: { inlineData: { mimeType: string; data: string } },
-    userInputForFlowContext?: string,
-    imageApiPartForFlowContext?: { inlineData: { mimeType: string; data: string } },
-    discussionLogBeforeFailureContext?: string[],
-    currentTurnIndexForResumeContext?: number,
-    previousAISignaledStopForResumeContext?: boolean,
-    messageHistory?: ChatMessage[]  // 新增：消息历史参数
-  ): Promise<ParsedAIResponse> => {
-    let stepSuccess = false;
-    let parsedResponse: ParsedAIResponse | null = null;
-    let autoRetryCount = 0;
-    
-    const systemInstructionToUse = senderForStep === MessageSender.Cognito ? cognitoSystemPrompt : museSystemPrompt;
-    const thinkingConfigToUseForGemini = getThinkingConfigForGeminiModel(modelDetailsForStep);
-
-    // 获取消息历史：优先使用传入的参数，否则获取当前所有消息
-    const historyToUse = messageHistory || getAllMessages();
-    
-    // 获取当前会话的渠道设置
-    const sessionChannelId = getCurrentSessionChannelId?.();
-    const sessionChannelOverride = getCurrentSessionChannelOverride?.();
-    
-    // 🚨 CRITICAL DEBUG: 验证消息历史传递和关键参数
-    console.log(`[CRITICAL-DEBUG-${stepIdentifier}] commonAIStepExecution调用详情:`, {
-      传入的messageHistory长度: messageHistory?.length || 0,
-      getAllMessages返回长度: getAllMessages()?.length || 0,
-      实际使用的historyToUse长度: historyToUse?.length || 0,
-      historyToUse前3条消息: historyToUse?.slice(0, 3).map(m => ({
-        sender: m.sender,
-        text: m.text.substring(0, 50) + '...'
-      })) || [],
-      prompt长度: prompt?.length || 0,
-      prompt前100字符: prompt?.substring(0, 100) || '❌ EMPTY PROMPT',
-      stepIdentifier,
-      senderForStep,
-      modelDetailsForStep: modelDetailsForStep.name,
-      sessionChannelId,
-      sessionChannelOverride
+  const [currentPhase, setCurrentPhase] = useState<DiscussionPhaseProgress | null>(null);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [discussionUsage, setDiscussionUsage] = useState<DiscussionUsage | null>(null);
+  const [extensionOffer, setExtensionOffer] = useState<DiscussionExtensionOffer | null>(null);
+  const engineRef = useRef<DiscussionEngine | null>(null);
+  // 流式输出中的消息气泡（步骤完成前逐步更新），并行阶段可能同时存在多个，按步骤标识索引
+  const streamingMessagesRef = useRef<Map<string, { messageId: string; text: string }>>(new Map());
+
+  // 引擎事件在异步流程中触发，通过 ref 调用最新的记事本写入函数
+  const applyNotepadUpdateRef = useRef(applyNotepadUpdateFromAI);
+  applyNotepadUpdateRef.current = applyNotepadUpdateFromAI;
+  // 检查点写入时读取最新的会话ID；首次发送时新建的会话尚未渲染，由 startChatProcessing 预先写入
+  const currentSessionIdRef = useRef(currentSessionId);
+  currentSessionIdRef.current = currentSessionId;
+
+  const { channels, defaultChannelId } = useApiChannels();
+
+  const createEngine = useCallback(() => {
+    return new DiscussionEngine({
+      participants,
+      moderator,
+      protocol,
+      discussionMode,
+      manualFixedTurns,
+      budget,
+      structuredAnswer,
+      tools: toolsEnabled ? { tools: BUILTIN_AGENT_TOOLS, context: toolContext } : null,
+      temperature,
+      isThinkingBudgetActive,
+      streamMode,
+      channels,
+      defaultChannelId,
+      sessionChannelId: getCurrentSessionChannelId?.(),
+      sessionChannelOverride: getCurrentSessionChannelOverride?.(),
+      fallbackConfig: {
+        useCustomApiConfig,
+        customApiKey,
+        customApiEndpoint,
+        useOpenAiApiConfig,
+        openAiApiKey,
+        openAiApiBaseUrl,
+      },
+      notepadContent,
+      messageHistory: getAllMessages(),
     });
+  }, [
+    participants, moderator, protocol, discussionMode, manualFixedTurns, budget, structuredAnswer, toolsEnabled, toolContext, temperature, isThinkingBudgetActive, streamMode,
+    channels, defaultChannelId, getCurrentSessionChannelId, getCurrentSessionChannelOverride,
+    useCustomApiConfig, customApiKey, customApiEndpoint, useOpenAiApiConfig, openAiApiKey, openAiApiBaseUrl,
+    notepadContent, getAllMessages
+  ]);
 
-    // 🚨 CRITICAL: 检查getAllMessages是否正常工作
-    if (!getAllMessages || typeof getAllMessages !== 'function') {
-      console.error(`[CRITICAL-ERROR] getAllMessages函数无效!`, { getAllMessages });
-      throw new Error('getAllMessages函数无效，无法获取消息历史');
-    }
-
-    // 🚨 CRITICAL: 检查prompt是否为空
-    if (!prompt || prompt.trim().length === 0) {
-      console.error(`[CRITICAL-ERROR] 传入的prompt为空!`, {
-        prompt,
-        stepIdentifier,
-        senderForStep
-      });
-      throw new Error(`步骤${stepIdentifier}的prompt为空，无法继续执行`);
-    }
-
-    while (autoRetryCount <= MAX_AUTO_RETRIES && !stepSuccess) {
-      if (cancelRequestRef.current) throw new Error("用户取消操作");
-      
-      let result: { text: string; durationMs: number; error?: string; requestDetails?: any; responseBody?: any } | undefined;
-      
-      try {
-        // 🔥 新的API渠道路由逻辑
-        let channelRouted = false;
-        
-        if (channels && channels.length > 0 && getChannelById && getDefaultChannel) {
-          try {
-            // 确定要使用的渠道ID：会话指定的渠道 > 角色特定覆盖渠道 > 全局默认渠道
-            let targetChannelId: string | undefined;
-            
-            if (sessionChannelOverride) {
-              // 会话级别的角色特定渠道覆盖
-              targetChannelId = senderForStep === MessageSender.Cognito
-                ? sessionChannelOverride.cognitoChannelId
-                : sessionChannelOverride.museChannelId;
-            }
-            
-            if (!targetChannelId) {
-              // 使用会话指定的渠道或默认渠道
-              targetChannelId = sessionChannelId;
-            }
-            
-            // 获取渠道配置
-            const targetChannel = targetChannelId ? getChannelById(targetChannelId) : getDefaultChannel();
-            
-            if (targetChannel) {
-              console.log(`[API-CHANNEL-ROUTING] ${stepIdentifier} 使用渠道:`, {
-                senderForStep,
-                channelId: targetChannel.id,
-                channelName: targetChannel.name,
-                provider: targetChannel.provider
-              });
-              
-              // 使用API渠道服务
-              const channelResponse = await ApiChannelService.generateResponse(
-                prompt,
-                {
-                  channel: targetChannel,
-                  messageHistory: historyToUse,
-                  temperature
-                },
-                modelDetailsForStep.supportsSystemInstruction ? systemInstructionToUse : undefined,
-                imageApiPartForStep
-              );
-              
-              // 转换为兼容格式
-              result = {
-                text: channelResponse.text,
-                durationMs: channelResponse.durationMs,
-                error: channelResponse.error,
-                requestDetails: channelResponse.requestDetails,
-                responseBody: channelResponse.responseBody
-              };
-              
-              channelRouted = true;
-              
-              console.log(`[API-CHANNEL-SUCCESS] ${stepIdentifier} 渠道响应成功:`, {
-                channelUsed: targetChannel.id,
-                responseLength: result.text?.length || 0,
-                durationMs: result.durationMs
-              });
-            }
-            
-          } catch (channelError) {
-            console.warn(`[API-CHANNEL-FALLBACK] ${stepIdentifier} 渠道服务失败，回退到原有服务:`, channelError);
-            channelRouted = false;
-          }
-        }
-        
-        // 如果渠道路由失败或不可用，使用原有的直接服务调用
-        if (!channelRouted) {
-          const currentOpenAiModelId = modelDetailsForStep.apiName;
-
-          if (useOpenAiApiConfig) {
-            result = await generateOpenAiResponse(
-              prompt,
-              currentOpenAiModelId,
-              openAiApiKey,
-              openAiApiBaseUrl,
-              modelDetailsForStep.supportsSystemInstruction ? systemInstructionToUse : undefined,
-              imageApiPartForStep ? { mimeType: imageApiPartForStep.inlineData.mimeType, data: imageApiPartForStep.inlineData.data } : undefined,
-              temperature,
-              historyToUse  // 传递消息历史
-            );
-          } else {
-            result = await generateGeminiResponse(
-              prompt,
-              modelDetailsForStep.apiName,
-              useCustomApiConfig,
-              customApiKey,
-              customApiEndpoint,
-              modelDetailsForStep.supportsSystemInstruction ? systemInstructionToUse : undefined,
-              imageApiPartForStep,
-              thinkingConfigToUseForGemini,
-              temperature,
-              historyToUse  // 传递消息历史
-            );
-          }
-        }
-
-        if (cancelRequestRef.current) throw new Error("用户取消操作");
-        
-        if (result && result.error) {
-          if (result.error === "API key not configured" || result.error.toLowerCase().includes("api key not provided")) {
-             setGlobalApiKeyStatus({isMissing: true, message: result.text});
-             throw new Error(result.text);
-          }
-          if (result.error === "API key invalid or permission denied") {
-             setGlobalApiKeyStatus({isInvalid: true, message: result.text});
-             throw new Error(result.text);
-          }
-          throw new Error(result.text || "AI 响应错误");
-        }
-        setGlobalApiKeyStatus({isMissing: false, isInvalid: false, message: undefined });
-        parsedResponse = parseAIResponse(result?.text || '');
-        addMessage(parsedResponse.spokenText, senderForStep, purposeForStep, result?.durationMs);
-        stepSuccess = true;
-      } catch (e) {
-        const error = e as Error;
-        if (error.message.includes("API密钥") || error.message.toLowerCase().includes("api key")) {
-           throw error;
-        }
-
-        if (autoRetryCount < MAX_AUTO_RETRIES) {
-          let errorMessage = `[${senderForStep} - ${stepIdentifier}] 调用失败，重试 (${autoRetryCount + 1}/${MAX_AUTO_RETRIES})... ${error.message}`;
-          
-          if (result?.requestDetails) {
-            errorMessage += `\n请求详情: ${JSON.stringify(result.requestDetails, null, 2)}`;
-          }
-          if (result?.responseBody) {
-            errorMessage += `\n响应内容: ${JSON.stringify(result.responseBody, null, 2)}`;
-          }
-          
-          addMessage(errorMessage, MessageSender.System, MessagePurpose.SystemNotification);
-          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_BASE_MS * (autoRetryCount + 1)));
+  // 结束未完成的流式气泡，保留已生成的内容
+  const finalizeStreamingMessages = useCallback(() => {
+    streamingMessagesRef.current.forEach(streaming => {
+      updateMessage(streaming.messageId, streaming.text ? `${streaming.text}\n\n[生成中断]` : '[生成中断]', false);
+    });
+    streamingMessagesRef.current.clear();
+  }, [updateMessage]);
+
+  const handleEngineEvent = useCallback((event: DiscussionEngineEvent) => {
+    switch (event.type) {
+      case 'step-started':
+        setCurrentPhase(event.step.phase);
+        setCurrentDiscussionTurn(event.step.turn);
+        setIsInternalDiscussionActive(!event.step.phase.isFinal);
+        break;
+      case 'chunk': {
+        if (!streamMode) break;
+        const streaming = streamingMessagesRef.current.get(event.step.stepIdentifier);
+        if (streaming) {
+          // 自动重试时 accumulatedText 从头开始，直接覆盖气泡内容
+          streaming.text = event.displayText;
+          updateMessage(streaming.messageId, event.displayText, true);
         } else {
-          let finalErrorMessage = `[${senderForStep} - ${stepIdentifier}] 在 ${MAX_AUTO_RETRIES + 1} 次尝试后失败: ${error.message} 可手动重试。`;
-          
-          if (result?.requestDetails) {
-            finalErrorMessage += `\n最后一次请求详情: ${JSON.stringify(result.requestDetails, null, 2)}`;
-          }
-          if (result?.responseBody) {
-            finalErrorMessage += `\n最后一次响应内容: ${JSON.stringify(result.responseBody, null, 2)}`;
-          }
-          
-          const errorMsgId = addMessage(finalErrorMessage, MessageSender.System, MessagePurpose.SystemNotification);
-          
-          let thinkingConfigForPayload: {thinkingBudget: number} | undefined = undefined;
-          if (!useOpenAiApiConfig) {
-            thinkingConfigForPayload = thinkingConfigToUseForGemini;
-          }
-
-          setFailedStepInfo({
-            stepIdentifier: stepIdentifier,
-            prompt: prompt,
-            modelName: modelDetailsForStep.apiName,
-            systemInstruction: modelDetailsForStep.supportsSystemInstruction ? systemInstructionToUse : undefined,
-            imageApiPart: imageApiPartForStep,
-            sender: senderForStep,
-            purpose: purposeForStep,
-            originalSystemErrorMsgId: errorMsgId,
-            thinkingConfig: thinkingConfigForPayload,
-            userInputForFlow: userInputForFlowContext || "",
-            imageApiPartForFlow: imageApiPartForFlowContext,
-            discussionLogBeforeFailure: discussionLogBeforeFailureContext || [],
-            currentTurnIndexForResume: currentTurnIndexForResumeContext,
-            previousAISignaledStopForResume: previousAISignaledStopForResumeContext
-          });
-          setIsInternalDiscussionActive(false);
-          throw error;
+          const { participant, purpose, addressee, parallelGroupId } = event.step;
+          const messageId = addMessage(event.displayText, participant.sender, purpose, undefined, undefined, buildAgentInfo(participant, addressee), parallelGroupId);
+          updateMessage(messageId, event.displayText, true);
+          streamingMessagesRef.current.set(event.step.stepIdentifier, { messageId, text: event.displayText });
         }
+        break;
       }
-      autoRetryCount++;
-    }
-    if (!parsedResponse) {
-        setIsInternalDiscussionActive(false);
-        throw new Error("AI响应处理失败");
-    }
-    return parsedResponse;
-  }, [
-      addMessage, cognitoSystemPrompt, museSystemPrompt, getThinkingConfigForGeminiModel,
-      useOpenAiApiConfig, openAiApiKey, openAiApiBaseUrl,
-      useCustomApiConfig, customApiKey, customApiEndpoint,
-      setGlobalApiKeyStatus, setIsLoading, setIsInternalDiscussionActive, temperature,
-      getAllMessages, getCurrentSessionChannelId, getCurrentSessionChannelOverride, channels, getChannelById, getDefaultChannel
-    ]);
-
-  const continueDiscussionAfterSuccessfulRetry = useCallback(async (
-    retriedStepPayload: FailedStepPayload,
-    retryResponse: ParsedAIResponse
-  ) => {
-    const {
-      stepIdentifier: retriedStepId,
-      userInputForFlow,
-      imageApiPartForFlow, 
-    } = retriedStepPayload;
-
-    let localDiscussionLog = [...retriedStepPayload.discussionLogBeforeFailure!]; 
-    localDiscussionLog.push(`${retriedStepPayload.sender}: ${retryResponse.spokenText}`);
-    setDiscussionLog(localDiscussionLog);
-
-    let localLastTurnTextForLog = retryResponse.spokenText;
-    let localPreviousAISignaledStop = (discussionMode === DiscussionMode.AiDriven && (retryResponse.discussionShouldEnd || false));
-    if (discussionMode === DiscussionMode.AiDriven && retriedStepPayload.previousAISignaledStopForResume && retryResponse.discussionShouldEnd) {
-        localPreviousAISignaledStop = true;
-    }
-    
-    const effectiveCognitoModel = cognitoModelDetails;
-    const effectiveMuseModel = museModelDetails;
-
-    const imageInstructionForAI = imageApiPartForFlow ? "用户还提供了一张图片。请在您的分析和回复中同时考虑此图片和文本查询。" : "";
-    const discussionModeInstructionText = discussionMode === DiscussionMode.AiDriven ? AI_DRIVEN_DISCUSSION_INSTRUCTION_PROMPT_PART : "";
-    const commonPromptInstructions = () => NOTEPAD_INSTRUCTION_PROMPT_PART.replace('{notepadContent}', formatNotepadContentForAI(notepadContent)) + discussionModeInstructionText;
-
-    let initialLoopTurn = 0;
-    let skipMuseInFirstIteration = false;
-
-    if (retriedStepId === 'cognito-initial-to-muse') {
-        initialLoopTurn = 0;
-        setIsInternalDiscussionActive(true); 
-        setCurrentDiscussionTurn(0);
-        if (localPreviousAISignaledStop) addMessage(`${MessageSender.Cognito} 已建议结束讨论。等待 ${MessageSender.Muse} 的回应。`, MessageSender.System, MessagePurpose.SystemNotification);
-    } else if (retriedStepId.startsWith('muse-reply-to-cognito-turn-')) {
-        initialLoopTurn = retriedStepPayload.currentTurnIndexForResume ?? 0;
-        setIsInternalDiscussionActive(true); 
-        setCurrentDiscussionTurn(initialLoopTurn);
-        skipMuseInFirstIteration = true; 
-        if (discussionMode === DiscussionMode.AiDriven && localPreviousAISignaledStop && retriedStepPayload.previousAISignaledStopForResume) {
-            addMessage(`双方AI (${MessageSender.Cognito} 和 ${MessageSender.Muse}) 已同意结束讨论。`, MessageSender.System, MessagePurpose.SystemNotification);
-             setIsInternalDiscussionActive(false);
-        } else if (discussionMode === DiscussionMode.AiDriven && localPreviousAISignaledStop) {
-             addMessage(`${MessageSender.Muse} 已建议结束讨论。等待 ${MessageSender.Cognito} 的回应。`, MessageSender.System, MessagePurpose.SystemNotification);
-        }
-    } else if (retriedStepId.startsWith('cognito-reply-to-muse-turn-')) {
-        initialLoopTurn = (retriedStepPayload.currentTurnIndexForResume ?? 0) + 1;
-        setIsInternalDiscussionActive(true); 
-        setCurrentDiscussionTurn(initialLoopTurn); 
-         if (discussionMode === DiscussionMode.AiDriven && localPreviousAISignaledStop && retriedStepPayload.previousAISignaledStopForResume) {
-             addMessage(`双方AI (${MessageSender.Muse} 和 ${MessageSender.Cognito}) 已同意结束讨论。`, MessageSender.System, MessagePurpose.SystemNotification);
-             setIsInternalDiscussionActive(false);
-        } else if (discussionMode === DiscussionMode.AiDriven && localPreviousAISignaledStop) {
-             addMessage(`${MessageSender.Cognito} 已建议结束讨论。等待 ${MessageSender.Muse} 的回应。`, MessageSender.System, MessagePurpose.SystemNotification);
+      case 'step-completed': {
+        const { message } = event;
+        const streaming = streamingMessagesRef.current.get(event.step.stepIdentifier);
+        if (streaming) {
+          streamingMessagesRef.current.delete(event.step.stepIdentifier);
+          updateMessage(streaming.messageId, message.text, false, message.durationMs, { structuredAnswer: message.structuredAnswer, route: message.route, channel: message.channel });
+        } else {
+          addMessage(message.text, message.sender, message.purpose, message.durationMs, undefined, message.agent, message.parallelGroupId, { structuredAnswer: message.structuredAnswer, route: message.route, channel: message.channel });
         }
-    } else if (retriedStepId === 'cognito-final-answer') {
-        setIsInternalDiscussionActive(false); 
-        return;
-    }
-
-    try {
-      let discussionLoopShouldRun = true;
-      if (discussionMode === DiscussionMode.AiDriven && localPreviousAISignaledStop && retriedStepPayload.previousAISignaledStopForResume) {
-          discussionLoopShouldRun = false;
+        setDiscussionLog(prev => [...prev, `${event.step.participant.displayName}: ${message.text}`]);
+        break;
       }
-      if (retriedStepId === 'cognito-final-answer') discussionLoopShouldRun = false;
-
-      if (discussionLoopShouldRun && isInternalDiscussionActive) { 
-        for (let turn = initialLoopTurn; ; turn++) {
-          setCurrentDiscussionTurn(turn);
-          if (cancelRequestRef.current) break;
-          if (discussionMode === DiscussionMode.FixedTurns && turn >= manualFixedTurns) break;
-          if (discussionMode === DiscussionMode.AiDriven && localPreviousAISignaledStop && retriedStepPayload.previousAISignaledStopForResume && turn > initialLoopTurn) break;
-
-          if (!(skipMuseInFirstIteration && turn === initialLoopTurn)) {
-            const museStepIdentifier = `muse-reply-to-cognito-turn-${turn}`;
-            addMessage(`${MessageSender.Muse} 正在回应 ${MessageSender.Cognito} (使用 ${effectiveMuseModel.name})...`, MessageSender.System, MessagePurpose.SystemNotification);
-            let musePromptText = `用户的查询 (中文) 是: "${userInputForFlow}". ${imageInstructionForAI} 当前讨论 (均为中文):\n${localDiscussionLog.join("\n")}\n${MessageSender.Cognito} (逻辑AI) 刚刚说 (中文): "${localLastTurnTextForLog}". 请回复 ${MessageSender.Cognito}。继续讨论。保持您的回复简洁并使用中文。\n${commonPromptInstructions()}`;
-            if (discussionMode === DiscussionMode.AiDriven && localPreviousAISignaledStop) musePromptText += `\n${MessageSender.Cognito} 已包含 ${DISCUSSION_COMPLETE_TAG} 建议结束讨论。如果您同意，请在您的回复中也包含 ${DISCUSSION_COMPLETE_TAG}。否则，请继续讨论。`;
-
-            const museParsedResponse = await commonAIStepExecution(
-                museStepIdentifier, musePromptText, effectiveMuseModel, MessageSender.Muse, MessagePurpose.MuseToCognito, imageApiPartForFlow,
-                userInputForFlow, imageApiPartForFlow, [...localDiscussionLog], turn, localPreviousAISignaledStop, getAllMessages()
-            );
-            if (cancelRequestRef.current) return;
-            processNotepadUpdateFromAI(museParsedResponse, MessageSender.Muse, addMessage);
-            const prevSignalBeforeMuse = localPreviousAISignaledStop;
-            localLastTurnTextForLog = museParsedResponse.spokenText; localDiscussionLog.push(`${MessageSender.Muse}: ${localLastTurnTextForLog}`); setDiscussionLog([...localDiscussionLog]);
-            localPreviousAISignaledStop = museParsedResponse.discussionShouldEnd || false;
-
-            if (discussionMode === DiscussionMode.AiDriven) {
-                if (localPreviousAISignaledStop && prevSignalBeforeMuse) {
-                    addMessage(`双方AI (${MessageSender.Cognito} 和 ${MessageSender.Muse}) 已同意结束讨论。`, MessageSender.System, MessagePurpose.SystemNotification);
-                    setIsInternalDiscussionActive(false); break;
-                } else if (localPreviousAISignaledStop) {
-                    addMessage(`${MessageSender.Muse} 已建议结束讨论。等待 ${MessageSender.Cognito} 的回应。`, MessageSender.System, MessagePurpose.SystemNotification);
-                }
-            }
-          }
-          skipMuseInFirstIteration = false;
-          if (cancelRequestRef.current) break;
-          if (discussionMode === DiscussionMode.AiDriven && localPreviousAISignaledStop && retriedStepPayload.previousAISignaledStopForResume) { setIsInternalDiscussionActive(false); break; }
-          if (discussionMode === DiscussionMode.FixedTurns && turn >= manualFixedTurns -1) { setIsInternalDiscussionActive(false); break; }
-
-          const cognitoReplyStepIdentifier = `cognito-reply-to-muse-turn-${turn}`;
-          addMessage(`${MessageSender.Cognito} 正在回应 ${MessageSender.Muse} (使用 ${effectiveCognitoModel.name})...`, MessageSender.System, MessagePurpose.SystemNotification);
-          let cognitoReplyPromptText = `用户的查询 (中文) 是: "${userInputForFlow}". ${imageInstructionForAI} 当前讨论 (均为中文):\n${localDiscussionLog.join("\n")}\n${MessageSender.Muse} (创意AI) 刚刚说 (中文): "${localLastTurnTextForLog}". 请回复 ${MessageSender.Muse}。继续讨论。保持您的回复简洁并使用中文。\n${commonPromptInstructions()}`;
-          if (discussionMode === DiscussionMode.AiDriven && localPreviousAISignaledStop) cognitoReplyPromptText += `\n${MessageSender.Muse} 已包含 ${DISCUSSION_COMPLETE_TAG} 建议结束讨论。如果您同意，请在您的回复中也包含 ${DISCUSSION_COMPLETE_TAG}。否则，请继续讨论。`;
-
-          const cognitoReplyParsedResponse = await commonAIStepExecution(
-              cognitoReplyStepIdentifier, cognitoReplyPromptText, effectiveCognitoModel, MessageSender.Cognito, MessagePurpose.CognitoToMuse, imageApiPartForFlow,
-              userInputForFlow, imageApiPartForFlow, [...localDiscussionLog], turn, localPreviousAISignaledStop, getAllMessages()
-          );
-          if (cancelRequestRef.current) return;
-          processNotepadUpdateFromAI(cognitoReplyParsedResponse, MessageSender.Cognito, addMessage);
-          const prevSignalBeforeCognito = localPreviousAISignaledStop;
-          localLastTurnTextForLog = cognitoReplyParsedResponse.spokenText; localDiscussionLog.push(`${MessageSender.Cognito}: ${localLastTurnTextForLog}`); setDiscussionLog([...localDiscussionLog]);
-          localPreviousAISignaledStop = cognitoReplyParsedResponse.discussionShouldEnd || false;
-
-          if (discussionMode === DiscussionMode.AiDriven) {
-              if (localPreviousAISignaledStop && prevSignalBeforeCognito) {
-                  addMessage(`双方AI (${MessageSender.Muse} 和 ${MessageSender.Cognito}) 已同意结束讨论。`, MessageSender.System, MessagePurpose.SystemNotification);
-                  setIsInternalDiscussionActive(false); break;
-              } else if (localPreviousAISignaledStop) {
-                  addMessage(`${MessageSender.Cognito} 已建议结束讨论。等待 ${MessageSender.Muse} 的回应。`, MessageSender.System, MessagePurpose.SystemNotification);
-              }
-          }
-          if (cancelRequestRef.current) break;
-        }
+      case 'tool-called': {
+        // 工具调用不参与并行分组，按调用顺序单独显示在对话记录中
+        const { participant, addressee } = event.step;
+        addMessage(
+          event.record.result,
+          participant.sender,
+          MessagePurpose.ToolCall,
+          undefined,
+          undefined,
+          buildAgentInfo(participant, addressee),
+          undefined,
+          { toolCall: event.record }
+        );
+        break;
       }
-      setIsInternalDiscussionActive(false); 
-
-      if (cancelRequestRef.current) return;
-
-      const finalAnswerStepIdentifier = 'cognito-final-answer';
-      addMessage(`${MessageSender.Cognito} 正在综合讨论内容，准备最终答案 (使用 ${effectiveCognitoModel.name})...`, MessageSender.System, MessagePurpose.SystemNotification);
-
-      const finalAnswerPromptText = `用户的查询 (中文) 是: "${userInputForFlow}". ${imageInstructionForAI} 您 (${MessageSender.Cognito}) 和 ${MessageSender.Muse} 进行了以下讨论 (均为中文):\n${localDiscussionLog.join("\n")}
-
-**您的最终任务是为用户生成最终答案，并将其放入记事本中。**
-
-**指令:**
-1.  **生成最终答案:** 基于整个对话和当前记事本内容，综合所有要点，为用户创建一个全面、结构良好、易于理解的最终答案。答案必须是中文，并使用 Markdown 格式化以提高可读性。
-2.  **更新记事本:** 使用 <np-replace-all> 标签将完整的最终答案放入记事本。这将是用户看到的主要输出。
-3.  **口头回复:** 你的口头回复 (在 <np-replace-all> 标签之前的部分) 应该非常简短。只需告诉用户最终答案已在记事本中准备好。例如："最终答案已为您准备好，请查看右侧的记事本。"
-
-**严格遵守以上指令。最终答案必须在记事本中。**
-\n${commonPromptInstructions()}`;
-
-      const finalAnswerParsedResponse = await commonAIStepExecution(
-          finalAnswerStepIdentifier, finalAnswerPromptText, effectiveCognitoModel, MessageSender.Cognito, MessagePurpose.FinalResponse, imageApiPartForFlow,
-          userInputForFlow, imageApiPartForFlow, [...localDiscussionLog], undefined, undefined, getAllMessages()
-      );
-      if (cancelRequestRef.current) return;
-      processNotepadUpdateFromAI(finalAnswerParsedResponse, MessageSender.Cognito, addMessage);
-
-    } catch (error) {
-      const e = error as Error;
-      if (cancelRequestRef.current) { /* User cancelled */ }
-      else if (!e.message.includes("API密钥") && !e.message.toLowerCase().includes("api key")) { 
-        console.error("继续讨论流程中发生错误:", error);
+      case 'moderator-verdict': {
+        const { message } = event;
+        addMessage(message.text, message.sender, message.purpose, message.durationMs, undefined, message.agent, undefined, { channel: message.channel });
+        break;
       }
-      setIsInternalDiscussionActive(false);
-    } finally {
-      if (!failedStepInfo || cancelRequestRef.current) {
-         setIsLoading(false);
-         stopProcessingTimer();
-         if (!cancelRequestRef.current && !failedStepInfo) {
-            let completedTurns = 0;
-            if (discussionLog.length > 1) {
-                if (discussionMode === DiscussionMode.FixedTurns) {
-                    completedTurns = manualFixedTurns;
-                } else {
-                    completedTurns = currentDiscussionTurn + 1;
-                }
-            }
-            setLastCompletedTurnCount(completedTurns);
-        } else if (cancelRequestRef.current && !failedStepInfo) {
-            setLastCompletedTurnCount(0);
+      case 'notepad-updated':
+        applyNotepadUpdateRef.current(event.content, event.author);
+        break;
+      case 'notification':
+        addMessage(event.text, MessageSender.System, MessagePurpose.SystemNotification);
+        break;
+      case 'pause-changed':
+        setIsPaused(event.paused);
+        break;
+      case 'extension-offered':
+        setExtensionOffer(event.offer);
+        break;
+      case 'extension-resolved':
+        setExtensionOffer(null);
+        break;
+      case 'usage-updated':
+        setDiscussionUsage(event.usage);
+        break;
+      case 'checkpoint':
+        saveInterruptedRun({
+          sessionId: currentSessionIdRef.current || undefined,
+          savedAt: new Date().toISOString(),
+          checkpoint: event.checkpoint,
+        });
+        break;
+      case 'api-key-status':
+        setGlobalApiKeyStatus(event.status);
+        break;
+      case 'failed': {
+        finalizeStreamingMessages();
+        const errorMsgId = event.message ? addMessage(event.message, MessageSender.System, MessagePurpose.SystemNotification) : '';
+        if (event.failedStep) {
+          const failedStep = { ...event.failedStep, originalSystemErrorMsgId: errorMsgId };
+          setFailedStepInfo(failedStep);
+          saveInterruptedRun({
+            sessionId: currentSessionIdRef.current || undefined,
+            savedAt: new Date().toISOString(),
+            failedStep,
+          });
+        } else if (!event.message) {
+          console.error("聊天流程中发生错误:", event.error);
         }
+        setIsInternalDiscussionActive(false);
+        break;
       }
-      if (cancelRequestRef.current && !failedStepInfo) {
-        addMessage("用户已停止AI响应。", MessageSender.System, MessagePurpose.SystemNotification);
-      }
-      setIsInternalDiscussionActive(false);
+      case 'finished':
+        finalizeStreamingMessages();
+        setExtensionOffer(null);
+        // 失败时保留最后的检查点，以便重载后继续
+        if (event.result.status !== 'failed') clearInterruptedRun();
+        break;
     }
-  }, [
-      addMessage, commonAIStepExecution, processNotepadUpdateFromAI, setDiscussionLog, 
-      discussionMode, manualFixedTurns, cognitoModelDetails, museModelDetails, notepadContent, 
-      setIsLoading, stopProcessingTimer, failedStepInfo, setIsInternalDiscussionActive, currentDiscussionTurn, setLastCompletedTurnCount
-    ]);
+  }, [addMessage, updateMessage, setGlobalApiKeyStatus, streamMode, finalizeStreamingMessages]);
+
+  // 创建引擎并执行一次讨论，执行期间把引擎事件同步到界面
+  const runEngine = useCallback(async (
+    run: (engine: DiscussionEngine) => Promise<DiscussionRunResult>
+  ): Promise<DiscussionRunResult | null> => {
+    const engine = createEngine();
+    engineRef.current = engine;
+    setDiscussionUsage(null);
+    const unsubscribe = engine.subscribe(handleEngineEvent);
+    try {
+      return await run(engine);
+    } catch (error) {
+      console.error("讨论引擎执行失败:", error);
+      addMessage(`错误: ${(error as Error).message}`, MessageSender.System, MessagePurpose.SystemNotification);
+      return null;
+    } finally {
+      finalizeStreamingMessages();
+      setIsPaused(false);
+      unsubscribe();
+      if (engineRef.current === engine) engineRef.current = null;
+    }
+  }, [createEngine, handleEngineEvent, addMessage, finalizeStreamingMessages]);
 
-  const startChatProcessing = useCallback(async (userInput: string, imageFile?: File | null) => {
+  const startChatProcessing = useCallback(async (userInput: string, imageFile?: File | null, routeChoice: DiscussionRouteChoice = 'auto', sessionId?: string) => {
     if (isLoading) return;
     if (!userInput.trim() && !imageFile) return;
+    if (sessionId) currentSessionIdRef.current = sessionId;
 
     cancelRequestRef.current = false;
     setIsLoading(true);
     setFailedStepInfo(null);
+    setInterruptedRun(null);
     setDiscussionLog([]);
     setCurrentDiscussionTurn(0);
+    setCurrentPhase(null);
     setIsInternalDiscussionActive(false);
-    setGlobalApiKeyStatus({}); 
+    setGlobalApiKeyStatus({});
     startProcessingTimer();
 
     let userImageForDisplay: ChatMessage['image'] | undefined = undefined;
-    let geminiImageApiPart: { inlineData: { mimeType: string; data: string } } | undefined = undefined;
+    let geminiImageApiPart: ImageApiPart | undefined = undefined;
 
     if (imageFile) {
       try {
-        const dataUrl = URL.createObjectURL(imageFile); 
-        userImageForDisplay = { dataUrl, name: imageFile.name, type: imageFile.type };
-        const base64Data = await fileToBase64(imageFile); 
+        const base64Data = await fileToBase64(imageFile);
+        // 以 data URL 保存图片，刷新页面或编辑重发后仍可读取
+        userImageForDisplay = { dataUrl: `data:${imageFile.type};base64,${base64Data}`, name: imageFile.name, type: imageFile.type };
         geminiImageApiPart = { inlineData: { mimeType: imageFile.type, data: base64Data } };
       } catch (error) {
         console.error("图片处理失败:", error);
         addMessage("图片处理失败，请重试。", MessageSender.System, MessagePurpose.SystemNotification);
         setIsLoading(false);
         stopProcessingTimer();
-        if (userImageForDisplay?.dataUrl.startsWith('blob:')) URL.revokeObjectURL(userImageForDisplay.dataUrl);
         return;
       }
     }
 
-    addMessage(userInput, MessageSender.User, MessagePurpose.UserInput, undefined, userImageForDisplay);
-
-    let currentLocalDiscussionLog: string[] = [];
-    let lastTurnTextForLog = "";
-
-    const effectiveCognitoModel = cognitoModelDetails; 
-    const effectiveMuseModel = museModelDetails;     
-
-    const imageInstructionForAI = geminiImageApiPart ? "用户还提供了一张图片。请在您的分析和回复中同时考虑此图片和文本查询。" : "";
-    const discussionModeInstructionText = discussionMode === DiscussionMode.AiDriven ? AI_DRIVEN_DISCUSSION_INSTRUCTION_PROMPT_PART : "";
-    const commonPromptInstructions = () => NOTEPAD_INSTRUCTION_PROMPT_PART.replace('{notepadContent}', formatNotepadContentForAI(notepadContent)) + discussionModeInstructionText;
-
-    try {
-      const cognitoInitialStepIdentifier = 'cognito-initial-to-muse';
-      addMessage(`${MessageSender.Cognito} 正在为 ${MessageSender.Muse} 准备第一个观点 (使用 ${effectiveCognitoModel.name})...`, MessageSender.System, MessagePurpose.SystemNotification);
-      const cognitoPromptText = `${`用户的查询 (中文) 是: "${userInput}". ${imageInstructionForAI} 请针对此查询提供您的初步想法或分析，以便 ${MessageSender.Muse} (创意型AI) 可以回应并与您开始讨论。用中文回答。`}\n${commonPromptInstructions()}`;
-
-      const cognitoParsedResponse = await commonAIStepExecution(
-          cognitoInitialStepIdentifier, cognitoPromptText, effectiveCognitoModel, MessageSender.Cognito, MessagePurpose.CognitoToMuse, geminiImageApiPart,
-          userInput, geminiImageApiPart, [] 
-      );
-      if (cancelRequestRef.current) throw new Error("用户取消操作");
-      processNotepadUpdateFromAI(cognitoParsedResponse, MessageSender.Cognito, addMessage);
-      lastTurnTextForLog = cognitoParsedResponse.spokenText;
-      currentLocalDiscussionLog.push(`${MessageSender.Cognito}: ${lastTurnTextForLog}`);
-      setDiscussionLog([...currentLocalDiscussionLog]);
-
-      setIsInternalDiscussionActive(true); 
-      setCurrentDiscussionTurn(0); 
-
-      let previousAISignaledStop = discussionMode === DiscussionMode.AiDriven && (cognitoParsedResponse.discussionShouldEnd || false);
-      if (previousAISignaledStop) addMessage(`${MessageSender.Cognito} 已建议结束讨论。等待 ${MessageSender.Muse} 的回应。`, MessageSender.System, MessagePurpose.SystemNotification);
-
-      for (let turn = 0; ; turn++) {
-        setCurrentDiscussionTurn(turn);
-        if (cancelRequestRef.current) break;
-        if (discussionMode === DiscussionMode.FixedTurns && turn >= manualFixedTurns) break;
-
-        const museStepIdentifier = `muse-reply-to-cognito-turn-${turn}`;
-        addMessage(`${MessageSender.Muse} 正在回应 ${MessageSender.Cognito} (使用 ${effectiveMuseModel.name})...`, MessageSender.System, MessagePurpose.SystemNotification);
-        let musePromptText = `用户的查询 (中文) 是: "${userInput}". ${imageInstructionForAI} 当前讨论 (均为中文):\n${currentLocalDiscussionLog.join("\n")}\n${MessageSender.Cognito} (逻辑AI) 刚刚说 (中文): "${lastTurnTextForLog}". 请回复 ${MessageSender.Cognito}。继续讨论。保持您的回复简洁并使用中文。\n${commonPromptInstructions()}`;
-        if (discussionMode === DiscussionMode.AiDriven && previousAISignaledStop) musePromptText += `\n${MessageSender.Cognito} 已包含 ${DISCUSSION_COMPLETE_TAG} 建议结束讨论。如果您同意，请在您的回复中也包含 ${DISCUSSION_COMPLETE_TAG}。否则，请继续讨论。`;
-
-        // 🔍 DEBUG: AI间讨论 - Muse调用前的状态检查
-        const currentMessages = getAllMessages();
-        console.log(`[DEBUG-DISCUSSION-MUSE] Turn ${turn} Muse调用前状态:`, {
-          currentMessages长度: currentMessages.length,
-          currentLocalDiscussionLog长度: currentLocalDiscussionLog.length,
-          currentLocalDiscussionLog内容: currentLocalDiscussionLog,
-          用户原始输入: userInput,
-          是否传递了完整历史: '❌ 未传递messageHistory参数！'
-        });
-
-        const museParsedResponse = await commonAIStepExecution(
-            museStepIdentifier, musePromptText, effectiveMuseModel, MessageSender.Muse, MessagePurpose.MuseToCognito, geminiImageApiPart,
-            userInput, geminiImageApiPart, [...currentLocalDiscussionLog], turn, previousAISignaledStop, getAllMessages()
-        );
-        if (cancelRequestRef.current) break;
-        processNotepadUpdateFromAI(museParsedResponse, MessageSender.Muse, addMessage);
-        const signalFromCognitoBeforeMuse = previousAISignaledStop;
-        lastTurnTextForLog = museParsedResponse.spokenText; currentLocalDiscussionLog.push(`${MessageSender.Muse}: ${lastTurnTextForLog}`); setDiscussionLog([...currentLocalDiscussionLog]);
-        previousAISignaledStop = museParsedResponse.discussionShouldEnd || false;
-
-        if (discussionMode === DiscussionMode.AiDriven) {
-            if (previousAISignaledStop && signalFromCognitoBeforeMuse) {
-                addMessage(`双方AI (${MessageSender.Cognito} 和 ${MessageSender.Muse}) 已同意结束讨论。`, MessageSender.System, MessagePurpose.SystemNotification);
-                setIsInternalDiscussionActive(false); break;
-            } else if (previousAISignaledStop) {
-                addMessage(`${MessageSender.Muse} 已建议结束讨论。等待 ${MessageSender.Cognito} 的回应。`, MessageSender.System, MessagePurpose.SystemNotification);
-            }
-        }
-
-        if (cancelRequestRef.current) break;
-        if (discussionMode === DiscussionMode.FixedTurns && turn >= manualFixedTurns -1) { setIsInternalDiscussionActive(false); break; }
-
-        const cognitoReplyStepIdentifier = `cognito-reply-to-muse-turn-${turn}`;
-        addMessage(`${MessageSender.Cognito} 正在回应 ${MessageSender.Muse} (使用 ${effectiveCognitoModel.name})...`, MessageSender.System, MessagePurpose.SystemNotification);
-        let cognitoReplyPromptText = `用户的查询 (中文) 是: "${userInput}". ${imageInstructionForAI} 当前讨论 (均为中文):\n${currentLocalDiscussionLog.join("\n")}\n${MessageSender.Muse} (创意AI) 刚刚说 (中文): "${lastTurnTextForLog}". 请回复 ${MessageSender.Muse}。继续讨论。保持您的回复简洁并使用中文。\n${commonPromptInstructions()}`;
-        if (discussionMode === DiscussionMode.AiDriven && previousAISignaledStop) cognitoReplyPromptText += `\n${MessageSender.Muse} 已包含 ${DISCUSSION_COMPLETE_TAG} 建议结束讨论。如果您同意，请在您的回复中也包含 ${DISCUSSION_COMPLETE_TAG}。否则，请继续讨论。`;
-
-        // 🔍 DEBUG: AI间讨论 - Cognito回复调用前的状态检查
-        console.log(`[DEBUG-DISCUSSION-COGNITO] Turn ${turn} Cognito回复调用前状态:`, {
-          currentMessages长度: getAllMessages().length,
-          currentLocalDiscussionLog长度: currentLocalDiscussionLog.length,
-          是否传递了完整历史: '❌ 未传递messageHistory参数！'
-        });
-
-        const cognitoReplyParsedResponse = await commonAIStepExecution(
-            cognitoReplyStepIdentifier, cognitoReplyPromptText, effectiveCognitoModel, MessageSender.Cognito, MessagePurpose.CognitoToMuse, geminiImageApiPart,
-            userInput, geminiImageApiPart, [...currentLocalDiscussionLog], turn, previousAISignaledStop, getAllMessages()
-        );
-        if (cancelRequestRef.current) break;
-        processNotepadUpdateFromAI(cognitoReplyParsedResponse, MessageSender.Cognito, addMessage);
-        const signalFromMuseBeforeCognito = previousAISignaledStop;
-        lastTurnTextForLog = cognitoReplyParsedResponse.spokenText; currentLocalDiscussionLog.push(`${MessageSender.Cognito}: ${lastTurnTextForLog}`); setDiscussionLog([...currentLocalDiscussionLog]);
-        previousAISignaledStop = cognitoReplyParsedResponse.discussionShouldEnd || false;
-
-        if (discussionMode === DiscussionMode.AiDriven) {
-            if (previousAISignaledStop && signalFromMuseBeforeCognito) {
-                addMessage(`双方AI (${MessageSender.Muse} 和 ${MessageSender.Cognito}) 已同意结束讨论。`, MessageSender.System, MessagePurpose.SystemNotification);
-                setIsInternalDiscussionActive(false); break;
-            } else if (previousAISignaledStop) {
-                addMessage(`${MessageSender.Cognito} 已建议结束讨论。等待 ${MessageSender.Muse} 的回应。`, MessageSender.System, MessagePurpose.SystemNotification);
-            }
-        }
-      }
-      setIsInternalDiscussionActive(false); 
-
-      if (cancelRequestRef.current) throw new Error("用户取消操作");
-
-      const finalAnswerStepIdentifier = 'cognito-final-answer';
-      addMessage(`${MessageSender.Cognito} 正在综合讨论内容，准备最终答案 (使用 ${effectiveCognitoModel.name})...`, MessageSender.System, MessagePurpose.SystemNotification);
-      const finalAnswerPromptText = `用户的查询 (中文) 是: "${userInput}". ${imageInstructionForAI} 您 (${MessageSender.Cognito}) 和 ${MessageSender.Muse} 进行了以下讨论 (均为中文):\n${currentLocalDiscussionLog.join("\n")}
-
-**您的最终任务是为用户生成最终答案，并将其放入记事本中。**
+    addMessage(userInput, MessageSender.User, MessagePurpose.UserInput, undefined, userImageForDisplay, undefined, undefined, { routeChoice });
 
-**指令:**
-1.  **生成最终答案:** 基于整个对话和当前记事本内容，综合所有要点，为用户创建一个全面、结构良好、易于理解的最终答案。答案必须是中文，并使用 Markdown 格式化以提高可读性。
-2.  **更新记事本:** 使用 <np-replace-all> 标签将完整的最终答案放入记事本。这将是用户看到的主要输出。
-3.  **口头回复:** 你的口头回复 (在 <np-replace-all> 标签之前的部分) 应该非常简短。只需告诉用户最终答案已在记事本中准备好。例如："最终答案已为您准备好，请查看右侧的记事本。"
-
-**严格遵守以上指令。最终答案必须在记事本中。**
-\n${commonPromptInstructions()}`;
-
-      // 🔍 DEBUG: 最终答案生成前的状态检查
-      console.log(`[DEBUG-FINAL-ANSWER] 最终答案生成前状态:`, {
-        currentMessages长度: getAllMessages().length,
-        currentLocalDiscussionLog长度: currentLocalDiscussionLog.length,
-        discussionLog完整内容: currentLocalDiscussionLog.join('\n'),
-        是否传递了完整历史: '❌ 未传递messageHistory参数！'
-      });
+    const route = decideDiscussionRoute(routeChoice, userInput, {
+      hasImage: !!geminiImageApiPart,
+      participantCount: participants.length,
+      adaptiveRouting,
+    });
+    const result = await runEngine(engine => engine.run(userInput, geminiImageApiPart, route));
 
-      const finalAnswerParsedResponse = await commonAIStepExecution(
-          finalAnswerStepIdentifier, finalAnswerPromptText, effectiveCognitoModel, MessageSender.Cognito, MessagePurpose.FinalResponse, geminiImageApiPart,
-          userInput, geminiImageApiPart, [...currentLocalDiscussionLog], undefined, undefined, getAllMessages()
-      );
-      if (cancelRequestRef.current) throw new Error("用户取消操作");
-      processNotepadUpdateFromAI(finalAnswerParsedResponse, MessageSender.Cognito, addMessage);
+    setIsLoading(false);
+    stopProcessingTimer();
+    setIsInternalDiscussionActive(false);
 
-    } catch (error) {
-      const e = error as Error;
-      if (cancelRequestRef.current) { /* User cancelled, handled by finally */ }
-      else if (!e.message.includes("API密钥") && !e.message.toLowerCase().includes("api key")) { 
-        console.error("聊天流程中发生错误:", error);
-        addMessage(`错误: ${e.message}`, MessageSender.System, MessagePurpose.SystemNotification);
-      }
-      setIsInternalDiscussionActive(false);
-    } finally {
-      setIsLoading(false);
-      stopProcessingTimer();
-      setIsInternalDiscussionActive(false); 
-
-      if (!cancelRequestRef.current && !failedStepInfo) {
-        let completedTurns = 0;
-        if (currentLocalDiscussionLog.length > 1) {
-            if (discussionMode === DiscussionMode.FixedTurns) {
-                completedTurns = manualFixedTurns;
-            } else {
-                completedTurns = currentDiscussionTurn + 1;
-            }
-        }
-        setLastCompletedTurnCount(completedTurns);
-      } else if (cancelRequestRef.current && !failedStepInfo) {
-          setLastCompletedTurnCount(0);
-      }
+    if (result?.status === 'completed' && !cancelRequestRef.current) {
+      setLastCompletedTurnCount(result.completedTurns);
+    } else if (cancelRequestRef.current) {
+      setLastCompletedTurnCount(0);
+    }
 
-      if (userImageForDisplay?.dataUrl.startsWith('blob:')) {
-        URL.revokeObjectURL(userImageForDisplay.dataUrl);
-      }
-      if (cancelRequestRef.current && !failedStepInfo) {
-        addMessage("用户已停止AI响应。", MessageSender.System, MessagePurpose.SystemNotification);
-      }
+    if (cancelRequestRef.current) {
+      addMessage("用户已停止AI响应。", MessageSender.System, MessagePurpose.SystemNotification);
     }
   }, [
-      isLoading, setIsLoading, setFailedStepInfo, setDiscussionLog, setCurrentDiscussionTurn, 
+      isLoading, setIsLoading, setFailedStepInfo, setDiscussionLog, setCurrentDiscussionTurn,
       setIsInternalDiscussionActive, setGlobalApiKeyStatus, startProcessingTimer, stopProcessingTimer,
-      addMessage, processNotepadUpdateFromAI, cognitoModelDetails, museModelDetails, discussionMode, 
-      manualFixedTurns, notepadContent, commonAIStepExecution, failedStepInfo, currentDiscussionTurn, setLastCompletedTurnCount
+      addMessage, runEngine, setLastCompletedTurnCount, participants.length, adaptiveRouting
     ]);
 
   const retryFailedStep = useCallback(async (stepToRetry: FailedStepPayload) => {
@@ -768,140 +371,134 @@ export const useChatLogic = ({
 
     setIsLoading(true);
     cancelRequestRef.current = false;
-    setGlobalApiKeyStatus({}); 
+    setGlobalApiKeyStatus({});
     startProcessingTimer();
 
     setFailedStepInfo(null);
+    setInterruptedRun(null);
+    setDiscussionLog(stepToRetry.discussionLogBeforeFailure || []);
+    const retryParticipant = participants.find(p => p.id === stepToRetry.participantId)
+      || participants.find(p => p.sender === stepToRetry.sender);
     addMessage(
-      `[${stepToRetry.sender} - ${stepToRetry.stepIdentifier}] 正在手动重试...`,
+      `[${retryParticipant?.displayName || stepToRetry.sender} - ${stepToRetry.stepIdentifier}] 正在手动重试...`,
       MessageSender.System,
       MessagePurpose.SystemNotification
     );
 
-    const modelForRetry = stepToRetry.sender === MessageSender.Cognito ? cognitoModelDetails : museModelDetails;
-    const systemInstructionForRetry = stepToRetry.sender === MessageSender.Cognito ? cognitoSystemPrompt : museSystemPrompt;
-    
-    const updatedStepToRetry = { 
-      ...stepToRetry, 
-      systemInstruction: modelForRetry.supportsSystemInstruction ? systemInstructionForRetry : undefined,
-      modelName: modelForRetry.apiName, 
-    };
+    let result: DiscussionRunResult | null = null;
+    if (retryParticipant) {
+      result = await runEngine(engine => engine.resume(stepToRetry));
+    } else {
+      addMessage("失败步骤的参与者已不在当前讨论中，无法重试。", MessageSender.System, MessagePurpose.SystemNotification);
+    }
 
-    let result: { text: string; durationMs: number; error?: string; requestDetails?: any; responseBody?: any } | undefined;
+    setIsLoading(false);
+    stopProcessingTimer();
+    setIsInternalDiscussionActive(false);
+    if (result?.status === 'completed' && !cancelRequestRef.current) {
+      setLastCompletedTurnCount(result.completedTurns);
+    }
+    if (cancelRequestRef.current) {
+      addMessage("用户已停止手动重试。", MessageSender.System, MessagePurpose.SystemNotification);
+    }
+  }, [
+    isLoading, setIsLoading, setGlobalApiKeyStatus, startProcessingTimer, stopProcessingTimer,
+    setFailedStepInfo, addMessage, participants, runEngine, setIsInternalDiscussionActive, setLastCompletedTurnCount
+  ]);
 
-    try {
-      const geminiImageApiPartForRetry = updatedStepToRetry.imageApiPart;
-      const currentOpenAiModelIdForRetry = modelForRetry.apiName;
-      
-      // 获取当前消息历史用于重试
-      const historyForRetry = getAllMessages();
-
-      if (useOpenAiApiConfig) {
-        result = await generateOpenAiResponse(
-          updatedStepToRetry.prompt,
-          currentOpenAiModelIdForRetry,
-          openAiApiKey,
-          openAiApiBaseUrl,
-          updatedStepToRetry.systemInstruction,
-          geminiImageApiPartForRetry ? { mimeType: geminiImageApiPartForRetry.inlineData.mimeType, data: geminiImageApiPartForRetry.inlineData.data } : undefined,
-          temperature,
-          historyForRetry  // 传递消息历史
-        );
-      } else {
-        result = await generateGeminiResponse(
-          updatedStepToRetry.prompt,
-          modelForRetry.apiName,
-          useCustomApiConfig,
-          customApiKey,
-          customApiEndpoint,
-          updatedStepToRetry.systemInstruction,
-          geminiImageApiPartForRetry,
-          getThinkingConfigForGeminiModel(modelForRetry),
-          temperature,
-          historyForRetry  // 传递消息历史
-        );
-      }
+  // 继续页面重载前中断的讨论：continue 从中断的步骤继续，finalize 基于已有讨论直接生成最终答案
+  const resumeInterruptedRun = useCallback(async (mode: 'continue' | 'finalize') => {
+    const run = interruptedRun;
+    if (!run || isLoading) return;
+    if (run.failedStep && mode === 'continue') {
+      await retryFailedStep(run.failedStep);
+      return;
+    }
 
-      if (cancelRequestRef.current) throw new Error("用户已停止手动重试");
-      if (result.error) {
-         if (result.error === "API key not configured" || result.error.toLowerCase().includes("api key not provided")) {
-             setGlobalApiKeyStatus({isMissing: true, message: result.text});
-             throw new Error(result.text);
-          }
-          if (result.error === "API key invalid or permission denied") {
-             setGlobalApiKeyStatus({isInvalid: true, message: result.text});
-             throw new Error(result.text);
-          }
-        throw new Error(result.text);
-      }
-      setGlobalApiKeyStatus({ isMissing: false, isInvalid: false, message: undefined }); 
+    const checkpoint: DiscussionCheckpoint | undefined = run.failedStep
+      ? {
+          state: runStateFromFailedStep(run.failedStep),
+          pendingSteeringNotes: run.failedStep.pendingSteeringNotesForResume || [],
+          finalAnswerRequested: true,
+        }
+      : run.checkpoint && { ...run.checkpoint, finalAnswerRequested: run.checkpoint.finalAnswerRequested || mode === 'finalize' };
+    setInterruptedRun(null);
+    if (!checkpoint) return;
 
-      const parsedResponseFromRetry = parseAIResponse(result.text);
-      addMessage(parsedResponseFromRetry.spokenText, updatedStepToRetry.sender, updatedStepToRetry.purpose, result.durationMs);
-      processNotepadUpdateFromAI(parsedResponseFromRetry, updatedStepToRetry.sender, addMessage);
-      addMessage(`[${updatedStepToRetry.sender} - ${updatedStepToRetry.stepIdentifier}] 手动重试成功。后续流程将继续。`, MessageSender.System, MessagePurpose.SystemNotification);
+    setIsLoading(true);
+    cancelRequestRef.current = false;
+    setGlobalApiKeyStatus({});
+    startProcessingTimer();
+    setFailedStepInfo(null);
+    setDiscussionLog(checkpoint.state.discussionLog);
+    addMessage(
+      mode === 'finalize' ? "正在基于中断前的讨论生成最终答案..." : "正在从中断处继续讨论...",
+      MessageSender.System,
+      MessagePurpose.SystemNotification
+    );
 
-      await continueDiscussionAfterSuccessfulRetry(
-          {...updatedStepToRetry, imageApiPartForFlow: geminiImageApiPartForRetry}, 
-          parsedResponseFromRetry
-      );
+    const result = await runEngine(engine => engine.continueFrom(checkpoint));
 
-    } catch (error) {
-        const e = error as Error;
-      if (cancelRequestRef.current) { /* User cancelled */ }
-      else {
-        console.error("手动重试失败:", error);
-        let errorMsg = e.message || "未知错误";
-        
-        if (result?.requestDetails) {
-          errorMsg += `\n请求详情: ${JSON.stringify(result.requestDetails, null, 2)}`;
-        }
-        if (result?.responseBody) {
-          errorMsg += `\n响应内容: ${JSON.stringify(result.responseBody, null, 2)}`;
-        }
-        
-        const displayErrorMessage = errorMsg.includes("API密钥") || errorMsg.toLowerCase().includes("api key") 
-          ? errorMsg 
-          : `[${updatedStepToRetry.sender} - ${updatedStepToRetry.stepIdentifier}] 手动重试失败: ${errorMsg}. 您可以再次尝试。`;
-
-        const newErrorMsgId = addMessage(displayErrorMessage, MessageSender.System, MessagePurpose.SystemNotification);
-        
-        if (!errorMsg.includes("API密钥") && !errorMsg.toLowerCase().includes("api key")) {
-            let thinkingConfigForNewFailure: {thinkingBudget: number} | undefined = undefined;
-            if (!useOpenAiApiConfig) { 
-                thinkingConfigForNewFailure = getThinkingConfigForGeminiModel(modelForRetry);
-            }
-            setFailedStepInfo({ 
-              ...updatedStepToRetry, 
-              originalSystemErrorMsgId: newErrorMsgId, 
-              thinkingConfig: thinkingConfigForNewFailure 
-            });
-        }
-      }
-      if (!cancelRequestRef.current || failedStepInfo) { 
-          setIsLoading(false);
-          stopProcessingTimer();
-      }
-      setIsInternalDiscussionActive(false); 
-      if (cancelRequestRef.current && !failedStepInfo) {
-          addMessage("用户已停止手动重试。", MessageSender.System, MessagePurpose.SystemNotification);
-      }
+    setIsLoading(false);
+    stopProcessingTimer();
+    setIsInternalDiscussionActive(false);
+    if (result?.status === 'completed' && !cancelRequestRef.current) {
+      setLastCompletedTurnCount(result.completedTurns);
+    }
+    if (cancelRequestRef.current) {
+      addMessage("用户已停止AI响应。", MessageSender.System, MessagePurpose.SystemNotification);
     }
   }, [
-    isLoading, setIsLoading, setGlobalApiKeyStatus, startProcessingTimer, stopProcessingTimer, 
-    setFailedStepInfo, addMessage, cognitoModelDetails, museModelDetails, cognitoSystemPrompt, 
-    museSystemPrompt, useOpenAiApiConfig, openAiApiKey, openAiApiBaseUrl, useCustomApiConfig, 
-    customApiKey, customApiEndpoint, getThinkingConfigForGeminiModel, processNotepadUpdateFromAI, 
-    continueDiscussionAfterSuccessfulRetry, failedStepInfo, setIsInternalDiscussionActive, currentDiscussionTurn, setLastCompletedTurnCount, discussionMode, manualFixedTurns, discussionLog, temperature
+    interruptedRun, isLoading, retryFailedStep, setGlobalApiKeyStatus, startProcessingTimer, stopProcessingTimer,
+    addMessage, runEngine, setIsInternalDiscussionActive, setLastCompletedTurnCount
   ]);
 
+  const dismissInterruptedRun = useCallback(() => {
+    setInterruptedRun(null);
+    clearInterruptedRun();
+  }, []);
+
   const stopGenerating = useCallback(() => {
     cancelRequestRef.current = true;
+    engineRef.current?.cancel();
     setIsInternalDiscussionActive(false);
     setIsLoading(false);
     stopProcessingTimer();
   }, [setIsInternalDiscussionActive, setIsLoading, stopProcessingTimer]);
 
+  // 讨论进行中的控制：均在下一个发言步骤开始前生效
+  const pauseDiscussion = useCallback(() => {
+    if (!engineRef.current) return;
+    engineRef.current.pause();
+    setIsPaused(true);
+  }, []);
+
+  const resumeDiscussion = useCallback(() => {
+    engineRef.current?.resumePaused();
+    setIsPaused(false);
+  }, []);
+
+  const addSteeringNote = useCallback((note: string) => {
+    const trimmed = note.trim();
+    if (!trimmed || !engineRef.current) return;
+    engineRef.current.addSteeringNote(trimmed);
+    addMessage(trimmed, MessageSender.User, MessagePurpose.UserSteering);
+  }, [addMessage]);
+
+  const skipNextSpeaker = useCallback(() => {
+    engineRef.current?.skipNextSpeaker();
+  }, []);
+
+  const respondToExtensionOffer = useCallback((accepted: boolean) => {
+    engineRef.current?.respondToExtensionOffer(accepted);
+    setExtensionOffer(null);
+  }, []);
+
+  const forceFinalAnswer = useCallback(() => {
+    engineRef.current?.requestFinalAnswer();
+    setIsPaused(false);
+  }, []);
+
   return {
     isLoading,
     discussionLog,
@@ -913,5 +510,18 @@ export const useChatLogic = ({
     currentDiscussionTurn,
     isInternalDiscussionActive,
     lastCompletedTurnCount,
+    currentPhase,
+    isPaused,
+    pauseDiscussion,
+    resumeDiscussion,
+    addSteeringNote,
+    skipNextSpeaker,
+    forceFinalAnswer,
+    discussionUsage,
+    extensionOffer,
+    respondToExtensionOffer,
+    interruptedRun,
+    resumeInterruptedRun,
+    dismissInterruptedRun,
   };
-};
\ No newline at end of file
+};
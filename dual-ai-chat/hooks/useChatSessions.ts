@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect } from 'react';
-import { ChatSession, ChatMessage, ApiChannelOverride } from '../types';
+import { ChatSession, ChatMessage, ApiChannelOverride, DiscussionParticipant, DiscussionBudget } from '../types';
 import { CHAT_SESSIONS_STORAGE_KEY, CURRENT_SESSION_ID_STORAGE_KEY } from '../constants';
 import { generateUniqueId } from '../utils/appUtils';
 
@@ -22,7 +22,8 @@ export const useChatSessions = () => {
           updatedAt: new Date(session.updatedAt),
           messages: session.messages.map(msg => ({
             ...msg,
-            timestamp: new Date(msg.timestamp)
+            timestamp: new Date(msg.timestamp),
+            isStreaming: false // 页面重载前未完成的流式消息不再继续生成
           }))
         }));
         setSessions(sessionsWithDates);
@@ -59,7 +60,7 @@ export const useChatSessions = () => {
   }, []);
 
   // 创建新会话
-  const createNewSession = useCallback((title?: string, channelId?: string, channelOverride?: ApiChannelOverride): string => {
+  const createNewSession = useCallback((title?: string, channelId?: string, channelOverride?: ApiChannelOverride, participants?: DiscussionParticipant[], protocolId?: string): string => {
     const newSession: ChatSession = {
       id: generateUniqueId(),
       title: title || `会话 ${new Date().toLocaleString()}`,
@@ -68,6 +69,8 @@ export const useChatSessions = () => {
       notepadHistory: { versions: [], currentVersionIndex: -1 }, // 初始化记事本历史
       channelId: channelId || undefined, // 会话关联的渠道ID
       channelOverride: channelOverride || undefined, // 会话级别的渠道覆盖设置
+      participants: participants ? [...participants] : undefined, // 会话的讨论参与者
+      protocolId: protocolId || undefined, // 会话的讨论协议
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -84,6 +87,45 @@ export const useChatSessions = () => {
     return newSession.id;
   }, [saveSessions, saveCurrentSessionId]);
 
+  // 从指定会话的某条消息派生分支会话（继承渠道、参与者与协议设置）
+  const createBranchSession = useCallback((parentSessionId: string, branchPointMessageId: string, messages: ChatMessage[], notepadContent: string): string | null => {
+    const parent = sessions.find(session => session.id === parentSessionId);
+    if (!parent) return null;
+
+    const newSession: ChatSession = {
+      id: generateUniqueId(),
+      title: `${parent.title} (分支)`,
+      messages: [...messages],
+      notepadContent,
+      notepadHistory: { versions: [], currentVersionIndex: -1 },
+      channelId: parent.channelId,
+      channelOverride: parent.channelOverride,
+      participants: parent.participants ? [...parent.participants] : undefined,
+      protocolId: parent.protocolId,
+      budget: parent.budget ? { ...parent.budget } : undefined,
+      parentSessionId,
+      branchPointMessageId,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    setSessions(prev => {
+      const updated = [
+        newSession,
+        ...prev.map(session => session.id === parentSessionId
+          ? { ...session, childSessionIds: [...(session.childSessionIds || []), newSession.id] }
+          : session)
+      ];
+      saveSessions(updated);
+      return updated;
+    });
+
+    setCurrentSessionId(newSession.id);
+    saveCurrentSessionId(newSession.id);
+
+    return newSession.id;
+  }, [sessions, saveSessions, saveCurrentSessionId]);
+
   // 更新当前会话
   const updateCurrentSession = useCallback((messages: ChatMessage[], notepadContent: string) => {
     if (!currentSessionId) return;
@@ -114,7 +156,23 @@ export const useChatSessions = () => {
   // 删除会话
   const deleteSession = useCallback((sessionId: string) => {
     setSessions(prev => {
-      const updated = prev.filter(session => session.id !== sessionId);
+      const deleted = prev.find(session => session.id === sessionId);
+      const orphanIds = deleted?.childSessionIds || [];
+      // 被删除会话的分支挂到其父会话下，保持树结构完整
+      const updated = prev
+        .filter(session => session.id !== sessionId)
+        .map(session => {
+          if (orphanIds.includes(session.id)) {
+            return { ...session, parentSessionId: deleted?.parentSessionId };
+          }
+          if (deleted?.parentSessionId && session.id === deleted.parentSessionId) {
+            return {
+              ...session,
+              childSessionIds: [...(session.childSessionIds || []).filter(id => id !== sessionId), ...orphanIds]
+            };
+          }
+          return session;
+        });
       saveSessions(updated);
       return updated;
     });
@@ -162,6 +220,73 @@ export const useChatSessions = () => {
     });
   }, [saveSessions]);
 
+  // 更新会话的讨论参与者
+  const updateSessionParticipants = useCallback((sessionId: string, participants: DiscussionParticipant[]) => {
+    setSessions(prev => {
+      const target = prev.find(session => session.id === sessionId);
+      // 参与者未变化时不更新，避免切换会话时打乱排序
+      if (!target || JSON.stringify(target.participants) === JSON.stringify(participants)) {
+        return prev;
+      }
+      const updated = prev.map(session => {
+        if (session.id === sessionId) {
+          return {
+            ...session,
+            participants: [...participants],
+            updatedAt: new Date()
+          };
+        }
+        return session;
+      });
+      saveSessions(updated);
+      return updated;
+    });
+  }, [saveSessions]);
+
+  // 更新会话的讨论协议
+  const updateSessionProtocol = useCallback((sessionId: string, protocolId: string) => {
+    setSessions(prev => {
+      const target = prev.find(session => session.id === sessionId);
+      if (!target || target.protocolId === protocolId) {
+        return prev;
+      }
+      const updated = prev.map(session => {
+        if (session.id === sessionId) {
+          return {
+            ...session,
+            protocolId,
+            updatedAt: new Date()
+          };
+        }
+        return session;
+      });
+      saveSessions(updated);
+      return updated;
+    });
+  }, [saveSessions]);
+
+  // 更新会话的讨论预算
+  const updateSessionBudget = useCallback((sessionId: string, budget: DiscussionBudget) => {
+    setSessions(prev => {
+      const target = prev.find(session => session.id === sessionId);
+      if (!target || JSON.stringify(target.budget) === JSON.stringify(budget)) {
+        return prev;
+      }
+      const updated = prev.map(session => {
+        if (session.id === sessionId) {
+          return {
+            ...session,
+            budget: { ...budget },
+            updatedAt: new Date()
+          };
+        }
+        return session;
+      });
+      saveSessions(updated);
+      return updated;
+    });
+  }, [saveSessions]);
+
   // 获取会话的渠道设置
   const getSessionChannel = useCallback((sessionId: string): { channelId?: string; channelOverride?: ApiChannelOverride } => {
     const session = sessions.find(s => s.id === sessionId);
@@ -233,15 +358,31 @@ export const useChatSessions = () => {
             throw new Error('无效的会话数据格式');
           }
 
-          // 转换日期并生成新ID（避免ID冲突）
+          // 生成新ID（避免ID冲突），并同步映射分支关系
+          const idMap = new Map<string, string>(
+            importData.sessions.map((session: any) => [session.id, generateUniqueId()] as [string, string])
+          );
+          // 分支会话与父会话共享分支点之前的消息ID，同一旧ID映射到同一新ID
+          const messageIdMap = new Map<string, string>();
+          const mapMessageId = (id: string) => {
+            if (!messageIdMap.has(id)) messageIdMap.set(id, generateUniqueId());
+            return messageIdMap.get(id)!;
+          };
+
+          // 转换日期
           const importedSessions: ChatSession[] = importData.sessions.map((session: any) => ({
             ...session,
-            id: generateUniqueId(), // 生成新ID避免冲突
+            id: idMap.get(session.id)!,
+            parentSessionId: session.parentSessionId ? idMap.get(session.parentSessionId) : undefined,
+            childSessionIds: Array.isArray(session.childSessionIds)
+              ? session.childSessionIds.map((id: string) => idMap.get(id)).filter(Boolean)
+              : undefined,
+            branchPointMessageId: session.branchPointMessageId ? mapMessageId(session.branchPointMessageId) : undefined,
             createdAt: new Date(session.createdAt),
             updatedAt: new Date(session.updatedAt),
             messages: session.messages.map((msg: any) => ({
               ...msg,
-              id: generateUniqueId(),
+              id: mapMessageId(msg.id),
               timestamp: new Date(msg.timestamp)
             }))
           }));
@@ -293,11 +434,15 @@ export const useChatSessions = () => {
     currentSessionId,
     getCurrentSession,
     createNewSession,
+    createBranchSession,
     updateCurrentSession,
     switchToSession,
     deleteSession,
     renameSession,
     updateSessionChannel,
+    updateSessionParticipants,
+    updateSessionProtocol,
+    updateSessionBudget,
     getSessionChannel,
     clearSessionChannel,
     loadSessions,
@@ -0,0 +1,130 @@
+import { useState, useCallback, useEffect } from 'react';
+import { DiscussionProtocol } from '../types';
+import { BUILT_IN_DISCUSSION_PROTOCOLS, CUSTOM_DISCUSSION_PROTOCOLS_STORAGE_KEY } from '../constants';
+import { generateUniqueId } from '../utils/appUtils';
+import { getDefaultDiscussionProtocol } from '../utils/discussionProtocols';
+
+export type DiscussionProtocolData = Omit<DiscussionProtocol, 'id' | 'isBuiltIn' | 'createdAt'>;
+
+export const useDiscussionProtocols = () => {
+  const [customProtocols, setCustomProtocols] = useState<DiscussionProtocol[]>([]);
+  const [allProtocols, setAllProtocols] = useState<DiscussionProtocol[]>(BUILT_IN_DISCUSSION_PROTOCOLS);
+
+  // 从localStorage加载自定义协议
+  const loadCustomProtocols = useCallback(() => {
+    try {
+      const stored = localStorage.getItem(CUSTOM_DISCUSSION_PROTOCOLS_STORAGE_KEY);
+      if (stored) {
+        const parsed: DiscussionProtocol[] = JSON.parse(stored);
+        const protocolsWithDates = parsed.map(protocol => ({
+          ...protocol,
+          createdAt: new Date(protocol.createdAt)
+        }));
+        setCustomProtocols(protocolsWithDates);
+      }
+    } catch (error) {
+      console.error('加载自定义讨论协议失败:', error);
+      setCustomProtocols([]);
+    }
+  }, []);
+
+  // 保存自定义协议到localStorage
+  const saveCustomProtocols = useCallback((protocols: DiscussionProtocol[]) => {
+    try {
+      localStorage.setItem(CUSTOM_DISCUSSION_PROTOCOLS_STORAGE_KEY, JSON.stringify(protocols));
+    } catch (error) {
+      console.error('保存自定义讨论协议失败:', error);
+    }
+  }, []);
+
+  // 创建新协议
+  const createProtocol = useCallback((protocolData: DiscussionProtocolData) => {
+    const newProtocol: DiscussionProtocol = {
+      ...protocolData,
+      id: generateUniqueId(),
+      isBuiltIn: false,
+      createdAt: new Date()
+    };
+
+    setCustomProtocols(prev => {
+      const updated = [...prev, newProtocol];
+      saveCustomProtocols(updated);
+      return updated;
+    });
+
+    return newProtocol.id;
+  }, [saveCustomProtocols]);
+
+  // 更新协议
+  const updateProtocol = useCallback((protocolId: string, updates: Partial<DiscussionProtocolData>) => {
+    setCustomProtocols(prev => {
+      const updated = prev.map(protocol => {
+        if (protocol.id === protocolId && !protocol.isBuiltIn) {
+          return { ...protocol, ...updates };
+        }
+        return protocol;
+      });
+      saveCustomProtocols(updated);
+      return updated;
+    });
+  }, [saveCustomProtocols]);
+
+  // 删除协议
+  const deleteProtocol = useCallback((protocolId: string) => {
+    setCustomProtocols(prev => {
+      const updated = prev.filter(protocol => protocol.id !== protocolId && !protocol.isBuiltIn);
+      saveCustomProtocols(updated);
+      return updated;
+    });
+  }, [saveCustomProtocols]);
+
+  // 根据ID获取协议（找不到时回退到默认协议）
+  const getProtocolById = useCallback((protocolId?: string): DiscussionProtocol => {
+    return allProtocols.find(protocol => protocol.id === protocolId) || getDefaultDiscussionProtocol();
+  }, [allProtocols]);
+
+  // 复制协议（内置协议也可复制后再修改）
+  const duplicateProtocol = useCallback((protocolId: string) => {
+    const originalProtocol = allProtocols.find(protocol => protocol.id === protocolId);
+    if (!originalProtocol) return null;
+
+    const duplicatedProtocol: DiscussionProtocol = {
+      ...originalProtocol,
+      id: generateUniqueId(),
+      name: `${originalProtocol.name} (副本)`,
+      phases: originalProtocol.phases.map(phase => ({ ...phase, speakers: [...phase.speakers] })),
+      isBuiltIn: false,
+      createdAt: new Date()
+    };
+
+    setCustomProtocols(prev => {
+      const updated = [...prev, duplicatedProtocol];
+      saveCustomProtocols(updated);
+      return updated;
+    });
+
+    return duplicatedProtocol.id;
+  }, [allProtocols, saveCustomProtocols]);
+
+  // 更新所有协议列表
+  useEffect(() => {
+    setAllProtocols([...BUILT_IN_DISCUSSION_PROTOCOLS, ...customProtocols]);
+  }, [customProtocols]);
+
+  // 初始化时加载自定义协议
+  useEffect(() => {
+    loadCustomProtocols();
+  }, [loadCustomProtocols]);
+
+  return {
+    customProtocols,
+    allProtocols,
+    builtInProtocols: BUILT_IN_DISCUSSION_PROTOCOLS,
+    createProtocol,
+    updateProtocol,
+    deleteProtocol,
+    getProtocolById,
+    duplicateProtocol,
+    loadCustomProtocols
+  };
+};
@@ -0,0 +1,95 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ApiChannel, ChannelModelCatalog, DiscoveredModel } from '../types';
+import { MODEL_CATALOG_CACHE_TTL_MS, MODEL_CATALOG_STORAGE_KEY } from '../constants';
+import { fetchChannelModels } from '../services/modelCatalogService';
+
+// 跨组件同步事件（同窗口内 localStorage 不会触发 storage 事件）
+const MODEL_CATALOG_UPDATED_EVENT = 'model-catalog-updated';
+
+// 同一渠道同时只发起一次获取（多个模型选择框可能同时请求）
+const pendingFetches = new Map<string, Promise<void>>();
+
+export const loadModelCatalogs = (): Record<string, ChannelModelCatalog> => {
+  try {
+    const stored = localStorage.getItem(MODEL_CATALOG_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('加载模型目录失败:', error);
+    return {};
+  }
+};
+
+const saveModelCatalog = (catalog: ChannelModelCatalog) => {
+  try {
+    const catalogs = loadModelCatalogs();
+    catalogs[catalog.channelId] = catalog;
+    localStorage.setItem(MODEL_CATALOG_STORAGE_KEY, JSON.stringify(catalogs));
+    window.dispatchEvent(new CustomEvent(MODEL_CATALOG_UPDATED_EVENT));
+  } catch (error) {
+    console.error('保存模型目录失败:', error);
+  }
+};
+
+/**
+ * 渠道模型目录：缓存各渠道 /models 接口返回的模型及能力
+ */
+export const useModelCatalog = () => {
+  const [catalogs, setCatalogs] = useState<Record<string, ChannelModelCatalog>>(loadModelCatalogs);
+  const [fetchingChannelIds, setFetchingChannelIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const reload = () => setCatalogs(loadModelCatalogs());
+    window.addEventListener(MODEL_CATALOG_UPDATED_EVENT, reload);
+    return () => window.removeEventListener(MODEL_CATALOG_UPDATED_EVENT, reload);
+  }, []);
+
+  const refreshCatalog = useCallback(async (channel: ApiChannel) => {
+    const pending = pendingFetches.get(channel.id);
+    if (pending) return pending;
+
+    const task = (async () => {
+      setFetchingChannelIds(prev => [...prev, channel.id]);
+      try {
+        const models = await fetchChannelModels(channel);
+        saveModelCatalog({ channelId: channel.id, models, fetchedAt: new Date().toISOString() });
+      } catch (error) {
+        console.error('获取模型列表失败:', error);
+        const previous = loadModelCatalogs()[channel.id];
+        saveModelCatalog({
+          channelId: channel.id,
+          models: previous?.models || [],
+          fetchedAt: new Date().toISOString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        pendingFetches.delete(channel.id);
+        setFetchingChannelIds(prev => prev.filter(id => id !== channel.id));
+      }
+    })();
+    pendingFetches.set(channel.id, task);
+    return task;
+  }, []);
+
+  const isCatalogStale = useCallback((channelId: string) => {
+    const catalog = catalogs[channelId];
+    return !catalog || Date.now() - new Date(catalog.fetchedAt).getTime() > MODEL_CATALOG_CACHE_TTL_MS;
+  }, [catalogs]);
+
+  // 查找已发现的模型；未指定渠道时在所有渠道的目录中查找
+  const findDiscoveredModel = useCallback((apiName: string, channelId?: string): DiscoveredModel | undefined => {
+    const candidates = channelId && catalogs[channelId] ? [catalogs[channelId]] : Object.values(catalogs);
+    for (const catalog of candidates) {
+      const model = catalog.models.find(m => m.id === apiName);
+      if (model) return model;
+    }
+    return undefined;
+  }, [catalogs]);
+
+  return {
+    catalogs,
+    fetchingChannelIds,
+    refreshCatalog,
+    isCatalogStale,
+    findDiscoveredModel,
+  };
+};
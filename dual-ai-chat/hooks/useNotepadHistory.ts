@@ -4,30 +4,44 @@ import { MessageSender, NotepadVersion, NotepadHistoryState } from '../types';
 const NOTEPAD_HISTORY_STORAGE_KEY_PREFIX = 'dualAiChatNotepadHistory_';
 const MAX_HISTORY_VERSIONS = 50; // 最多保存50个版本
 
-export const useNotepadHistory = (sessionId?: string) => {
-  // 从localStorage加载历史
-  const loadHistory = useCallback((sessionId?: string): NotepadHistoryState => {
-    if (!sessionId) {
-      return { versions: [], currentVersionIndex: -1 };
-    }
-    
-    try {
-      const storageKey = `${NOTEPAD_HISTORY_STORAGE_KEY_PREFIX}${sessionId}`;
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        // 转换日期字符串为Date对象
-        parsed.versions = parsed.versions.map((v: any) => ({
-          ...v,
-          timestamp: new Date(v.timestamp)
-        }));
-        return parsed;
-      }
-    } catch (error) {
-      console.error('加载记事本历史失败:', error);
-    }
+// 从localStorage加载指定会话的记事本历史
+export const loadNotepadHistory = (sessionId?: string): NotepadHistoryState => {
+  if (!sessionId) {
     return { versions: [], currentVersionIndex: -1 };
-  }, []);
+  }
+
+  try {
+    const storageKey = `${NOTEPAD_HISTORY_STORAGE_KEY_PREFIX}${sessionId}`;
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      // 转换日期字符串为Date对象
+      parsed.versions = parsed.versions.map((v: any) => ({
+        ...v,
+        timestamp: new Date(v.timestamp)
+      }));
+      return parsed;
+    }
+  } catch (error) {
+    console.error('加载记事本历史失败:', error);
+  }
+  return { versions: [], currentVersionIndex: -1 };
+};
+
+// 保存指定会话的记事本历史到localStorage
+export const saveNotepadHistory = (state: NotepadHistoryState, sessionId?: string) => {
+  if (!sessionId) return;
+
+  try {
+    const storageKey = `${NOTEPAD_HISTORY_STORAGE_KEY_PREFIX}${sessionId}`;
+    localStorage.setItem(storageKey, JSON.stringify(state));
+  } catch (error) {
+    console.error('保存记事本历史失败:', error);
+  }
+};
+
+export const useNotepadHistory = (sessionId?: string) => {
+  const loadHistory = useCallback((sessionId?: string): NotepadHistoryState => loadNotepadHistory(sessionId), []);
 
   const [historyState, setHistoryState] = useState<NotepadHistoryState>(() => loadHistory(sessionId));
 
@@ -37,16 +51,7 @@ export const useNotepadHistory = (sessionId?: string) => {
   }, [sessionId, loadHistory]);
 
   // 保存历史到localStorage
-  const saveHistory = useCallback((state: NotepadHistoryState, sessionId?: string) => {
-    if (!sessionId) return;
-    
-    try {
-      const storageKey = `${NOTEPAD_HISTORY_STORAGE_KEY_PREFIX}${sessionId}`;
-      localStorage.setItem(storageKey, JSON.stringify(state));
-    } catch (error) {
-      console.error('保存记事本历史失败:', error);
-    }
-  }, []);
+  const saveHistory = useCallback((state: NotepadHistoryState, sessionId?: string) => saveNotepadHistory(state, sessionId), []);
 
   // 添加新版本
   const addVersion = useCallback((
@@ -1,7 +1,6 @@
 
 import { useState, useCallback } from 'react';
-import { MessageSender, MessagePurpose } from '../types';
-import { applyNotepadModifications, ParsedAIResponse } from '../utils/appUtils';
+import { MessageSender } from '../types';
 import { useNotepadHistory } from './useNotepadHistory';
 
 export const useNotepadLogic = (initialContent: string, sessionId?: string) => {
@@ -36,40 +35,10 @@ export const useNotepadLogic = (initialContent: string, sessionId?: string) => {
     }
   }, [notepadHistory, currentHistoryIndex, notepadContent, addVersion]);
 
-  const processNotepadUpdateFromAI = useCallback((
-    parsedResponse: ParsedAIResponse,
-    sender: MessageSender,
-    addSystemMessage: (text: string, sender: MessageSender, purpose: MessagePurpose) => void
-  ) => {
-    const update = parsedResponse.notepadUpdate;
-    if (!update) return;
-
-    let currentNotepadForModification = notepadContent;
-    // If we are in a past history state, apply modifications based on that state for accuracy,
-    // then it will become a new history entry.
-    if (currentHistoryIndex < notepadHistory.length - 1) {
-        currentNotepadForModification = notepadHistory[currentHistoryIndex];
-    }
-
-
-    if (update.modifications && update.modifications.length > 0) {
-      const { newContent, errors: applyErrors } = applyNotepadModifications(currentNotepadForModification, update.modifications);
-      _addHistoryEntry(newContent, sender, `AI (${sender}) 自动修改`);
-      
-      if (applyErrors.length > 0) {
-        const errorText = `[系统] ${sender} 的部分记事本修改操作未成功执行:\n- ${applyErrors.join('\n- ')}`;
-        addSystemMessage(errorText, MessageSender.System, MessagePurpose.SystemNotification);
-      }
-    }
-    
-    if (update.error) { 
-      addSystemMessage(
-        `[系统] ${sender} 尝试修改记事本时遇到问题: ${update.error}`,
-        MessageSender.System,
-        MessagePurpose.SystemNotification
-      );
-    }
-  }, [notepadContent, _addHistoryEntry, currentHistoryIndex, notepadHistory]);
+  // 记事本修改由讨论引擎解析并应用，这里只记录结果
+  const applyNotepadUpdateFromAI = useCallback((newContent: string, sender: MessageSender) => {
+    _addHistoryEntry(newContent, sender, `AI (${sender}) 自动修改`);
+  }, [_addHistoryEntry]);
 
   const clearNotepadContent = useCallback(() => {
     _addHistoryEntry(initialContent, null, '清空记事本');
@@ -102,6 +71,14 @@ export const useNotepadLogic = (initialContent: string, sessionId?: string) => {
     _addHistoryEntry(content, author, '从版本历史恢复');
   }, [_addHistoryEntry]);
   
+  // 直接载入内容并重置撤销栈，不写入版本历史（用于切换到新建的分支会话）
+  const resetNotepadContent = useCallback((content: string) => {
+    setNotepadContent(content);
+    setNotepadHistory([content]);
+    setCurrentHistoryIndex(0);
+    setLastNotepadUpdateBy(null);
+  }, []);
+
   // 切换到指定版本
   const restoreFromVersion = useCallback((versionId: string) => {
     const version = switchToVersion(versionId);
@@ -113,9 +90,10 @@ export const useNotepadLogic = (initialContent: string, sessionId?: string) => {
   return {
     notepadContent,
     lastNotepadUpdateBy,
-    processNotepadUpdateFromAI,
+    applyNotepadUpdateFromAI,
     clearNotepadContent,
     setNotepadContentManual,
+    resetNotepadContent,
     undoNotepad,
     redoNotepad,
     canUndo,
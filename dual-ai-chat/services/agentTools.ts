@@ -0,0 +1,244 @@
+import { AgentToolCallRequest, AgentToolDeclaration, AgentToolExchange, ChatSession, MessagePurpose, MessageSender, NotepadHistoryState } from '../types';
+import { generateUniqueId } from '../utils/appUtils';
+import { validateAgainstSchema } from '../utils/structuredAnswer';
+
+// 工具执行时可访问的应用数据（由界面层提供，引擎本身不依赖存储）
+export interface AgentToolContext {
+  getSessions: () => ChatSession[];
+  getNotepadHistory: () => NotepadHistoryState;
+}
+
+export interface AgentTool extends AgentToolDeclaration {
+  execute: (args: Record<string, unknown>, context: AgentToolContext) => string | Promise<string>;
+}
+
+export interface AgentToolkit {
+  tools: AgentTool[];
+  context: AgentToolContext;
+}
+
+// ---- 计算器：只支持四则运算、乘方与常用函数的递归下降解析，不使用 eval ----
+
+const CALCULATOR_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, log: Math.log10, ln: Math.log, exp: Math.exp,
+  min: Math.min, max: Math.max,
+};
+const CALCULATOR_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const evaluateExpression = (expression: string): number => {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z]+|\*\*|[-+*/%^(),]/gi) || [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error('表达式包含无法识别的字符');
+  }
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`缺少 "${token}"`);
+  };
+
+  const parseAdditive = (): number => {
+    let value = parseMultiplicative();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseMultiplicative() : value - parseMultiplicative();
+    }
+    return value;
+  };
+  const parseMultiplicative = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parseUnary();
+      if (operator === '*') value *= right;
+      else if (operator === '/') value /= right;
+      else value %= right;
+    }
+    return value;
+  };
+  const parseUnary = (): number => {
+    if (peek() === '-') { next(); return -parseUnary(); }
+    if (peek() === '+') { next(); return parseUnary(); }
+    return parsePower();
+  };
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('表达式不完整');
+    if (token === '(') {
+      const value = parseAdditive();
+      expect(')');
+      return value;
+    }
+    if (/^\d/.test(token)) return parseFloat(token);
+    const name = token.toLowerCase();
+    if (name in CALCULATOR_CONSTANTS) return CALCULATOR_CONSTANTS[name];
+    if (name in CALCULATOR_FUNCTIONS) {
+      expect('(');
+      const args = [parseAdditive()];
+      while (peek() === ',') {
+        next();
+        args.push(parseAdditive());
+      }
+      expect(')');
+      return CALCULATOR_FUNCTIONS[name](...args);
+    }
+    throw new Error(`未知的符号 "${token}"`);
+  };
+
+  const result = parseAdditive();
+  if (position < tokens.length) throw new Error(`多余的符号 "${tokens[position]}"`);
+  return result;
+};
+
+const calculatorTool: AgentTool = {
+  name: 'calculator',
+  description: '计算数学表达式。支持 + - * / % ^、括号、pi、e，以及 sqrt、abs、round、floor、ceil、sin、cos、tan、log、ln、exp、min、max。',
+  parameters: {
+    type: 'object',
+    properties: { expression: { type: 'string', description: '要计算的表达式，例如 (3 + 4) * 2^3' } },
+    required: ['expression'],
+  },
+  execute: (args) => {
+    const result = evaluateExpression(String(args.expression));
+    if (!Number.isFinite(result)) throw new Error('计算结果不是有限数值');
+    return String(result);
+  },
+};
+
+const dateTimeTool: AgentTool = {
+  name: 'current_datetime',
+  description: '获取当前日期、时间与星期。',
+  parameters: {
+    type: 'object',
+    properties: { timeZone: { type: 'string', description: 'IANA 时区，例如 Asia/Shanghai；留空使用用户本地时区' } },
+  },
+  execute: (args) => {
+    const now = new Date();
+    const timeZone = typeof args.timeZone === 'string' && args.timeZone ? args.timeZone : undefined;
+    const formatted = new Intl.DateTimeFormat('zh-CN', { timeZone, dateStyle: 'full', timeStyle: 'long' }).format(now);
+    return `${formatted}（ISO: ${now.toISOString()}）`;
+  },
+};
+
+const searchSessionsTool: AgentTool = {
+  name: 'search_sessions',
+  description: '在用户过去的会话中搜索包含关键词的消息，返回会话标题与消息片段。',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: '关键词，多个关键词用空格分隔（需全部匹配）' },
+      limit: { type: 'integer', minimum: 1, maximum: 20, description: '最多返回的结果数，默认 5' },
+    },
+    required: ['query'],
+  },
+  execute: (args, context) => {
+    const terms = String(args.query).toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) throw new Error('关键词不能为空');
+    const limit = typeof args.limit === 'number' ? args.limit : 5;
+    const matches: string[] = [];
+
+    for (const session of context.getSessions()) {
+      for (const message of session.messages) {
+        if (message.purpose === MessagePurpose.SystemNotification || message.purpose === MessagePurpose.ToolCall) continue;
+        const text = message.text.toLowerCase();
+        if (!terms.every(term => text.includes(term))) continue;
+        const index = text.indexOf(terms[0]);
+        const snippet = message.text.slice(Math.max(0, index - 60), index + 140).replace(/\s+/g, ' ');
+        const speaker = message.agent?.name || (message.sender === MessageSender.User ? '用户' : message.sender);
+        matches.push(`[${session.title}] ${new Date(message.timestamp).toLocaleDateString()} ${speaker}: …${snippet}…`);
+        if (matches.length >= limit) return matches.join('\n');
+      }
+    }
+    return matches.length > 0 ? matches.join('\n') : '没有找到匹配的消息。';
+  },
+};
+
+const readNotepadVersionTool: AgentTool = {
+  name: 'read_notepad_version',
+  description: '读取当前会话记事本的历史版本。不提供版本号时列出全部版本。',
+  parameters: {
+    type: 'object',
+    properties: { version: { type: 'integer', minimum: 1, description: '版本号（从 1 开始）' } },
+  },
+  execute: (args, context) => {
+    const { versions } = context.getNotepadHistory();
+    if (versions.length === 0) return '当前会话还没有记事本历史版本。';
+    if (typeof args.version !== 'number') {
+      return versions.map((v, index) =>
+        `版本 ${index + 1}: ${new Date(v.timestamp).toLocaleString()} ${v.author || '用户'}${v.description ? ` - ${v.description}` : ''} (${v.wordCount} 字)`
+      ).join('\n');
+    }
+    const version = versions[args.version - 1];
+    if (!version) throw new Error(`版本号超出范围（共 ${versions.length} 个版本）`);
+    return version.content;
+  },
+};
+
+export const BUILTIN_AGENT_TOOLS: AgentTool[] = [calculatorTool, dateTimeTool, searchSessionsTool, readNotepadVersionTool];
+
+export const toToolDeclarations = (tools: AgentTool[]): AgentToolDeclaration[] =>
+  tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+
+/**
+ * 执行一次工具调用；参数校验失败或执行出错时返回错误信息而不抛出
+ */
+export const executeAgentToolCall = async (
+  call: AgentToolCallRequest,
+  toolkit: AgentToolkit
+): Promise<{ content: string; isError: boolean }> => {
+  const tool = toolkit.tools.find(t => t.name === call.name);
+  if (!tool) return { content: `未知的工具: ${call.name}`, isError: true };
+  const errors = validateAgainstSchema(call.arguments, tool.parameters);
+  if (errors.length > 0) return { content: `参数错误: ${errors.join('；')}`, isError: true };
+  try {
+    return { content: await tool.execute(call.arguments, toolkit.context), isError: false };
+  } catch (error) {
+    return { content: `执行失败: ${error instanceof Error ? error.message : String(error)}`, isError: true };
+  }
+};
+
+// ---- 文本协议：服务商不支持原生函数调用时，通过标签请求工具 ----
+
+const TEXT_TOOL_CALL_PATTERN = /<tool-call\s+name="([^"]+)"\s*>([\s\S]*?)<\/tool-call>/g;
+
+export const buildTextToolProtocolPrompt = (tools: AgentTool[]): string => `
+**可用工具:** 发言过程中如需计算、查询时间、搜索过去的会话或读取记事本历史版本，可以调用以下工具：
+${tools.map(tool => `- ${tool.name}: ${tool.description} 参数 JSON Schema: ${JSON.stringify(tool.parameters)}`).join('\n')}
+调用方式：输出 <tool-call name="工具名">{"参数名": 值}</tool-call>（可连续输出多个），然后立即停止输出。工具结果会在下一条提示中提供，届时再完成你的发言。不需要工具时直接发言，不要输出 tool-call 标签。
+`;
+
+/**
+ * 从文本中解析工具调用标签；参数不是有效 JSON 时按空参数处理（由参数校验报告错误）
+ */
+export const parseTextToolCalls = (text: string): { calls: AgentToolCallRequest[]; text: string } => {
+  const calls: AgentToolCallRequest[] = [];
+  const remaining = text.replace(TEXT_TOOL_CALL_PATTERN, (_match, name: string, body: string) => {
+    let args: Record<string, unknown> = {};
+    try {
+      const parsed = JSON.parse(body.trim() || '{}');
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) args = parsed;
+    } catch {
+      // 保持空参数
+    }
+    calls.push({ id: generateUniqueId(), name, arguments: args });
+    return '';
+  });
+  return { calls, text: remaining.trim() };
+};
+
+export const formatToolExchangesForPrompt = (exchanges: AgentToolExchange[]): string => `
+**你在本次发言中调用的工具及结果:**
+${exchanges.flatMap(exchange => exchange.calls.map(call => {
+  const result = exchange.results.find(r => r.callId === call.id);
+  return `- ${call.name}(${JSON.stringify(call.arguments)}) => ${result ? result.content : '(无结果)'}`;
+})).join('\n')}
+请根据以上结果继续完成本次发言，不要重复相同的调用。
+`;
@@ -0,0 +1,329 @@
+import { ChatMessage } from '../types';
+import { ANTHROPIC_API_VERSION, ANTHROPIC_DEFAULT_BASE_URL, ANTHROPIC_MAX_OUTPUT_TOKENS } from '../constants';
+import {
+  AnthropicChatMessage,
+  AnthropicContentBlock,
+  convertToAnthropicMessages,
+  enforceAnthropicAlternation,
+  truncateMessageHistory,
+} from '../utils/messageConverter';
+import {
+  InvalidRequestError,
+  ProviderError,
+  TransientProviderError,
+  parseRetryAfterHeaders,
+  providerErrorFromException,
+  providerErrorFromStatus,
+} from './providerErrors';
+
+interface AnthropicResponsePayload {
+  text: string;
+  durationMs: number;
+  error?: string;
+  requestDetails?: any;
+  responseBody?: any;
+  providerError?: ProviderError; // 请求失败时的类型化错误
+}
+
+interface AnthropicStreamResponse {
+  onChunk: (chunk: string) => void;
+  onComplete: (fullText: string, durationMs: number) => void;
+  onError: (error: string, errorType: string, durationMs: number, requestDetails?: any, responseBody?: any, providerError?: ProviderError) => void;
+}
+
+// SSE 流中 error 事件只有错误类型，没有 HTTP 状态码，按文档对应的状态码归类
+const ANTHROPIC_ERROR_TYPE_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+/**
+ * 渠道 Base URL 对应的 API 根地址，兼容填写了 /v1 后缀的地址
+ */
+export const getAnthropicApiBaseUrl = (baseUrl?: string): string =>
+  `${(baseUrl?.trim() || ANTHROPIC_DEFAULT_BASE_URL).replace(/\/+$/, '').replace(/\/v1$/, '')}/v1`;
+
+/**
+ * Messages API 的请求头。浏览器直连需要显式声明，否则 Anthropic 会拒绝跨域请求。
+ */
+export const buildAnthropicHeaders = (apiKey: string): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'x-api-key': apiKey,
+  'anthropic-version': ANTHROPIC_API_VERSION,
+  'anthropic-dangerous-direct-browser-access': 'true',
+});
+
+const providerErrorFromResponse = (response: Response, data: any, message: string): ProviderError =>
+  providerErrorFromStatus(response.status, message, {
+    code: data?.error?.type,
+    retryAfterMs: parseRetryAfterHeaders(response.headers),
+    provider: 'anthropic',
+  });
+
+/**
+ * 构建请求消息：历史消息在前，本次提示词（及图片）作为最后一条用户消息，并保证角色严格交替
+ */
+const buildAnthropicMessages = (
+  prompt: string,
+  imagePart?: { mimeType: string; data: string },
+  messageHistory?: ChatMessage[]
+): AnthropicChatMessage[] => {
+  const historyMessages = messageHistory && messageHistory.length > 0
+    ? convertToAnthropicMessages(truncateMessageHistory(messageHistory, 6000))
+    : [];
+  const promptContent: AnthropicContentBlock[] = [];
+  if (imagePart && imagePart.data) {
+    promptContent.push({ type: 'image', source: { type: 'base64', media_type: imagePart.mimeType, data: imagePart.data } });
+  }
+  promptContent.push({ type: 'text', text: prompt });
+  return enforceAnthropicAlternation([...historyMessages, { role: 'user', content: promptContent }]);
+};
+
+const buildRequestBody = (
+  prompt: string,
+  modelId: string,
+  systemInstruction?: string,
+  imagePart?: { mimeType: string; data: string },
+  temperature?: number,
+  messageHistory?: ChatMessage[],
+  stream?: boolean
+) => ({
+  model: modelId,
+  max_tokens: ANTHROPIC_MAX_OUTPUT_TOKENS,
+  messages: buildAnthropicMessages(prompt, imagePart, messageHistory),
+  ...(systemInstruction ? { system: systemInstruction } : {}),
+  // Anthropic 的 temperature 范围为 0-1
+  ...(temperature !== undefined ? { temperature: Math.min(1, Math.max(0, temperature)) } : {}),
+  ...(stream ? { stream: true } : {}),
+});
+
+const buildRequestDetails = (url: string, apiKey: string, requestBody: unknown) => ({
+  url,
+  method: 'POST',
+  headers: { ...buildAnthropicHeaders(apiKey), 'x-api-key': `${apiKey.substring(0, 10)}...` },
+  body: requestBody,
+});
+
+export const generateAnthropicResponse = async (
+  prompt: string,
+  modelId: string,
+  apiKey: string,
+  baseUrl: string | undefined,
+  systemInstruction?: string,
+  imagePart?: { mimeType: string; data: string },
+  temperature?: number,
+  messageHistory?: ChatMessage[],
+  abortSignal?: AbortSignal // 中断进行中的请求（停止按钮 / 超时）
+): Promise<AnthropicResponsePayload> => {
+  const startTime = performance.now();
+  const url = `${getAnthropicApiBaseUrl(baseUrl)}/messages`;
+  const requestBody = buildRequestBody(prompt, modelId, systemInstruction, imagePart, temperature, messageHistory);
+  const requestDetails = buildRequestDetails(url, apiKey, requestBody);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: buildAnthropicHeaders(apiKey),
+      body: JSON.stringify(requestBody),
+      signal: abortSignal,
+    });
+
+    const durationMs = performance.now() - startTime;
+    const textBody = await response.text();
+    let data;
+    try {
+      data = JSON.parse(textBody);
+    } catch (parseError: any) {
+      return {
+        text: "无法解析响应JSON",
+        durationMs,
+        error: "JSON Parse Error",
+        requestDetails,
+        responseBody: { rawText: textBody, parseError: parseError?.message || 'Unknown parse error' },
+        providerError: response.ok
+          ? new TransientProviderError('无法解析响应JSON', 'invalid-response', { status: response.status, provider: 'anthropic' })
+          : providerErrorFromResponse(response, undefined, response.statusText || `请求失败，状态码: ${response.status}`),
+      };
+    }
+
+    if (!response.ok) {
+      const errorMessage = data?.error?.message || response.statusText || `请求失败，状态码: ${response.status}`;
+      return {
+        text: errorMessage,
+        durationMs,
+        error: "Anthropic API error",
+        requestDetails,
+        responseBody: data,
+        providerError: providerErrorFromResponse(response, data, errorMessage),
+      };
+    }
+
+    if (!Array.isArray(data?.content)) {
+      return {
+        text: "AI响应格式无效。",
+        durationMs,
+        error: "Invalid response structure",
+        requestDetails,
+        responseBody: data,
+        providerError: new TransientProviderError('AI响应格式无效', 'invalid-response', { provider: 'anthropic' }),
+      };
+    }
+
+    const content = data.content
+      .filter((block: any) => block?.type === 'text')
+      .map((block: any) => block.text || '')
+      .join('');
+    if (!content && data.stop_reason === 'refusal') {
+      const providerError = new InvalidRequestError('模型拒绝回答该请求', 'content-policy', { code: 'refusal', provider: 'anthropic' });
+      return { text: providerError.message, durationMs, error: "Content refused", requestDetails, responseBody: data, providerError };
+    }
+    return { text: content, durationMs };
+
+  } catch (error) {
+    const durationMs = performance.now() - startTime;
+    let errorMessage = "与AI通信时发生未知错误。";
+    let errorType = "Unknown AI error";
+    if (error instanceof Error) {
+      errorMessage = `与AI通信时出错: ${error.message}`;
+      errorType = error.name;
+    }
+    return { text: errorMessage, durationMs, error: errorType, requestDetails, providerError: providerErrorFromException(error, { provider: 'anthropic' }) };
+  }
+};
+
+export const generateAnthropicStreamResponse = async (
+  prompt: string,
+  modelId: string,
+  apiKey: string,
+  baseUrl: string | undefined,
+  systemInstruction?: string,
+  imagePart?: { mimeType: string; data: string },
+  temperature?: number,
+  callbacks?: AnthropicStreamResponse,
+  messageHistory?: ChatMessage[],
+  abortSignal?: AbortSignal
+): Promise<void> => {
+  const startTime = performance.now();
+  const url = `${getAnthropicApiBaseUrl(baseUrl)}/messages`;
+  const requestBody = buildRequestBody(prompt, modelId, systemInstruction, imagePart, temperature, messageHistory, true);
+  const requestDetails = buildRequestDetails(url, apiKey, requestBody);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: buildAnthropicHeaders(apiKey),
+      body: JSON.stringify(requestBody),
+      signal: abortSignal,
+    });
+
+    if (!response.ok) {
+      const durationMs = performance.now() - startTime;
+      const textBody = await response.text();
+      let data;
+      try {
+        data = JSON.parse(textBody);
+      } catch {
+        data = { rawText: textBody };
+      }
+      const errorMessage = data?.error?.message || response.statusText || `请求失败，状态码: ${response.status}`;
+      callbacks?.onError?.(errorMessage, "Anthropic API error", durationMs, requestDetails, data, providerErrorFromResponse(response, data, errorMessage));
+      return;
+    }
+
+    if (!response.body) {
+      const durationMs = performance.now() - startTime;
+      callbacks?.onError?.("响应体为空", "No response body", durationMs, requestDetails, undefined,
+        new TransientProviderError('响应体为空', 'invalid-response', { status: response.status, provider: 'anthropic' }));
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let fullText = '';
+    let stopReason: string | undefined;
+
+    // 处理一个完整的 SSE 事件；返回 false 表示流因错误结束
+    const handleEvent = (eventText: string): boolean => {
+      const dataLine = eventText.split('\n').filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('');
+      if (!dataLine) return true;
+      let event: any;
+      try {
+        event = JSON.parse(dataLine);
+      } catch {
+        return true; // 跳过无法解析的事件
+      }
+      switch (event.type) {
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            fullText += event.delta.text;
+            callbacks?.onChunk?.(event.delta.text);
+          }
+          return true;
+        case 'message_delta':
+          stopReason = event.delta?.stop_reason || stopReason;
+          return true;
+        case 'error': {
+          const errorMessage = event.error?.message || '流式响应错误';
+          const status = ANTHROPIC_ERROR_TYPE_STATUS[event.error?.type] || 500;
+          callbacks?.onError?.(errorMessage, "Anthropic stream error", performance.now() - startTime, requestDetails, event,
+            providerErrorFromStatus(status, errorMessage, { code: event.error?.type, provider: 'anthropic' }));
+          return false;
+        }
+        default:
+          // message_start、content_block_start/stop、message_stop 与 ping 不携带文本
+          return true;
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // 事件以空行分隔，可能跨越多个数据块
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const eventText = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          if (!handleEvent(eventText)) {
+            await reader.cancel();
+            return;
+          }
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+      if (buffer.trim() && !handleEvent(buffer)) return;
+
+      const durationMs = performance.now() - startTime;
+      if (!fullText && stopReason === 'refusal') {
+        callbacks?.onError?.('模型拒绝回答该请求', "Content refused", durationMs, requestDetails, undefined,
+          new InvalidRequestError('模型拒绝回答该请求', 'content-policy', { code: 'refusal', provider: 'anthropic' }));
+        return;
+      }
+      callbacks?.onComplete?.(fullText, durationMs);
+
+    } catch (error) {
+      const durationMs = performance.now() - startTime;
+      callbacks?.onError?.(error instanceof Error ? error.message : "流读取错误", "Stream read error", durationMs, requestDetails, undefined,
+        providerErrorFromException(error, { provider: 'anthropic' }));
+    }
+
+  } catch (error) {
+    const durationMs = performance.now() - startTime;
+    let errorMessage = "与AI通信时发生未知错误。";
+    let errorType = "Unknown AI error";
+    if (error instanceof Error) {
+      errorMessage = `与AI通信时出错: ${error.message}`;
+      errorType = error.name;
+    }
+    callbacks?.onError?.(errorMessage, errorType, durationMs, requestDetails, undefined, providerErrorFromException(error, { provider: 'anthropic' }));
+  }
+};
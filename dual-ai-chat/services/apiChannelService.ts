@@ -1,13 +1,30 @@
-import { ApiChannel, ChatMessage } from '../types';
+import { AgentToolCallRequest, AgentToolRequestOptions, ApiChannel, ChatMessage, StructuredOutputSpec } from '../types';
 import { generateResponse as generateGeminiResponse, generateStreamResponse as generateGeminiStreamResponse } from './geminiService';
 import { generateOpenAiResponse, generateOpenAiStreamResponse } from './openaiService';
+import { buildAnthropicHeaders, generateAnthropicResponse, generateAnthropicStreamResponse, getAnthropicApiBaseUrl } from './anthropicService';
 import { ApiChannelErrorType } from '../constants';
+import { ApiKeyOutcome, getChannelApiKeys, recordApiKeyResult, selectApiKey } from './apiKeyPoolService';
+import { ChannelRequestSlot, channelRequestScheduler } from './channelRequestScheduler';
+import { recordChannelRequest, resetChannelCircuit } from './channelHealthService';
+import { estimateTokenCount } from '../utils/discussionBudget';
+import {
+  CancelledError,
+  InvalidRequestError,
+  ProviderError,
+  TransientProviderError,
+  describeProviderError,
+  providerErrorFromException,
+  providerErrorFromStatus,
+} from './providerErrors';
 
 export interface ApiChannelServiceConfig {
   channel: ApiChannel;
   messageHistory?: ChatMessage[];
   temperature?: number;
   abortSignal?: AbortSignal;
+  model?: string; // 覆盖渠道默认模型（用于参与者专属模型）
+  responseFormat?: StructuredOutputSpec; // 要求 JSON 输出（仅非流式，且渠道支持时生效）
+  toolOptions?: AgentToolRequestOptions; // 原生函数调用（仅非流式，且渠道支持时生效）
 }
 
 export interface ApiChannelResponsePayload {
@@ -19,12 +36,14 @@ export interface ApiChannelResponsePayload {
   provider: string;
   requestDetails?: any;
   responseBody?: any;
+  toolCalls?: AgentToolCallRequest[];
+  providerError?: ProviderError; // 请求失败时的类型化错误，决定是否重试、切换渠道或冷却密钥
 }
 
 export interface ApiChannelStreamCallbacks {
   onChunk: (chunk: string) => void;
   onComplete: (fullText: string, durationMs: number) => void;
-  onError: (error: string, errorType: string, durationMs: number) => void;
+  onError: (error: string, errorType: string, durationMs: number, requestDetails?: any, responseBody?: any, providerError?: ProviderError) => void;
 }
 
 /**
@@ -42,11 +61,22 @@ export class ApiChannelService {
   ): Promise<ApiChannelResponsePayload> {
     const startTime = performance.now();
     const { channel, messageHistory, temperature, abortSignal } = config;
+    const modelName = config.model || channel.defaultModel;
+    const responseFormat = config.responseFormat && this.supportsStructuredOutput(channel) ? config.responseFormat : undefined;
+    const toolOptions = config.toolOptions && this.supportsFunctionCalling(channel) ? config.toolOptions : undefined;
     
     try {
       // 验证渠道配置
       this.validateChannel(channel);
       
+      // 按渠道的请求限制排队，排队时间不计入超时
+      let slot: ChannelRequestSlot;
+      try {
+        slot = await channelRequestScheduler.acquire(channel, this.estimateRequestTokens(prompt, systemInstruction, messageHistory), abortSignal);
+      } catch {
+        return this.toFailurePayload(channel, performance.now() - startTime, new CancelledError());
+      }
+      
       // 设置超时控制
       const timeoutController = new AbortController();
       const timeoutId = setTimeout(() => {
@@ -54,42 +84,66 @@ export class ApiChannelService {
       }, channel.timeout);
       
       // 合并超时控制和外部中断信号
-      const combinedSignal = this.combineAbortSignals([
+      const { signal: combinedSignal, dispose: disposeSignal } = this.combineAbortSignals([
         timeoutController.signal,
         ...(abortSignal ? [abortSignal] : [])
       ]);
       
-      let result: { text: string; durationMs: number; error?: string; requestDetails?: any; responseBody?: any };
+      // 从密钥池中选择本次请求使用的密钥
+      const apiKeyEntry = selectApiKey(channel);
+      const apiKey = apiKeyEntry?.key || channel.apiKey;
+      
+      let responseText = '';
+      let result: { text: string; durationMs: number; error?: string; requestDetails?: any; responseBody?: any; toolCalls?: AgentToolCallRequest[]; providerError?: ProviderError };
       
       try {
         if (channel.provider === 'openai') {
           // OpenAI 兼容服务调用
           result = await generateOpenAiResponse(
             prompt,
-            channel.defaultModel,
-            channel.apiKey,
+            modelName,
+            apiKey,
             channel.baseUrl!,
             systemInstruction,
             imagePart ? { mimeType: imagePart.inlineData.mimeType, data: imagePart.inlineData.data } : undefined,
             temperature,
-            messageHistory
+            messageHistory,
+            responseFormat,
+            toolOptions,
+            combinedSignal
           );
         } else if (channel.provider === 'gemini') {
           // Gemini 服务调用
           result = await generateGeminiResponse(
             prompt,
-            channel.defaultModel,
+            modelName,
             true, // 使用自定义配置
-            channel.apiKey,
+            apiKey,
             channel.baseUrl,
             systemInstruction,
             imagePart,
             undefined, // thinkingConfig 在这里不处理
             temperature,
-            messageHistory
+            messageHistory,
+            responseFormat,
+            toolOptions,
+            combinedSignal
+          );
+        } else if (channel.provider === 'anthropic') {
+          // Anthropic Messages API 调用（结构化输出与工具由提示词约束）
+          result = await generateAnthropicResponse(
+            prompt,
+            modelName,
+            apiKey,
+            channel.baseUrl,
+            systemInstruction,
+            imagePart ? { mimeType: imagePart.inlineData.mimeType, data: imagePart.inlineData.data } : undefined,
+            temperature,
+            messageHistory,
+            combinedSignal
           );
         } else {
-          throw new Error(`不支持的提供商: ${channel.provider}`);
+          throw new InvalidRequestError(`不支持的提供商: ${channel.provider}`, 'invalid-request');
         }
         
         clearTimeout(timeoutId);
@@ -99,16 +153,28 @@ export class ApiChannelService {
           throw new Error('请求被中断');
         }
         
+        // 服务未归类的失败按可重试的网络错误处理
+        const providerError = result.error
+          ? result.providerError || new TransientProviderError(result.text, 'network', { provider: channel.provider })
+          : undefined;
+        if (apiKeyEntry) {
+          recordApiKeyResult(channel.id, apiKeyEntry.id, this.classifyKeyOutcome(providerError), providerError?.message, providerError?.retryAfterMs);
+        }
+        this.recordHealth(channel, result.durationMs, providerError);
+        if (!result.error) responseText = result.text;
+        
         // 转换为统一格式
         return {
           text: result.text,
           durationMs: result.durationMs,
           error: result.error,
-          errorType: this.mapErrorType(result.error),
+          errorType: providerError ? this.toErrorType(providerError) : undefined,
           channelId: channel.id,
           provider: channel.provider,
           requestDetails: result.requestDetails,
-          responseBody: result.responseBody
+          responseBody: result.responseBody,
+          toolCalls: result.toolCalls,
+          providerError
         };
         
       } catch (error) {
@@ -116,60 +182,26 @@ export class ApiChannelService {
         
         const durationMs = performance.now() - startTime;
         
-        if (error instanceof Error) {
-          if (error.name === 'AbortError' || error.message.includes('请求被中断')) {
-            return {
-              text: '请求被中断',
-              durationMs,
-              error: '请求被中断',
-              errorType: ApiChannelErrorType.TIMEOUT,
-              channelId: channel.id,
-              provider: channel.provider
-            };
-          }
-          
-          if (error.message.includes('timeout') || timeoutController.signal.aborted) {
-            return {
-              text: `请求超时 (${channel.timeout/1000}秒)`,
-              durationMs,
-              error: `请求超时 (${channel.timeout/1000}秒)`,
-              errorType: ApiChannelErrorType.TIMEOUT,
-              channelId: channel.id,
-              provider: channel.provider
-            };
-          }
-          
-          return {
-            text: error.message,
-            durationMs,
-            error: error.message,
-            errorType: this.mapErrorType(error.message),
-            channelId: channel.id,
-            provider: channel.provider
-          };
-        }
-        
-        return {
-          text: '未知错误',
-          durationMs,
-          error: '未知错误',
-          errorType: ApiChannelErrorType.NETWORK_ERROR,
-          channelId: channel.id,
-          provider: channel.provider
-        };
+        const providerError = this.getAbortReason(channel, abortSignal, timeoutController.signal)
+          || providerErrorFromException(error, { provider: channel.provider });
+        this.recordHealth(channel, durationMs, providerError);
+        return this.toFailurePayload(channel, durationMs, providerError);
+      } finally {
+        disposeSignal();
+        slot.release(estimateTokenCount(responseText));
       }
       
     } catch (error) {
-      const durationMs = performance.now() - startTime;
+      // 渠道配置校验失败：重试或切换渠道都无法解决，按不可重试的请求错误立即失败
       const errorMessage = error instanceof Error ? error.message : '未知错误';
-      
       return {
         text: errorMessage,
-        durationMs,
+        durationMs: performance.now() - startTime,
         error: errorMessage,
-        errorType: this.mapErrorType(errorMessage),
+        errorType: ApiChannelErrorType.VALIDATION_ERROR,
         channelId: channel.id,
-        provider: channel.provider
+        provider: channel.provider,
+        providerError: new InvalidRequestError(errorMessage, 'invalid-request', { provider: channel.provider })
       };
     }
   }
@@ -185,11 +217,22 @@ export class ApiChannelService {
     imagePart?: { inlineData: { mimeType: string; data: string } }
   ): Promise<void> {
     const { channel, messageHistory, temperature, abortSignal } = config;
+    const modelName = config.model || channel.defaultModel;
     
     try {
       // 验证渠道配置
       this.validateChannel(channel);
       
+      // 按渠道的请求限制排队，排队时间不计入超时
+      let slot: ChannelRequestSlot;
+      try {
+        slot = await channelRequestScheduler.acquire(channel, this.estimateRequestTokens(prompt, systemInstruction, messageHistory), abortSignal);
+      } catch {
+        const cancelled = new CancelledError();
+        callbacks.onError(cancelled.message, ApiChannelErrorType.CANCELLED, 0, undefined, undefined, cancelled);
+        return;
+      }
+      
       // 设置超时控制
       const timeoutController = new AbortController();
       const timeoutId = setTimeout(() => {
@@ -197,21 +240,48 @@ export class ApiChannelService {
       }, channel.timeout);
       
       // 合并超时控制和外部中断信号
-      const combinedSignal = this.combineAbortSignals([
+      const { signal: combinedSignal, dispose: disposeSignal } = this.combineAbortSignals([
         timeoutController.signal,
         ...(abortSignal ? [abortSignal] : [])
       ]);
       
-      // 包装回调函数以添加超时清理
+      // 从密钥池中选择本次请求使用的密钥
+      const apiKeyEntry = selectApiKey(channel);
+      const apiKey = apiKeyEntry?.key || channel.apiKey;
+      
+      // 包装回调函数以添加超时清理、释放请求名额、密钥使用统计与渠道健康记录
+      const requestStartTime = performance.now();
+      let firstTokenMs: number | undefined;
       const wrappedCallbacks: ApiChannelStreamCallbacks = {
-        onChunk: callbacks.onChunk,
+        onChunk: (chunk: string) => {
+          if (firstTokenMs === undefined) firstTokenMs = performance.now() - requestStartTime;
+          callbacks.onChunk(chunk);
+        },
         onComplete: (fullText: string, durationMs: number) => {
           clearTimeout(timeoutId);
+          disposeSignal();
+          slot.release(estimateTokenCount(fullText));
+          if (apiKeyEntry) recordApiKeyResult(channel.id, apiKeyEntry.id, 'success');
+          this.recordHealth(channel, durationMs, undefined, firstTokenMs);
           callbacks.onComplete(fullText, durationMs);
         },
-        onError: (error: string, errorType: string, durationMs: number) => {
+        onError: (error: string, _errorType: string, durationMs: number, requestDetails?: any, responseBody?: any, providerError?: ProviderError) => {
           clearTimeout(timeoutId);
-          callbacks.onError(error, errorType, durationMs);
+          disposeSignal();
+          slot.release();
+          // 被中断的请求统一报告为取消或超时，而不是服务商返回的网络错误
+          const abortReason = this.getAbortReason(channel, abortSignal, timeoutController.signal);
+          if (abortReason) {
+            this.recordHealth(channel, durationMs, abortReason);
+            callbacks.onError(abortReason.message, this.toErrorType(abortReason), durationMs, requestDetails, responseBody, abortReason);
+            return;
+          }
+          const typedError = providerError || new TransientProviderError(error, 'network', { provider: channel.provider });
+          if (apiKeyEntry) {
+            recordApiKeyResult(channel.id, apiKeyEntry.id, this.classifyKeyOutcome(typedError), typedError.message, typedError.retryAfterMs);
+          }
+          this.recordHealth(channel, durationMs, typedError);
+          callbacks.onError(error, this.toErrorType(typedError), durationMs, requestDetails, responseBody, typedError);
         }
       };
       
@@ -220,67 +290,112 @@ export class ApiChannelService {
           // OpenAI 兼容流式调用
           await generateOpenAiStreamResponse(
             prompt,
-            channel.defaultModel,
-            channel.apiKey,
+            modelName,
+            apiKey,
             channel.baseUrl!,
             systemInstruction,
             imagePart ? { mimeType: imagePart.inlineData.mimeType, data: imagePart.inlineData.data } : undefined,
             temperature,
             wrappedCallbacks,
-            messageHistory
+            messageHistory,
+            combinedSignal
           );
         } else if (channel.provider === 'gemini') {
-          // Gemini 流式调用（模拟）
+          // Gemini 流式调用
           await generateGeminiStreamResponse(
             prompt,
-            channel.defaultModel,
+            modelName,
             true, // 使用自定义配置
-            channel.apiKey,
+            apiKey,
             channel.baseUrl,
             systemInstruction,
             imagePart,
             undefined, // thinkingConfig
             temperature,
             wrappedCallbacks,
-            messageHistory
+            messageHistory,
+            combinedSignal
+          );
+        } else if (channel.provider === 'anthropic') {
+          // Anthropic SSE 流式调用
+          await generateAnthropicStreamResponse(
+            prompt,
+            modelName,
+            apiKey,
+            channel.baseUrl,
+            systemInstruction,
+            imagePart ? { mimeType: imagePart.inlineData.mimeType, data: imagePart.inlineData.data } : undefined,
+            temperature,
+            wrappedCallbacks,
+            messageHistory,
+            combinedSignal
           );
         } else {
-          throw new Error(`不支持的提供商: ${channel.provider}`);
-        }
-        
-        // 检查是否被中断
-        if (combinedSignal.aborted) {
-          clearTimeout(timeoutId);
-          callbacks.onError('请求被中断', ApiChannelErrorType.TIMEOUT, 0);
-          return;
+          throw new InvalidRequestError(`不支持的提供商: ${channel.provider}`, 'invalid-request');
         }
         
       } catch (error) {
         clearTimeout(timeoutId);
+        disposeSignal();
+        slot.release();
         
-        if (error instanceof Error) {
-          if (error.name === 'AbortError' || error.message.includes('请求被中断')) {
-            callbacks.onError('请求被中断', ApiChannelErrorType.TIMEOUT, 0);
-            return;
-          }
-          
-          if (error.message.includes('timeout') || timeoutController.signal.aborted) {
-            callbacks.onError(`请求超时 (${channel.timeout/1000}秒)`, ApiChannelErrorType.TIMEOUT, 0);
-            return;
-          }
-          
-          callbacks.onError(error.message, this.mapErrorType(error.message), 0);
-        } else {
-          callbacks.onError('未知错误', ApiChannelErrorType.NETWORK_ERROR, 0);
-        }
+        const providerError = this.getAbortReason(channel, abortSignal, timeoutController.signal)
+          || providerErrorFromException(error, { provider: channel.provider });
+        this.recordHealth(channel, performance.now() - requestStartTime, providerError);
+        callbacks.onError(providerError.message, this.toErrorType(providerError), 0, undefined, undefined, providerError);
       }
       
     } catch (error) {
+      // 渠道配置校验失败
       const errorMessage = error instanceof Error ? error.message : '未知错误';
-      callbacks.onError(errorMessage, this.mapErrorType(errorMessage), 0);
+      callbacks.onError(errorMessage, ApiChannelErrorType.VALIDATION_ERROR, 0, undefined, undefined,
+        new InvalidRequestError(errorMessage, 'invalid-request', { provider: channel.provider }));
     }
   }
   
+  /**
+   * 渠道是否支持服务商的结构化（JSON）输出模式；不支持时由提示词约束输出格式。
+   * 可通过渠道 metadata.structuredOutput 显式开启或关闭。
+   */
+  static supportsStructuredOutput(channel: ApiChannel): boolean {
+    // Anthropic 渠道尚未接入结构化输出
+    if (channel.provider === 'anthropic') return false;
+    if (typeof channel.metadata?.structuredOutput === 'boolean') {
+      return channel.metadata.structuredOutput;
+    }
+    if (channel.provider === 'gemini') return true;
+    // OpenAI 兼容服务对 json_schema 的支持参差不齐，默认仅对官方接口启用
+    return channel.provider === 'openai' && !!channel.baseUrl?.includes('api.openai.com');
+  }
+
+  /**
+   * 渠道是否支持服务商的原生函数调用；不支持时由文本协议请求工具。
+   * 可通过渠道 metadata.nativeTools 显式开启或关闭。
+   */
+  static supportsNativeTools(channel: ApiChannel): boolean {
+    // Anthropic 渠道尚未接入原生工具调用
+    if (channel.provider === 'anthropic') return false;
+    if (typeof channel.metadata?.nativeTools === 'boolean') {
+      return channel.metadata.nativeTools;
+    }
+    if (channel.provider === 'gemini') return true;
+    return channel.provider === 'openai' && !!channel.baseUrl?.includes('api.openai.com');
+  }
+
+  /**
+   * 渠道的记事本编辑方式。只有显式选择函数方式时才使用函数调用，自动模式使用 <np-*> 标签，
+   * 以免发言因等待函数调用结果而失去流式输出。
+   */
+  static getNotepadEditProtocol(channel: ApiChannel): 'function' | 'tags' {
+    if (channel.provider === 'anthropic') return 'tags';
+    return channel.metadata?.notepadProtocol === 'function' ? 'function' : 'tags';
+  }
+
+  // 显式选择函数方式编辑记事本时，即使未开启原生工具也发送函数声明
+  private static supportsFunctionCalling(channel: ApiChannel): boolean {
+    return this.supportsNativeTools(channel) || this.getNotepadEditProtocol(channel) === 'function';
+  }
+
   /**
    * 测试渠道连接
    */
@@ -300,13 +415,15 @@ export class ApiChannelService {
       }, Math.min(channel.timeout, 10000)); // 测试连接最多10秒
       
       let testResult: { success: boolean; error?: string; latency?: number };
+      // 与正式请求一样从密钥池中挑选密钥，主密钥留空时也能测试
+      const apiKey = selectApiKey(channel)?.key || channel.apiKey;
       
       if (channel.provider === 'openai') {
         // 测试 OpenAI 兼容接口
         const response = await fetch(`${channel.baseUrl}/models`, {
           method: 'GET',
           headers: {
-            'Authorization': `Bearer ${channel.apiKey}`,
+            'Authorization': `Bearer ${apiKey}`,
             'Content-Type': 'application/json'
           },
           signal: timeoutController.signal
@@ -315,7 +432,7 @@ export class ApiChannelService {
         clearTimeout(timeoutId);
         
         if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+          throw providerErrorFromStatus(response.status, response.statusText, { provider: channel.provider });
         }
         
         testResult = {
@@ -325,7 +442,7 @@ export class ApiChannelService {
         
       } else if (channel.provider === 'gemini') {
         // 测试 Gemini 接口
-        const testUrl = `${channel.baseUrl || 'https://generativelanguage.googleapis.com/v1beta'}/models?key=${channel.apiKey}`;
+        const testUrl = `${channel.baseUrl || 'https://generativelanguage.googleapis.com/v1beta'}/models?key=${apiKey}`;
         
         const response = await fetch(testUrl, {
           method: 'GET',
@@ -335,7 +452,26 @@ export class ApiChannelService {
         clearTimeout(timeoutId);
         
         if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+          throw providerErrorFromStatus(response.status, response.statusText, { provider: channel.provider });
+        }
+        
+        testResult = {
+          success: true,
+          latency: Date.now() - startTime
+        };
+        
+      } else if (channel.provider === 'anthropic') {
+        // 测试 Anthropic 接口（模型列表请求不消耗 token）
+        const response = await fetch(`${getAnthropicApiBaseUrl(channel.baseUrl)}/models`, {
+          method: 'GET',
+          headers: buildAnthropicHeaders(apiKey),
+          signal: timeoutController.signal
+        });
+        
+        clearTimeout(timeoutId);
+        
+        if (!response.ok) {
+          throw providerErrorFromStatus(response.status, response.statusText, { provider: channel.provider });
         }
         
         testResult = {
@@ -347,11 +483,16 @@ export class ApiChannelService {
         throw new Error(`不支持的提供商: ${channel.provider}`);
       }
       
+      // 连接测试成功说明渠道已恢复，解除熔断
+      resetChannelCircuit(channel.id);
       return testResult;
       
     } catch (error) {
       const latency = Date.now() - startTime;
       
+      if (error instanceof ProviderError) {
+        return { success: false, error: describeProviderError(error), latency };
+      }
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
           return { success: false, error: '连接测试超时', latency };
@@ -375,10 +516,14 @@ export class ApiChannelService {
       throw new Error('渠道配置不完整');
     }
     
-    if (!channel.apiKey && channel.provider === 'gemini') {
+    if (channel.provider === 'gemini' && getChannelApiKeys(channel).length === 0) {
       throw new Error('Gemini 渠道必须提供 API Key');
     }
     
+    if (channel.provider === 'anthropic' && getChannelApiKeys(channel).length === 0) {
+      throw new Error('Anthropic 渠道必须提供 API Key');
+    }
+    
     if (!channel.baseUrl && channel.provider === 'openai') {
       throw new Error('OpenAI 兼容渠道必须提供 Base URL');
     }
@@ -389,52 +534,139 @@ export class ApiChannelService {
   }
   
   /**
-   * 映射错误类型
+   * 类型化错误对应的渠道错误类型
    */
-  private static mapErrorType(error?: string): ApiChannelErrorType {
-    if (!error) {
-      return ApiChannelErrorType.NETWORK_ERROR;
-    }
-    
-    const errorLower = error.toLowerCase();
-    
-    if (errorLower.includes('api key') || errorLower.includes('unauthorized') || errorLower.includes('forbidden')) {
-      return ApiChannelErrorType.INVALID_KEY;
+  private static toErrorType(error: ProviderError): ApiChannelErrorType {
+    switch (error.kind) {
+      case 'missing-key':
+      case 'auth':
+        return ApiChannelErrorType.INVALID_KEY;
+      case 'rate-limit':
+      case 'quota-exhausted':
+        return ApiChannelErrorType.RATE_LIMITED;
+      case 'model-not-found':
+      case 'content-policy':
+      case 'invalid-request':
+        return ApiChannelErrorType.INVALID_REQUEST;
+      case 'server':
+      case 'invalid-response':
+        return ApiChannelErrorType.SERVER_ERROR;
+      case 'timeout':
+        return ApiChannelErrorType.TIMEOUT;
+      case 'cancelled':
+        return ApiChannelErrorType.CANCELLED;
+      default:
+        return ApiChannelErrorType.NETWORK_ERROR;
     }
-    
-    if (errorLower.includes('timeout') || errorLower.includes('超时') || errorLower.includes('中断')) {
-      return ApiChannelErrorType.TIMEOUT;
-    }
-    
-    if (errorLower.includes('not found') || errorLower.includes('不存在')) {
-      return ApiChannelErrorType.CHANNEL_NOT_FOUND;
+  }
+  
+  /**
+   * 失败后是否应切换到备用渠道：超时、网络错误与服务端（5xx）错误切换；
+   * 限流由原渠道按 Retry-After 退避重试，密钥无效、请求参数错误等换渠道也无法解决的问题以及用户取消不切换。
+   */
+  static shouldFailover(error?: ProviderError): boolean {
+    return !!error && error.retryable && error.kind !== 'rate-limit';
+  }
+  
+  /**
+   * 面向用户的失败说明
+   */
+  static describeError(payload: Pick<ApiChannelResponsePayload, 'text' | 'providerError'>): string {
+    return payload.providerError ? describeProviderError(payload.providerError) : payload.text;
+  }
+  
+  /**
+   * 估算请求输入的 token 数（提示词、系统指令与对话历史），用于每分钟 token 限制
+   */
+  private static estimateRequestTokens(prompt: string, systemInstruction?: string, messageHistory?: ChatMessage[]): number {
+    const historyText = (messageHistory || []).map(message => message.text).join('\n');
+    return estimateTokenCount([systemInstruction || '', historyText, prompt].join('\n'));
+  }
+  
+  /**
+   * 根据类型化错误归类密钥的使用结果，用于密钥池的冷却判断
+   */
+  private static classifyKeyOutcome(error?: ProviderError): ApiKeyOutcome {
+    if (!error) return 'success';
+    if (error.kind === 'auth' || error.kind === 'missing-key') return 'auth-error';
+    if (error.kind === 'rate-limit' || error.kind === 'quota-exhausted') return 'rate-limited';
+    return 'error';
+  }
+  
+  /**
+   * 请求被中断的原因：外部中断（用户停止）视为取消，否则为超时；未中断时返回 null
+   */
+  private static getAbortReason(
+    channel: ApiChannel,
+    abortSignal: AbortSignal | undefined,
+    timeoutSignal: AbortSignal
+  ): ProviderError | null {
+    if (abortSignal?.aborted) {
+      return new CancelledError('请求已取消', { provider: channel.provider });
     }
-    
-    if (errorLower.includes('validation') || errorLower.includes('验证')) {
-      return ApiChannelErrorType.VALIDATION_ERROR;
+    if (timeoutSignal.aborted) {
+      return new TransientProviderError(`请求超时 (${channel.timeout/1000}秒)`, 'timeout', { provider: channel.provider });
     }
-    
-    return ApiChannelErrorType.NETWORK_ERROR;
+    return null;
   }
   
   /**
-   * 合并多个 AbortSignal
+   * 记录渠道健康状况；用户取消的请求不计入。只有换渠道才能解决的失败（超时、网络、服务端错误）会触发熔断。
    */
-  private static combineAbortSignals(signals: AbortSignal[]): AbortSignal {
+  private static recordHealth(channel: ApiChannel, durationMs: number, error?: ProviderError, firstTokenMs?: number): void {
+    if (error?.kind === 'cancelled') return;
+    recordChannelRequest(channel.id, {
+      success: !error,
+      latencyMs: durationMs,
+      firstTokenMs,
+      error: error ? describeProviderError(error) : undefined,
+      countsTowardCircuit: this.shouldFailover(error),
+    });
+  }
+  
+  /**
+   * 请求失败时的统一返回格式
+   */
+  private static toFailurePayload(channel: ApiChannel, durationMs: number, providerError: ProviderError): ApiChannelResponsePayload {
+    return {
+      text: providerError.message,
+      durationMs,
+      error: providerError.message,
+      errorType: this.toErrorType(providerError),
+      channelId: channel.id,
+      provider: channel.provider,
+      providerError
+    };
+  }
+  
+  /**
+   * 合并多个 AbortSignal。外部信号（如讨论引擎的中断信号）会跨多次请求存在，
+   * 请求结束后必须调用 dispose 移除监听，否则监听器会随请求次数不断累积。
+   */
+  private static combineAbortSignals(signals: AbortSignal[]): { signal: AbortSignal; dispose: () => void } {
+    if (typeof AbortSignal.any === 'function') {
+      return { signal: AbortSignal.any(signals), dispose: () => {} };
+    }
+    
     const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    const dispose = () => {
+      for (const signal of signals) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    };
     
     for (const signal of signals) {
       if (signal.aborted) {
         controller.abort();
+        dispose();
         break;
       }
       
-      signal.addEventListener('abort', () => {
-        controller.abort();
-      });
+      signal.addEventListener('abort', onAbort, { once: true });
     }
     
-    return controller.signal;
+    return { signal: controller.signal, dispose };
   }
   
   /**
@@ -461,7 +693,7 @@ export class ApiChannelService {
       warnings.push('超时时间超过1分钟，可能影响用户体验');
     }
     
-    if (channel.provider === 'openai' && !channel.apiKey.trim()) {
+    if (channel.provider === 'openai' && getChannelApiKeys(channel).length === 0) {
       warnings.push('OpenAI 兼容渠道建议提供 API Key');
     }
     
@@ -469,6 +701,10 @@ export class ApiChannelService {
       warnings.push('使用非官方 Gemini 端点可能存在兼容性问题');
     }
     
+    if (channel.provider === 'anthropic' && channel.baseUrl && !channel.baseUrl.includes('api.anthropic.com')) {
+      warnings.push('使用非官方 Anthropic 端点需要支持 Messages API 与跨域请求');
+    }
+    
     return {
       isValid: errors.length === 0,
       errors,
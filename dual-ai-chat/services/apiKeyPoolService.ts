@@ -0,0 +1,154 @@
+import { ApiChannel, ApiKeyPoolEntry, ApiKeyUsageStats } from '../types';
+import { API_KEY_AUTH_COOLDOWN_MS, API_KEY_RATE_LIMIT_COOLDOWN_MS, API_KEY_STATS_STORAGE_KEY } from '../constants';
+
+// 渠道的 apiKey 字段在密钥池中的标识
+export const PRIMARY_API_KEY_ID = 'primary';
+
+// 跨组件同步事件（同窗口内 localStorage 不会触发 storage 事件）
+export const API_KEY_STATS_UPDATED_EVENT = 'api-key-stats-updated';
+
+export type ApiKeyOutcome = 'success' | 'auth-error' | 'rate-limited' | 'error';
+
+// 轮询策略下各渠道下一次使用的位置
+const roundRobinCursors = new Map<string, number>();
+
+const statsKey = (channelId: string, keyId: string) => `${channelId}:${keyId}`;
+
+const emptyStats = (): ApiKeyUsageStats => ({ requests: 0, failures: 0, rateLimitedCount: 0 });
+
+export const loadApiKeyStats = (): Record<string, ApiKeyUsageStats> => {
+  try {
+    const stored = localStorage.getItem(API_KEY_STATS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('加载密钥使用统计失败:', error);
+    return {};
+  }
+};
+
+const saveApiKeyStats = (stats: Record<string, ApiKeyUsageStats>) => {
+  try {
+    localStorage.setItem(API_KEY_STATS_STORAGE_KEY, JSON.stringify(stats));
+    window.dispatchEvent(new CustomEvent(API_KEY_STATS_UPDATED_EVENT));
+  } catch (error) {
+    console.error('保存密钥使用统计失败:', error);
+  }
+};
+
+const updateApiKeyStats = (channelId: string, keyId: string, update: (stats: ApiKeyUsageStats) => ApiKeyUsageStats) => {
+  const allStats = loadApiKeyStats();
+  const key = statsKey(channelId, keyId);
+  allStats[key] = update(allStats[key] || emptyStats());
+  saveApiKeyStats(allStats);
+};
+
+export const getApiKeyStats = (
+  allStats: Record<string, ApiKeyUsageStats>,
+  channelId: string,
+  keyId: string
+): ApiKeyUsageStats => allStats[statsKey(channelId, keyId)] || emptyStats();
+
+export const isApiKeyBenched = (stats: ApiKeyUsageStats, now = Date.now()): boolean =>
+  !!stats.benchedUntil && new Date(stats.benchedUntil).getTime() > now;
+
+/**
+ * 渠道的密钥池：apiKey 在前，其后为额外密钥（跳过空密钥）
+ */
+export const getChannelApiKeys = (channel: ApiChannel): ApiKeyPoolEntry[] => [
+  { id: PRIMARY_API_KEY_ID, key: channel.apiKey, weight: channel.apiKeyWeight ?? 1 },
+  ...(channel.extraApiKeys || []),
+].filter(entry => entry.key.trim());
+
+/**
+ * 密钥池中是否还有不在冷却中的密钥
+ */
+export const hasUsableApiKey = (channel: ApiChannel): boolean => {
+  const allStats = loadApiKeyStats();
+  const now = Date.now();
+  return getChannelApiKeys(channel).some(entry => !isApiKeyBenched(getApiKeyStats(allStats, channel.id, entry.id), now));
+};
+
+/**
+ * 按渠道的选择策略挑选本次请求使用的密钥。冷却中的密钥不参与选择；
+ * 全部冷却时使用最早结束冷却的密钥，由服务商决定请求是否成功。
+ */
+export const selectApiKey = (channel: ApiChannel): ApiKeyPoolEntry | null => {
+  const pool = getChannelApiKeys(channel);
+  if (pool.length <= 1) return pool[0] || null;
+
+  const allStats = loadApiKeyStats();
+  const now = Date.now();
+  const statsOf = (entry: ApiKeyPoolEntry) => getApiKeyStats(allStats, channel.id, entry.id);
+  const available = pool.filter(entry => !isApiKeyBenched(statsOf(entry), now));
+  if (available.length === 0) {
+    return [...pool].sort((a, b) =>
+      new Date(statsOf(a).benchedUntil!).getTime() - new Date(statsOf(b).benchedUntil!).getTime()
+    )[0];
+  }
+
+  switch (channel.keySelectionStrategy) {
+    case 'least-rate-limited': {
+      const lastRateLimited = (entry: ApiKeyPoolEntry) => {
+        const stats = statsOf(entry);
+        return stats.lastRateLimitedAt ? new Date(stats.lastRateLimitedAt).getTime() : 0;
+      };
+      const lastUsed = (entry: ApiKeyPoolEntry) => {
+        const stats = statsOf(entry);
+        return stats.lastUsedAt ? new Date(stats.lastUsedAt).getTime() : 0;
+      };
+      return [...available].sort((a, b) => lastRateLimited(a) - lastRateLimited(b) || lastUsed(a) - lastUsed(b))[0];
+    }
+    case 'weighted': {
+      const totalWeight = available.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+      if (totalWeight <= 0) return available[0];
+      let target = Math.random() * totalWeight;
+      for (const entry of available) {
+        target -= Math.max(0, entry.weight);
+        if (target < 0) return entry;
+      }
+      return available[available.length - 1];
+    }
+    default: {
+      const cursor = roundRobinCursors.get(channel.id) || 0;
+      roundRobinCursors.set(channel.id, cursor + 1);
+      return available[cursor % available.length];
+    }
+  }
+};
+
+/**
+ * 记录一次请求的结果：401/403 与 429 的密钥进入冷却。服务商给出 Retry-After 时，限流冷却至少持续该时长。
+ */
+export const recordApiKeyResult = (
+  channelId: string,
+  keyId: string,
+  outcome: ApiKeyOutcome,
+  errorMessage?: string,
+  retryAfterMs?: number
+) => {
+  const now = new Date();
+  updateApiKeyStats(channelId, keyId, stats => {
+    const updated: ApiKeyUsageStats = { ...stats, requests: stats.requests + 1, lastUsedAt: now.toISOString() };
+    if (outcome === 'success') return updated;
+
+    updated.failures = stats.failures + 1;
+    updated.lastError = errorMessage;
+    if (outcome === 'auth-error') {
+      updated.benchedUntil = new Date(now.getTime() + API_KEY_AUTH_COOLDOWN_MS).toISOString();
+      updated.benchReason = 'auth';
+    } else if (outcome === 'rate-limited') {
+      updated.rateLimitedCount = stats.rateLimitedCount + 1;
+      updated.lastRateLimitedAt = now.toISOString();
+      updated.benchedUntil = new Date(now.getTime() + Math.max(API_KEY_RATE_LIMIT_COOLDOWN_MS, retryAfterMs || 0)).toISOString();
+      updated.benchReason = 'rate-limit';
+    }
+    return updated;
+  });
+};
+
+/**
+ * 手动结束密钥的冷却
+ */
+export const resetApiKeyCooldown = (channelId: string, keyId: string) => {
+  updateApiKeyStats(channelId, keyId, stats => ({ ...stats, benchedUntil: undefined, benchReason: undefined }));
+};
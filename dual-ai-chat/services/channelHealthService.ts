@@ -0,0 +1,144 @@
+import { ChannelHealthState, ChannelRequestRecord } from '../types';
+import {
+  CHANNEL_HEALTH_HISTORY_SIZE,
+  CHANNEL_HEALTH_STORAGE_KEY,
+  CIRCUIT_BREAKER_COOLDOWN_MS,
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+} from '../constants';
+
+// 跨组件同步事件（同窗口内 localStorage 不会触发 storage 事件）
+export const CHANNEL_HEALTH_UPDATED_EVENT = 'channel-health-updated';
+
+export interface ChannelRequestOutcome {
+  success: boolean;
+  latencyMs: number;
+  firstTokenMs?: number;
+  error?: string;
+  countsTowardCircuit?: boolean; // 失败是否由渠道本身引起（超时、网络、服务端错误），只有这类失败会触发熔断
+}
+
+// 渠道健康概况，由最近的请求记录计算
+export interface ChannelHealthSummary {
+  total: number;
+  successRate: number | null; // 0-1，无记录时为 null
+  p50LatencyMs?: number;
+  p95LatencyMs?: number;
+  p50FirstTokenMs?: number;
+  lastError?: { message: string; at: string };
+  circuitOpen: boolean;
+  circuitOpenUntil?: string;
+  consecutiveFailures: number;
+}
+
+const emptyHealth = (): ChannelHealthState => ({ records: [], consecutiveFailures: 0 });
+
+export const loadChannelHealth = (): Record<string, ChannelHealthState> => {
+  try {
+    const stored = localStorage.getItem(CHANNEL_HEALTH_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('加载渠道健康记录失败:', error);
+    return {};
+  }
+};
+
+const saveChannelHealth = (health: Record<string, ChannelHealthState>) => {
+  try {
+    localStorage.setItem(CHANNEL_HEALTH_STORAGE_KEY, JSON.stringify(health));
+    window.dispatchEvent(new CustomEvent(CHANNEL_HEALTH_UPDATED_EVENT));
+  } catch (error) {
+    console.error('保存渠道健康记录失败:', error);
+  }
+};
+
+const updateChannelHealth = (channelId: string, update: (state: ChannelHealthState) => ChannelHealthState) => {
+  const allHealth = loadChannelHealth();
+  allHealth[channelId] = update(allHealth[channelId] || emptyHealth());
+  saveChannelHealth(allHealth);
+};
+
+export const getChannelHealth = (allHealth: Record<string, ChannelHealthState>, channelId: string): ChannelHealthState =>
+  allHealth[channelId] || emptyHealth();
+
+export const isCircuitOpen = (state: ChannelHealthState, now = Date.now()): boolean =>
+  !!state.circuitOpenUntil && new Date(state.circuitOpenUntil).getTime() > now;
+
+/**
+ * 渠道当前是否处于熔断状态（路由时读取最新记录）
+ */
+export const isChannelCircuitOpen = (channelId: string): boolean =>
+  isCircuitOpen(getChannelHealth(loadChannelHealth(), channelId));
+
+/**
+ * 记录一次请求结果。连续失败达到阈值后熔断；熔断结束后的第一次请求用于试探，
+ * 再次失败时立即重新熔断，成功则恢复正常。
+ */
+export const recordChannelRequest = (channelId: string, outcome: ChannelRequestOutcome) => {
+  const now = new Date();
+  updateChannelHealth(channelId, state => {
+    const record: ChannelRequestRecord = {
+      at: now.toISOString(),
+      success: outcome.success,
+      latencyMs: Math.round(outcome.latencyMs),
+      firstTokenMs: outcome.firstTokenMs !== undefined ? Math.round(outcome.firstTokenMs) : undefined,
+      error: outcome.error,
+    };
+    const updated: ChannelHealthState = { ...state, records: [...state.records, record].slice(-CHANNEL_HEALTH_HISTORY_SIZE) };
+    if (outcome.success) {
+      updated.consecutiveFailures = 0;
+      updated.circuitOpenUntil = undefined;
+      return updated;
+    }
+
+    updated.lastError = { message: outcome.error || '未知错误', at: record.at };
+    if (outcome.countsTowardCircuit) {
+      updated.consecutiveFailures = state.consecutiveFailures + 1;
+      if (updated.consecutiveFailures >= CIRCUIT_BREAKER_FAILURE_THRESHOLD) {
+        updated.circuitOpenUntil = new Date(now.getTime() + CIRCUIT_BREAKER_COOLDOWN_MS).toISOString();
+      }
+    }
+    return updated;
+  });
+};
+
+/**
+ * 手动解除渠道的熔断
+ */
+export const resetChannelCircuit = (channelId: string) => {
+  updateChannelHealth(channelId, state => ({ ...state, consecutiveFailures: 0, circuitOpenUntil: undefined }));
+};
+
+/**
+ * 清空渠道的请求历史
+ */
+export const clearChannelHealth = (channelId: string) => {
+  const allHealth = loadChannelHealth();
+  if (!allHealth[channelId]) return;
+  delete allHealth[channelId];
+  saveChannelHealth(allHealth);
+};
+
+const percentile = (values: number[], p: number): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+};
+
+export const summarizeChannelHealth = (state: ChannelHealthState, now = Date.now()): ChannelHealthSummary => {
+  const successes = state.records.filter(record => record.success);
+  const latencies = successes.map(record => record.latencyMs);
+  const firstTokenTimes = successes
+    .map(record => record.firstTokenMs)
+    .filter((value): value is number => value !== undefined);
+  return {
+    total: state.records.length,
+    successRate: state.records.length > 0 ? successes.length / state.records.length : null,
+    p50LatencyMs: percentile(latencies, 0.5),
+    p95LatencyMs: percentile(latencies, 0.95),
+    p50FirstTokenMs: percentile(firstTokenTimes, 0.5),
+    lastError: state.lastError,
+    circuitOpen: isCircuitOpen(state, now),
+    circuitOpenUntil: state.circuitOpenUntil,
+    consecutiveFailures: state.consecutiveFailures,
+  };
+};
@@ -0,0 +1,173 @@
+import { ApiChannel, ApiChannelRequestLimits } from '../types';
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+export type ChannelQueueBlockReason = 'concurrency' | 'requests' | 'tokens';
+
+// 渠道队列状态，供界面显示排队中的请求
+export interface ChannelQueueStatus {
+  channelId: string;
+  channelName: string;
+  active: number;
+  waiting: number;
+  blockedBy?: ChannelQueueBlockReason;
+  resumeAt?: number; // 受速率限制时，预计可以继续发送的时间
+}
+
+// 已获得的请求名额；请求结束时调用 release，并计入响应的 token 数
+export interface ChannelRequestSlot {
+  release: (outputTokens?: number) => void;
+}
+
+interface QueueWaiter {
+  tokens: number;
+  start: () => void;
+  cancel: () => void;
+}
+
+interface ChannelQueue {
+  channelName: string;
+  limits: ApiChannelRequestLimits;
+  active: number;
+  log: { at: number; tokens: number }[]; // 最近一分钟内发出的请求
+  waiters: QueueWaiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+  blockedBy?: ChannelQueueBlockReason;
+  resumeAt?: number;
+}
+
+export const hasRequestLimits = (limits?: ApiChannelRequestLimits): limits is ApiChannelRequestLimits =>
+  !!limits && !!(limits.maxConcurrent || limits.requestsPerMinute || limits.tokensPerMinute);
+
+const createAbortError = () => {
+  const error = new Error('请求被中断');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * 按渠道限制并发数、每分钟请求数与每分钟 token 数。超出限制的请求按先后顺序排队，而不是直接发出后收到 429。
+ */
+class ChannelRequestScheduler {
+  private queues = new Map<string, ChannelQueue>();
+  private listeners = new Set<() => void>();
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): ChannelQueueStatus[] {
+    return [...this.queues.entries()]
+      .filter(([, queue]) => queue.active > 0 || queue.waiters.length > 0)
+      .map(([channelId, queue]) => ({
+        channelId,
+        channelName: queue.channelName,
+        active: queue.active,
+        waiting: queue.waiters.length,
+        blockedBy: queue.waiters.length > 0 ? queue.blockedBy : undefined,
+        resumeAt: queue.waiters.length > 0 ? queue.resumeAt : undefined,
+      }));
+  }
+
+  /**
+   * 等待渠道的请求名额。未设置限制的渠道立即返回；排队期间 signal 中断时以 AbortError 拒绝。
+   */
+  acquire(channel: ApiChannel, estimatedTokens: number, signal?: AbortSignal): Promise<ChannelRequestSlot> {
+    if (!hasRequestLimits(channel.requestLimits)) {
+      return Promise.resolve({ release: () => {} });
+    }
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    const queue = this.getQueue(channel);
+    return new Promise((resolve, reject) => {
+      const onAbort = () => waiter.cancel();
+      const waiter: QueueWaiter = {
+        tokens: estimatedTokens,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          const entry = { at: Date.now(), tokens: estimatedTokens };
+          queue.active++;
+          queue.log.push(entry);
+          let released = false;
+          resolve({
+            release: (outputTokens = 0) => {
+              if (released) return;
+              released = true;
+              queue.active--;
+              entry.tokens += outputTokens;
+              this.pump(channel.id);
+            },
+          });
+        },
+        cancel: () => {
+          signal?.removeEventListener('abort', onAbort);
+          queue.waiters = queue.waiters.filter(w => w !== waiter);
+          reject(createAbortError());
+          this.pump(channel.id);
+        },
+      };
+      signal?.addEventListener('abort', onAbort);
+      queue.waiters.push(waiter);
+      this.pump(channel.id);
+    });
+  }
+
+  private getQueue(channel: ApiChannel): ChannelQueue {
+    let queue = this.queues.get(channel.id);
+    if (!queue) {
+      queue = { channelName: channel.name, limits: {}, active: 0, log: [], waiters: [], timer: null };
+      this.queues.set(channel.id, queue);
+    }
+    // 使用最新的渠道配置（设置可能在排队期间修改）
+    queue.channelName = channel.name;
+    queue.limits = channel.requestLimits || {};
+    return queue;
+  }
+
+  // 按先后顺序放行排队的请求，受速率限制时在最早的记录移出时间窗口后再次检查
+  private pump(channelId: string): void {
+    const queue = this.queues.get(channelId);
+    if (!queue) return;
+    if (queue.timer) {
+      clearTimeout(queue.timer);
+      queue.timer = null;
+    }
+
+    const { maxConcurrent, requestsPerMinute, tokensPerMinute } = queue.limits;
+    queue.blockedBy = undefined;
+    queue.resumeAt = undefined;
+
+    while (queue.waiters.length > 0) {
+      const now = Date.now();
+      queue.log = queue.log.filter(entry => now - entry.at < RATE_WINDOW_MS);
+      const waiter = queue.waiters[0];
+      const usedTokens = queue.log.reduce((sum, entry) => sum + entry.tokens, 0);
+
+      if (maxConcurrent && queue.active >= maxConcurrent) {
+        queue.blockedBy = 'concurrency';
+        break;
+      }
+      if (requestsPerMinute && queue.log.length >= requestsPerMinute) {
+        queue.blockedBy = 'requests';
+      } else if (tokensPerMinute && queue.log.length > 0 && usedTokens + waiter.tokens > tokensPerMinute) {
+        // 窗口内没有其他请求时允许单个超过上限的请求，避免永远无法发出
+        queue.blockedBy = 'tokens';
+      }
+      if (queue.blockedBy) {
+        queue.resumeAt = queue.log[0].at + RATE_WINDOW_MS;
+        queue.timer = setTimeout(() => this.pump(channelId), Math.max(0, queue.resumeAt - now) + 10);
+        break;
+      }
+
+      queue.waiters.shift();
+      waiter.start();
+    }
+
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const channelRequestScheduler = new ChannelRequestScheduler();
@@ -0,0 +1,1621 @@
+import {
+  AgentToolCallRequest,
+  AgentToolExchange,
+  AgentToolRequestOptions,
+  ApiChannel,
+  ApiChannelOverride,
+  ChatMessage,
+  DiscussionBudget,
+  DiscussionMode,
+  DiscussionPhase,
+  DiscussionProtocol,
+  DiscussionRouteDecision,
+  FailedStepPayload,
+  MessageChannelInfo,
+  MessagePurpose,
+  NotepadAction,
+  MessageSender,
+  ModeratorVerdict,
+  StructuredAnswer,
+  StructuredOutputSpec,
+  ToolCallRecord
+} from '../types';
+import { generateResponse as generateGeminiResponse, generateStreamResponse as generateGeminiStreamResponse } from './geminiService';
+import { generateOpenAiResponse, generateOpenAiStreamResponse } from './openaiService';
+import { ApiChannelService } from './apiChannelService';
+import { isChannelCircuitOpen } from './channelHealthService';
+import { getChannelApiKeys, hasUsableApiKey } from './apiKeyPoolService';
+import { AuthenticationError, ProviderError, TransientProviderError, describeProviderError, providerErrorFromException } from './providerErrors';
+import {
+  AgentToolkit,
+  buildTextToolProtocolPrompt,
+  executeAgentToolCall,
+  formatToolExchangesForPrompt,
+  parseTextToolCalls,
+  toToolDeclarations
+} from './agentTools';
+import { NOTEPAD_FUNCTION_DECLARATIONS, isNotepadFunctionCall, notepadActionFromCall } from '../utils/notepadFunctions';
+import {
+  AiModel,
+  NOTEPAD_INSTRUCTION_PROMPT_PART,
+  NOTEPAD_FUNCTION_INSTRUCTION_PROMPT_PART,
+  DISCUSSION_COMPLETE_TAG,
+  AI_DRIVEN_DISCUSSION_INSTRUCTION_PROMPT_PART,
+  MAX_AUTO_RETRIES,
+  RETRY_DELAY_BASE_MS,
+  MAX_RETRY_DELAY_MS,
+  THINKING_BUDGET_CONFIG_HIGH_QUALITY,
+  THINKING_BUDGET_CONFIG_PRO_HIGH_QUALITY,
+  GEMINI_PRO_MODEL_ID,
+  GEMINI_2_5_PRO_PREVIEW_05_06_MODEL_ID,
+  MODERATOR_VERDICT_PROMPT,
+  REPETITION_SIMILARITY_THRESHOLD,
+  MAX_REPETITIONS_BEFORE_EARLY_END,
+  DISAGREEMENT_EXTENSION_THRESHOLD,
+  DISCUSSION_EXTENSION_TURNS,
+  MAX_DISCUSSION_EXTENSIONS,
+  EXTENSION_OFFER_TIMEOUT_MS,
+  REPETITION_NUDGE_PROMPT,
+  MAX_STRUCTURED_ANSWER_REPAIR_ROUNDS,
+  MAX_TOOL_ROUNDS_PER_STEP
+} from '../constants';
+import {
+  applyNotepadModifications,
+  formatNotepadContentForAI,
+  generateUniqueId,
+  getStreamingDisplayText,
+  parseAIResponse,
+  ParsedAIResponse
+} from '../utils/appUtils';
+import { ResolvedParticipant, buildAgentInfo, joinParticipantNames } from '../utils/participants';
+import { getExecutablePhases, resolvePhaseSpeakers, phaseUsesConsensus, getPhaseTurnLimit } from '../utils/discussionProtocols';
+import { buildModeratorGuidance, formatModeratorVerdict, parseModeratorVerdict } from '../utils/moderator';
+import { estimateDisagreement, findMostSimilarEntry, formatPercent } from '../utils/convergence';
+import { formatRouteDecision } from '../utils/discussionRouting';
+import { BudgetExhaustion, DiscussionUsage, estimateCostUsd, estimateTokenCount, findExhaustedBudget, hasBudgetLimits } from '../utils/discussionBudget';
+import {
+  buildStructuredAnswerInstructions,
+  buildStructuredAnswerRepairPrompt,
+  formatStructuredAnswerForNotepad,
+  validateStructuredAnswerText
+} from '../utils/structuredAnswer';
+
+export type ImageApiPart = { inlineData: { mimeType: string; data: string } };
+
+// 未配置渠道时直接调用 Gemini / OpenAI 服务所需的旧版配置
+export interface DiscussionFallbackConfig {
+  useCustomApiConfig: boolean;
+  customApiKey: string;
+  customApiEndpoint: string;
+  useOpenAiApiConfig: boolean;
+  openAiApiKey: string;
+  openAiApiBaseUrl: string;
+}
+
+export interface DiscussionEngineOptions {
+  participants: ResolvedParticipant[]; // 第一个为主导者
+  moderator?: ResolvedParticipant | null; // 主持人：在“全员同意结束”的阶段中每轮评估是否继续
+  protocol: DiscussionProtocol;
+  discussionMode: DiscussionMode;
+  manualFixedTurns: number;
+  temperature: number;
+  isThinkingBudgetActive: boolean;
+  streamMode: boolean; // 逐字流式返回每个发言步骤
+  channels: ApiChannel[];
+  defaultChannelId?: string | null;
+  sessionChannelId?: string;
+  sessionChannelOverride?: ApiChannelOverride;
+  fallbackConfig: DiscussionFallbackConfig;
+  notepadContent: string;
+  messageHistory: ChatMessage[]; // 本次讨论之前的对话历史
+  budget?: DiscussionBudget; // 预算即将用尽时提前进入最终答案
+  structuredAnswer?: StructuredOutputSpec | null; // 最终答案按 JSON Schema 输出
+  tools?: AgentToolkit | null; // 发言者在发言过程中可调用的工具
+}
+
+/**
+ * 讨论流程的位置信息，用于首次执行以及失败重试后的续跑（可序列化）
+ */
+export interface DiscussionRunState {
+  userInput: string;
+  imageApiPart?: ImageApiPart;
+  discussionLog: string[];
+  phaseIndex: number; // 当前协议阶段
+  turn: number; // 阶段内的轮次
+  speakerIndex: number; // 在本轮发言顺序中的位置
+  consecutiveStopSignals: number; // 连续建议结束讨论的参与者数量
+  moderatorGuidance?: string; // 主持人对下一轮的引导
+  pendingParallelSpeakerIds?: string[]; // 并行轮次中尚未完成的参与者（续跑时只执行这些参与者）
+  route?: DiscussionRouteDecision; // 自适应路由的结果（为空表示按协议进行全员讨论）
+}
+
+/**
+ * 发言步骤开始前的检查点：流程位置以及尚未生效的用户控制（可序列化，用于页面重载后续跑）
+ */
+export interface DiscussionCheckpoint {
+  state: DiscussionRunState;
+  pendingSteeringNotes: string[];
+  finalAnswerRequested: boolean;
+}
+
+/**
+ * 由失败步骤恢复讨论流程的位置
+ */
+export const runStateFromFailedStep = (failedStep: FailedStepPayload): DiscussionRunState => ({
+  userInput: failedStep.userInputForFlow,
+  imageApiPart: failedStep.imageApiPartForFlow,
+  discussionLog: failedStep.discussionLogBeforeFailure || [],
+  phaseIndex: failedStep.phaseIndexForResume ?? 0,
+  turn: failedStep.currentTurnIndexForResume ?? 0,
+  speakerIndex: failedStep.speakerIndexForResume ?? 0,
+  consecutiveStopSignals: failedStep.consecutiveStopSignalsForResume ?? (failedStep.previousAISignaledStopForResume ? 1 : 0),
+  moderatorGuidance: failedStep.moderatorGuidanceForResume,
+  pendingParallelSpeakerIds: failedStep.pendingParallelSpeakerIdsForResume,
+  route: failedStep.routeForResume,
+});
+
+// 当前正在进行的协议阶段
+export interface DiscussionPhaseProgress {
+  name: string;
+  index: number;
+  total: number;
+  turnLimit?: number; // 为空表示直到全员同意结束
+  isFinal: boolean;
+}
+
+// 固定轮数用完但分歧仍较大时，询问用户是否追加讨论
+export interface DiscussionExtensionOffer {
+  phaseName: string;
+  disagreement: number; // 最后一轮的分歧度（0-1）
+  extraTurns: number;
+  timeoutMs: number; // 超时未回应视为不追加
+}
+
+export interface DiscussionStepInfo {
+  stepIdentifier: string;
+  participant: ResolvedParticipant;
+  purpose: MessagePurpose;
+  addressee?: string;
+  phase: DiscussionPhaseProgress;
+  turn: number;
+  parallelGroupId?: string; // 并行轮次中的发言步骤
+}
+
+export interface ApiKeyStatusUpdate {
+  isMissing?: boolean;
+  isInvalid?: boolean;
+  message?: string;
+}
+
+export type DiscussionRunStatus = 'completed' | 'cancelled' | 'failed';
+
+export interface DiscussionRunResult {
+  status: DiscussionRunStatus;
+  completedTurns: number; // 仅统计多人发言的阶段
+  discussionLog: string[];
+  notepadContent: string;
+  error?: Error;
+}
+
+export type DiscussionEngineEvent =
+  | { type: 'step-started'; step: DiscussionStepInfo }
+  | { type: 'chunk'; step: DiscussionStepInfo; text: string; accumulatedText: string; displayText: string }
+  | { type: 'step-completed'; step: DiscussionStepInfo; message: ChatMessage; parsed: ParsedAIResponse }
+  | { type: 'moderator-verdict'; step: DiscussionStepInfo; message: ChatMessage; verdict: ModeratorVerdict }
+  | { type: 'notepad-updated'; step: DiscussionStepInfo; content: string; author: MessageSender }
+  | { type: 'tool-called'; step: DiscussionStepInfo; record: ToolCallRecord }
+  | { type: 'notification'; text: string }
+  | { type: 'pause-changed'; paused: boolean }
+  | { type: 'checkpoint'; checkpoint: DiscussionCheckpoint }
+  | { type: 'usage-updated'; usage: DiscussionUsage }
+  | { type: 'extension-offered'; offer: DiscussionExtensionOffer }
+  | { type: 'extension-resolved'; accepted: boolean }
+  | { type: 'api-key-status'; status: ApiKeyStatusUpdate }
+  | { type: 'failed'; error: Error; message?: string; failedStep?: FailedStepInfo }
+  | { type: 'finished'; result: DiscussionRunResult };
+
+export type DiscussionEngineListener = (event: DiscussionEngineEvent) => void;
+
+type NotepadFunctionEdits = { actions: NotepadAction[]; errors: string[] };
+type StepCompletionResult = {
+  text: string;
+  durationMs: number;
+  error?: string;
+  requestDetails?: any;
+  responseBody?: any;
+  toolCalls?: AgentToolCallRequest[];
+  notepadEdits?: NotepadFunctionEdits; // 通过函数调用提交的记事本操作
+  channel?: MessageChannelInfo; // 给出回复的渠道
+  providerError?: ProviderError; // 请求失败时的类型化错误
+};
+
+type StreamCallbacks = {
+  onChunk: (chunk: string) => void;
+  onComplete: (fullText: string, durationMs: number) => void;
+  onError: (error: string, errorType: string, durationMs: number, requestDetails?: any, responseBody?: any, providerError?: ProviderError) => void;
+};
+
+type FailedStepInfo = Omit<FailedStepPayload, 'originalSystemErrorMsgId'>;
+
+// 步骤在自动重试后仍然失败，携带用于手动重试的步骤信息（由 execute 统一发出 failed 事件）
+class DiscussionStepError extends Error {
+  constructor(
+    message: string,
+    readonly originalError: Error,
+    readonly failedStep: FailedStepInfo
+  ) {
+    super(message);
+  }
+}
+
+const CANCELLED_MESSAGE = "用户取消操作";
+
+// 指数退避加随机抖动（避免多个参与者同时重试）；服务商给出 Retry-After 时至少等待该时长
+const getRetryDelayMs = (attempt: number, error?: ProviderError): number => {
+  const backoff = Math.min(MAX_RETRY_DELAY_MS, RETRY_DELAY_BASE_MS * 2 ** attempt);
+  const jittered = backoff / 2 + Math.random() * backoff / 2;
+  return Math.max(jittered, error?.retryAfterMs || 0);
+};
+
+// 与 useApiChannels.getDefaultChannel 一致的默认渠道选择规则
+const selectDefaultChannel = (channels: ApiChannel[], defaultChannelId?: string | null): ApiChannel | null => {
+  if (defaultChannelId) {
+    const channel = channels.find(c => c.id === defaultChannelId && c.enabled !== false);
+    if (channel) return channel;
+  }
+  return channels.find(c => c.isDefault && c.enabled !== false)
+    || channels.find(c => c.enabled !== false)
+    || null;
+};
+
+/**
+ * 无界面依赖的讨论引擎：按讨论协议编排参与者发言，并通过事件报告进度。
+ * 可在 React 之外（脚本、Worker、服务端）运行同一套讨论流程。
+ */
+export class DiscussionEngine {
+  private options: DiscussionEngineOptions;
+  private listeners = new Set<DiscussionEngineListener>();
+  private notepadContent: string;
+  private cancelled = false;
+  private running = false;
+  private pendingStreamAborts = new Set<() => void>(); // 并行阶段可能同时存在多个流
+  private abortController = new AbortController(); // 取消时中断所有进行中的网络请求
+  // 用户在讨论进行中的控制：在每个发言步骤开始前生效
+  private pauseRequested = false;
+  private pauseWaiters: (() => void)[] = [];
+  private pendingSteeringNotes: string[] = [];
+  private skipNextRequested = false;
+  private finalAnswerRequested = false;
+  // 预算统计：每次调用的输入按提示词、系统指令与对话历史估算
+  private readonly historyTokens: number;
+  private usedTokens = 0;
+  private completedCalls = 0;
+  private startedAt = Date.now();
+  private budgetExhaustion: BudgetExhaustion | null = null;
+  // 收敛检测：连续重复的发言次数（大于 0 时提示后续发言者提出新观点），以及等待回应的追加讨论询问
+  private repetitionStreak = 0;
+  private extensionResolver: ((accepted: boolean) => void) | null = null;
+
+  constructor(options: DiscussionEngineOptions) {
+    this.options = options;
+    this.notepadContent = options.notepadContent;
+    this.historyTokens = estimateTokenCount(options.messageHistory.map(message => message.text).join('\n'));
+  }
+
+  subscribe(listener: DiscussionEngineListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  get isPaused(): boolean {
+    return this.pauseRequested;
+  }
+
+  getNotepadContent(): string {
+    return this.notepadContent;
+  }
+
+  getUsage(): DiscussionUsage {
+    return {
+      tokens: this.usedTokens,
+      elapsedMs: Date.now() - this.startedAt,
+      costUsd: this.options.budget ? estimateCostUsd(this.usedTokens, this.options.budget) : 0,
+      steps: this.completedCalls,
+    };
+  }
+
+  /**
+   * 请求取消：立即中断进行中的请求，不再继续后续步骤
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.abortController.abort();
+    this.pendingStreamAborts.forEach(abort => abort());
+    this.releasePauseWaiters();
+    this.extensionResolver?.(false);
+  }
+
+  /**
+   * 在当前发言结束后暂停，直到调用 resumePaused 或 requestFinalAnswer
+   */
+  pause(): void {
+    if (!this.running || this.pauseRequested) return;
+    this.pauseRequested = true;
+    this.notify('讨论将在当前发言结束后暂停。');
+  }
+
+  resumePaused(): void {
+    if (!this.pauseRequested) return;
+    this.pauseRequested = false;
+    this.releasePauseWaiters();
+  }
+
+  /**
+   * 插入用户引导，写入下一位发言者的提示词
+   */
+  addSteeringNote(note: string): void {
+    const trimmed = note.trim();
+    if (trimmed) this.pendingSteeringNotes.push(trimmed);
+  }
+
+  skipNextSpeaker(): void {
+    if (!this.running) return;
+    this.skipNextRequested = true;
+    this.notify('将跳过下一位发言者。');
+  }
+
+  /**
+   * 结束剩余的讨论阶段，直接生成最终答案（暂停中也会立即继续）
+   */
+  requestFinalAnswer(): void {
+    if (!this.running || this.finalAnswerRequested) return;
+    this.finalAnswerRequested = true;
+    this.notify('已按用户要求结束讨论，将直接生成最终答案。');
+    this.resumePaused();
+    this.extensionResolver?.(false);
+  }
+
+  /**
+   * 回应追加讨论的询问（见 extension-offered 事件）
+   */
+  respondToExtensionOffer(accepted: boolean): void {
+    this.extensionResolver?.(accepted);
+  }
+
+  /**
+   * 针对用户输入从头执行一次讨论；route 决定由谁参与（见 DiscussionRouteDecision）
+   */
+  run(userInput: string, imageApiPart?: ImageApiPart, route?: DiscussionRouteDecision): Promise<DiscussionRunResult> {
+    if (route) {
+      this.notify(`[路由] ${formatRouteDecision(route)}`);
+    }
+    return this.execute({
+      userInput,
+      imageApiPart,
+      discussionLog: [],
+      phaseIndex: 0,
+      turn: 0,
+      speakerIndex: 0,
+      consecutiveStopSignals: 0,
+      route,
+    });
+  }
+
+  /**
+   * 从失败的步骤处续跑：失败步骤使用原提示词手动重试一次
+   */
+  resume(failedStep: FailedStepPayload): Promise<DiscussionRunResult> {
+    return this.execute(runStateFromFailedStep(failedStep), failedStep);
+  }
+
+  /**
+   * 从检查点续跑（例如页面重载后）：检查点所在的步骤重新执行
+   */
+  continueFrom(checkpoint: DiscussionCheckpoint): Promise<DiscussionRunResult> {
+    this.pendingSteeringNotes = [...checkpoint.pendingSteeringNotes, ...this.pendingSteeringNotes];
+    this.finalAnswerRequested = this.finalAnswerRequested || checkpoint.finalAnswerRequested;
+    return this.execute(checkpoint.state);
+  }
+
+  private releasePauseWaiters(): void {
+    const waiters = this.pauseWaiters;
+    this.pauseWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  // 每个发言步骤开始前的检查点：处理暂停请求
+  private async waitIfPaused(): Promise<void> {
+    if (!this.pauseRequested) return;
+    this.emit({ type: 'pause-changed', paused: true });
+    this.notify('讨论已暂停。');
+    while (this.pauseRequested && !this.cancelled) {
+      await new Promise<void>(resolve => this.pauseWaiters.push(resolve));
+    }
+    this.throwIfCancelled();
+    this.emit({ type: 'pause-changed', paused: false });
+    this.notify('讨论已继续。');
+  }
+
+  // 取出尚未使用的用户引导，写入提示词
+  private takeSteeringNotes(): string {
+    const notes = this.pendingSteeringNotes;
+    this.pendingSteeringNotes = [];
+    return notes.length > 0 ? `\n用户在讨论过程中给出的引导 (请优先遵循):\n${notes.map(note => `- ${note}`).join('\n')}` : '';
+  }
+
+  private takeSkipRequest(): boolean {
+    const requested = this.skipNextRequested;
+    this.skipNextRequested = false;
+    return requested;
+  }
+
+  private emit(event: DiscussionEngineEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('讨论引擎事件处理失败:', error);
+      }
+    });
+  }
+
+  private recordUsage(input: string, output: string): void {
+    this.usedTokens += this.historyTokens + estimateTokenCount(input) + estimateTokenCount(output);
+    this.completedCalls += 1;
+    this.emit({ type: 'usage-updated', usage: this.getUsage() });
+  }
+
+  /**
+   * 预算即将用尽（预留接下来 upcomingCalls 次调用，含最终答案）时结束讨论，转入最终答案
+   */
+  private checkBudget(upcomingCalls: number): boolean {
+    const { budget } = this.options;
+    if (this.finalAnswerRequested || !budget || !hasBudgetLimits(budget)) return this.finalAnswerRequested;
+    const exhaustion = findExhaustedBudget(budget, this.getUsage(), upcomingCalls);
+    if (!exhaustion) return false;
+    this.budgetExhaustion = exhaustion;
+    this.finalAnswerRequested = true;
+    this.notify(`即将超出${exhaustion.description}，停止讨论并直接生成最终答案。`);
+    return true;
+  }
+
+  /**
+   * 将新发言与此前的讨论记录比较：重复时提醒后续发言者，提醒后仍持续重复则返回 true 以提前结束当前阶段
+   */
+  private assessRepetition(participant: ResolvedParticipant, text: string, earlierEntries: string[], phaseName: string): boolean {
+    const match = findMostSimilarEntry(text, earlierEntries);
+    if (!match || match.similarity < REPETITION_SIMILARITY_THRESHOLD) {
+      this.repetitionStreak = 0;
+      return false;
+    }
+
+    this.repetitionStreak += 1;
+    if (this.repetitionStreak >= MAX_REPETITIONS_BEFORE_EARLY_END) {
+      this.notify(`[收敛检测] ${participant.displayName} 的发言与此前内容相似度 ${formatPercent(match.similarity)}，已连续 ${this.repetitionStreak} 次重复，提前结束「${phaseName}」阶段。`);
+      this.repetitionStreak = 0;
+      return true;
+    }
+    this.notify(`[收敛检测] ${participant.displayName} 的发言与此前内容相似度 ${formatPercent(match.similarity)}，已提醒后续发言者提出新观点。`);
+    return false;
+  }
+
+  /**
+   * 固定轮数用完时评估最后一轮的分歧度，分歧仍较大则询问是否追加讨论（超时视为不追加）。
+   * 没有订阅者时无人能回应询问，直接结束本阶段。
+   */
+  private async offerExtension(phaseName: string, roundEntries: string[], earlierEntries: string[]): Promise<boolean> {
+    if (this.finalAnswerRequested || this.cancelled || roundEntries.length < 2 || this.listeners.size === 0) return false;
+    const disagreement = estimateDisagreement(roundEntries, earlierEntries);
+    if (disagreement < DISAGREEMENT_EXTENSION_THRESHOLD) {
+      this.notify(`[收敛检测] 「${phaseName}」已达到固定轮数，最后一轮分歧度 ${formatPercent(disagreement)}，结束本阶段。`);
+      return false;
+    }
+
+    this.notify(`[收敛检测] 「${phaseName}」已达到固定轮数，但最后一轮分歧度仍为 ${formatPercent(disagreement)}，可选择追加 ${DISCUSSION_EXTENSION_TURNS} 轮讨论。`);
+    const accepted = await new Promise<boolean>(resolve => {
+      const timer = setTimeout(() => finish(false), EXTENSION_OFFER_TIMEOUT_MS);
+      const finish = (value: boolean) => {
+        clearTimeout(timer);
+        this.extensionResolver = null;
+        resolve(value);
+      };
+      this.extensionResolver = finish;
+      this.emit({
+        type: 'extension-offered',
+        offer: { phaseName, disagreement, extraTurns: DISCUSSION_EXTENSION_TURNS, timeoutMs: EXTENSION_OFFER_TIMEOUT_MS },
+      });
+    });
+    this.emit({ type: 'extension-resolved', accepted });
+    this.throwIfCancelled();
+    this.notify(accepted
+      ? `[收敛检测] 已追加 ${DISCUSSION_EXTENSION_TURNS} 轮「${phaseName}」讨论。`
+      : `[收敛检测] 未追加讨论，结束「${phaseName}」阶段。`);
+    return accepted;
+  }
+
+  private emitCheckpoint(state: DiscussionRunState): void {
+    this.emit({
+      type: 'checkpoint',
+      checkpoint: {
+        state: {
+          ...state,
+          discussionLog: [...state.discussionLog],
+          pendingParallelSpeakerIds: state.pendingParallelSpeakerIds ? [...state.pendingParallelSpeakerIds] : undefined,
+        },
+        pendingSteeringNotes: [...this.pendingSteeringNotes],
+        finalAnswerRequested: this.finalAnswerRequested,
+      },
+    });
+  }
+
+  private notify(text: string): void {
+    this.emit({ type: 'notification', text });
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancelled) throw new Error(CANCELLED_MESSAGE);
+  }
+
+  // 可被停止操作提前结束的等待
+  private sleep(ms: number): Promise<void> {
+    const signal = this.abortController.signal;
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private async execute(initialState: DiscussionRunState, retryPayload?: FailedStepPayload): Promise<DiscussionRunResult> {
+    if (this.running) throw new Error("讨论正在进行中");
+    this.running = true;
+    this.cancelled = false;
+    this.abortController = new AbortController();
+    if (retryPayload) {
+      this.pendingSteeringNotes = [...(retryPayload.pendingSteeringNotesForResume || []), ...this.pendingSteeringNotes];
+      this.finalAnswerRequested = this.finalAnswerRequested || !!retryPayload.finalAnswerRequestedForResume;
+    }
+
+    const state: DiscussionRunState = { ...initialState, discussionLog: [...initialState.discussionLog] };
+    this.startedAt = Date.now();
+    let result: DiscussionRunResult;
+
+    try {
+      const completedTurns = await this.runFlow(state, initialState, retryPayload);
+      result = { status: 'completed', completedTurns, discussionLog: state.discussionLog, notepadContent: this.notepadContent };
+    } catch (e) {
+      const error = e as Error;
+      if (this.cancelled) {
+        result = { status: 'cancelled', completedTurns: 0, discussionLog: state.discussionLog, notepadContent: this.notepadContent };
+      } else {
+        if (error instanceof DiscussionStepError) {
+          this.emit({ type: 'failed', error: error.originalError, message: error.message, failedStep: error.failedStep });
+        } else {
+          // 密钥问题已通过 api-key-status 事件提示
+          this.emit({ type: 'failed', error, message: error instanceof AuthenticationError ? undefined : `错误: ${error.message}` });
+        }
+        result = { status: 'failed', completedTurns: 0, discussionLog: state.discussionLog, notepadContent: this.notepadContent, error };
+      }
+    } finally {
+      this.running = false;
+    }
+
+    this.emit({ type: 'finished', result });
+    return result;
+  }
+
+  private getThinkingConfigForGeminiModel(modelDetails: AiModel): { thinkingBudget: number } | undefined {
+    const { fallbackConfig, isThinkingBudgetActive } = this.options;
+    if (!fallbackConfig.useOpenAiApiConfig && modelDetails.supportsThinkingConfig && isThinkingBudgetActive) {
+      return (modelDetails.apiName === GEMINI_PRO_MODEL_ID || modelDetails.apiName === GEMINI_2_5_PRO_PREVIEW_05_06_MODEL_ID)
+        ? THINKING_BUDGET_CONFIG_PRO_HIGH_QUALITY.thinkingConfig
+        : THINKING_BUDGET_CONFIG_HIGH_QUALITY.thinkingConfig;
+    }
+    return undefined;
+  }
+
+  // 确定参与者使用的渠道：参与者专属渠道 > 会话角色覆盖渠道 > 会话渠道 > 全局默认渠道
+  private resolveChannelForParticipant(participant: ResolvedParticipant): ApiChannel | null {
+    const { channels, sessionChannelOverride, sessionChannelId, defaultChannelId } = this.options;
+    if (!channels || channels.length === 0) return null;
+
+    let targetChannelId = participant.channelId;
+    if (!targetChannelId && sessionChannelOverride) {
+      if (participant.sender === MessageSender.Cognito) targetChannelId = sessionChannelOverride.cognitoChannelId;
+      else if (participant.sender === MessageSender.Muse) targetChannelId = sessionChannelOverride.museChannelId;
+    }
+    if (!targetChannelId) {
+      targetChannelId = sessionChannelId;
+    }
+    return targetChannelId
+      ? channels.find(c => c.id === targetChannelId) || null
+      : selectDefaultChannel(channels, defaultChannelId);
+  }
+
+  // 参与者的渠道链：主渠道，其后为参与者的备用渠道与会话级备用渠道（去重，跳过已禁用的渠道）
+  private resolveChannelChain(participant: ResolvedParticipant): ApiChannel[] {
+    const primary = this.resolveChannelForParticipant(participant);
+    if (!primary) return [];
+    const { channels, sessionChannelOverride } = this.options;
+    const chain = [primary];
+    const fallbackIds = [...(participant.fallbackChannelIds || []), ...(sessionChannelOverride?.fallbackChannelIds || [])];
+    for (const channelId of fallbackIds) {
+      const channel = channels.find(c => c.id === channelId);
+      if (channel && channel.enabled !== false && !chain.some(c => c.id === channel.id)) {
+        chain.push(channel);
+      }
+    }
+    return chain;
+  }
+
+  private async requestCompletion(
+    step: DiscussionStepInfo,
+    prompt: string,
+    systemInstruction: string | undefined,
+    imageApiPart: ImageApiPart | undefined,
+    streamMode: boolean,
+    responseFormat?: StructuredOutputSpec,
+    toolOptions?: AgentToolRequestOptions
+  ): Promise<StepCompletionResult> {
+    const { participant } = step;
+    const { fallbackConfig, temperature, messageHistory } = this.options;
+
+    // 🔥 API渠道路由逻辑：主渠道因超时、网络或服务端错误失败时依次切换到备用渠道，熔断中的渠道直接跳过
+    const fullChain = this.resolveChannelChain(participant);
+    if (fullChain.length > 0) {
+      try {
+        const healthyChain = fullChain.filter(channel => !isChannelCircuitOpen(channel.id));
+        // 全部渠道都在熔断时仍按原顺序尝试，而不是直接失败
+        const channelChain = healthyChain.length > 0 ? healthyChain : fullChain;
+        const failedChannels = fullChain.filter(channel => !channelChain.includes(channel));
+        if (failedChannels.length > 0) {
+          this.notify(`[${participant.displayName} - ${step.stepIdentifier}] 渠道「${failedChannels.map(c => c.name).join('」「')}」近期连续失败已熔断，本次跳过。`);
+        }
+        for (const [chainIndex, targetChannel] of channelChain.entries()) {
+          // 参与者专属模型只对应主渠道，备用渠道使用其默认模型
+          const model = targetChannel === fullChain[0] ? participant.modelOverride : undefined;
+          console.log(`[API-CHANNEL-ROUTING] ${step.stepIdentifier} 使用渠道:`, {
+            participant: participant.id,
+            channelId: targetChannel.id,
+            channelName: targetChannel.name,
+            provider: targetChannel.provider,
+            model: model || targetChannel.defaultModel,
+            fallbackIndex: chainIndex
+          });
+
+          const channelConfig = {
+            channel: targetChannel,
+            messageHistory,
+            temperature,
+            model,
+            responseFormat,
+            toolOptions,
+            abortSignal: this.abortController.signal
+          };
+          const requestChannel = async (): Promise<StepCompletionResult> => {
+            if (streamMode) {
+              return this.collectStream(step, callbacks =>
+                ApiChannelService.generateStreamResponse(prompt, channelConfig, callbacks, systemInstruction, imageApiPart)
+              );
+            }
+            const channelResponse = await ApiChannelService.generateResponse(
+              prompt,
+              channelConfig,
+              systemInstruction,
+              imageApiPart
+            );
+            return {
+              text: channelResponse.text,
+              durationMs: channelResponse.durationMs,
+              error: channelResponse.error,
+              requestDetails: channelResponse.requestDetails,
+              responseBody: channelResponse.responseBody,
+              toolCalls: channelResponse.toolCalls,
+              providerError: channelResponse.providerError
+            };
+          };
+          let result = await requestChannel();
+          // 密钥认证失败时该密钥已进入冷却；密钥池中还有可用的密钥时换用下一个，全部失败才报告密钥错误
+          for (let keyAttempt = 1; keyAttempt < getChannelApiKeys(targetChannel).length; keyAttempt++) {
+            if (result.providerError?.kind !== 'auth' || this.cancelled || !hasUsableApiKey(targetChannel)) break;
+            this.notify(`[${participant.displayName} - ${step.stepIdentifier}] 渠道「${targetChannel.name}」的一个密钥认证失败，已暂停使用该密钥，改用密钥池中的其他密钥重试...`);
+            result = await requestChannel();
+          }
+          const failoverCandidate = ApiChannelService.shouldFailover(result.providerError);
+
+          const nextChannel = channelChain[chainIndex + 1];
+          if (failoverCandidate && nextChannel && !this.cancelled) {
+            failedChannels.push(targetChannel);
+            this.notify(`[${participant.displayName} - ${step.stepIdentifier}] 渠道「${targetChannel.name}」请求失败（${ApiChannelService.describeError(result)}），切换到备用渠道「${nextChannel.name}」...`);
+            continue;
+          }
+          return {
+            ...result,
+            channel: {
+              channelId: targetChannel.id,
+              channelName: targetChannel.name,
+              model: model || targetChannel.defaultModel,
+              failedChannelNames: failedChannels.length > 0 ? failedChannels.map(c => c.name) : undefined,
+            },
+          };
+        }
+      } catch (channelError) {
+        // 渠道调用中的意外异常按类型化错误交给重试与失败处理，不改用旧版配置（否则会悄悄绕过用户选择的渠道）
+        console.error(`[API-CHANNEL-ROUTING] ${step.stepIdentifier} 渠道请求异常:`, channelError);
+        const providerError = providerErrorFromException(channelError);
+        return { text: providerError.message, durationMs: 0, error: providerError.message, providerError };
+      }
+    }
+
+    // 未配置任何渠道时，使用原有的直接服务调用（结构化输出与工具仅通过提示词约束）
+    const modelDetails = participant.modelDetails;
+    const openAiImagePart = imageApiPart ? { mimeType: imageApiPart.inlineData.mimeType, data: imageApiPart.inlineData.data } : undefined;
+    if (streamMode) {
+      return this.collectStream(step, callbacks => fallbackConfig.useOpenAiApiConfig
+        ? generateOpenAiStreamResponse(
+            prompt,
+            modelDetails.apiName,
+            fallbackConfig.openAiApiKey,
+            fallbackConfig.openAiApiBaseUrl,
+            systemInstruction,
+            openAiImagePart,
+            temperature,
+            callbacks,
+            messageHistory,
+            this.abortController.signal
+          )
+        : generateGeminiStreamResponse(
+            prompt,
+            modelDetails.apiName,
+            fallbackConfig.useCustomApiConfig,
+            fallbackConfig.customApiKey,
+            fallbackConfig.customApiEndpoint,
+            systemInstruction,
+            imageApiPart,
+            this.getThinkingConfigForGeminiModel(modelDetails),
+            temperature,
+            callbacks,
+            messageHistory,
+            this.abortController.signal
+          )
+      );
+    }
+    if (fallbackConfig.useOpenAiApiConfig) {
+      return generateOpenAiResponse(
+        prompt,
+        modelDetails.apiName,
+        fallbackConfig.openAiApiKey,
+        fallbackConfig.openAiApiBaseUrl,
+        systemInstruction,
+        openAiImagePart,
+        temperature,
+        messageHistory,
+        undefined,
+        undefined,
+        this.abortController.signal
+      );
+    }
+    return generateGeminiResponse(
+      prompt,
+      modelDetails.apiName,
+      fallbackConfig.useCustomApiConfig,
+      fallbackConfig.customApiKey,
+      fallbackConfig.customApiEndpoint,
+      systemInstruction,
+      imageApiPart,
+      this.getThinkingConfigForGeminiModel(modelDetails),
+      temperature,
+      messageHistory,
+      undefined,
+      undefined,
+      this.abortController.signal
+    );
+  }
+
+  // 参与者所用渠道是否支持服务商的原生函数调用
+  private usesNativeTools(participant: ResolvedParticipant): boolean {
+    const channel = this.resolveChannelForParticipant(participant);
+    return !!channel && ApiChannelService.supportsNativeTools(channel);
+  }
+
+  // 参与者所用渠道是否通过函数调用编辑记事本（未使用渠道时只能使用标签；流式输出时使用标签，以保留逐块输出）
+  private usesNotepadFunctions(participant: ResolvedParticipant): boolean {
+    if (this.options.streamMode) return false;
+    const channel = this.resolveChannelForParticipant(participant);
+    return !!channel && ApiChannelService.getNotepadEditProtocol(channel) === 'function';
+  }
+
+  /**
+   * 带工具调用的请求：模型请求工具时执行并回传结果，直到得到不含工具调用的回复。
+   * 记事本函数调用只收集为记事本操作，随最终结果返回。
+   * 需要先拿到完整回复才能判断是否调用工具，因此启用工具时不使用流式输出。
+   */
+  private async requestWithTools(
+    step: DiscussionStepInfo,
+    prompt: string,
+    systemInstruction: string | undefined,
+    imageApiPart: ImageApiPart | undefined,
+    streamMode: boolean
+  ): Promise<StepCompletionResult> {
+    const toolkit = this.options.tools;
+    const agentTools = toolkit?.tools || [];
+    const notepadFunctions = this.usesNotepadFunctions(step.participant);
+    if (agentTools.length === 0 && !notepadFunctions) {
+      return this.requestCompletion(step, prompt, systemInstruction, imageApiPart, streamMode);
+    }
+
+    // 记事本函数只能通过原生函数调用提交，此时其他工具也一并使用原生调用
+    const nativeMode = notepadFunctions || this.usesNativeTools(step.participant);
+    const declarations = [...toToolDeclarations(agentTools), ...(notepadFunctions ? NOTEPAD_FUNCTION_DECLARATIONS : [])];
+    const exchanges: AgentToolExchange[] = [];
+    const notepadEdits: NotepadFunctionEdits = { actions: [], errors: [] };
+
+    for (let round = 0; ; round++) {
+      this.throwIfCancelled();
+      const callsAllowed = round < MAX_TOOL_ROUNDS_PER_STEP;
+      let result: StepCompletionResult;
+      let calls: AgentToolCallRequest[] = [];
+      let callText = '';
+
+      if (nativeMode) {
+        result = await this.requestCompletion(step, prompt, systemInstruction, imageApiPart, false, undefined, {
+          declarations,
+          exchanges,
+          disableCalls: !callsAllowed,
+        });
+        calls = callsAllowed ? result.toolCalls || [] : [];
+        callText = result.text || '';
+      } else {
+        const roundPrompt = prompt
+          + (callsAllowed ? buildTextToolProtocolPrompt(agentTools) : '')
+          + (exchanges.length > 0 ? formatToolExchangesForPrompt(exchanges) : '')
+          + (callsAllowed ? '' : '\n工具调用次数已用完，请直接完成本次发言。');
+        result = await this.requestCompletion(step, roundPrompt, systemInstruction, imageApiPart, false);
+        if (!result.error && callsAllowed) {
+          ({ calls, text: callText } = parseTextToolCalls(result.text || ''));
+        }
+      }
+      if (result.error) return result;
+
+      const notepadCalls = calls.filter(isNotepadFunctionCall);
+      const toolCalls = calls.filter(call => !isNotepadFunctionCall(call));
+      notepadCalls.forEach(call => {
+        const { action, error } = notepadActionFromCall(call);
+        if (action) notepadEdits.actions.push(action);
+        if (error) notepadEdits.errors.push(error);
+      });
+      // 只编辑了记事本且已有口头回复时无需再请求一轮
+      if (toolCalls.length === 0 && (notepadCalls.length === 0 || callText.trim())) {
+        return { ...result, notepadEdits };
+      }
+
+      this.recordUsage((systemInstruction || '') + prompt, result.text || '');
+      const exchange: AgentToolExchange = { text: callText, calls, results: [] };
+      for (const call of notepadCalls) {
+        exchange.results.push({ callId: call.id, name: call.name, content: '已记录，将在本次发言结束后应用到记事本。请不要重复调用，直接给出你的口头回复。' });
+      }
+      for (const call of toolCalls) {
+        this.throwIfCancelled();
+        const { content, isError } = toolkit
+          ? await executeAgentToolCall(call, toolkit)
+          : { content: `未知的工具: ${call.name}`, isError: true };
+        exchange.results.push({ callId: call.id, name: call.name, content });
+        this.emit({
+          type: 'tool-called',
+          step,
+          record: { id: call.id, name: call.name, arguments: call.arguments, result: content, isError, mode: nativeMode ? 'native' : 'text' },
+        });
+      }
+      exchanges.push(exchange);
+    }
+  }
+
+  // 参与者所用渠道是否支持服务商的 JSON 输出模式
+  private usesNativeStructuredOutput(participant: ResolvedParticipant): boolean {
+    const channel = this.resolveChannelForParticipant(participant);
+    return !!channel && ApiChannelService.supportsStructuredOutput(channel);
+  }
+
+  /**
+   * 将流式回调汇总为一次完整的结果，过程中逐块发出 chunk 事件。
+   * 部分服务在返回后才继续推送数据块，因此以 onComplete / onError 作为结束标志。
+   */
+  private collectStream(step: DiscussionStepInfo, start: (callbacks: StreamCallbacks) => Promise<void>): Promise<StepCompletionResult> {
+    return new Promise(resolve => {
+      let accumulatedText = '';
+      let settled = false;
+      const abort = () => settle({ text: CANCELLED_MESSAGE, durationMs: 0, error: CANCELLED_MESSAGE });
+      const settle = (result: StepCompletionResult) => {
+        if (settled) return;
+        settled = true;
+        this.pendingStreamAborts.delete(abort);
+        resolve(result);
+      };
+      this.pendingStreamAborts.add(abort);
+
+      start({
+        onChunk: (chunk: string) => {
+          if (settled) return;
+          accumulatedText += chunk;
+          this.emit({ type: 'chunk', step, text: chunk, accumulatedText, displayText: getStreamingDisplayText(accumulatedText) });
+        },
+        onComplete: (fullText: string, durationMs: number) => settle({ text: fullText || accumulatedText, durationMs }),
+        onError: (error: string, errorType: string, durationMs: number, requestDetails?: any, responseBody?: any, providerError?: ProviderError) =>
+          settle({ text: error, durationMs, error: errorType || error, requestDetails, responseBody, providerError }),
+      }).catch(error => {
+        settle({ text: error instanceof Error ? error.message : '未知错误', durationMs: 0, error: 'Stream error' });
+      });
+    });
+  }
+
+  /**
+   * 执行单个发言步骤（含自动重试）。重试耗尽时抛出携带失败步骤信息的 DiscussionStepError。
+   */
+  private async executeStep(
+    step: DiscussionStepInfo,
+    prompt: string,
+    state: DiscussionRunState,
+    maxAutoRetries: number
+  ): Promise<ParsedAIResponse> {
+    const { participant, stepIdentifier, purpose } = step;
+    const modelDetailsForStep = participant.modelDetails;
+    const systemInstructionToUse = modelDetailsForStep.supportsSystemInstruction ? participant.systemPrompt : undefined;
+    const thinkingConfigToUseForGemini = this.getThinkingConfigForGeminiModel(modelDetailsForStep);
+    // 结构化最终答案需要完整的 JSON 才能校验，因此不使用流式输出
+    const structuredSpec = purpose === MessagePurpose.FinalResponse ? this.options.structuredAnswer || undefined : undefined;
+    const streamMode = this.options.streamMode && !structuredSpec;
+
+    if (!prompt || prompt.trim().length === 0) {
+      console.error(`[CRITICAL-ERROR] 传入的prompt为空!`, { stepIdentifier, participant: participant.id });
+      throw new Error(`步骤${stepIdentifier}的prompt为空，无法继续执行`);
+    }
+
+    this.emit({ type: 'step-started', step });
+
+    // 模型目录标记为不支持视觉的模型不发送图片
+    const imageApiPartToUse = modelDetailsForStep.supportsVision === false ? undefined : state.imageApiPart;
+    if (state.imageApiPart && !imageApiPartToUse) {
+      this.notify(`${participant.displayName} 使用的模型 ${modelDetailsForStep.name} 不支持图片，本次发言不附带图片。`);
+    }
+
+    for (let autoRetryCount = 0; autoRetryCount <= maxAutoRetries; autoRetryCount++) {
+      this.throwIfCancelled();
+
+      let result: StepCompletionResult | undefined;
+
+      try {
+        // 结构化最终答案要求只输出 JSON，不提供工具
+        result = structuredSpec
+          ? await this.requestCompletion(step, prompt, systemInstructionToUse, imageApiPartToUse, streamMode, structuredSpec)
+          : await this.requestWithTools(step, prompt, systemInstructionToUse, imageApiPartToUse, streamMode);
+        this.throwIfCancelled();
+
+        if (result.error) {
+          // 未归类的失败按可重试的网络错误处理
+          const providerError = result.providerError || new TransientProviderError(result.text || "AI 响应错误", 'network');
+          if (providerError.kind === 'missing-key') {
+            this.emit({ type: 'api-key-status', status: { isMissing: true, message: result.text } });
+          } else if (providerError.kind === 'auth') {
+            this.emit({ type: 'api-key-status', status: { isInvalid: true, message: result.text } });
+          }
+          throw providerError;
+        }
+        this.emit({ type: 'api-key-status', status: { isMissing: false, isInvalid: false, message: undefined } });
+
+        this.recordUsage((systemInstructionToUse || '') + prompt, result.text || '');
+        const structuredAnswer = structuredSpec
+          ? await this.resolveStructuredAnswer(step, structuredSpec, result.text || '', systemInstructionToUse)
+          : undefined;
+        const parsed = structuredAnswer ? this.structuredAnswerToResponse(structuredAnswer) : parseAIResponse(result.text || '', result.notepadEdits);
+        const message: ChatMessage = {
+          id: generateUniqueId(),
+          text: parsed.spokenText,
+          sender: participant.sender,
+          purpose,
+          timestamp: new Date(),
+          durationMs: result.durationMs,
+          agent: buildAgentInfo(participant, step.addressee),
+          parallelGroupId: step.parallelGroupId,
+          structuredAnswer,
+          route: purpose === MessagePurpose.FinalResponse ? state.route : undefined,
+          channel: result.channel,
+        };
+        if (!this.options.streamMode) {
+          this.emit({ type: 'chunk', step, text: result.text, accumulatedText: result.text, displayText: parsed.spokenText });
+        }
+        this.emit({ type: 'step-completed', step, message, parsed });
+        return parsed;
+      } catch (e) {
+        const error = e as Error;
+        if (error instanceof AuthenticationError || this.cancelled) throw error;
+
+        const providerError = error instanceof ProviderError ? error : undefined;
+        const reason = providerError ? describeProviderError(providerError) : error.message;
+        const details = [
+          result?.requestDetails ? `请求详情: ${JSON.stringify(result.requestDetails, null, 2)}` : '',
+          result?.responseBody ? `响应内容: ${JSON.stringify(result.responseBody, null, 2)}` : '',
+        ];
+
+        // 不可重试的错误（模型不存在、内容被拦截、额度耗尽等）立即停止；服务商要求的等待过长时也不自动重试
+        const retryDelayMs = getRetryDelayMs(autoRetryCount, providerError);
+        const retryable = !providerError || providerError.retryable;
+        const waitTooLong = !!providerError?.retryAfterMs && providerError.retryAfterMs > MAX_RETRY_DELAY_MS;
+        if (retryable && !waitTooLong && autoRetryCount < maxAutoRetries) {
+          let errorMessage = `[${participant.displayName} - ${stepIdentifier}] 调用失败，${(retryDelayMs / 1000).toFixed(1)} 秒后重试 (${autoRetryCount + 1}/${maxAutoRetries})... ${reason}`;
+          details.filter(Boolean).forEach(detail => { errorMessage += `\n${detail}`; });
+          this.notify(errorMessage);
+          await this.sleep(retryDelayMs);
+          continue;
+        }
+
+        let finalErrorMessage = !retryable
+          ? `[${participant.displayName} - ${stepIdentifier}] 调用失败: ${reason} 该错误无法通过自动重试解决，可在处理后手动重试。`
+          : waitTooLong
+            ? `[${participant.displayName} - ${stepIdentifier}] 调用失败: ${reason} 服务商要求 ${Math.ceil(providerError!.retryAfterMs! / 1000)} 秒后再试，可稍后手动重试。`
+            : `[${participant.displayName} - ${stepIdentifier}] 在 ${autoRetryCount + 1} 次尝试后失败: ${reason} 可手动重试。`;
+        details.filter(Boolean).forEach(detail => { finalErrorMessage += `\n最后一次${detail}`; });
+
+        throw new DiscussionStepError(finalErrorMessage, error, {
+          stepIdentifier,
+          prompt,
+          modelName: modelDetailsForStep.apiName,
+          systemInstruction: systemInstructionToUse,
+          imageApiPart: state.imageApiPart,
+          sender: participant.sender,
+          purpose,
+          thinkingConfig: this.options.fallbackConfig.useOpenAiApiConfig ? undefined : thinkingConfigToUseForGemini,
+          userInputForFlow: state.userInput,
+          imageApiPartForFlow: state.imageApiPart,
+          discussionLogBeforeFailure: [...state.discussionLog],
+          currentTurnIndexForResume: state.turn,
+          previousAISignaledStopForResume: state.consecutiveStopSignals > 0,
+          participantId: participant.id,
+          speakerIndexForResume: state.speakerIndex,
+          consecutiveStopSignalsForResume: state.consecutiveStopSignals,
+          phaseIndexForResume: state.phaseIndex,
+          moderatorGuidanceForResume: state.moderatorGuidance,
+          pendingSteeringNotesForResume: [...this.pendingSteeringNotes],
+          finalAnswerRequestedForResume: this.finalAnswerRequested,
+          routeForResume: state.route
+        });
+      }
+    }
+
+    throw new Error("AI响应处理失败");
+  }
+
+  /**
+   * 校验结构化最终答案，未通过时请求同一参与者修复（最多 MAX_STRUCTURED_ANSWER_REPAIR_ROUNDS 轮）
+   */
+  private async resolveStructuredAnswer(
+    step: DiscussionStepInfo,
+    spec: StructuredOutputSpec,
+    rawText: string,
+    systemInstruction: string | undefined
+  ): Promise<StructuredAnswer> {
+    const { participant } = step;
+    let text = rawText;
+    let { value, errors } = validateStructuredAnswerText(text, spec.schema);
+    let repairRounds = 0;
+
+    while (errors.length > 0 && repairRounds < MAX_STRUCTURED_ANSWER_REPAIR_ROUNDS) {
+      this.throwIfCancelled();
+      repairRounds++;
+      this.notify(`[结构化答案] ${participant.displayName} 的输出未通过「${spec.name}」校验（${errors.slice(0, 3).join('；')}），正在请求修复 (${repairRounds}/${MAX_STRUCTURED_ANSWER_REPAIR_ROUNDS})...`);
+      const repairPrompt = buildStructuredAnswerRepairPrompt(spec, text, errors);
+      const result = await this.requestCompletion(step, repairPrompt, systemInstruction, undefined, false, spec);
+      this.throwIfCancelled();
+      if (result.error) {
+        this.notify(`[结构化答案] 修复请求失败: ${result.text}`);
+        break;
+      }
+      this.recordUsage((systemInstruction || '') + repairPrompt, result.text || '');
+      text = result.text || '';
+      ({ value, errors } = validateStructuredAnswerText(text, spec.schema));
+    }
+
+    if (errors.length > 0) {
+      this.notify(`[结构化答案] 最终答案仍未通过「${spec.name}」校验，已保留原始输出: ${errors.slice(0, 3).join('；')}`);
+    }
+    return {
+      schemaName: spec.name,
+      data: value,
+      rawText: text,
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+      repairRounds,
+      nativeMode: this.usesNativeStructuredOutput(participant),
+    };
+  }
+
+  // 结构化答案以 JSON 代码块写入记事本，口头回复只说明结果
+  private structuredAnswerToResponse(answer: StructuredAnswer): ParsedAIResponse {
+    const repairNote = answer.repairRounds > 0 ? `（经过 ${answer.repairRounds} 轮自动修复）` : '';
+    return {
+      spokenText: answer.valid
+        ? `最终答案已按「${answer.schemaName}」格式生成并通过校验${repairNote}。`
+        : `最终答案未能通过「${answer.schemaName}」格式校验${repairNote}，记事本中为原始输出。`,
+      notepadUpdate: {
+        modifications: [{
+          action: 'replace_all',
+          content: formatStructuredAnswerForNotepad(answer.schemaName, answer.valid ? answer.data : answer.rawText, answer.valid),
+        }],
+      },
+    };
+  }
+
+  // 将AI回复中的记事本修改应用到引擎持有的记事本副本
+  private applyNotepadUpdate(step: DiscussionStepInfo, parsed: ParsedAIResponse): void {
+    const update = parsed.notepadUpdate;
+    if (!update) return;
+    const sender = step.participant.sender;
+
+    if (update.modifications && update.modifications.length > 0) {
+      const { newContent, errors: applyErrors } = applyNotepadModifications(this.notepadContent, update.modifications);
+      this.notepadContent = newContent;
+      this.emit({ type: 'notepad-updated', step, content: newContent, author: sender });
+
+      if (applyErrors.length > 0) {
+        this.notify(`[系统] ${sender} 的部分记事本修改操作未成功执行:\n- ${applyErrors.join('\n- ')}`);
+      }
+    }
+
+    if (update.error) {
+      this.notify(`[系统] ${sender} 尝试修改记事本时遇到问题: ${update.error}`);
+    }
+  }
+
+  /**
+   * 主持人评估刚结束的一轮讨论。主持人调用失败或结论无法解析时返回 null，由发言者的结束信号决定是否继续。
+   */
+  private async reviewRound(step: DiscussionStepInfo, state: DiscussionRunState, stopSignals: number): Promise<ModeratorVerdict | null> {
+    const { participant } = step;
+    const prompt = MODERATOR_VERDICT_PROMPT
+      .replace('{userInput}', state.userInput)
+      .replace('{phaseName}', step.phase.name)
+      .replace('{round}', String(step.turn + 1))
+      .replace('{stopSignals}', String(stopSignals))
+      .replace('{discussionLog}', state.discussionLog.join("\n"));
+    const systemInstruction = participant.modelDetails.supportsSystemInstruction ? participant.systemPrompt : undefined;
+
+    this.notify(`${participant.displayName} 正在评估第 ${step.turn + 1} 轮讨论 (使用 ${participant.modelDetails.name})...`);
+    let result: StepCompletionResult;
+    try {
+      result = await this.requestCompletion(step, prompt, systemInstruction, undefined, false);
+    } catch (error) {
+      result = { text: (error as Error).message, durationMs: 0, error: (error as Error).message };
+    }
+    this.throwIfCancelled();
+    if (!result.error) this.recordUsage((systemInstruction || '') + prompt, result.text || '');
+
+    const verdict = result.error ? null : parseModeratorVerdict(result.text || '');
+    if (!verdict) {
+      this.notify(`[${participant.displayName}] 评估失败${result.error ? `: ${result.text}` : '：无法解析评估结论'}。本轮将根据发言者的结束信号决定是否继续。`);
+      return null;
+    }
+
+    this.emit({
+      type: 'moderator-verdict',
+      step,
+      verdict,
+      message: {
+        id: generateUniqueId(),
+        text: formatModeratorVerdict(verdict),
+        sender: participant.sender,
+        purpose: MessagePurpose.ModeratorVerdict,
+        timestamp: new Date(),
+        durationMs: result.durationMs,
+        agent: buildAgentInfo(participant),
+        channel: result.channel,
+      },
+    });
+    return verdict;
+  }
+
+  /**
+   * 按讨论协议从指定位置执行讨论流程：依次执行各阶段，最后由综合阶段的发言者给出最终答案。
+   * 传入 retryPayload 时，流程的第一步使用失败时的提示词进行一次手动重试。
+   * 返回已完成的讨论轮数（仅统计多人发言的阶段）。
+   */
+  private async runFlow(
+    state: DiscussionRunState,
+    initialState: DiscussionRunState,
+    retryPayload?: FailedStepPayload
+  ): Promise<number> {
+    const { protocol, discussionMode, manualFixedTurns } = this.options;
+    // 双人辩论只保留前两位参与者；快速回答只有一次发言，不需要主持人
+    const route = state.route?.route;
+    const participants = route === 'debate' ? this.options.participants.slice(0, 2) : this.options.participants;
+    const moderator = route === 'quick' ? null : this.options.moderator;
+    if (participants.length === 0) throw new Error("没有可用的讨论参与者");
+
+    const phases = getExecutablePhases(protocol);
+    let pendingRetry = retryPayload;
+    let lastSpeaker: ResolvedParticipant | null = null;
+    let lastTurnText = '';
+    let completedTurns = 0;
+
+    const imageInstructionForAI = state.imageApiPart ? "用户还提供了一张图片。请在您的分析和回复中同时考虑此图片和文本查询。" : "";
+    // 仅当当前或后续阶段以“全员同意结束”为条件时，才告知AI如何发出结束信号
+    const commonPromptInstructions = (phaseIndex: number, speaker: ResolvedParticipant) => {
+      const needsStopInstruction = phases.slice(phaseIndex).some(phase => phaseUsesConsensus(phase, discussionMode));
+      const notepadInstructions = this.usesNotepadFunctions(speaker) ? NOTEPAD_FUNCTION_INSTRUCTION_PROMPT_PART : NOTEPAD_INSTRUCTION_PROMPT_PART;
+      return notepadInstructions.replace('{notepadContent}', formatNotepadContentForAI(this.notepadContent))
+        + (needsStopInstruction ? AI_DRIVEN_DISCUSSION_INSTRUCTION_PROMPT_PART : "");
+    };
+    // 提示词中提到记事本操作时，按发言者的记事本编辑方式给出函数名或标签名
+    const notepadOperation = (speaker: ResolvedParticipant, action: 'replace_all' | 'append') =>
+      this.usesNotepadFunctions(speaker) ? `函数 notepad_${action}` : `<np-${action.replace('_', '-')}> 标签`;
+    const othersOf = (participant: ResolvedParticipant, pool: ResolvedParticipant[] = participants) => pool.filter(p => p.id !== participant.id);
+    const uniqueParticipants = (list: ResolvedParticipant[]) => list.filter((p, index) => list.findIndex(q => q.id === p.id) === index);
+
+    const executeSpeakerStep = async (step: DiscussionStepInfo, prompt: string): Promise<ParsedAIResponse> => {
+      const isRetryStep = pendingRetry?.stepIdentifier === step.stepIdentifier;
+      const parsed = await this.executeStep(
+        step,
+        isRetryStep && pendingRetry ? pendingRetry.prompt : prompt,
+        state,
+        isRetryStep ? 0 : MAX_AUTO_RETRIES
+      );
+      if (isRetryStep) {
+        this.notify(`[${step.participant.displayName} - ${step.stepIdentifier}] 手动重试成功。后续流程将继续。`);
+      }
+      pendingRetry = undefined;
+      this.throwIfCancelled();
+      this.applyNotepadUpdate(step, parsed);
+      lastSpeaker = step.participant;
+      lastTurnText = parsed.spokenText;
+      state.discussionLog.push(`${step.participant.displayName}: ${parsed.spokenText}`);
+      return parsed;
+    };
+
+    // 并行轮次：所有发言者基于同一份讨论记录同时独立作答，全部返回后再按发言顺序写入讨论记录与记事本
+    const runParallelRound = async (
+      phase: DiscussionPhase,
+      phaseIndex: number,
+      phaseProgress: DiscussionPhaseProgress,
+      speakers: ResolvedParticipant[],
+      turn: number,
+      pendingSpeakerIds?: string[]
+    ): Promise<{ speaker: ResolvedParticipant; parsed: ParsedAIResponse }[]> => {
+      let roundSpeakers = pendingSpeakerIds ? speakers.filter(s => pendingSpeakerIds.includes(s.id)) : speakers;
+      // 续跑时本轮已完成的发言位于讨论记录末尾，仍需作答的参与者不应看到它们
+      const logBeforeRound = state.discussionLog.slice(0, state.discussionLog.length - (speakers.length - roundSpeakers.length));
+      if (roundSpeakers.length > 0 && this.takeSkipRequest()) {
+        this.notify(`已按用户要求跳过 ${roundSpeakers[0].displayName} 的发言。`);
+        roundSpeakers = roundSpeakers.slice(1);
+        if (roundSpeakers.length === 0) return [];
+      }
+      const steeringNotes = this.takeSteeringNotes();
+      const parallelGroupId = generateUniqueId();
+      state.speakerIndex = 0;
+      state.pendingParallelSpeakerIds = undefined;
+      this.notify(`${joinParticipantNames(roundSpeakers)} 正在同时进行「${phase.name}」...`);
+
+      const buildPrompt = (speaker: ResolvedParticipant) => {
+        const otherNames = joinParticipantNames(othersOf(speaker, speakers));
+        let prompt = `用户的查询 (中文) 是: "${state.userInput}". ${imageInstructionForAI} 当前处于讨论协议「${protocol.name}」的「${phase.name}」阶段 (第 ${phaseIndex + 1}/${phases.length} 阶段，第 ${turn + 1} 轮)。`;
+        if (otherNames) {
+          prompt += ` 本阶段 ${otherNames} 与您同时独立作答，您看不到他们本轮的回答。`;
+        }
+        if (logBeforeRound.length > 0) {
+          prompt += `\n此前的讨论 (均为中文):\n${logBeforeRound.join("\n")}\n`;
+        }
+        prompt += `\n本阶段要求: ${phase.instruction || '独立回答用户的查询。'}\n保持您的回复简洁并使用中文。`;
+        if (state.moderatorGuidance) {
+          prompt += `\n主持人对本轮的引导:\n${state.moderatorGuidance}`;
+        }
+        prompt += steeringNotes;
+        if (this.repetitionStreak > 0) prompt += REPETITION_NUDGE_PROMPT;
+        prompt += `\n由于多位发言者同时作答，请不要使用${notepadOperation(speaker, 'replace_all')}覆盖记事本；如需记录要点，请使用${notepadOperation(speaker, 'append')}。`;
+        return prompt + `\n${commonPromptInstructions(phaseIndex, speaker)}`;
+      };
+
+      const steps: DiscussionStepInfo[] = roundSpeakers.map(speaker => ({
+        stepIdentifier: `${phase.id}-${speaker.id}-turn-${turn}`,
+        participant: speaker,
+        purpose: MessagePurpose.AgentDiscussion,
+        phase: phaseProgress,
+        turn,
+        parallelGroupId,
+      }));
+      const retryStepIdentifier = pendingRetry?.stepIdentifier;
+      const outcomes = await Promise.allSettled(steps.map(step => {
+        const isRetryStep = retryStepIdentifier === step.stepIdentifier;
+        return this.executeStep(
+          step,
+          isRetryStep && pendingRetry ? pendingRetry.prompt : buildPrompt(step.participant),
+          state,
+          isRetryStep ? 0 : MAX_AUTO_RETRIES
+        );
+      }));
+      pendingRetry = undefined;
+      this.throwIfCancelled();
+
+      const completed: { speaker: ResolvedParticipant; parsed: ParsedAIResponse }[] = [];
+      const failedSpeakerIds: string[] = [];
+      let firstError: unknown = null;
+      for (let index = 0; index < outcomes.length; index++) {
+        const outcome = outcomes[index];
+        const step = steps[index];
+        if (outcome.status === 'fulfilled') {
+          if (retryStepIdentifier === step.stepIdentifier) {
+            this.notify(`[${step.participant.displayName} - ${step.stepIdentifier}] 手动重试成功。后续流程将继续。`);
+          }
+          this.applyNotepadUpdate(step, outcome.value);
+          lastSpeaker = step.participant;
+          lastTurnText = outcome.value.spokenText;
+          state.discussionLog.push(`${step.participant.displayName}: ${outcome.value.spokenText}`);
+          completed.push({ speaker: step.participant, parsed: outcome.value });
+        } else {
+          failedSpeakerIds.push(step.participant.id);
+          if (firstError === null) firstError = outcome.reason;
+          else if (outcome.reason instanceof DiscussionStepError) this.notify(outcome.reason.message);
+        }
+      }
+
+      if (firstError !== null) {
+        // 手动重试第一个失败的步骤，其余未完成的参与者在续跑时重新作答
+        if (firstError instanceof DiscussionStepError) {
+          firstError.failedStep.discussionLogBeforeFailure = [...state.discussionLog];
+          firstError.failedStep.pendingParallelSpeakerIdsForResume = failedSpeakerIds;
+        }
+        throw firstError;
+      }
+      return completed;
+    };
+
+    // 记录建议结束讨论的信号，返回本阶段的发言者是否都已同意结束（有主持人时由主持人决定）
+    const registerStopSignal = (
+      participant: ResolvedParticipant,
+      parsed: ParsedAIResponse,
+      phaseSpeakers: ResolvedParticipant[],
+      consensusActive: boolean
+    ): boolean => {
+      state.consecutiveStopSignals = parsed.discussionShouldEnd ? state.consecutiveStopSignals + 1 : 0;
+      if (!consensusActive || moderator) return false;
+      if (state.consecutiveStopSignals >= phaseSpeakers.length) {
+        this.notify(`所有发言者 (${joinParticipantNames(phaseSpeakers)}) 已同意结束讨论。`);
+        return true;
+      }
+      if (parsed.discussionShouldEnd) {
+        this.notify(`${participant.displayName} 已建议结束讨论。等待 ${joinParticipantNames(othersOf(participant, phaseSpeakers))} 的回应。`);
+      }
+      return false;
+    };
+
+    // 重试时通过讨论记录恢复上一位发言者，以便生成后续提示词
+    if (state.discussionLog.length > 0) {
+      const lastEntry = state.discussionLog[state.discussionLog.length - 1];
+      const matched = participants.find(p => lastEntry.startsWith(`${p.displayName}: `));
+      if (matched) {
+        lastSpeaker = matched;
+        lastTurnText = lastEntry.slice(matched.displayName.length + 2);
+      }
+    }
+
+    for (let phaseIndex = state.phaseIndex; phaseIndex < phases.length; phaseIndex++) {
+      const phase = phases[phaseIndex];
+      const isResumedPhase = phaseIndex === initialState.phaseIndex;
+      state.phaseIndex = phaseIndex;
+      if (!isResumedPhase) {
+        state.turn = 0;
+        state.speakerIndex = 0;
+        state.moderatorGuidance = undefined;
+      }
+      this.throwIfCancelled();
+      if ((this.finalAnswerRequested || route === 'quick') && !phase.producesFinalAnswer) continue;
+
+      const speakers = resolvePhaseSpeakers(phase, participants);
+      if (speakers.length === 0) {
+        this.notify(`阶段「${phase.name}」没有匹配的发言者，已跳过。`);
+        continue;
+      }
+
+      if (phase.producesFinalAnswer) {
+        await this.waitIfPaused();
+        this.emitCheckpoint(state);
+        const finalSpeaker = speakers[0];
+        const othersNames = joinParticipantNames(othersOf(finalSpeaker));
+        this.notify(`${finalSpeaker.displayName} 正在综合讨论内容，准备最终答案 (使用 ${finalSpeaker.modelDetails.name})...`);
+        const discussionContext = state.discussionLog.length > 0
+          ? `您 (${finalSpeaker.displayName})${othersNames ? ` 和 ${othersNames}` : ''} 进行了以下讨论 (均为中文):\n${state.discussionLog.join("\n")}`
+          : '本次没有进行内部讨论，请直接回答用户的查询。';
+        const finalAnswerNote = `${phase.instruction ? `\n**本阶段要求:** ${phase.instruction}\n` : ''}${this.budgetExhaustion ? '\n讨论已达到预算上限，请基于目前的讨论直接给出最终答案。\n' : this.finalAnswerRequested ? '\n用户已要求提前结束讨论，请基于目前的讨论直接给出最终答案。\n' : ''}${this.takeSteeringNotes()}`;
+        const structuredSpec = this.options.structuredAnswer;
+        const finalAnswerPromptText = structuredSpec
+          ? `用户的查询 (中文) 是: "${state.userInput}". ${imageInstructionForAI} ${discussionContext}
+
+**您的最终任务是为用户生成最终答案。**
+${finalAnswerNote}
+基于整个对话和当前记事本内容，综合所有要点，为用户创建一个全面、准确的最终答案。
+
+当前记事本内容:
+${formatNotepadContentForAI(this.notepadContent)}
+
+${buildStructuredAnswerInstructions(structuredSpec)}`
+          : `用户的查询 (中文) 是: "${state.userInput}". ${imageInstructionForAI} ${discussionContext}
+
+**您的最终任务是为用户生成最终答案，并将其放入记事本中。**
+${finalAnswerNote}
+**指令:**
+1.  **生成最终答案:** 基于整个对话和当前记事本内容，综合所有要点，为用户创建一个全面、结构良好、易于理解的最终答案。答案必须是中文，并使用 Markdown 格式化以提高可读性。
+2.  **更新记事本:** 使用${notepadOperation(finalSpeaker, 'replace_all')}将完整的最终答案放入记事本。这将是用户看到的主要输出。
+3.  **口头回复:** 你的口头回复 (记事本操作之外的文字) 应该非常简短。只需告诉用户最终答案已在记事本中准备好。例如："最终答案已为您准备好，请查看右侧的记事本。"
+
+**严格遵守以上指令。最终答案必须在记事本中。**
+\n${commonPromptInstructions(phaseIndex, finalSpeaker)}`;
+
+        await executeSpeakerStep({
+          stepIdentifier: `${phase.id}-${finalSpeaker.id}-final-answer`,
+          participant: finalSpeaker,
+          purpose: MessagePurpose.FinalResponse,
+          phase: { name: phase.name, index: phaseIndex, total: phases.length, turnLimit: 1, isFinal: true },
+          turn: 0,
+        }, finalAnswerPromptText);
+        break;
+      }
+
+      let turnLimit = getPhaseTurnLimit(phase, discussionMode, manualFixedTurns);
+      const consensusActive = phaseUsesConsensus(phase, discussionMode);
+      const distinctSpeakers = uniqueParticipants(speakers);
+      const nextPhase = phases[phaseIndex + 1];
+      const nextFinalSpeaker = nextPhase?.producesFinalAnswer ? resolvePhaseSpeakers(nextPhase, participants)[0] : undefined;
+      const phaseProgress: DiscussionPhaseProgress = { name: phase.name, index: phaseIndex, total: phases.length, turnLimit, isFinal: false };
+      let roundsInPhase = 0;
+      let extensionsGranted = 0;
+      // 只有多轮的辩论/讨论阶段才询问追加；单轮或并行阶段按协议设计的轮数结束
+      const extensible = !phase.parallel && phase.exitCondition !== 'fixed-turns' && turnLimit !== undefined && turnLimit > 1;
+      this.repetitionStreak = 0;
+
+      phaseLoop:
+      for (let turn = state.turn; ; turn++) {
+        if (turnLimit !== undefined && turn >= turnLimit) {
+          if (!extensible || extensionsGranted >= MAX_DISCUSSION_EXTENSIONS) break;
+          const lastRoundEntries = state.discussionLog.slice(-distinctSpeakers.length);
+          const earlierEntries = state.discussionLog.slice(0, -distinctSpeakers.length);
+          if (!(await this.offerExtension(phase.name, lastRoundEntries, earlierEntries))) break;
+          extensionsGranted++;
+          turnLimit += DISCUSSION_EXTENSION_TURNS;
+          phaseProgress.turnLimit = turnLimit;
+        }
+        state.turn = turn;
+        if (this.cancelled) break;
+        roundsInPhase = turn + 1;
+
+        if (phase.parallel) {
+          await this.waitIfPaused();
+          if (this.finalAnswerRequested || this.checkBudget(distinctSpeakers.length + 1)) break phaseLoop;
+          this.emitCheckpoint(state);
+          const responses = await runParallelRound(
+            phase,
+            phaseIndex,
+            phaseProgress,
+            distinctSpeakers,
+            turn,
+            isResumedPhase && turn === initialState.turn ? initialState.pendingParallelSpeakerIds : undefined
+          );
+          let allAgreed = false;
+          responses.forEach(({ speaker, parsed }) => {
+            if (registerStopSignal(speaker, parsed, distinctSpeakers, consensusActive)) allAgreed = true;
+          });
+          if (allAgreed) {
+            state.consecutiveStopSignals = 0;
+            break phaseLoop;
+          }
+          // 并行发言互不可见，只与本轮之前的讨论比较
+          const logBeforeRound = state.discussionLog.slice(0, state.discussionLog.length - responses.length);
+          if (responses.some(({ speaker, parsed }) => this.assessRepetition(speaker, parsed.spokenText, logBeforeRound, phase.name))) {
+            state.consecutiveStopSignals = 0;
+            break phaseLoop;
+          }
+        } else {
+          const isLastRound = !consensusActive && turnLimit !== undefined && turn === turnLimit - 1;
+          const startIndex = isResumedPhase && turn === initialState.turn ? initialState.speakerIndex : 0;
+          for (let speakerIndex = startIndex; speakerIndex < speakers.length; speakerIndex++) {
+            state.speakerIndex = speakerIndex;
+            if (this.cancelled) break phaseLoop;
+            const speaker = speakers[speakerIndex];
+            // 最后一轮的末位发言者若紧接着负责最终答案，则直接进入最终答案，不再单独发言
+            if (isLastRound && speakers.length > 1 && speakerIndex === speakers.length - 1 && nextFinalSpeaker?.id === speaker.id) break phaseLoop;
+
+            await this.waitIfPaused();
+            if (this.finalAnswerRequested || this.checkBudget(2)) break phaseLoop;
+            if (this.takeSkipRequest()) {
+              this.notify(`已按用户要求跳过 ${speaker.displayName} 的发言。`);
+              continue;
+            }
+            this.emitCheckpoint(state);
+
+            const previousSpeaker: ResolvedParticipant | null = lastSpeaker;
+            const addressee = previousSpeaker && previousSpeaker.id !== speaker.id ? previousSpeaker : null;
+            const otherNames = joinParticipantNames(othersOf(speaker).filter(p => p.id !== addressee?.id));
+            this.notify(addressee
+              ? `${speaker.displayName} 正在回应 ${addressee.displayName}「${phase.name}」(使用 ${speaker.modelDetails.name})...`
+              : `${speaker.displayName} 正在进行「${phase.name}」(使用 ${speaker.modelDetails.name})...`);
+
+            let stepPrompt = `用户的查询 (中文) 是: "${state.userInput}". ${imageInstructionForAI} 当前处于讨论协议「${protocol.name}」的「${phase.name}」阶段 (第 ${phaseIndex + 1}/${phases.length} 阶段，第 ${turn + 1} 轮)。`;
+            if (state.discussionLog.length > 0) {
+              stepPrompt += `\n当前讨论 (均为中文):\n${state.discussionLog.join("\n")}\n`;
+              if (addressee) {
+                stepPrompt += `${addressee.displayName} 刚刚说 (中文): "${lastTurnText}". 请回复 ${addressee.displayName}${otherNames ? `，并兼顾其他参与者 (${otherNames}) 的观点` : ''}。`;
+              }
+            } else if (otherNames) {
+              stepPrompt += ` 您发言之后，${otherNames} 将会回应您。`;
+            }
+            stepPrompt += `\n本阶段要求: ${phase.instruction || '继续讨论。'}\n保持您的回复简洁并使用中文。`;
+            if (state.moderatorGuidance) {
+              stepPrompt += `\n主持人对本轮的引导:\n${state.moderatorGuidance}`;
+            }
+            stepPrompt += this.takeSteeringNotes();
+            if (this.repetitionStreak > 0) stepPrompt += REPETITION_NUDGE_PROMPT;
+            if (consensusActive && state.consecutiveStopSignals > 0) {
+              const signalers = state.consecutiveStopSignals === 1 && previousSpeaker ? previousSpeaker.displayName : `前面的 ${state.consecutiveStopSignals} 位发言者`;
+              stepPrompt += `\n${signalers} 已包含 ${DISCUSSION_COMPLETE_TAG} 建议结束讨论。如果您同意，请在您的回复中也包含 ${DISCUSSION_COMPLETE_TAG}。否则，请继续讨论。`;
+            }
+            stepPrompt += `\n${commonPromptInstructions(phaseIndex, speaker)}`;
+
+            const response = await executeSpeakerStep({
+              stepIdentifier: `${phase.id}-${speaker.id}-turn-${turn}`,
+              participant: speaker,
+              purpose: MessagePurpose.AgentDiscussion,
+              addressee: addressee ? addressee.displayName : otherNames || undefined,
+              phase: phaseProgress,
+              turn,
+            }, stepPrompt);
+            if (registerStopSignal(speaker, response, distinctSpeakers, consensusActive)) {
+              state.consecutiveStopSignals = 0;
+              break phaseLoop;
+            }
+            if (this.assessRepetition(speaker, response.spokenText, state.discussionLog.slice(0, -1), phase.name)) {
+              state.consecutiveStopSignals = 0;
+              break phaseLoop;
+            }
+          }
+        }
+
+        if (this.finalAnswerRequested) break phaseLoop;
+        if (moderator && consensusActive && !this.cancelled) {
+          if (this.checkBudget(2)) break phaseLoop;
+          const verdict = await this.reviewRound({
+            stepIdentifier: `${phase.id}-${moderator.id}-turn-${turn}`,
+            participant: moderator,
+            purpose: MessagePurpose.ModeratorVerdict,
+            phase: phaseProgress,
+            turn,
+          }, state, state.consecutiveStopSignals);
+          const shouldStop = verdict
+            ? verdict.decision === 'stop'
+            : state.consecutiveStopSignals >= distinctSpeakers.length;
+          if (shouldStop) {
+            this.notify(verdict ? `${moderator.displayName} 判断讨论已充分，结束「${phase.name}」阶段。` : `所有发言者 (${joinParticipantNames(distinctSpeakers)}) 已同意结束讨论。`);
+            state.consecutiveStopSignals = 0;
+            state.moderatorGuidance = undefined;
+            break phaseLoop;
+          }
+          state.moderatorGuidance = verdict ? buildModeratorGuidance(verdict) || undefined : undefined;
+        }
+      }
+      if (distinctSpeakers.length > 1) completedTurns += roundsInPhase;
+    }
+
+    this.throwIfCancelled();
+    return completedTurns;
+  }
+}
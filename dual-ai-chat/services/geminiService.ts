@@ -1,7 +1,17 @@
 
-import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
-import { ChatMessage } from '../types';
+import { GoogleGenAI, GenerateContentResponse, Part, FunctionCallingConfigMode, ApiError } from "@google/genai";
+import { AgentToolCallRequest, AgentToolRequestOptions, ChatMessage, StructuredOutputSpec } from '../types';
+import { generateUniqueId } from '../utils/appUtils';
 import { truncateMessageHistory, buildContextualPrompt } from '../utils/messageConverter';
+import {
+  AuthenticationError,
+  CancelledError,
+  InvalidRequestError,
+  ProviderError,
+  parseGoogleRetryDelay,
+  providerErrorFromException,
+  providerErrorFromStatus,
+} from './providerErrors';
 
 // Helper to create a GoogleGenAI instance with potential custom fetch
 const createGoogleAIClient = (apiKey: string, customApiEndpoint?: string): GoogleGenAI => {
@@ -43,153 +53,293 @@ interface GeminiResponsePayload {
   text: string;
   durationMs: number;
   error?: string; // Standardized error key
+  toolCalls?: AgentToolCallRequest[];
+  providerError?: ProviderError; // 请求失败时的类型化错误
 }
 
 interface GeminiStreamResponse {
   onChunk: (chunk: string) => void;
   onComplete: (fullText: string, durationMs: number) => void;
-  onError: (error: string, errorType: string, durationMs: number) => void;
+  onError: (error: string, errorType: string, durationMs: number, requestDetails?: any, responseBody?: any, providerError?: ProviderError) => void;
 }
 
-export const generateResponse = async (
+// 因安全策略被拦截时 Gemini 返回成功响应，但没有任何内容
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+/**
+ * SDK 的 ApiError 消息中附带了响应 JSON：从中读取 Google 的错误状态（如 RESOURCE_EXHAUSTED）与 RetryInfo
+ */
+const toGeminiProviderError = (error: unknown): ProviderError => {
+  if (!(error instanceof ApiError)) {
+    return providerErrorFromException(error, { provider: 'gemini' });
+  }
+  const options = {
+    status: error.status,
+    code: error.message.match(/"status"\s*:\s*"([A-Z_]+)"/)?.[1],
+    retryAfterMs: parseGoogleRetryDelay(error.message),
+    provider: 'gemini',
+  };
+  // 无效密钥时 Gemini 返回 400 INVALID_ARGUMENT，需要按错误原因识别
+  if (error.message.includes('API_KEY_INVALID') || error.message.includes('API key not valid')) {
+    return new AuthenticationError(error.message, options);
+  }
+  return providerErrorFromStatus(error.status, error.message, options);
+};
+
+interface GeminiRequestConfig {
+  systemInstruction?: string;
+  thinkingConfig?: { thinkingBudget: number };
+  generationConfig?: { temperature?: number };
+  responseMimeType?: string;
+  responseJsonSchema?: unknown;
+  tools?: { functionDeclarations: { name: string; description: string; parametersJsonSchema: unknown }[] }[];
+  toolConfig?: { functionCallingConfig: { mode: FunctionCallingConfigMode } };
+  abortSignal?: AbortSignal;
+}
+
+interface GeminiRequest {
+  genAI: GoogleGenAI;
+  model: string;
+  contents: string | { parts: Part[] } | any;
+  config?: GeminiRequestConfig;
+}
+
+/**
+ * 构建普通请求与流式请求共用的客户端、contents 与 config；未配置密钥时返回提示信息
+ */
+const prepareGeminiRequest = (
   prompt: string,
   modelName: string,
-  useCustomConfig: boolean, // New parameter to decide API config source
+  useCustomConfig: boolean,
   customApiKey?: string,
   customApiEndpoint?: string,
   systemInstruction?: string,
   imagePart?: { inlineData: { mimeType: string; data: string } },
   thinkingConfig?: { thinkingBudget: number },
   temperature?: number,
-  messageHistory?: ChatMessage[]
-): Promise<GeminiResponsePayload> => {
-  const startTime = performance.now();
-  try {
-    let apiKeyToUse: string | undefined;
-    let endpointForClient: string | undefined;
-    let missingKeyUserMessage = "";
+  messageHistory?: ChatMessage[],
+  responseFormat?: StructuredOutputSpec,
+  toolOptions?: AgentToolRequestOptions,
+  abortSignal?: AbortSignal
+): GeminiRequest | { missingKeyMessage: string } => {
+  let apiKeyToUse: string | undefined;
+  let endpointForClient: string | undefined;
+  let missingKeyUserMessage = "";
 
-    if (useCustomConfig) {
-      apiKeyToUse = customApiKey?.trim();
-      endpointForClient = customApiEndpoint; // createGoogleAIClient handles if it's empty/default
-      missingKeyUserMessage = "自定义API密钥未在设置中提供。请在设置中输入密钥，或关闭'使用自定义API配置'以使用环境变量。";
-    } else {
-      apiKeyToUse = process.env.API_KEY;
-      endpointForClient = undefined; // Ensures default Google endpoint is used by SDK
-      missingKeyUserMessage = "API密钥未在环境变量中配置。请配置该密钥，或在设置中启用并提供自定义API配置。";
-    }
+  if (useCustomConfig) {
+    apiKeyToUse = customApiKey?.trim();
+    endpointForClient = customApiEndpoint; // createGoogleAIClient handles if it's empty/default
+    missingKeyUserMessage = "自定义API密钥未在设置中提供。请在设置中输入密钥，或关闭'使用自定义API配置'以使用环境变量。";
+  } else {
+    apiKeyToUse = process.env.API_KEY;
+    endpointForClient = undefined; // Ensures default Google endpoint is used by SDK
+    missingKeyUserMessage = "API密钥未在环境变量中配置。请配置该密钥，或在设置中启用并提供自定义API配置。";
+  }
 
-    if (!apiKeyToUse) {
-      console.error(missingKeyUserMessage);
-      // This specific error "API key not configured" will be checked by useChatLogic
-      return { text: missingKeyUserMessage, durationMs: performance.now() - startTime, error: "API key not configured" };
-    }
-    
-    const genAI = createGoogleAIClient(apiKeyToUse, endpointForClient);
+  if (!apiKeyToUse) {
+    console.error(missingKeyUserMessage);
+    return { missingKeyMessage: missingKeyUserMessage };
+  }
+  
+  const genAI = createGoogleAIClient(apiKeyToUse, endpointForClient);
 
-    const configForApi: {
-      systemInstruction?: string;
-      thinkingConfig?: { thinkingBudget: number };
-      generationConfig?: { temperature?: number };
-    } = {};
+  const configForApi: GeminiRequestConfig = {};
 
-    if (systemInstruction) {
-      configForApi.systemInstruction = systemInstruction;
-    }
-    if (thinkingConfig) {
-      configForApi.thinkingConfig = thinkingConfig;
-    }
-    if (temperature !== undefined) {
-      configForApi.generationConfig = { temperature };
-    }
+  if (systemInstruction) {
+    configForApi.systemInstruction = systemInstruction;
+  }
+  if (thinkingConfig) {
+    configForApi.thinkingConfig = thinkingConfig;
+  }
+  if (temperature !== undefined) {
+    configForApi.generationConfig = { temperature };
+  }
+  if (responseFormat) {
+    configForApi.responseMimeType = 'application/json';
+    configForApi.responseJsonSchema = responseFormat.schema;
+  }
+  if (abortSignal) {
+    configForApi.abortSignal = abortSignal;
+  }
 
-    let requestContents: string | { parts: Part[] } | any;
-
-    // 🔍 DEBUG: 验证Gemini服务中的消息历史和关键参数
-    console.log(`[CRITICAL-DEBUG-Gemini] generateResponse调用详情:`, {
-      传入的prompt长度: prompt?.length || 0,
-      传入的prompt前100字符: prompt?.substring(0, 100) || '❌ EMPTY PROMPT',
-      传入的messageHistory长度: messageHistory?.length || 0,
-      messageHistory前3条: messageHistory?.slice(0, 3).map(m => ({
-        sender: m.sender,
-        text: m.text.substring(0, 50) + '...'
-      })) || [],
-      使用消息历史: !!(messageHistory && messageHistory.length > 0),
-      modelName: modelName,
-      systemInstruction长度: systemInstruction?.length || 0
-    });
+  let requestContents: string | { parts: Part[] } | any;
 
-    // 如果有消息历史，构建完整对话上下文
-    if (messageHistory && messageHistory.length > 0) {
-      // 截断消息历史以防止超出token限制
-      const truncatedHistory = truncateMessageHistory(messageHistory, 6000);
-      
-      // 对于Gemini，我们使用上下文化的prompt方式，因为Gemini的多轮对话API较复杂
-      const contextualPrompt = buildContextualPrompt(prompt, truncatedHistory, 15);
-      
-      console.log(`[CRITICAL-DEBUG-Gemini] 消息历史处理结果:`, {
-        原始历史长度: messageHistory.length,
-        截断后长度: truncatedHistory.length,
-        最大历史长度限制: 15,
-        构建的上下文化prompt长度: contextualPrompt.length,
-        上下文化prompt内容预览: contextualPrompt.substring(0, 200) + '...'
+  // 🔍 DEBUG: 验证Gemini服务中的消息历史和关键参数
+  console.log(`[CRITICAL-DEBUG-Gemini] 请求详情:`, {
+    传入的prompt长度: prompt?.length || 0,
+    传入的prompt前100字符: prompt?.substring(0, 100) || '❌ EMPTY PROMPT',
+    传入的messageHistory长度: messageHistory?.length || 0,
+    messageHistory前3条: messageHistory?.slice(0, 3).map(m => ({
+      sender: m.sender,
+      text: m.text.substring(0, 50) + '...'
+    })) || [],
+    使用消息历史: !!(messageHistory && messageHistory.length > 0),
+    modelName: modelName,
+    systemInstruction长度: systemInstruction?.length || 0
+  });
+
+  // 如果有消息历史，构建完整对话上下文
+  if (messageHistory && messageHistory.length > 0) {
+    // 截断消息历史以防止超出token限制
+    const truncatedHistory = truncateMessageHistory(messageHistory, 6000);
+    
+    // 对于Gemini，我们使用上下文化的prompt方式，因为Gemini的多轮对话API较复杂
+    const contextualPrompt = buildContextualPrompt(prompt, truncatedHistory, 15);
+    
+    console.log(`[CRITICAL-DEBUG-Gemini] 消息历史处理结果:`, {
+      原始历史长度: messageHistory.length,
+      截断后长度: truncatedHistory.length,
+      最大历史长度限制: 15,
+      构建的上下文化prompt长度: contextualPrompt.length,
+      上下文化prompt内容预览: contextualPrompt.substring(0, 200) + '...'
+    });
+    
+    // 🚨 CRITICAL: 验证contextualPrompt不为空
+    if (!contextualPrompt || contextualPrompt.trim().length === 0) {
+      console.error(`[CRITICAL-ERROR] 上下文化prompt为空！`, {
+        contextualPrompt,
+        原始prompt: prompt,
+        truncatedHistory长度: truncatedHistory.length
       });
-      
-      // 🚨 CRITICAL: 验证contextualPrompt不为空
-      if (!contextualPrompt || contextualPrompt.trim().length === 0) {
-        console.error(`[CRITICAL-ERROR] 上下文化prompt为空！`, {
-          contextualPrompt,
-          原始prompt: prompt,
-          truncatedHistory长度: truncatedHistory.length
-        });
-        throw new Error('构建的上下文化prompt为空，无法发送给Gemini API');
-      }
-      
-      if (imagePart) {
-        requestContents = { parts: [imagePart, { text: contextualPrompt }] };
-      } else {
-        requestContents = contextualPrompt;
-      }
+      throw new Error('构建的上下文化prompt为空，无法发送给Gemini API');
+    }
+    
+    if (imagePart) {
+      requestContents = { parts: [imagePart, { text: contextualPrompt }] };
     } else {
-      // 向后兼容：没有消息历史时使用原始逻辑
-      console.log(`[CRITICAL-DEBUG-Gemini] 使用原始prompt:`, {
-        原始prompt长度: prompt?.length || 0,
-        原始prompt前100字符: prompt?.substring(0, 100) || '❌ EMPTY PROMPT'
-      });
-      
-      // 🚨 CRITICAL: 验证原始prompt不为空
-      if (!prompt || prompt.trim().length === 0) {
-        console.error(`[CRITICAL-ERROR] 原始prompt为空！无法发送给Gemini API`);
-        throw new Error('原始prompt为空，无法发送给Gemini API');
-      }
-      
-      const textPart: Part = { text: prompt };
-      if (imagePart) {
-        requestContents = { parts: [imagePart, textPart] };
-      } else {
-        requestContents = prompt;
-      }
+      requestContents = contextualPrompt;
     }
-
-    // 🚨 FINAL CRITICAL CHECK: 验证requestContents
-    console.log(`[CRITICAL-DEBUG-Gemini] 最终requestContents验证:`, {
-      requestContents类型: typeof requestContents,
-      requestContents是否为空: !requestContents,
-      requestContents长度: typeof requestContents === 'string' ? requestContents.length : 'N/A',
-      requestContents预览: typeof requestContents === 'string'
-        ? requestContents.substring(0, 100) + '...'
-        : JSON.stringify(requestContents, null, 2).substring(0, 200) + '...'
+  } else {
+    // 向后兼容：没有消息历史时使用原始逻辑
+    console.log(`[CRITICAL-DEBUG-Gemini] 使用原始prompt:`, {
+      原始prompt长度: prompt?.length || 0,
+      原始prompt前100字符: prompt?.substring(0, 100) || '❌ EMPTY PROMPT'
     });
+    
+    // 🚨 CRITICAL: 验证原始prompt不为空
+    if (!prompt || prompt.trim().length === 0) {
+      console.error(`[CRITICAL-ERROR] 原始prompt为空！无法发送给Gemini API`);
+      throw new Error('原始prompt为空，无法发送给Gemini API');
+    }
+    
+    const textPart: Part = { text: prompt };
+    if (imagePart) {
+      requestContents = { parts: [imagePart, textPart] };
+    } else {
+      requestContents = prompt;
+    }
+  }
+
+  // 原生函数调用：以多轮 contents 回传本次发言中的工具调用与结果
+  if (toolOptions) {
+    const initialParts: Part[] = typeof requestContents === 'string' ? [{ text: requestContents }] : requestContents.parts;
+    requestContents = [
+      { role: 'user', parts: initialParts },
+      ...toolOptions.exchanges.flatMap(exchange => [
+        {
+          role: 'model',
+          parts: [
+            ...(exchange.text ? [{ text: exchange.text }] : []),
+            ...exchange.calls.map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+          ],
+        },
+        {
+          role: 'user',
+          parts: exchange.results.map(result => ({ functionResponse: { name: result.name, response: { result: result.content } } })),
+        },
+      ]),
+    ];
+    configForApi.tools = [{
+      functionDeclarations: toolOptions.declarations.map(declaration => ({
+        name: declaration.name,
+        description: declaration.description,
+        parametersJsonSchema: declaration.parameters,
+      })),
+    }];
+    if (toolOptions.disableCalls) {
+      configForApi.toolConfig = { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } };
+    }
+  }
+
+  // 🚨 FINAL CRITICAL CHECK: 验证requestContents
+  console.log(`[CRITICAL-DEBUG-Gemini] 最终requestContents验证:`, {
+    requestContents类型: typeof requestContents,
+    requestContents是否为空: !requestContents,
+    requestContents长度: typeof requestContents === 'string' ? requestContents.length : 'N/A',
+    requestContents预览: typeof requestContents === 'string'
+      ? requestContents.substring(0, 100) + '...'
+      : JSON.stringify(requestContents, null, 2).substring(0, 200) + '...'
+  });
+
+  return {
+    genAI,
+    model: modelName,
+    contents: requestContents,
+    config: Object.keys(configForApi).length > 0 ? configForApi : undefined,
+  };
+};
+
+export const generateResponse = async (
+  prompt: string,
+  modelName: string,
+  useCustomConfig: boolean, // New parameter to decide API config source
+  customApiKey?: string,
+  customApiEndpoint?: string,
+  systemInstruction?: string,
+  imagePart?: { inlineData: { mimeType: string; data: string } },
+  thinkingConfig?: { thinkingBudget: number },
+  temperature?: number,
+  messageHistory?: ChatMessage[],
+  responseFormat?: StructuredOutputSpec, // 使用 JSON 输出模式
+  toolOptions?: AgentToolRequestOptions, // 原生函数调用
+  abortSignal?: AbortSignal // 中断进行中的请求（停止按钮 / 超时）
+): Promise<GeminiResponsePayload> => {
+  const startTime = performance.now();
+  try {
+    const request = prepareGeminiRequest(
+      prompt,
+      modelName,
+      useCustomConfig,
+      customApiKey,
+      customApiEndpoint,
+      systemInstruction,
+      imagePart,
+      thinkingConfig,
+      temperature,
+      messageHistory,
+      responseFormat,
+      toolOptions,
+      abortSignal
+    );
+    if ('missingKeyMessage' in request) {
+      // This specific error "API key not configured" will be checked by useChatLogic
+      return {
+        text: request.missingKeyMessage,
+        durationMs: performance.now() - startTime,
+        error: "API key not configured",
+        providerError: new AuthenticationError(request.missingKeyMessage, { provider: 'gemini' }, true),
+      };
+    }
 
-    const response: GenerateContentResponse = await genAI.models.generateContent({
-      model: modelName,
-      contents: requestContents,
-      config: Object.keys(configForApi).length > 0 ? configForApi : undefined,
+    const response: GenerateContentResponse = await request.genAI.models.generateContent({
+      model: request.model,
+      contents: request.contents,
+      config: request.config,
     });
 
     const durationMs = performance.now() - startTime;
     const responseText = response.text || '';
-    return { text: responseText, durationMs };
+    const toolCalls = response.functionCalls?.map(call => ({
+      id: call.id || generateUniqueId(),
+      name: call.name || '',
+      arguments: call.args || {},
+    }));
+    const blockReason = response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason;
+    if (!responseText && !toolCalls?.length && blockReason && BLOCKED_FINISH_REASONS.includes(blockReason)) {
+      const providerError = new InvalidRequestError(`内容被安全策略拦截: ${blockReason}`, 'content-policy', { code: blockReason, provider: 'gemini' });
+      return { text: providerError.message, durationMs, error: "Content blocked", providerError };
+    }
+    return { text: responseText, durationMs, toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined };
   } catch (error) {
     console.error("调用Gemini API时出错:", error);
     const durationMs = performance.now() - startTime;
@@ -226,7 +376,7 @@ export const generateResponse = async (
       // The "API key not configured" case is handled before calling createGoogleAIClient
       // and directly returned if apiKeyToUse is null/empty. This catch is for other errors.
     }
-    return { text: errorMessage, durationMs, error: errorType };
+    return { text: errorMessage, durationMs, error: errorType, providerError: toGeminiProviderError(error) };
   }
 };
 
@@ -241,13 +391,13 @@ export const generateStreamResponse = async (
   thinkingConfig?: { thinkingBudget: number },
   temperature?: number,
   callbacks?: GeminiStreamResponse,
-  messageHistory?: ChatMessage[]
+  messageHistory?: ChatMessage[],
+  abortSignal?: AbortSignal
 ): Promise<void> => {
   const startTime = performance.now();
   
   try {
-    // 由于Gemini API可能不支持真正的流式，我们使用模拟流式
-    const result = await generateResponse(
+    const request = prepareGeminiRequest(
       prompt,
       modelName,
       useCustomConfig,
@@ -257,44 +407,49 @@ export const generateStreamResponse = async (
       imagePart,
       thinkingConfig,
       temperature,
-      messageHistory
+      messageHistory,
+      undefined,
+      undefined,
+      abortSignal
     );
-
-    if (result.error) {
-      callbacks?.onError?.(result.text, result.error, result.durationMs);
+    if ('missingKeyMessage' in request) {
+      callbacks?.onError?.(request.missingKeyMessage, "API key not configured", performance.now() - startTime, undefined, undefined,
+        new AuthenticationError(request.missingKeyMessage, { provider: 'gemini' }, true));
       return;
     }
 
-    // 改进的模拟流式输出
-    const text = result.text;
-    const totalWords = text.split(/\s+/).length;
-    const wordsPerChunk = Math.max(1, Math.ceil(totalWords / 30)); // 按词分块，约30个块
-    const words = text.split(/(\s+)/); // 保留空格
-    let currentWordIndex = 0;
-
-    const sendChunk = () => {
-      if (currentWordIndex >= words.length) {
-        callbacks?.onComplete?.(text, result.durationMs);
-        return;
-      }
+    const stream = await request.genAI.models.generateContentStream({
+      model: request.model,
+      contents: request.contents,
+      config: request.config,
+    });
 
-      // 取出一个块的词语
-      const chunkWords = words.slice(currentWordIndex, currentWordIndex + wordsPerChunk * 2); // *2因为包含空格
-      const chunk = chunkWords.join('');
-      currentWordIndex += wordsPerChunk * 2;
-      
-      if (chunk.trim()) {
-        callbacks?.onChunk?.(chunk);
+    // 数据块到达即转发
+    let fullText = '';
+    let blockReason: string | undefined;
+    for await (const chunk of stream) {
+      const chunkText = chunk.text || '';
+      if (chunkText) {
+        fullText += chunkText;
+        callbacks?.onChunk?.(chunkText);
       }
+      blockReason = chunk.promptFeedback?.blockReason || chunk.candidates?.[0]?.finishReason || blockReason;
+    }
 
-      // 动态调整延迟，让流式更自然
-      const delay = Math.random() * 30 + 20; // 20-50ms的随机延迟
-      setTimeout(sendChunk, delay);
-    };
-
-    sendChunk();
+    const durationMs = performance.now() - startTime;
+    if (abortSignal?.aborted) {
+      callbacks?.onError?.("请求被中断", "AbortError", durationMs, undefined, undefined, new CancelledError('请求被中断', { provider: 'gemini' }));
+      return;
+    }
+    if (!fullText && blockReason && BLOCKED_FINISH_REASONS.includes(blockReason)) {
+      const providerError = new InvalidRequestError(`内容被安全策略拦截: ${blockReason}`, 'content-policy', { code: blockReason, provider: 'gemini' });
+      callbacks?.onError?.(providerError.message, "Content blocked", durationMs, undefined, undefined, providerError);
+      return;
+    }
+    callbacks?.onComplete?.(fullText, durationMs);
 
   } catch (error) {
+    console.error("调用Gemini流式API时出错:", error);
     const durationMs = performance.now() - startTime;
     let errorMessage = "与AI通信时发生未知错误。";
     let errorType = "Unknown AI error";
@@ -302,6 +457,6 @@ export const generateStreamResponse = async (
       errorMessage = `与AI通信时出错: ${error.message}`;
       errorType = error.name;
     }
-    callbacks?.onError?.(errorMessage, errorType, durationMs);
+    callbacks?.onError?.(errorMessage, errorType, durationMs, undefined, undefined, toGeminiProviderError(error));
   }
 };
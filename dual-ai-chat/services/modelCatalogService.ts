@@ -0,0 +1,137 @@
+import { ApiChannel, DiscoveredModel } from '../types';
+import { buildAnthropicHeaders, getAnthropicApiBaseUrl } from './anthropicService';
+import { getChannelApiKeys, selectApiKey } from './apiKeyPoolService';
+
+const DEFAULT_GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const MODEL_LIST_TIMEOUT_MS = 15000;
+const MAX_GEMINI_MODEL_PAGES = 5;
+const MAX_ANTHROPIC_MODEL_PAGES = 5;
+
+// 不用于对话的模型（嵌入、语音、图像生成、审核等）
+const NON_CHAT_MODEL_PATTERN = /(embed|whisper|tts|dall-e|moderation|transcribe|realtime|^text-|imagen|veo|aqa)/i;
+const VISION_MODEL_PATTERN = /(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|(^|\/)o[134](-|$)|vision|[-_]vl\b|llava|gemini|gemma-3|claude|pixtral|minicpm-v|llama-4|grok-.*vision)/i;
+const NO_SYSTEM_INSTRUCTION_PATTERN = /(gemma|o1-mini|o1-preview)/i;
+const THINKING_MODEL_PATTERN = /(gemini-2\.5|gemini-3|thinking|(^|\/)o[134](-|$)|gpt-5|deepseek-r1|reasoner|qwq)/i;
+
+/**
+ * 接口未提供能力信息时，按模型名推断视觉、系统提示词与思考能力
+ */
+export const inferModelCapabilities = (modelId: string): Pick<DiscoveredModel, 'supportsVision' | 'supportsSystemInstruction' | 'supportsThinking'> => ({
+  supportsVision: VISION_MODEL_PATTERN.test(modelId),
+  supportsSystemInstruction: !NO_SYSTEM_INSTRUCTION_PATTERN.test(modelId),
+  supportsThinking: THINKING_MODEL_PATTERN.test(modelId),
+});
+
+const fetchJson = async (url: string, init: RequestInit): Promise<any> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), MODEL_LIST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.json();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('获取模型列表超时');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+const fetchOpenAiModels = async (channel: ApiChannel, apiKey: string): Promise<DiscoveredModel[]> => {
+  // 本地服务（如 Ollama）不需要密钥
+  const data = await fetchJson(`${channel.baseUrl}/models`, {
+    method: 'GET',
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+  });
+  const entries: any[] = Array.isArray(data?.data) ? data.data : Array.isArray(data) ? data : [];
+  return entries
+    .filter(entry => typeof entry?.id === 'string' && !NON_CHAT_MODEL_PATTERN.test(entry.id))
+    .map(entry => {
+      const inferred = inferModelCapabilities(entry.id);
+      // 部分聚合服务（如 OpenRouter）会返回输入模态与上下文长度
+      const inputModalities: unknown = entry.architecture?.input_modalities;
+      return {
+        id: entry.id,
+        displayName: typeof entry.name === 'string' ? entry.name : entry.id,
+        ...inferred,
+        supportsVision: Array.isArray(inputModalities) ? inputModalities.includes('image') : inferred.supportsVision,
+        inputTokenLimit: typeof entry.context_length === 'number' ? entry.context_length : undefined,
+      };
+    });
+};
+
+const fetchAnthropicModels = async (channel: ApiChannel, apiKey: string): Promise<DiscoveredModel[]> => {
+  const models: DiscoveredModel[] = [];
+  let afterId: string | undefined;
+
+  for (let page = 0; page < MAX_ANTHROPIC_MODEL_PAGES; page++) {
+    const url = `${getAnthropicApiBaseUrl(channel.baseUrl)}/models?limit=1000${afterId ? `&after_id=${encodeURIComponent(afterId)}` : ''}`;
+    const data = await fetchJson(url, { method: 'GET', headers: buildAnthropicHeaders(apiKey) });
+    for (const entry of Array.isArray(data?.data) ? data.data : []) {
+      if (typeof entry?.id !== 'string') continue;
+      models.push({
+        id: entry.id,
+        displayName: typeof entry.display_name === 'string' ? entry.display_name : entry.id,
+        ...inferModelCapabilities(entry.id),
+      });
+    }
+    afterId = data?.has_more ? data.last_id : undefined;
+    if (!afterId) break;
+  }
+  return models;
+};
+
+const fetchGeminiModels = async (channel: ApiChannel, apiKey: string): Promise<DiscoveredModel[]> => {
+  const baseUrl = channel.baseUrl || DEFAULT_GEMINI_BASE_URL;
+  const models: DiscoveredModel[] = [];
+  let pageToken: string | undefined;
+
+  for (let page = 0; page < MAX_GEMINI_MODEL_PAGES; page++) {
+    const url = `${baseUrl}/models?key=${encodeURIComponent(apiKey)}&pageSize=1000${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+    const data = await fetchJson(url, { method: 'GET' });
+    for (const entry of Array.isArray(data?.models) ? data.models : []) {
+      const id = String(entry.name || '').replace(/^models\//, '');
+      const methods: unknown = entry.supportedGenerationMethods;
+      if (!id || NON_CHAT_MODEL_PATTERN.test(id)) continue;
+      if (Array.isArray(methods) && !methods.includes('generateContent')) continue;
+      const inferred = inferModelCapabilities(id);
+      models.push({
+        id,
+        displayName: entry.displayName || id,
+        ...inferred,
+        supportsThinking: typeof entry.thinking === 'boolean' ? entry.thinking : inferred.supportsThinking,
+        inputTokenLimit: typeof entry.inputTokenLimit === 'number' ? entry.inputTokenLimit : undefined,
+      });
+    }
+    pageToken = data?.nextPageToken;
+    if (!pageToken) break;
+  }
+  return models;
+};
+
+/**
+ * 渠道是否具备获取模型列表的条件：OpenAI 兼容渠道可以不配置密钥，其他渠道需要密钥池中至少有一个密钥
+ */
+export const canFetchChannelModels = (channel: ApiChannel): boolean =>
+  channel.provider === 'openai' ? !!channel.baseUrl : getChannelApiKeys(channel).length > 0;
+
+/**
+ * 获取渠道可用的对话模型列表（按模型名排序）
+ */
+export const fetchChannelModels = async (channel: ApiChannel): Promise<DiscoveredModel[]> => {
+  if (!canFetchChannelModels(channel)) {
+    throw new Error(channel.provider === 'openai' ? '渠道未配置 Base URL' : '渠道未配置 API 密钥');
+  }
+  // 与对话请求一样从密钥池中挑选密钥
+  const apiKey = selectApiKey(channel)?.key || '';
+  const models = channel.provider === 'gemini'
+    ? await fetchGeminiModels(channel, apiKey)
+    : channel.provider === 'anthropic'
+      ? await fetchAnthropicModels(channel, apiKey)
+      : await fetchOpenAiModels(channel, apiKey);
+  return models.sort((a, b) => a.id.localeCompare(b.id));
+};
@@ -1,5 +1,6 @@
-import { ChatMessage } from '../types';
+import { AgentToolCallRequest, AgentToolExchange, AgentToolRequestOptions, ChatMessage, StructuredOutputSpec } from '../types';
 import { convertToOpenAIMessages, truncateMessageHistory } from '../utils/messageConverter';
+import { InvalidRequestError, ProviderError, TransientProviderError, parseRetryAfterHeaders, providerErrorFromException, providerErrorFromStatus } from './providerErrors';
 
 interface OpenAiResponsePayload {
   text: string;
@@ -7,14 +8,24 @@ interface OpenAiResponsePayload {
   error?: string;
   requestDetails?: any;
   responseBody?: any;
+  toolCalls?: AgentToolCallRequest[];
+  providerError?: ProviderError; // 请求失败时的类型化错误
 }
 
 interface OpenAiStreamResponse {
   onChunk: (chunk: string) => void;
   onComplete: (fullText: string, durationMs: number) => void;
-  onError: (error: string, errorType: string, durationMs: number, requestDetails?: any, responseBody?: any) => void;
+  onError: (error: string, errorType: string, durationMs: number, requestDetails?: any, responseBody?: any, providerError?: ProviderError) => void;
 }
 
+// 根据失败响应的状态码、错误码与 Retry-After 响应头构造类型化错误
+const providerErrorFromResponse = (response: Response, data: any, message: string): ProviderError =>
+  providerErrorFromStatus(response.status, message, {
+    code: data?.error?.code || data?.error?.type,
+    retryAfterMs: parseRetryAfterHeaders(response.headers),
+    provider: 'openai',
+  });
+
 interface OpenAiMessageContentPartText {
   type: 'text';
   text: string;
@@ -30,11 +41,48 @@ interface OpenAiMessageContentPartImage {
 
 type OpenAiMessageContentPart = OpenAiMessageContentPartText | OpenAiMessageContentPartImage;
 
+interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
 interface OpenAiChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string | Array<OpenAiMessageContentPart>;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | Array<OpenAiMessageContentPart> | null;
+  tool_calls?: OpenAiToolCall[];
+  tool_call_id?: string;
 }
 
+// 将本次发言中的工具往返追加为 assistant(tool_calls) 与 tool 消息
+const appendToolExchanges = (messages: OpenAiChatMessage[], exchanges: AgentToolExchange[]): void => {
+  exchanges.forEach(exchange => {
+    messages.push({
+      role: 'assistant',
+      content: exchange.text || null,
+      tool_calls: exchange.calls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    });
+    exchange.results.forEach(result => {
+      messages.push({ role: 'tool', tool_call_id: result.callId, content: result.content });
+    });
+  });
+};
+
+const parseOpenAiToolCalls = (toolCalls: OpenAiToolCall[]): AgentToolCallRequest[] => toolCalls.map(call => {
+  let args: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(call.function.arguments || '{}');
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) args = parsed;
+  } catch {
+    // 参数不是有效 JSON 时按空参数处理，由工具的参数校验报告错误
+  }
+  return { id: call.id, name: call.function.name, arguments: args };
+});
+
 export const generateOpenAiResponse = async (
   prompt: string,
   modelId: string,
@@ -43,7 +91,10 @@ export const generateOpenAiResponse = async (
   systemInstruction?: string,
   imagePart?: { mimeType: string; data: string },
   temperature?: number,
-  messageHistory?: ChatMessage[]
+  messageHistory?: ChatMessage[],
+  responseFormat?: StructuredOutputSpec, // 使用 json_schema 结构化输出
+  toolOptions?: AgentToolRequestOptions, // 原生函数调用
+  abortSignal?: AbortSignal // 中断进行中的请求（停止按钮 / 超时）
 ): Promise<OpenAiResponsePayload> => {
   const startTime = performance.now();
   let messages: OpenAiChatMessage[] = [];
@@ -130,10 +181,27 @@ export const generateOpenAiResponse = async (
     messages.push({ role: 'user', content: userMessageContent });
   }
 
+  if (toolOptions) {
+    appendToolExchanges(messages, toolOptions.exchanges);
+  }
+
   const requestBody = {
     model: modelId,
     messages: messages,
     temperature: temperature !== undefined ? temperature : 1.0,
+    ...(toolOptions && toolOptions.declarations.length > 0 ? {
+      tools: toolOptions.declarations.map(declaration => ({
+        type: 'function',
+        function: { name: declaration.name, description: declaration.description, parameters: declaration.parameters },
+      })),
+      ...(toolOptions.disableCalls ? { tool_choice: 'none' } : {}),
+    } : {}),
+    ...(responseFormat ? {
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'final_answer', schema: responseFormat.schema, strict: false },
+      },
+    } : {}),
   };
 
   const requestDetails = {
@@ -154,6 +222,7 @@ export const generateOpenAiResponse = async (
         'Authorization': `Bearer ${apiKey}`,
       },
       body: JSON.stringify(requestBody),
+      signal: abortSignal,
     });
 
     const durationMs = performance.now() - startTime;
@@ -168,7 +237,10 @@ export const generateOpenAiResponse = async (
         durationMs,
         error: "JSON Parse Error",
         requestDetails,
-        responseBody: { rawText: textBody, parseError: parseError?.message || 'Unknown parse error' }
+        responseBody: { rawText: textBody, parseError: parseError?.message || 'Unknown parse error' },
+        providerError: response.ok
+          ? new TransientProviderError('无法解析响应JSON', 'invalid-response', { status: response.status, provider: 'openai' })
+          : providerErrorFromResponse(response, undefined, response.statusText || `请求失败，状态码: ${response.status}`),
       };
     }
 
@@ -182,11 +254,12 @@ export const generateOpenAiResponse = async (
         errorType = "Quota exceeded";
       }
       
-      return { text: errorMessage, durationMs, error: errorType, requestDetails, responseBody: data };
+      return { text: errorMessage, durationMs, error: errorType, requestDetails, responseBody: data, providerError: providerErrorFromResponse(response, data, errorMessage) };
     }
 
     // 适配这个 API 的响应格式
     let content = "";
+    let toolCalls: AgentToolCallRequest[] | undefined;
     
     // 检查是否是标准 OpenAI 格式
     if (data.choices && data.choices.length > 0) {
@@ -194,6 +267,13 @@ export const generateOpenAiResponse = async (
       if (choice.message && choice.message.content !== undefined) {
         content = choice.message.content || "";
       }
+      if (choice.message?.tool_calls?.length > 0) {
+        toolCalls = parseOpenAiToolCalls(choice.message.tool_calls);
+      }
+      if (choice.finish_reason === 'content_filter' && !content && !toolCalls) {
+        const providerError = new InvalidRequestError('回复被内容过滤拦截', 'content-policy', { code: 'content_filter', provider: 'openai' });
+        return { text: providerError.message, durationMs, error: "Content filtered", requestDetails, responseBody: data, providerError };
+      }
     }
     // 检查是否是这个 API 的格式
     else if (data.result && data.result.length > 0) {
@@ -204,10 +284,17 @@ export const generateOpenAiResponse = async (
     }
     // 都不匹配则返回错误
     else {
-      return { text: "AI响应格式无效。", durationMs, error: "Invalid response structure", requestDetails, responseBody: data };
+      return {
+        text: "AI响应格式无效。",
+        durationMs,
+        error: "Invalid response structure",
+        requestDetails,
+        responseBody: data,
+        providerError: new TransientProviderError('AI响应格式无效', 'invalid-response', { provider: 'openai' }),
+      };
     }
     
-    return { text: content, durationMs };
+    return { text: content, durationMs, toolCalls };
 
   } catch (error) {
     const durationMs = performance.now() - startTime;
@@ -217,7 +304,7 @@ export const generateOpenAiResponse = async (
       errorMessage = `与AI通信时出错: ${error.message}`;
       errorType = error.name;
     }
-    return { text: errorMessage, durationMs, error: errorType, requestDetails };
+    return { text: errorMessage, durationMs, error: errorType, requestDetails, providerError: providerErrorFromException(error, { provider: 'openai' }) };
   }
 };
 
@@ -230,7 +317,8 @@ export const generateOpenAiStreamResponse = async (
   imagePart?: { mimeType: string; data: string },
   temperature?: number,
   callbacks?: OpenAiStreamResponse,
-  messageHistory?: ChatMessage[]
+  messageHistory?: ChatMessage[],
+  abortSignal?: AbortSignal
 ): Promise<void> => {
   const startTime = performance.now();
   let messages: OpenAiChatMessage[] = [];
@@ -326,6 +414,7 @@ export const generateOpenAiStreamResponse = async (
         'Authorization': `Bearer ${apiKey}`,
       },
       body: JSON.stringify(requestBody),
+      signal: abortSignal,
     });
 
     if (!response.ok) {
@@ -335,7 +424,14 @@ export const generateOpenAiStreamResponse = async (
         data = await response.json();
       } catch (parseError: any) {
         const textBody = await response.text();
-        callbacks?.onError?.("无法解析响应JSON", "JSON Parse Error", durationMs, requestDetails, { rawText: textBody, parseError: parseError?.message || 'Unknown parse error' });
+        callbacks?.onError?.(
+          "无法解析响应JSON",
+          "JSON Parse Error",
+          durationMs,
+          requestDetails,
+          { rawText: textBody, parseError: parseError?.message || 'Unknown parse error' },
+          providerErrorFromResponse(response, undefined, response.statusText || `请求失败，状态码: ${response.status}`)
+        );
         return;
       }
 
@@ -348,13 +444,14 @@ export const generateOpenAiStreamResponse = async (
         errorType = "Quota exceeded";
       }
       
-      callbacks?.onError?.(errorMessage, errorType, durationMs, requestDetails, data);
+      callbacks?.onError?.(errorMessage, errorType, durationMs, requestDetails, data, providerErrorFromResponse(response, data, errorMessage));
       return;
     }
 
     if (!response.body) {
       const durationMs = performance.now() - startTime;
-      callbacks?.onError?.("响应体为空", "No response body", durationMs, requestDetails);
+      callbacks?.onError?.("响应体为空", "No response body", durationMs, requestDetails, undefined,
+        new TransientProviderError('响应体为空', 'invalid-response', { status: response.status, provider: 'openai' }));
       return;
     }
 
@@ -396,7 +493,8 @@ export const generateOpenAiStreamResponse = async (
 
     } catch (error) {
       const durationMs = performance.now() - startTime;
-      callbacks?.onError?.(error instanceof Error ? error.message : "流读取错误", "Stream read error", durationMs, requestDetails);
+      callbacks?.onError?.(error instanceof Error ? error.message : "流读取错误", "Stream read error", durationMs, requestDetails, undefined,
+        providerErrorFromException(error, { provider: 'openai' }));
     }
 
   } catch (error) {
@@ -407,6 +505,6 @@ export const generateOpenAiStreamResponse = async (
       errorMessage = `与AI通信时出错: ${error.message}`;
       errorType = error.name;
     }
-    callbacks?.onError?.(errorMessage, errorType, durationMs, requestDetails);
+    callbacks?.onError?.(errorMessage, errorType, durationMs, requestDetails, undefined, providerErrorFromException(error, { provider: 'openai' }));
   }
 };
\ No newline at end of file
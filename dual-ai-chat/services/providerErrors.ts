@@ -0,0 +1,186 @@
+// 服务商请求失败的类型化错误：携带 HTTP 状态码、服务商错误码以及是否值得重试
+
+export type ProviderErrorKind =
+  | 'missing-key'
+  | 'auth'
+  | 'rate-limit'
+  | 'quota-exhausted'
+  | 'model-not-found'
+  | 'content-policy'
+  | 'invalid-request'
+  | 'server'
+  | 'timeout'
+  | 'network'
+  | 'invalid-response'
+  | 'cancelled';
+
+export interface ProviderErrorOptions {
+  status?: number;
+  code?: string;         // 服务商返回的错误码，如 insufficient_quota、RESOURCE_EXHAUSTED
+  provider?: string;
+  retryAfterMs?: number; // 服务商要求的最短等待时间（Retry-After / RetryInfo）
+}
+
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly provider?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    readonly kind: ProviderErrorKind,
+    readonly retryable: boolean,
+    options: ProviderErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = options.status;
+    this.code = options.code;
+    this.provider = options.provider;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// 密钥缺失、无效或无权限：换密钥前重试没有意义
+export class AuthenticationError extends ProviderError {
+  constructor(message: string, options?: ProviderErrorOptions, missing = false) {
+    super(message, missing ? 'missing-key' : 'auth', false, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+// 请求过于频繁：等待后可重试；额度耗尽则需要充值，不再重试
+export class RateLimitError extends ProviderError {
+  constructor(message: string, options?: ProviderErrorOptions, quotaExhausted = false) {
+    super(message, quotaExhausted ? 'quota-exhausted' : 'rate-limit', !quotaExhausted, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+// 请求本身有问题（模型不存在、内容被拦截、参数错误）：原样重试只会再次失败
+export class InvalidRequestError extends ProviderError {
+  constructor(message: string, kind: 'model-not-found' | 'content-policy' | 'invalid-request', options?: ProviderErrorOptions) {
+    super(message, kind, false, options);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+// 服务端错误、超时、网络故障或无法解析的响应：可能是暂时性的，可重试
+export class TransientProviderError extends ProviderError {
+  constructor(message: string, kind: 'server' | 'timeout' | 'network' | 'invalid-response', options?: ProviderErrorOptions) {
+    super(message, kind, true, options);
+    this.name = 'TransientProviderError';
+  }
+}
+
+export class CancelledError extends ProviderError {
+  constructor(message = '请求已取消', options?: ProviderErrorOptions) {
+    super(message, 'cancelled', false, options);
+    this.name = 'CancelledError';
+  }
+}
+
+const CONTENT_POLICY_CODES = ['content_policy_violation', 'content_filter', 'safety', 'prohibited_content', 'blocklist'];
+const MODEL_NOT_FOUND_CODES = ['model_not_found', 'not_found'];
+const QUOTA_EXHAUSTED_CODES = ['insufficient_quota', 'billing_hard_limit_reached'];
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期）以及 OpenAI 的 retry-after-ms 响应头
+ */
+export const parseRetryAfterHeaders = (headers?: Headers): number | undefined => {
+  if (!headers) return undefined;
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs && Number.isFinite(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) return undefined;
+  if (Number.isFinite(Number(retryAfter))) return Math.max(0, Number(retryAfter) * 1000);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * 解析 Google API 错误详情中的 RetryInfo（如 "retryDelay": "30s"）
+ */
+export const parseGoogleRetryDelay = (text: string): number | undefined => {
+  const match = text.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * 根据 HTTP 状态码与服务商错误码构造对应的错误
+ */
+export const providerErrorFromStatus = (status: number, message: string, options: ProviderErrorOptions = {}): ProviderError => {
+  const withStatus = { ...options, status };
+  const code = options.code?.toLowerCase() || '';
+  const messageLower = message.toLowerCase();
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, withStatus);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, withStatus, QUOTA_EXHAUSTED_CODES.includes(code));
+  }
+  if (CONTENT_POLICY_CODES.some(c => code.includes(c)) || messageLower.includes('content policy') || messageLower.includes('safety')) {
+    return new InvalidRequestError(message, 'content-policy', withStatus);
+  }
+  if (status === 404 || MODEL_NOT_FOUND_CODES.includes(code) || (status === 400 && messageLower.includes('model') && messageLower.includes('not'))) {
+    return new InvalidRequestError(message, 'model-not-found', withStatus);
+  }
+  if (status === 408) {
+    return new TransientProviderError(message, 'timeout', withStatus);
+  }
+  if (status >= 500) {
+    return new TransientProviderError(message, 'server', withStatus);
+  }
+  return new InvalidRequestError(message, 'invalid-request', withStatus);
+};
+
+/**
+ * 将 fetch / SDK 抛出的异常转换为类型化错误
+ */
+export const providerErrorFromException = (error: unknown, options: ProviderErrorOptions = {}): ProviderError => {
+  if (error instanceof ProviderError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new CancelledError('请求被中断', options);
+  }
+  // 其余异常多为 fetch 的网络故障（断网、CORS、DNS 在浏览器中表现为 TypeError），按可重试处理
+  return new TransientProviderError(message, 'network', options);
+};
+
+/**
+ * 面向用户的错误说明：指出原因以及是否需要用户处理
+ */
+export const describeProviderError = (error: ProviderError): string => {
+  const status = error.status ? `HTTP ${error.status}${error.code ? ` / ${error.code}` : ''}` : error.code || '';
+  const suffix = status ? `（${status}）` : '';
+  switch (error.kind) {
+    case 'missing-key':
+      return `未配置 API 密钥${suffix}。`;
+    case 'auth':
+      return `API 密钥无效或没有权限${suffix}，请检查渠道的密钥设置。`;
+    case 'rate-limit':
+      return `请求过于频繁，已被服务商限流${suffix}。`;
+    case 'quota-exhausted':
+      return `账户额度已用完${suffix}，请充值或更换渠道后再试。`;
+    case 'model-not-found':
+      return `模型不存在或当前密钥无权使用${suffix}，请检查模型名称。`;
+    case 'content-policy':
+      return `请求或回复被服务商的内容安全策略拦截${suffix}，请修改问题后再试。`;
+    case 'invalid-request':
+      return `服务商拒绝了请求${suffix}：${error.message}`;
+    case 'server':
+      return `服务商暂时不可用${suffix}。`;
+    case 'timeout':
+      return `请求超时${suffix}。`;
+    case 'network':
+      return `网络错误：${error.message}`;
+    case 'invalid-response':
+      return `服务商返回了无法解析的响应${suffix}。`;
+    case 'cancelled':
+      return '请求已取消。';
+  }
+};
@@ -2,6 +2,8 @@ export enum MessageSender {
   User = '用户',
   Cognito = 'Cognito', // Logical AI
   Muse = 'Muse',     // Creative AI
+  Agent = 'Agent',   // 其他讨论参与者（具体身份见 ChatMessage.agent）
+  Moderator = '主持人', // 评估讨论进展的主持人（不参与发言）
   System = '系统',
 }
 
@@ -11,6 +13,19 @@ export enum MessagePurpose {
   CognitoToMuse = 'cognito-to-muse',      // Cognito's message to Muse for discussion
   MuseToCognito = 'muse-to-cognito',      // Muse's response to Cognito
   FinalResponse = 'final-response',       // Final response from Cognito to User
+  AgentDiscussion = 'agent-discussion',   // 多AI讨论中的发言（发言者与对象见 ChatMessage.agent）
+  ModeratorVerdict = 'moderator-verdict', // 主持人在每轮结束后给出的评估结论
+  UserSteering = 'user-steering',         // 用户在讨论进行中插入的引导
+  ToolCall = 'tool-call',                 // 发言过程中的工具调用及结果（不计入对话历史）
+}
+
+// 消息中记录的发言AI信息（N 个参与者时用于区分发言者与样式）
+export interface MessageAgentInfo {
+  participantId: string;
+  name: string;
+  icon: string;
+  color: string;
+  addressee?: string; // 发言对象，用于“致 X 的消息”前缀
 }
 
 export interface ChatMessage {
@@ -26,6 +41,34 @@ export interface ChatMessage {
     name: string;
     type: string;
   };
+  agent?: MessageAgentInfo; // AI 发言者信息（旧消息可能缺省）
+  parallelGroupId?: string; // 同一并行轮次的发言共享此ID，界面中并排展示
+  alternates?: ChatMessageAlternate[]; // 最终答案：编辑问题重新生成前的历史答案
+  structuredAnswer?: StructuredAnswer; // 最终答案：按 JSON Schema 输出的结构化结果
+  route?: DiscussionRouteDecision; // 最终答案：本次讨论采用的路由
+  routeChoice?: DiscussionRouteChoice; // 用户消息：发送时选择的讨论方式，编辑重发时沿用
+  toolCall?: ToolCallRecord; // 工具调用消息：调用参数与结果
+  channel?: MessageChannelInfo; // AI 消息：最终给出回复的渠道
+}
+
+// 生成消息的渠道；前面的渠道失败后切换到备用渠道时记录失败的渠道
+export interface MessageChannelInfo {
+  channelId: string;
+  channelName: string;
+  model: string;
+  failedChannelNames?: string[];
+}
+
+// 引擎在消息上附带的结果信息（最终答案的结构化结果与路由、工具调用记录）
+export type ChatMessageExtras = Pick<ChatMessage, 'structuredAnswer' | 'route' | 'routeChoice' | 'toolCall' | 'channel'>;
+
+// 编辑用户消息并重新生成后保留的旧答案
+export interface ChatMessageAlternate {
+  text: string;
+  userInput: string; // 生成该答案时的用户问题
+  timestamp: Date;
+  durationMs?: number;
+  structuredAnswer?: StructuredAnswer;
 }
 
 // Updated types for structured notepad modifications based on HTML-like tags
@@ -58,6 +101,148 @@ export interface FailedStepPayload {
   discussionLogBeforeFailure: string[];
   currentTurnIndexForResume?: number;
   previousAISignaledStopForResume?: boolean;
+  participantId?: string; // 失败步骤的发言参与者
+  speakerIndexForResume?: number; // 失败步骤在本轮发言顺序中的位置
+  consecutiveStopSignalsForResume?: number; // 失败前连续建议结束讨论的参与者数量
+  phaseIndexForResume?: number; // 失败步骤所在的协议阶段
+  moderatorGuidanceForResume?: string; // 失败前主持人对下一轮的引导
+  pendingParallelSpeakerIdsForResume?: string[]; // 并行轮次中尚未完成的参与者
+  pendingSteeringNotesForResume?: string[]; // 失败时尚未被使用的用户引导
+  finalAnswerRequestedForResume?: boolean; // 失败前用户已要求立即给出最终答案
+  routeForResume?: DiscussionRouteDecision; // 本次讨论采用的路由
+}
+
+// 讨论参与者：一个会话可包含 N 个AI，每个参与者绑定自己的角色、渠道与模型
+export interface DiscussionParticipant {
+  id: string;             // 'cognito' / 'muse' 为内置参与者，其余为追加的参与者
+  roleName: string;       // 对应 CustomAIRole.name
+  channelId?: string;     // 专属渠道（为空时沿用会话/默认渠道）
+  modelApiName?: string;  // 专属模型（为空时使用渠道默认模型或全局模型选择）
+  fallbackChannelIds?: string[]; // 备用渠道：渠道超时或网络/服务端错误时按顺序切换
+}
+
+// 主持人：每轮讨论结束后阅读讨论记录，判断是否继续并引导下一轮
+export interface ModeratorSettings {
+  enabled: boolean;
+  roleName?: string;      // 使用该角色的系统提示词（为空时使用内置主持人提示词）
+  channelId?: string;     // 专属渠道（为空时沿用会话/默认渠道）
+  modelApiName?: string;  // 专属模型（为空时使用渠道默认模型或主导者模型）
+  fallbackChannelIds?: string[]; // 备用渠道：渠道超时或网络/服务端错误时按顺序切换
+}
+
+// 主持人的结构化评估结论
+export interface ModeratorVerdict {
+  decision: 'continue' | 'stop';
+  unresolvedPoints: string[]; // 尚未解决的分歧或问题
+  nextFocus: string;          // 建议下一轮聚焦的内容
+  reason: string;
+}
+
+// 讨论预算：任一上限即将用尽时停止讨论并直接生成最终答案（为空或 0 表示不限制）
+export interface DiscussionBudget {
+  maxTotalTokens?: number;
+  maxDurationSeconds?: number;
+  maxCostUsd?: number;
+  costPerMillionTokensUsd: number; // 估算费用使用的单价（美元/百万 tokens）
+}
+
+// 智能体工具：提供给服务商的函数声明
+export interface AgentToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface AgentToolCallRequest {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// 同一发言步骤内的一次工具往返：模型请求的调用及执行结果，在下一次请求中回传
+export interface AgentToolExchange {
+  text: string; // 模型在请求调用时附带的文本
+  calls: AgentToolCallRequest[];
+  results: { callId: string; name: string; content: string }[];
+}
+
+// 传给服务层的原生函数调用参数
+export interface AgentToolRequestOptions {
+  declarations: AgentToolDeclaration[];
+  exchanges: AgentToolExchange[];
+  disableCalls?: boolean; // 工具调用轮数用完：保留声明以便回传结果，但不再允许新的调用
+}
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  isError: boolean;
+  mode: 'native' | 'text'; // 服务商原生函数调用或文本协议
+}
+
+// 自适应路由：快速回答（主导者直接作答）、双人辩论（前两位参与者）、全员讨论（全部参与者与主持人）
+export type DiscussionRoute = 'quick' | 'debate' | 'panel';
+export type DiscussionRouteChoice = DiscussionRoute | 'auto';
+
+export interface DiscussionRouteDecision {
+  route: DiscussionRoute;
+  reason: string;
+  source: 'auto' | 'user'; // 自动判断或用户在输入框中指定
+}
+
+// 最终答案的输出格式：Markdown（默认）、内置模板或用户提供的 JSON Schema
+export type FinalAnswerFormatMode = 'markdown' | 'template' | 'custom-schema';
+
+export interface FinalAnswerFormatSettings {
+  mode: FinalAnswerFormatMode;
+  templateId: string;
+  customSchema: string; // 用户输入的 JSON Schema 文本
+}
+
+// 结构化输出使用的 JSON Schema 子集
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+// 最终答案模板，例如“摘要 + 详细说明 + 行动项”
+export interface StructuredAnswerTemplate {
+  id: string;
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
+
+// 传给服务层的结构化输出要求
+export interface StructuredOutputSpec {
+  name: string; // 展示用名称
+  schema: JsonSchema;
+}
+
+export interface StructuredAnswer {
+  schemaName: string;
+  data?: unknown; // 解析出的 JSON（无法解析时为空）
+  rawText: string;
+  valid: boolean;
+  errors?: string[]; // 最后一次校验的错误
+  repairRounds: number; // 自动修复的轮数
+  nativeMode: boolean; // 是否使用了服务商的 JSON 输出模式
 }
 
 export enum DiscussionMode {
@@ -65,6 +250,31 @@ export enum DiscussionMode {
   AiDriven = 'ai-driven',
 }
 
+// 阶段结束条件：固定轮数 / 全员同意结束（turns 为上限） / 跟随会话的对话轮数模式
+export type ProtocolExitCondition = 'fixed-turns' | 'consensus' | 'discussion-mode';
+
+// 讨论协议中的一个阶段
+export interface DiscussionPhase {
+  id: string;
+  name: string;                       // 如 头脑风暴、批判、完善、综合
+  instruction: string;                // 本阶段对发言者的要求
+  speakers: string[];                 // 发言顺序：'@lead' / '@others' / '@all'，或参与者ID、角色名
+  turns: number;                      // 轮数；consensus 时为轮数上限
+  exitCondition: ProtocolExitCondition;
+  parallel?: boolean;                 // 并行阶段：每轮所有发言者同时独立作答，互相看不到本轮的回答
+  producesFinalAnswer?: boolean;      // 综合阶段：由首位发言者生成最终答案，必须位于最后
+}
+
+// 讨论协议：以数据描述讨论的阶段与发言顺序
+export interface DiscussionProtocol {
+  id: string;
+  name: string;
+  description: string;
+  phases: DiscussionPhase[];
+  isBuiltIn: boolean;
+  createdAt: Date;
+}
+
 // 记事本版本历史
 export interface NotepadVersion {
   id: string;
@@ -90,6 +300,12 @@ export interface ChatSession {
   notepadHistory?: NotepadHistoryState; // 每个会话独立的记事本历史
   channelId?: string; // 会话关联的渠道ID
   channelOverride?: ApiChannelOverride; // 会话级别的渠道覆盖设置
+  participants?: DiscussionParticipant[]; // 会话的讨论参与者（第一个为主导者，负责开场与最终答案）
+  protocolId?: string; // 会话使用的讨论协议
+  budget?: DiscussionBudget; // 会话的讨论预算
+  parentSessionId?: string; // 分支会话：派生自的父会话
+  branchPointMessageId?: string; // 分支会话：在父会话中的分支起点消息
+  childSessionIds?: string[]; // 从本会话派生的分支会话
   createdAt: Date;
   updatedAt: Date;
 }
@@ -98,6 +314,7 @@ export interface ChatSession {
 export interface ApiChannelOverride {
   cognitoChannelId?: string;
   museChannelId?: string;
+  fallbackChannelIds?: string[]; // 会话级备用渠道，排在参与者自己的备用渠道之后
 }
 
 // AI角色自定义
@@ -113,7 +330,55 @@ export interface CustomAIRole {
 }
 
 // API 渠道管理
-export type ApiChannelProvider = 'openai' | 'gemini';
+export type ApiChannelProvider = 'openai' | 'gemini' | 'anthropic';
+
+// 记事本编辑方式：function 通过原生函数调用提交，tags 通过 <np-*> 标签；auto 按渠道是否支持函数调用决定
+export type NotepadEditProtocol = 'auto' | 'function' | 'tags';
+
+// 渠道请求限制（未设置的项不限制），超出时请求排队等待
+export interface ApiChannelRequestLimits {
+  maxConcurrent?: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+// 密钥池的选择策略：轮询、优先最久未被限流的密钥、按权重随机
+export type ApiKeySelectionStrategy = 'round-robin' | 'least-rate-limited' | 'weighted';
+
+export interface ApiKeyPoolEntry {
+  id: string;
+  key: string;
+  weight: number;
+}
+
+// 密钥的使用统计与冷却状态（按渠道和密钥保存在本地）
+export interface ApiKeyUsageStats {
+  requests: number;
+  failures: number;
+  rateLimitedCount: number;
+  lastUsedAt?: string;
+  lastRateLimitedAt?: string;
+  benchedUntil?: string; // 冷却结束时间，冷却期间不参与选择
+  benchReason?: 'auth' | 'rate-limit';
+  lastError?: string;
+}
+
+// 渠道的一次请求记录，用于健康监控
+export interface ChannelRequestRecord {
+  at: string;
+  success: boolean;
+  latencyMs: number;
+  firstTokenMs?: number; // 流式请求收到第一个数据块的耗时
+  error?: string;
+}
+
+// 渠道的最近请求历史与熔断状态（保存在本地）
+export interface ChannelHealthState {
+  records: ChannelRequestRecord[];
+  consecutiveFailures: number;
+  circuitOpenUntil?: string; // 熔断结束时间，熔断期间路由跳过该渠道
+  lastError?: { message: string; at: string };
+}
 
 export interface ApiChannel {
   id: string;
@@ -129,15 +394,37 @@ export interface ApiChannel {
    * 兼容旧数据：若缺省则视为 true
    */
   enabled?: boolean;
+  extraApiKeys?: ApiKeyPoolEntry[]; // 额外密钥，与 apiKey 组成密钥池
+  apiKeyWeight?: number; // apiKey 在加权策略下的权重（默认 1）
+  keySelectionStrategy?: ApiKeySelectionStrategy; // 默认轮询
+  requestLimits?: ApiChannelRequestLimits; // 为空时不限制
   createdAt: Date;
   updatedAt: Date;
   metadata?: {
     version: string;
     description?: string;
+    notepadProtocol?: NotepadEditProtocol;
     [key: string]: any; // 允许其他自定义字段
   };
 }
 
+// 从渠道 /models 接口发现的模型及其能力
+export interface DiscoveredModel {
+  id: string;                 // 调用时使用的模型名
+  displayName: string;
+  supportsVision: boolean;
+  supportsSystemInstruction: boolean;
+  supportsThinking: boolean;
+  inputTokenLimit?: number;
+}
+
+export interface ChannelModelCatalog {
+  channelId: string;
+  models: DiscoveredModel[];
+  fetchedAt: string;
+  error?: string;             // 最近一次获取失败的原因（保留上次成功的列表）
+}
+
 export interface ApiChannelStorageData {
   version: string;
   channels: ApiChannel[];
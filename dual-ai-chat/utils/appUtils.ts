@@ -1,5 +1,5 @@
 
-import { NotepadAction, NotepadUpdatePayload, MessageSender, DiscussionMode } from '../types';
+import { NotepadAction, NotepadUpdatePayload, MessageSender, DiscussionMode, ChatMessage } from '../types';
 import { DISCUSSION_COMPLETE_TAG } from '../constants';
 
 export const generateUniqueId = (): string => Date.now().toString() + Math.random().toString(36).substr(2, 9);
@@ -16,6 +16,19 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+/**
+ * 将消息中保存的图片还原为 File（旧消息中已释放的 blob 地址无法读取，返回 null）
+ */
+export const messageImageToFile = async (image: NonNullable<ChatMessage['image']>): Promise<File | null> => {
+  try {
+    const response = await fetch(image.dataUrl);
+    const blob = await response.blob();
+    return new File([blob], image.name, { type: image.type });
+  } catch {
+    return null;
+  }
+};
+
 export const escapeRegExp = (string: string): string => {
   return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); // $& means the whole matched string
 };
@@ -36,9 +49,16 @@ export interface ParsedAIResponse {
   discussionShouldEnd?: boolean;
 }
 
-export const parseAIResponse = (responseText: string): ParsedAIResponse => {
-  const modifications: NotepadAction[] = [];
-  const parsingErrors: string[] = [];
+/**
+ * 解析 AI 回复中的记事本标签与结束信号。
+ * functionEdits 为通过函数调用提交的记事本操作，先于文本中的标签应用。
+ */
+export const parseAIResponse = (
+  responseText: string,
+  functionEdits?: { actions: NotepadAction[]; errors: string[] }
+): ParsedAIResponse => {
+  const modifications: NotepadAction[] = [...(functionEdits?.actions || [])];
+  const parsingErrors: string[] = [...(functionEdits?.errors || [])];
   let discussionShouldEnd = false;
 
   const tagDefinitions = [
@@ -258,6 +278,52 @@ export const applyNotepadModifications = (currentContent: string, modifications:
   return { newContent, errors };
 };
 
+// 聊天区域的展示单元：普通消息单独展示，同一并行轮次的发言并排展示
+export interface MessageDisplayGroup {
+  key: string;
+  messages: ChatMessage[];
+  isParallel: boolean;
+}
+
+/**
+ * 将同一并行轮次的发言合并到首条发言所在的位置（中间可能穿插系统通知）
+ */
+export const groupMessagesForDisplay = (messages: ChatMessage[]): MessageDisplayGroup[] => {
+  const groups: MessageDisplayGroup[] = [];
+  const parallelGroups = new Map<string, MessageDisplayGroup>();
+  messages.forEach(message => {
+    if (!message.parallelGroupId) {
+      groups.push({ key: message.id, messages: [message], isParallel: false });
+      return;
+    }
+    const existing = parallelGroups.get(message.parallelGroupId);
+    if (existing) {
+      existing.messages.push(message);
+      return;
+    }
+    const group: MessageDisplayGroup = { key: message.parallelGroupId, messages: [message], isParallel: true };
+    parallelGroups.set(message.parallelGroupId, group);
+    groups.push(group);
+  });
+  return groups;
+};
+
+/**
+ * 流式输出过程中用于展示的文本：隐藏已完成和尚未闭合的记事本标签以及结束讨论标签
+ */
+export const getStreamingDisplayText = (partialText: string): string => {
+  let text = partialText
+    .replace(/<np-[\w-]+\b[^>]*\/>/gi, '')
+    .replace(/<(np-[\w-]+)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+  const unclosedTagIndex = text.search(/<\/?np-/i);
+  if (unclosedTagIndex !== -1) {
+    text = text.slice(0, unclosedTagIndex);
+  }
+  // 末尾可能是尚未输出完整的标签开头，如 "<np" 或 "<DISCUSSION"
+  text = text.replace(/<[\w-]*$/, '');
+  return text.split(DISCUSSION_COMPLETE_TAG).join('').trim();
+};
+
 export const formatNotepadContentForAI = (content: string): string => {
   if (!content.trim()) {
     return ""; // Return empty if content is just whitespace or empty
@@ -0,0 +1,78 @@
+import { REPETITION_SIMILARITY_THRESHOLD } from '../constants';
+
+/**
+ * 讨论收敛检测：基于本地文本相似度判断发言是否在重复此前的观点，以及一轮结束时分歧是否仍然较大
+ */
+
+// 讨论记录条目为“发言者: 内容”，比较时去掉发言者前缀
+const stripSpeaker = (entry: string): string => {
+  const separator = entry.indexOf(': ');
+  return separator > 0 && separator < 40 ? entry.slice(separator + 2) : entry;
+};
+
+/**
+ * 文本特征：中文按相邻两字切分，其余按单词切分（忽略大小写与标点）
+ */
+export const textShingles = (text: string): Set<string> => {
+  const shingles = new Set<string>();
+  const normalized = text.toLowerCase();
+  const cjkRuns = normalized.match(/[\u3400-\u9fff]+/g) || [];
+  cjkRuns.forEach(run => {
+    if (run.length === 1) shingles.add(run);
+    for (let i = 0; i < run.length - 1; i++) shingles.add(run.slice(i, i + 2));
+  });
+  const words = normalized.replace(/[\u3400-\u9fff]+/g, ' ').match(/[a-z0-9]+/g) || [];
+  words.filter(word => word.length > 1).forEach(word => shingles.add(word));
+  return shingles;
+};
+
+export const jaccardSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  a.forEach(item => { if (b.has(item)) intersection++; });
+  return intersection / (a.size + b.size - intersection);
+};
+
+export interface RepetitionMatch {
+  similarity: number; // 0-1
+  matchedEntry: string; // 最相似的此前发言
+}
+
+/**
+ * 新发言与此前讨论记录中最相似的一条
+ */
+export const findMostSimilarEntry = (text: string, earlierEntries: string[]): RepetitionMatch | null => {
+  const shingles = textShingles(text);
+  let best: RepetitionMatch | null = null;
+  earlierEntries.forEach(entry => {
+    const similarity = jaccardSimilarity(shingles, textShingles(stripSpeaker(entry)));
+    if (!best || similarity > best.similarity) best = { similarity, matchedEntry: entry };
+  });
+  return best;
+};
+
+// 明确表达反对立场的表述；“但是”“不过”等普通转折词在赞同时同样常见，不作为分歧依据
+const DISSENT_PATTERN = /(不同意|不认同|不赞同|不能认同|反对这|持保留意见|值得商榷|站不住脚|有待商榷|i disagree|do not agree|don't agree|i object)/i;
+
+const speakerOf = (entry: string): string => {
+  const separator = entry.indexOf(': ');
+  return separator > 0 && separator < 40 ? entry.slice(0, separator) : '';
+};
+
+/**
+ * 一轮发言的分歧度（0-1）：明确表达反对立场、且较该发言者上一次发言有新内容的发言所占比例。
+ * 反复重申同一反对意见说明讨论已停滞，追加轮数也难以解决，因此不计入。
+ */
+export const estimateDisagreement = (roundEntries: string[], earlierEntries: string[] = []): number => {
+  if (roundEntries.length === 0) return 0;
+  const disagreeing = roundEntries.filter(entry => {
+    const text = stripSpeaker(entry);
+    if (!DISSENT_PATTERN.test(text)) return false;
+    const speaker = speakerOf(entry);
+    const previous = speaker ? [...earlierEntries].reverse().find(earlier => speakerOf(earlier) === speaker) : undefined;
+    return !previous || jaccardSimilarity(textShingles(text), textShingles(stripSpeaker(previous))) < REPETITION_SIMILARITY_THRESHOLD;
+  });
+  return disagreeing.length / roundEntries.length;
+};
+
+export const formatPercent = (ratio: number): string => `${Math.round(ratio * 100)}%`;
@@ -0,0 +1,62 @@
+import { DiscussionBudget } from '../types';
+
+// 一次讨论累计的资源用量（tokens 与费用为本地估算值）
+export interface DiscussionUsage {
+  tokens: number;
+  elapsedMs: number;
+  costUsd: number;
+  steps: number; // 已完成的模型调用次数
+}
+
+export type BudgetLimitKind = 'tokens' | 'time' | 'cost';
+
+export interface BudgetExhaustion {
+  kind: BudgetLimitKind;
+  description: string; // 例如“token 预算（已用约 8000 / 上限 10000）”
+}
+
+const isLimitSet = (limit?: number): limit is number => typeof limit === 'number' && limit > 0;
+
+/**
+ * 粗略估算文本的 token 数：中日韩字符约 1 个 token，其余字符约 4 个一个 token
+ */
+export const estimateTokenCount = (text: string): number => {
+  if (!text) return 0;
+  const cjkCount = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+};
+
+export const estimateCostUsd = (tokens: number, budget: DiscussionBudget): number => {
+  return (tokens / 1_000_000) * (budget.costPerMillionTokensUsd || 0);
+};
+
+export const hasBudgetLimits = (budget: DiscussionBudget): boolean => {
+  return isLimitSet(budget.maxTotalTokens) || isLimitSet(budget.maxDurationSeconds) || isLimitSet(budget.maxCostUsd);
+};
+
+/**
+ * 判断预算是否即将用尽：以已完成调用的平均用量预测接下来 upcomingSteps 次调用（含最终答案），
+ * 预测值超出任一上限时返回该上限。
+ */
+export const findExhaustedBudget = (
+  budget: DiscussionBudget,
+  usage: DiscussionUsage,
+  upcomingSteps: number
+): BudgetExhaustion | null => {
+  const project = (total: number) => total + (usage.steps > 0 ? (total / usage.steps) * upcomingSteps : 0);
+
+  if (isLimitSet(budget.maxTotalTokens) && project(usage.tokens) > budget.maxTotalTokens) {
+    return { kind: 'tokens', description: `token 预算（已用约 ${usage.tokens} / 上限 ${budget.maxTotalTokens}）` };
+  }
+  if (isLimitSet(budget.maxDurationSeconds) && project(usage.elapsedMs) > budget.maxDurationSeconds * 1000) {
+    return { kind: 'time', description: `时间预算（已用 ${Math.round(usage.elapsedMs / 1000)} 秒 / 上限 ${budget.maxDurationSeconds} 秒）` };
+  }
+  if (isLimitSet(budget.maxCostUsd) && project(usage.costUsd) > budget.maxCostUsd) {
+    return { kind: 'cost', description: `费用预算（已用约 $${usage.costUsd.toFixed(4)} / 上限 $${budget.maxCostUsd}）` };
+  }
+  return null;
+};
+
+export const formatDiscussionUsage = (usage: DiscussionUsage): string => {
+  return `约 ${usage.tokens} tokens · ${Math.round(usage.elapsedMs / 1000)} 秒 · 约 $${usage.costUsd.toFixed(4)}`;
+};
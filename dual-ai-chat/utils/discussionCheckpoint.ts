@@ -0,0 +1,52 @@
+import { FailedStepPayload } from '../types';
+import { DISCUSSION_CHECKPOINT_STORAGE_KEY } from '../constants';
+import { DiscussionCheckpoint } from '../services/discussionEngine';
+
+/**
+ * 页面重载或崩溃前未完成的讨论：进行中的检查点，或自动重试后仍失败的步骤
+ */
+export interface InterruptedDiscussionRun {
+  sessionId?: string;
+  savedAt: string; // ISO 时间
+  checkpoint?: DiscussionCheckpoint;
+  failedStep?: FailedStepPayload;
+}
+
+export const loadInterruptedRun = (): InterruptedDiscussionRun | null => {
+  try {
+    const stored = sessionStorage.getItem(DISCUSSION_CHECKPOINT_STORAGE_KEY);
+    if (!stored) return null;
+    const parsed: InterruptedDiscussionRun = JSON.parse(stored);
+    return parsed.checkpoint || parsed.failedStep ? parsed : null;
+  } catch (error) {
+    console.error('加载讨论检查点失败:', error);
+    return null;
+  }
+};
+
+export const saveInterruptedRun = (run: InterruptedDiscussionRun) => {
+  try {
+    sessionStorage.setItem(DISCUSSION_CHECKPOINT_STORAGE_KEY, JSON.stringify(run));
+  } catch (error) {
+    // 图片数据可能超出存储配额
+    console.error('保存讨论检查点失败:', error);
+  }
+};
+
+export const clearInterruptedRun = () => {
+  try {
+    sessionStorage.removeItem(DISCUSSION_CHECKPOINT_STORAGE_KEY);
+  } catch (error) {
+    console.error('清除讨论检查点失败:', error);
+  }
+};
+
+/**
+ * 检查点所在的位置描述，例如“第 2 阶段 · 第 3 轮”
+ */
+export const describeInterruptedRun = (run: InterruptedDiscussionRun): string => {
+  const state = run.checkpoint?.state;
+  const phaseIndex = state ? state.phaseIndex : run.failedStep?.phaseIndexForResume ?? 0;
+  const turn = state ? state.turn : run.failedStep?.currentTurnIndexForResume ?? 0;
+  return `第 ${phaseIndex + 1} 阶段 · 第 ${turn + 1} 轮`;
+};
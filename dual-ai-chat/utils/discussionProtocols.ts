@@ -0,0 +1,127 @@
+import { DiscussionMode, DiscussionPhase, DiscussionProtocol } from '../types';
+import {
+  BUILT_IN_DISCUSSION_PROTOCOLS,
+  DEFAULT_DISCUSSION_PROTOCOL_ID,
+  PROTOCOL_SPEAKER_ALL,
+  PROTOCOL_SPEAKER_LEAD,
+  PROTOCOL_SPEAKER_OTHERS
+} from '../constants';
+import { generateUniqueId } from './appUtils';
+
+// 协议解析只依赖参与者的身份信息，便于复用于配置与已解析的参与者
+interface ProtocolParticipantRef {
+  id: string;
+  roleName?: string;
+}
+
+// 协议未定义最终答案阶段时，自动追加的主导者综合阶段
+const IMPLICIT_FINAL_PHASE: DiscussionPhase = {
+  id: 'final',
+  name: '最终答案',
+  instruction: '',
+  speakers: [PROTOCOL_SPEAKER_LEAD],
+  turns: 1,
+  exitCondition: 'fixed-turns',
+  producesFinalAnswer: true,
+};
+
+export const getDefaultDiscussionProtocol = (): DiscussionProtocol => {
+  return BUILT_IN_DISCUSSION_PROTOCOLS.find(p => p.id === DEFAULT_DISCUSSION_PROTOCOL_ID) || BUILT_IN_DISCUSSION_PROTOCOLS[0];
+};
+
+/**
+ * 获取用于执行的阶段列表：保证最后一个阶段生成最终答案
+ */
+export const getExecutablePhases = (protocol: DiscussionProtocol): DiscussionPhase[] => {
+  const phases = protocol.phases.filter(phase => !phase.producesFinalAnswer);
+  const finalPhase = protocol.phases.find(phase => phase.producesFinalAnswer) || IMPLICIT_FINAL_PHASE;
+  return [...phases, finalPhase];
+};
+
+/**
+ * 将阶段的发言者定义解析为有序的参与者列表（第一个参与者为主导者）
+ */
+export const resolvePhaseSpeakers = <T extends ProtocolParticipantRef>(phase: DiscussionPhase, participants: T[]): T[] => {
+  if (participants.length === 0) return [];
+  const [lead, ...others] = participants;
+  const speakers: T[] = [];
+
+  phase.speakers.forEach(token => {
+    const trimmed = token.trim();
+    if (trimmed === PROTOCOL_SPEAKER_LEAD) speakers.push(lead);
+    else if (trimmed === PROTOCOL_SPEAKER_OTHERS) speakers.push(...others);
+    else if (trimmed === PROTOCOL_SPEAKER_ALL) speakers.push(...participants);
+    else {
+      const matched = participants.find(p => p.id === trimmed) || participants.find(p => p.roleName === trimmed);
+      if (matched) speakers.push(matched);
+    }
+  });
+
+  return speakers;
+};
+
+/**
+ * 阶段是否以“全员同意结束”作为退出条件
+ */
+export const phaseUsesConsensus = (phase: DiscussionPhase, discussionMode: DiscussionMode): boolean => {
+  if (phase.producesFinalAnswer) return false;
+  return phase.exitCondition === 'consensus'
+    || (phase.exitCondition === 'discussion-mode' && discussionMode === DiscussionMode.AiDriven);
+};
+
+/**
+ * 阶段的最大轮数；返回 undefined 表示不限轮数（直到全员同意结束）
+ */
+export const getPhaseTurnLimit = (
+  phase: DiscussionPhase,
+  discussionMode: DiscussionMode,
+  manualFixedTurns: number
+): number | undefined => {
+  if (phase.producesFinalAnswer) return 1;
+  if (phase.exitCondition === 'discussion-mode') {
+    return discussionMode === DiscussionMode.FixedTurns ? manualFixedTurns : undefined;
+  }
+  return Math.max(1, phase.turns);
+};
+
+/**
+ * 校验协议配置，返回错误信息列表（为空表示有效）
+ */
+export const validateDiscussionProtocol = (protocol: Pick<DiscussionProtocol, 'name' | 'phases'>): string[] => {
+  const errors: string[] = [];
+  if (!protocol.name.trim()) errors.push('协议名称不能为空');
+  if (protocol.phases.length === 0) errors.push('协议至少需要一个阶段');
+
+  protocol.phases.forEach((phase, index) => {
+    const label = `阶段 ${index + 1}${phase.name ? ` (${phase.name})` : ''}`;
+    if (!phase.name.trim()) errors.push(`${label}: 名称不能为空`);
+    if (phase.speakers.filter(s => s.trim()).length === 0) errors.push(`${label}: 至少需要一个发言者`);
+    if (!Number.isInteger(phase.turns) || phase.turns < 1) errors.push(`${label}: 轮数必须为正整数`);
+  });
+
+  const finalPhaseIndexes = protocol.phases
+    .map((phase, index) => (phase.producesFinalAnswer ? index : -1))
+    .filter(index => index >= 0);
+  if (finalPhaseIndexes.length > 1) errors.push('只能有一个生成最终答案的阶段');
+  if (finalPhaseIndexes.length === 1 && finalPhaseIndexes[0] !== protocol.phases.length - 1) {
+    errors.push('生成最终答案的阶段必须位于最后');
+  }
+
+  return errors;
+};
+
+export const createEmptyDiscussionPhase = (): DiscussionPhase => ({
+  id: generateUniqueId(),
+  name: '',
+  instruction: '',
+  speakers: [PROTOCOL_SPEAKER_ALL],
+  turns: 1,
+  exitCondition: 'fixed-turns',
+});
+
+/**
+ * 协议阶段概览，例如 “开场 → 讨论 → 最终答案”
+ */
+export const describeProtocolPhases = (protocol: DiscussionProtocol): string => {
+  return getExecutablePhases(protocol).map(phase => (phase.parallel && !phase.producesFinalAnswer ? `${phase.name}（并行）` : phase.name)).join(' → ');
+};
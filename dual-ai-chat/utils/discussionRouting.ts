@@ -0,0 +1,66 @@
+import { DiscussionRoute, DiscussionRouteChoice, DiscussionRouteDecision } from '../types';
+import { DEBATE_ROUTE_MIN_TOKENS, DISCUSSION_ROUTE_LABELS, QUICK_ROUTE_MAX_TOKENS } from '../constants';
+import { estimateTokenCount } from './discussionBudget';
+
+// 需要多方观点的查询
+const PANEL_SIGNALS = /(多角度|多个角度|多方面|各方|不同观点|不同视角|头脑风暴|集思广益|brainstorm|perspectives|viewpoints)/i;
+// 需要分析、比较或权衡的查询
+const COMPLEXITY_SIGNALS = /(比较|对比|分析|评估|权衡|利弊|优缺点|方案|设计|架构|策略|规划|为什么|原因|论证|争议|是否应该|值不值得|compare|analy[sz]e|evaluate|trade-?offs?|pros|cons|design|architecture|strategy|should i|why)/i;
+// 寒暄、翻译、换算等一次即可回答的查询
+const SIMPLE_SIGNALS = /^(你好|您好|嗨|谢谢|多谢|hi|hello|hey|thanks|thank you)|(翻译|换算|拼写|缩写|translate|spell)/i;
+
+export interface RoutingContext {
+  hasImage: boolean;
+  participantCount: number;
+}
+
+/**
+ * 本地启发式路由：按查询长度与关键词判断需要快速回答、双人辩论还是全员讨论
+ */
+export const classifyDiscussionRoute = (userInput: string, context: RoutingContext): { route: DiscussionRoute; reason: string } => {
+  const text = userInput.trim();
+  const tokens = estimateTokenCount(text);
+  const questionCount = (text.match(/[?？]/g) || []).length;
+  const hasPanel = context.participantCount > 2;
+
+  if (PANEL_SIGNALS.test(text)) {
+    return hasPanel
+      ? { route: 'panel', reason: '查询要求多角度的观点' }
+      : { route: 'debate', reason: '查询要求多角度的观点（仅有两位参与者）' };
+  }
+  // 三位及以上参与者的会话需要讨论时进行全员讨论，避免双人辩论丢弃其余参与者
+  const discussionRoute: DiscussionRoute = hasPanel ? 'panel' : 'debate';
+  if (COMPLEXITY_SIGNALS.test(text)) {
+    return { route: discussionRoute, reason: '查询需要分析或权衡' };
+  }
+  if (tokens > DEBATE_ROUTE_MIN_TOKENS || questionCount > 1) {
+    return { route: discussionRoute, reason: questionCount > 1 ? '查询包含多个问题' : '查询较长' };
+  }
+  if (SIMPLE_SIGNALS.test(text)) {
+    return { route: 'quick', reason: '寒暄或简单的转换类请求' };
+  }
+  if (tokens <= QUICK_ROUTE_MAX_TOKENS && !context.hasImage) {
+    return { route: 'quick', reason: '简短且没有分析需求的查询' };
+  }
+  return { route: discussionRoute, reason: context.hasImage ? '查询附带图片' : '中等长度的查询' };
+};
+
+/**
+ * 确定本次讨论的路由：用户指定优先；自动路由关闭时不做路由（返回 undefined），按协议进行全员讨论
+ */
+export const decideDiscussionRoute = (
+  choice: DiscussionRouteChoice,
+  userInput: string,
+  context: RoutingContext & { adaptiveRouting: boolean }
+): DiscussionRouteDecision | undefined => {
+  if (choice !== 'auto') {
+    return { route: choice, reason: '用户指定', source: 'user' };
+  }
+  if (!context.adaptiveRouting) {
+    return undefined;
+  }
+  return { ...classifyDiscussionRoute(userInput, context), source: 'auto' };
+};
+
+export const formatRouteDecision = (decision: DiscussionRouteDecision): string =>
+  `${DISCUSSION_ROUTE_LABELS[decision.route]}（${decision.source === 'user' ? '' : '自动: '}${decision.reason}）`;
@@ -1,4 +1,4 @@
-import { ChatMessage, MessageSender } from '../types';
+import { ChatMessage, MessagePurpose, MessageSender } from '../types';
 
 // OpenAI消息格式接口
 export interface OpenAiChatMessage {
@@ -19,6 +19,16 @@ export interface GeminiChatMessage {
   parts: Array<{ text: string }>;
 }
 
+// Anthropic消息格式接口（system 为请求的顶层字段，messages 中只有 user / assistant）
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+export interface AnthropicChatMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
 /**
  * 将ChatMessage映射到OpenAI的role格式
  */
@@ -28,6 +38,7 @@ function mapSenderToOpenAIRole(sender: MessageSender): 'user' | 'assistant' | 's
       return 'user';
     case MessageSender.Cognito:
     case MessageSender.Muse:
+    case MessageSender.Agent:
       return 'assistant';
     case MessageSender.System:
       return 'system';
@@ -45,6 +56,7 @@ function mapSenderToGeminiRole(sender: MessageSender): 'user' | 'model' {
       return 'user';
     case MessageSender.Cognito:
     case MessageSender.Muse:
+    case MessageSender.Agent:
       return 'model';
     case MessageSender.System:
       // Gemini API 不支持system role，将其当作model消息处理
@@ -64,10 +76,13 @@ function filterRelevantMessages(messages: ChatMessage[]): ChatMessage[] {
   }
   
   const filtered = messages.filter(msg => {
+    // 工具调用记录只在发言当时回传给模型，不进入后续的历史上下文
+    if (msg.purpose === MessagePurpose.ToolCall) return false;
     // 保留用户输入和AI响应
     const isRelevant = msg.sender === MessageSender.User ||
                       msg.sender === MessageSender.Cognito ||
                       msg.sender === MessageSender.Muse ||
+                      msg.sender === MessageSender.Agent ||
                       // 🔧 FIX: 保留包含重要上下文的系统消息
                       (msg.sender === MessageSender.System &&
                        msg.text && msg.text.trim().length > 0 &&
@@ -196,6 +211,71 @@ export function convertToGeminiMessages(messages: ChatMessage[]): GeminiChatMess
   });
 }
 
+/**
+ * 将ChatMessage映射到Anthropic的role格式
+ */
+function mapSenderToAnthropicRole(sender: MessageSender): 'user' | 'assistant' {
+  switch (sender) {
+    case MessageSender.Cognito:
+    case MessageSender.Muse:
+    case MessageSender.Agent:
+      return 'assistant';
+    default:
+      // Anthropic messages 中没有 system 角色，系统消息作为用户消息传入
+      return 'user';
+  }
+}
+
+/**
+ * 将 data URL 拆分为 Anthropic 的 base64 图片块，格式无法识别时返回 null
+ */
+function dataUrlToAnthropicImage(dataUrl: string): AnthropicContentBlock | null {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+  if (!match) return null;
+  return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } };
+}
+
+/**
+ * 强制 user / assistant 严格交替：合并相邻的同角色消息（如连续发言的多个 AI），
+ * 对话必须以 user 开头，并去掉 Anthropic 不接受的空文本块。
+ */
+export function enforceAnthropicAlternation(messages: AnthropicChatMessage[]): AnthropicChatMessage[] {
+  const result: AnthropicChatMessage[] = [];
+  messages.forEach(msg => {
+    const content = msg.content.filter(block => block.type !== 'text' || block.text.trim().length > 0);
+    if (content.length === 0) return;
+    const previous = result[result.length - 1];
+    if (previous && previous.role === msg.role) {
+      previous.content = [...previous.content, ...content];
+    } else {
+      result.push({ role: msg.role, content });
+    }
+  });
+  if (result.length > 0 && result[0].role === 'assistant') {
+    result.unshift({ role: 'user', content: [{ type: 'text', text: '[对话开始]' }] });
+  }
+  return result;
+}
+
+/**
+ * 将ChatMessage数组转换为Anthropic消息格式（已保证角色严格交替）
+ */
+export function convertToAnthropicMessages(messages: ChatMessage[]): AnthropicChatMessage[] {
+  const relevantMessages = filterRelevantMessages(messages);
+
+  return enforceAnthropicAlternation(relevantMessages.map(msg => {
+    const role = mapSenderToAnthropicRole(msg.sender);
+    const content: AnthropicContentBlock[] = [];
+    const text = msg.sender === MessageSender.System ? `[系统] ${msg.text}` : msg.text;
+    // 多个 AI 的发言会合并为一条 assistant 消息，保留发言者名称以便区分
+    const speaker = role === 'assistant' && msg.agent?.name ? `${msg.agent.name}: ` : '';
+    content.push({ type: 'text', text: text ? speaker + text : '' });
+    const image = msg.image?.dataUrl ? dataUrlToAnthropicImage(msg.image.dataUrl) : null;
+    if (image) content.push(image);
+    return { role, content };
+  }));
+}
+
 /**
  * 构建包含历史上下文的prompt
  * 当AI服务不直接支持消息历史时使用
@@ -248,7 +328,7 @@ export function buildContextualPrompt(
   }
   
   const historyContext = recentMessages.map(msg => {
-    const senderLabel = msg.sender === MessageSender.User ? '用户' : msg.sender;
+    const senderLabel = msg.sender === MessageSender.User ? '用户' : (msg.agent?.name || msg.sender);
     return `${senderLabel}: ${msg.text}`;
   }).join('\n');
   
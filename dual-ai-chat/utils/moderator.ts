@@ -0,0 +1,87 @@
+import { CustomAIRole, DiscoveredModel, MessageSender, ModeratorSettings, ModeratorVerdict } from '../types';
+import { AiModel, DEFAULT_MODERATOR_SYSTEM_PROMPT } from '../constants';
+import { ResolvedParticipant, getModelDetailsByApiName } from './participants';
+
+export const MODERATOR_PARTICIPANT_ID = 'moderator';
+
+/**
+ * 将主持人设置解析为可执行的参与者（未启用时返回 null）
+ */
+export const resolveModerator = (
+  settings: ModeratorSettings,
+  getRoleByName: (roleName: string) => CustomAIRole | undefined,
+  fallbackModelDetails: AiModel,
+  findDiscoveredModel?: (apiName: string, channelId?: string) => DiscoveredModel | undefined
+): ResolvedParticipant | null => {
+  if (!settings.enabled) return null;
+  const role = settings.roleName ? getRoleByName(settings.roleName) : undefined;
+
+  return {
+    id: MODERATOR_PARTICIPANT_ID,
+    roleName: settings.roleName || MODERATOR_PARTICIPANT_ID,
+    sender: MessageSender.Moderator,
+    displayName: role?.displayName || MessageSender.Moderator,
+    icon: role?.icon || '⚖️',
+    color: role?.color || '#b45309',
+    systemPrompt: role?.systemPrompt || DEFAULT_MODERATOR_SYSTEM_PROMPT,
+    modelDetails: settings.modelApiName
+      ? getModelDetailsByApiName(settings.modelApiName, findDiscoveredModel?.(settings.modelApiName, settings.channelId))
+      : fallbackModelDetails,
+    modelOverride: settings.modelApiName || undefined,
+    channelId: settings.channelId || undefined,
+    fallbackChannelIds: settings.fallbackChannelIds,
+  };
+};
+
+/**
+ * 从主持人回复中解析结构化结论（兼容 ```json 代码块与前后多余文字），无法解析时返回 null
+ */
+export const parseModeratorVerdict = (text: string): ModeratorVerdict | null => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const raw = JSON.parse(candidate.slice(start, end + 1));
+    const decision = typeof raw.decision === 'string' ? raw.decision.trim().toLowerCase() : '';
+    if (decision !== 'continue' && decision !== 'stop') return null;
+    return {
+      decision,
+      unresolvedPoints: Array.isArray(raw.unresolvedPoints)
+        ? raw.unresolvedPoints.filter((point: unknown): point is string => typeof point === 'string' && point.trim().length > 0)
+        : [],
+      nextFocus: typeof raw.nextFocus === 'string' ? raw.nextFocus.trim() : '',
+      reason: typeof raw.reason === 'string' ? raw.reason.trim() : '',
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 主持人结论在聊天中的展示文本（Markdown）
+ */
+export const formatModeratorVerdict = (verdict: ModeratorVerdict): string => {
+  const lines = [verdict.decision === 'stop' ? '**结论：讨论已充分，进入最终答案**' : '**结论：继续讨论**'];
+  if (verdict.reason) lines.push(`\n${verdict.reason}`);
+  if (verdict.unresolvedPoints.length > 0) {
+    lines.push('\n**尚未解决:**');
+    verdict.unresolvedPoints.forEach(point => lines.push(`- ${point}`));
+  }
+  if (verdict.decision === 'continue' && verdict.nextFocus) {
+    lines.push(`\n**下一轮重点:** ${verdict.nextFocus}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * 写入下一轮发言提示词的主持人引导
+ */
+export const buildModeratorGuidance = (verdict: ModeratorVerdict): string => {
+  const parts: string[] = [];
+  if (verdict.nextFocus) parts.push(`请重点讨论: ${verdict.nextFocus}`);
+  if (verdict.unresolvedPoints.length > 0) parts.push(`尚未解决的问题: ${verdict.unresolvedPoints.join('；')}`);
+  return parts.join('\n');
+};
@@ -0,0 +1,90 @@
+import { AgentToolCallRequest, AgentToolDeclaration, NotepadAction } from '../types';
+import { validateAgainstSchema } from './structuredAnswer';
+
+const LINE_PARAMETER = { type: 'integer' as const, minimum: 0, description: '行号（从 1 开始）' };
+const CONTENT_PARAMETER = { type: 'string' as const, description: '文本内容，可包含多行' };
+
+// NotepadAction 各操作对应的函数声明（函数名 → 操作）
+const NOTEPAD_FUNCTIONS: { declaration: AgentToolDeclaration; action: NotepadAction['action'] }[] = [
+  {
+    action: 'replace_all',
+    declaration: {
+      name: 'notepad_replace_all',
+      description: '用新内容替换整个记事本。',
+      parameters: { type: 'object', properties: { content: CONTENT_PARAMETER }, required: ['content'], additionalProperties: false },
+    },
+  },
+  {
+    action: 'append',
+    declaration: {
+      name: 'notepad_append',
+      description: '在记事本末尾追加文本。',
+      parameters: { type: 'object', properties: { content: CONTENT_PARAMETER }, required: ['content'], additionalProperties: false },
+    },
+  },
+  {
+    action: 'prepend',
+    declaration: {
+      name: 'notepad_prepend',
+      description: '在记事本开头插入文本。',
+      parameters: { type: 'object', properties: { content: CONTENT_PARAMETER }, required: ['content'], additionalProperties: false },
+    },
+  },
+  {
+    action: 'insert',
+    declaration: {
+      name: 'notepad_insert',
+      description: '在指定行之后插入文本；行号为 0 时插入到开头。',
+      parameters: { type: 'object', properties: { line: LINE_PARAMETER, content: CONTENT_PARAMETER }, required: ['line', 'content'], additionalProperties: false },
+    },
+  },
+  {
+    action: 'replace',
+    declaration: {
+      name: 'notepad_replace_line',
+      description: '替换指定行的内容。',
+      parameters: { type: 'object', properties: { line: { ...LINE_PARAMETER, minimum: 1 }, content: CONTENT_PARAMETER }, required: ['line', 'content'], additionalProperties: false },
+    },
+  },
+  {
+    action: 'delete_line',
+    declaration: {
+      name: 'notepad_delete_line',
+      description: '删除指定行。',
+      parameters: { type: 'object', properties: { line: { ...LINE_PARAMETER, minimum: 1 } }, required: ['line'], additionalProperties: false },
+    },
+  },
+  {
+    action: 'search_and_replace',
+    declaration: {
+      name: 'notepad_search_replace',
+      description: '查找文本并替换（按字面匹配，不是正则表达式）。',
+      parameters: {
+        type: 'object',
+        properties: {
+          find: { type: 'string', minLength: 1, description: '要查找的文本' },
+          with: { type: 'string', description: '替换为的文本' },
+          all: { type: 'boolean', description: '是否替换全部匹配，默认只替换第一个' },
+        },
+        required: ['find', 'with'],
+        additionalProperties: false,
+      },
+    },
+  },
+];
+
+export const NOTEPAD_FUNCTION_DECLARATIONS: AgentToolDeclaration[] = NOTEPAD_FUNCTIONS.map(f => f.declaration);
+
+export const isNotepadFunctionCall = (call: AgentToolCallRequest): boolean =>
+  NOTEPAD_FUNCTIONS.some(f => f.declaration.name === call.name);
+
+/**
+ * 将记事本函数调用转换为 NotepadAction；参数未通过校验时返回错误信息
+ */
+export const notepadActionFromCall = (call: AgentToolCallRequest): { action?: NotepadAction; error?: string } => {
+  const entry = NOTEPAD_FUNCTIONS.find(f => f.declaration.name === call.name);
+  if (!entry) return { error: `未知的记事本函数: ${call.name}` };
+  const errors = validateAgainstSchema(call.arguments, entry.declaration.parameters);
+  if (errors.length > 0) return { error: `函数 ${call.name} 参数错误: ${errors.join('；')}` };
+  return { action: { action: entry.action, ...call.arguments } as NotepadAction };
+};
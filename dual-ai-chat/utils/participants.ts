@@ -0,0 +1,141 @@
+import { CustomAIRole, DiscoveredModel, DiscussionParticipant, MessageAgentInfo, MessageSender } from '../types';
+import { AiModel, MODELS } from '../constants';
+
+// 内置参与者ID（保持与旧版 Cognito/Muse 设置的兼容）
+export const COGNITO_PARTICIPANT_ID = 'cognito';
+export const MUSE_PARTICIPANT_ID = 'muse';
+
+export const DEFAULT_DISCUSSION_PARTICIPANTS: DiscussionParticipant[] = [
+  { id: COGNITO_PARTICIPANT_ID, roleName: 'cognito' },
+  { id: MUSE_PARTICIPANT_ID, roleName: 'muse' },
+];
+
+/**
+ * 解析后的参与者：讨论流程执行时所需的全部信息
+ */
+export interface ResolvedParticipant {
+  id: string;
+  roleName: string;
+  sender: MessageSender;
+  displayName: string;
+  icon: string;
+  color: string;
+  systemPrompt: string;
+  modelDetails: AiModel;
+  modelOverride?: string; // 覆盖渠道默认模型
+  channelId?: string;
+  fallbackChannelIds?: string[];
+}
+
+export interface ResolveParticipantsOptions {
+  getRoleByName: (roleName: string) => CustomAIRole | undefined;
+  cognitoSystemPrompt: string;
+  museSystemPrompt: string;
+  cognitoModelDetails: AiModel;
+  museModelDetails: AiModel;
+  // 从渠道模型目录查找模型能力（优先于内置模型列表）
+  findDiscoveredModel?: (apiName: string, channelId?: string) => DiscoveredModel | undefined;
+}
+
+/**
+ * 参与者对应的消息发送者：内置参与者沿用 Cognito/Muse，其余统一为 Agent
+ */
+export const getSenderForParticipant = (participantId: string): MessageSender => {
+  if (participantId === COGNITO_PARTICIPANT_ID) return MessageSender.Cognito;
+  if (participantId === MUSE_PARTICIPANT_ID) return MessageSender.Muse;
+  return MessageSender.Agent;
+};
+
+/**
+ * 根据模型名构造模型详情：优先使用渠道模型目录中的能力信息，其次是内置模型列表
+ */
+export const getModelDetailsByApiName = (apiName: string, discovered?: DiscoveredModel): AiModel => {
+  if (discovered) {
+    return {
+      id: discovered.id,
+      name: discovered.displayName,
+      apiName: discovered.id,
+      supportsThinkingConfig: discovered.supportsThinking,
+      supportsSystemInstruction: discovered.supportsSystemInstruction,
+      supportsVision: discovered.supportsVision,
+    };
+  }
+  return MODELS.find(m => m.apiName === apiName) || {
+    id: apiName,
+    name: apiName,
+    apiName,
+    supportsThinkingConfig: false,
+    supportsSystemInstruction: true,
+  };
+};
+
+/**
+ * 将参与者配置解析为可执行的参与者列表
+ */
+export const resolveParticipants = (
+  participants: DiscussionParticipant[],
+  options: ResolveParticipantsOptions
+): ResolvedParticipant[] => {
+  return participants.map(participant => {
+    const role = options.getRoleByName(participant.roleName);
+    const sender = getSenderForParticipant(participant.id);
+
+    let systemPrompt = role?.systemPrompt || '';
+    let modelDetails = options.cognitoModelDetails;
+    let displayName = role?.displayName || participant.roleName;
+
+    // 内置参与者仍使用默认角色时沿用旧版 Cognito/Muse 的系统提示词与名称；选择了其他角色时以该角色为准
+    const usesLegacyRole = !role || participant.roleName === participant.id;
+    if (sender === MessageSender.Cognito) {
+      if (usesLegacyRole) {
+        systemPrompt = options.cognitoSystemPrompt;
+        displayName = MessageSender.Cognito;
+      }
+    } else if (sender === MessageSender.Muse) {
+      modelDetails = options.museModelDetails;
+      if (usesLegacyRole) {
+        systemPrompt = options.museSystemPrompt;
+        displayName = MessageSender.Muse;
+      }
+    }
+
+    if (participant.modelApiName) {
+      modelDetails = getModelDetailsByApiName(
+        participant.modelApiName,
+        options.findDiscoveredModel?.(participant.modelApiName, participant.channelId)
+      );
+    }
+
+    return {
+      id: participant.id,
+      roleName: participant.roleName,
+      sender,
+      displayName,
+      icon: role?.icon || '🤖',
+      color: role?.color || '#6b7280',
+      systemPrompt,
+      modelDetails,
+      modelOverride: participant.modelApiName || undefined,
+      channelId: participant.channelId || undefined,
+      fallbackChannelIds: participant.fallbackChannelIds,
+    };
+  });
+};
+
+/**
+ * 生成写入消息的发言者信息
+ */
+export const buildAgentInfo = (participant: ResolvedParticipant, addressee?: string): MessageAgentInfo => ({
+  participantId: participant.id,
+  name: participant.displayName,
+  icon: participant.icon,
+  color: participant.color,
+  addressee,
+});
+
+/**
+ * 将多个参与者名称拼接为展示文本
+ */
+export const joinParticipantNames = (participants: ResolvedParticipant[]): string => {
+  return participants.map(p => p.displayName).join('、');
+};
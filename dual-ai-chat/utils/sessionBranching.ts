@@ -0,0 +1,67 @@
+import { ChatMessage, ChatSession, NotepadHistoryState } from '../types';
+
+/**
+ * 截取到分支起点（含）的消息，未找到起点时返回 null
+ */
+export const getMessagesUpToBranchPoint = (messages: ChatMessage[], messageId: string): ChatMessage[] | null => {
+  const index = messages.findIndex(m => m.id === messageId);
+  if (index === -1) return null;
+  return messages.slice(0, index + 1);
+};
+
+/**
+ * 截取分支起点时刻的记事本历史：保留起点之后下一条消息产生之前的版本。
+ * 分支起点为最后一条消息时保留全部历史。
+ */
+export const getNotepadHistoryAtBranchPoint = (
+  history: NotepadHistoryState,
+  messages: ChatMessage[],
+  messageId: string
+): NotepadHistoryState => {
+  const index = messages.findIndex(m => m.id === messageId);
+  const nextMessage = index === -1 ? undefined : messages[index + 1];
+  if (!nextMessage) return history;
+
+  const versions = getNotepadVersionsBefore(history, nextMessage.timestamp);
+  return { versions, currentVersionIndex: versions.length - 1 };
+};
+
+/**
+ * 指定时刻之前产生的记事本版本
+ */
+export const getNotepadVersionsBefore = (history: NotepadHistoryState, before: Date): NotepadHistoryState['versions'] => {
+  const cutoff = new Date(before).getTime();
+  return history.versions.filter(v => new Date(v.timestamp).getTime() < cutoff);
+};
+
+export interface SessionTreeNode {
+  session: ChatSession;
+  depth: number;
+}
+
+/**
+ * 将会话按父子关系展开为带缩进层级的列表（保持原有顺序，父会话不在列表中时视为根）
+ */
+export const flattenSessionTree = (sessions: ChatSession[]): SessionTreeNode[] => {
+  const sessionIds = new Set(sessions.map(s => s.id));
+  const childrenByParent = new Map<string, ChatSession[]>();
+  const roots: ChatSession[] = [];
+
+  sessions.forEach(session => {
+    if (session.parentSessionId && sessionIds.has(session.parentSessionId)) {
+      const siblings = childrenByParent.get(session.parentSessionId) || [];
+      siblings.push(session);
+      childrenByParent.set(session.parentSessionId, siblings);
+    } else {
+      roots.push(session);
+    }
+  });
+
+  const result: SessionTreeNode[] = [];
+  const visit = (session: ChatSession, depth: number) => {
+    result.push({ session, depth });
+    (childrenByParent.get(session.id) || []).forEach(child => visit(child, depth + 1));
+  };
+  roots.forEach(root => visit(root, 0));
+  return result;
+};
@@ -0,0 +1,36 @@
+import { ChatMessage, MessagePurpose, NotepadHistoryState, NotepadVersion } from '../types';
+import { getNotepadVersionsBefore } from './sessionBranching';
+
+export interface ReplayStep {
+  message: ChatMessage;
+  messageIndex: number;          // 在会话消息中的位置
+  notepadVersion: NotepadVersion | null; // 该消息之后（下一条消息之前）的记事本版本；历史中已无记录时为 null
+  previousNotepadContent: string | null; // 上一步的记事本内容，用于显示差异
+  notepadChanged: boolean;
+}
+
+/**
+ * 将会话拆分为回放步骤：每条消息一步（不含系统通知），并配上当时的记事本版本
+ */
+export const buildReplaySteps = (messages: ChatMessage[], history: NotepadHistoryState): ReplayStep[] => {
+  const steps: ReplayStep[] = [];
+  let previousVersion: NotepadVersion | null = null;
+
+  messages.forEach((message, messageIndex) => {
+    if (message.purpose === MessagePurpose.SystemNotification) return;
+    const nextMessage = messages[messageIndex + 1];
+    const versions = nextMessage ? getNotepadVersionsBefore(history, nextMessage.timestamp) : history.versions;
+    const notepadVersion = versions[versions.length - 1] || null;
+
+    steps.push({
+      message,
+      messageIndex,
+      notepadVersion,
+      previousNotepadContent: previousVersion ? previousVersion.content : null,
+      notepadChanged: !!notepadVersion && notepadVersion.id !== previousVersion?.id && previousVersion !== null,
+    });
+    previousVersion = notepadVersion;
+  });
+
+  return steps;
+};
@@ -0,0 +1,158 @@
+import { FinalAnswerFormatSettings, JsonSchema, JsonSchemaType, StructuredOutputSpec } from '../types';
+import { STRUCTURED_ANSWER_TEMPLATES } from '../constants';
+
+/**
+ * 解析用户输入的 JSON Schema 文本，失败时返回错误信息
+ */
+export const parseJsonSchemaText = (text: string): { schema?: JsonSchema; error?: string } => {
+  if (!text.trim()) return { error: 'JSON Schema 不能为空' };
+  try {
+    const schema = JSON.parse(text);
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      return { error: 'JSON Schema 必须是一个对象' };
+    }
+    return { schema };
+  } catch (error) {
+    return { error: `JSON Schema 解析失败: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+/**
+ * 根据最终答案格式设置确定结构化输出要求；Markdown 模式返回 null
+ */
+export const resolveStructuredOutputSpec = (settings: FinalAnswerFormatSettings): { spec: StructuredOutputSpec | null; error?: string } => {
+  if (settings.mode === 'template') {
+    const template = STRUCTURED_ANSWER_TEMPLATES.find(t => t.id === settings.templateId);
+    if (!template) return { spec: null, error: `未找到最终答案模板: ${settings.templateId}` };
+    return { spec: { name: template.name, schema: template.schema } };
+  }
+  if (settings.mode === 'custom-schema') {
+    const { schema, error } = parseJsonSchemaText(settings.customSchema);
+    if (!schema) return { spec: null, error };
+    return { spec: { name: schema.title || '自定义 JSON Schema', schema } };
+  }
+  return { spec: null };
+};
+
+const typeOfValue = (value: unknown): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: unknown, type: JsonSchemaType): boolean => {
+  const actual = typeOfValue(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+/**
+ * 按 JSON Schema 子集校验数据，返回带路径的错误列表（为空表示通过）
+ */
+export const validateAgainstSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: 应为 ${types.join(' | ')}，实际为 ${typeOfValue(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: 取值必须是 ${schema.enum.map(option => JSON.stringify(option)).join('、')} 之一`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: 长度不能少于 ${schema.minLength}`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: 长度不能超过 ${schema.maxLength}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: 不能小于 ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: 不能大于 ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: 至少需要 ${schema.minItems} 项`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: 最多 ${schema.maxItems} 项`);
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    (schema.required || []).forEach(key => {
+      if (!(key in record)) errors.push(`${path}: 缺少必填字段 "${key}"`);
+    });
+    Object.entries(record).forEach(([key, child]) => {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        errors.push(...validateAgainstSchema(child, childSchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: 不允许的字段 "${key}"`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * 从模型输出中提取 JSON：兼容 ```json 代码块以及前后夹带说明文字的情况
+ */
+export const extractJsonFromText = (text: string): { value?: unknown; error?: string } => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  try {
+    return { value: JSON.parse(candidate) };
+  } catch {
+    const start = candidate.search(/[{[]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      try {
+        return { value: JSON.parse(candidate.slice(start, end + 1)) };
+      } catch (error) {
+        return { error: `JSON 解析失败: ${error instanceof Error ? error.message : String(error)}` };
+      }
+    }
+    return { error: '输出中未找到 JSON' };
+  }
+};
+
+/**
+ * 提取并校验模型输出的结构化答案
+ */
+export const validateStructuredAnswerText = (text: string, schema: JsonSchema): { value?: unknown; errors: string[] } => {
+  const { value, error } = extractJsonFromText(text);
+  if (error) return { errors: [error] };
+  return { value, errors: validateAgainstSchema(value, schema) };
+};
+
+export const buildStructuredAnswerInstructions = (spec: StructuredOutputSpec): string => `**输出格式要求:**
+最终答案必须是一个符合以下 JSON Schema（「${spec.name}」）的 JSON 值，所有文本字段使用中文。
+只输出 JSON 本身，不要输出代码块标记、解释文字或记事本标签。
+\`\`\`json
+${JSON.stringify(spec.schema, null, 2)}
+\`\`\``;
+
+export const buildStructuredAnswerRepairPrompt = (spec: StructuredOutputSpec, previousOutput: string, errors: string[]): string => `你上一次输出的最终答案没有通过 JSON Schema 校验。
+
+**上一次的输出:**
+${previousOutput}
+
+**校验错误:**
+${errors.map(error => `- ${error}`).join('\n')}
+
+请修复以上问题，保持答案内容不变，重新输出完整的 JSON。
+${buildStructuredAnswerInstructions(spec)}`;
+
+/**
+ * 结构化答案写入记事本时使用的 Markdown
+ */
+export const formatStructuredAnswerForNotepad = (schemaName: string, data: unknown, valid: boolean): string =>
+  `## 最终答案（${schemaName}）\n\n${valid ? '' : '> 未通过格式校验，以下为模型的原始输出。\n\n'}\`\`\`json\n${typeof data === 'string' ? data : JSON.stringify(data, null, 2)}\n\`\`\``;
@@ -0,0 +1,69 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// 超过此规模（行数乘积）时不计算最长公共子序列，直接视为整体替换
+const MAX_DIFF_CELLS = 4000000;
+
+/**
+ * 按行比较两段文本（最长公共子序列），返回带增删标记的行列表
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const oldLines = before.split('\n');
+  const newLines = after.split('\n');
+
+  // 去掉首尾相同的行，缩小需要比较的范围
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const same = (lines: string[]): DiffLine[] => lines.map(text => ({ type: 'same', text }));
+  const head = same(oldLines.slice(0, prefix));
+  const tail = same(oldLines.slice(oldLines.length - suffix));
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...oldMiddle.map(text => ({ type: 'removed' as const, text })),
+      ...newMiddle.map(text => ({ type: 'added' as const, text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j]: oldMiddle[i..] 与 newMiddle[j..] 的最长公共子序列长度
+  const rows = oldMiddle.length;
+  const cols = newMiddle.length;
+  const lcs: Uint32Array[] = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = oldMiddle[i] === newMiddle[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      middle.push({ type: 'same', text: oldMiddle[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: 'removed', text: oldMiddle[i++] });
+    } else {
+      middle.push({ type: 'added', text: newMiddle[j++] });
+    }
+  }
+  while (i < rows) middle.push({ type: 'removed', text: oldMiddle[i++] });
+  while (j < cols) middle.push({ type: 'added', text: newMiddle[j++] });
+
+  return [...head, ...middle, ...tail];
+};